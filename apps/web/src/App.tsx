@@ -48,6 +48,7 @@ import { AppSettingsProvider, useAppSettings } from './contexts/AppSettingsConte
 
 // Import FontSizeSelector component
 import FontSizeSelector from './components/global/FontSizeSelector';
+import GlossLanguageSelector from './components/global/GlossLanguageSelector';
 
 // Import icons for better navigation
 import WidgetsIcon from '@mui/icons-material/Widgets';
@@ -425,6 +426,9 @@ function AppContent() {
           
           {/* Selector de tamaño de fuente */}
           <FontSizeSelector />
+          
+          {/* Selector del idioma de las traducciones */}
+          <GlossLanguageSelector />
         </Box>
       </Drawer>
       
@@ -0,0 +1,460 @@
+/**
+ * ADJECTIVE AGREEMENT DRILL CARD COMPONENT
+ * 
+ * Ejercicio de concordancia: se muestra un sustantivo en un caso y número
+ * (ej: "bellum", nominativo singular) y un adjetivo en su enunciado
+ * (magnus, magna, magnum). El usuario escribe la forma del adjetivo que
+ * concuerda con el sustantivo: "magnum".
+ * 
+ * CONCORDANCIA:
+ * El adjetivo toma el GÉNERO, el NÚMERO y el CASO del sustantivo, no su
+ * terminación: agricola es masculino, así que es "agricola bonus".
+ * Si la respuesta es una forma del adjetivo pero no concuerda, el
+ * feedback explica en qué falla (género, número o caso).
+ * 
+ * AMBIGÜEDAD:
+ * "templa" es nominativo Y acusativo plural: se acepta el adjetivo que
+ * concuerde con cualquiera de las lecturas de la forma del sustantivo.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Composition Pattern: Usa BaseDrillCard para comportamiento común
+ * - Lógica en el paquete de datos: checkAgreement califica y explica
+ * - Estado derivado: el feedback se calcula a partir del resultado
+ */
+
+import React, { useState, useEffect, useRef } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Divider,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import BaseDrillCard from './BaseDrillCard';
+import type { LatinWord } from '../global/WordCard';
+import type {
+  AgreementCheck,
+  AgreementTarget,
+  GrammaticalNumber,
+  LatinAdjective,
+  LatinCase,
+  NormalizedLatinWord
+} from '@latin-app/types';
+// Paradigmas y corrección de concordancia del paquete de datos
+import {
+  vocabularyService,
+  DECLINED_CASES,
+  checkAgreement,
+  getTranslation,
+  isAdjective,
+  isNoun
+} from '@latin-app/data';
+import { getDisplayForms, getEnunciation, normalizeForSearch } from '@latin-app/shared';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+// Usar los colores centralizados de la aplicación
+import { getDeclensionColor } from '../../features/study-session/constants/colors';
+import {
+  CASE_LABELS,
+  GENDER_LABELS,
+  NUMBER_LABELS,
+  getAnalysisLabel
+} from '../../features/study-session/constants/cases';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface AdjectiveAgreementDrillCardProps {
+  currentWord: LatinWord;                    // Sustantivo del ejercicio
+  adjectiveIds?: string[];                   // Adjetivos a practicar (vacío = todos)
+  onAnswer: (isCorrect: boolean) => void;    // Callback cuando el usuario responde
+  showLabels?: boolean;                      // Mostrar etiquetas de ayuda
+  compact?: boolean;                         // Versión compacta para pantallas pequeñas
+  hideHeader?: boolean;                      // Ocultar encabezado para ahorrar espacio
+}
+
+/**
+ * PREGUNTA DEL EJERCICIO
+ * La forma del sustantivo, sus lecturas y el adjetivo a concordar
+ */
+interface AgreementQuestion {
+  noun: NormalizedLatinWord;    // Sustantivo (con género tipado)
+  nounForm: string;             // Forma que se muestra (ej: "bellum")
+  target: AgreementTarget;      // Lectura que se pide (la que se muestra)
+  targets: AgreementTarget[];   // Todas las lecturas válidas de la forma
+  adjective: LatinAdjective;    // Adjetivo a concordar
+}
+
+// Casos que se preguntan: el vocativo casi nunca lleva adjetivo en clase
+const AGREEMENT_CASES = DECLINED_CASES.filter(grammaticalCase => grammaticalCase !== 'vocative');
+
+/**
+ * Función helper: Elegir un elemento aleatorio de una lista
+ */
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Función helper: Crear una pregunta aleatoria
+ * 
+ * @param wordId - ID del sustantivo
+ * @param adjectiveIds - Adjetivos seleccionados (si no hay, se usan todos)
+ * @returns La pregunta, o null si no hay adjetivos o el sustantivo no tiene paradigma
+ */
+const pickQuestion = (wordId: string, adjectiveIds: string[]): AgreementQuestion | null => {
+  const noun = vocabularyService.getWordById(wordId);
+  const paradigm = vocabularyService.getParadigm(wordId);
+  if (!noun || !isNoun(noun) || !paradigm) {
+    return null;
+  }
+
+  // Adjetivos seleccionados en la sesión, o todos los del vocabulario
+  const selectedAdjectives = vocabularyService.getWordsByIds(adjectiveIds).filter(isAdjective);
+  const adjectives = selectedAdjectives.length > 0 ? selectedAdjectives : vocabularyService.getAdjectives();
+  if (adjectives.length === 0) {
+    return null;
+  }
+
+  // Todas las formas disponibles (los pluralia tantum no tienen singular)
+  const readings: { form: string; target: AgreementTarget }[] = [];
+  (['singular', 'plural'] as GrammaticalNumber[]).forEach(number => {
+    AGREEMENT_CASES.forEach(grammaticalCase => {
+      const form = paradigm[number]?.[grammaticalCase];
+      if (form) {
+        readings.push({ form, target: { gender: noun.gender, number, case: grammaticalCase } });
+      }
+    });
+  });
+
+  if (readings.length === 0) {
+    return null;
+  }
+
+  const { form, target } = pickRandom(readings);
+  return {
+    noun,
+    nounForm: form,
+    target,
+    // Las otras lecturas de la misma forma también valen (templa: nom. y ac. pl.)
+    targets: readings
+      .filter(reading => normalizeForSearch(reading.form) === normalizeForSearch(form))
+      .map(reading => reading.target),
+    adjective: pickRandom(adjectives)
+  };
+};
+
+/**
+ * Función helper: Nombre del género del sustantivo (en minúsculas)
+ */
+const getNounGenderLabel = (gender: AgreementTarget['gender']): string =>
+  gender === 'common'
+    ? 'común (masculino o femenino)'
+    : GENDER_LABELS[gender].label.toLowerCase();
+
+/**
+ * Función helper: Explicar en qué falla la concordancia
+ * 
+ * @param answer - Lo que escribió el usuario
+ * @param question - La pregunta
+ * @param check - El resultado de checkAgreement
+ * @returns Una frase por cada rasgo que no concuerda
+ */
+const explainMismatches = (answer: string, question: AgreementQuestion, check: AgreementCheck): string[] => {
+  const { closestReading: reading, closestTarget: target } = check;
+  if (!reading || !target) {
+    return [];
+  }
+
+  const numberLabel = (number: GrammaticalNumber) => NUMBER_LABELS[number].label.toLowerCase();
+  const caseLabel = (grammaticalCase: LatinCase) => CASE_LABELS[grammaticalCase].label.toLowerCase();
+
+  return check.mismatches.map(feature => {
+    switch (feature) {
+      case 'gender':
+        return `Género: "${answer}" es ${GENDER_LABELS[reading.gender].label.toLowerCase()}, ` +
+          `pero ${question.noun.nominative.toLowerCase()} es ${getNounGenderLabel(target.gender)}.`;
+      case 'number':
+        return `Número: "${answer}" está en ${numberLabel(reading.number)}, ` +
+          `pero "${question.nounForm}" está en ${numberLabel(target.number)}.`;
+      case 'case':
+        return `Caso: "${answer}" está en ${caseLabel(reading.case)}, ` +
+          `pero "${question.nounForm}" está en ${caseLabel(target.case)}.`;
+    }
+  });
+};
+
+/**
+ * COMPONENTE INTERNO DE EJERCICIO
+ * Separamos la lógica del ejercicio para pasarla a BaseDrillCard
+ */
+const AdjectiveAgreementExercise: React.FC<{
+  question: AgreementQuestion;
+  showLabels: boolean;
+  hasAnswered: boolean;
+  isCorrect: boolean;
+  onSubmit: (answer: string) => void;
+}> = ({ question, showLabels, hasAnswered, isCorrect, onSubmit }) => {
+  const theme = useTheme();
+  const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const nounForms = getDisplayForms(question.noun);
+  const { glossLanguage } = useAppSettings();
+
+  // Estado del formulario
+  const [answer, setAnswer] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * RESETEAR FORMULARIO cuando cambia la pregunta
+   */
+  useEffect(() => {
+    setAnswer('');
+    inputRef.current?.focus();
+  }, [question]);
+
+  /**
+   * MANEJAR ENVÍO
+   */
+  const handleSubmit = () => {
+    if (!answer.trim()) {
+      return;
+    }
+    onSubmit(answer.trim());
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && !hasAnswered) {
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: { xs: 1.5, sm: 2, md: 2.5 },
+      height: '100%',
+      overflow: 'hidden'  // Prevenir scroll
+    }}>
+      {/* PREGUNTA - Forma del sustantivo */}
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography
+          variant={isMdUp ? 'h3' : 'h4'}
+          sx={{ color: getDeclensionColor(question.noun.declension), fontWeight: 'bold', mb: 0.5 }}
+          data-testid="agreement-noun-form"
+        >
+          {question.nounForm} + ?
+        </Typography>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'medium' }} data-testid="agreement-target-label">
+          {getAnalysisLabel({ case: question.target.case, number: question.target.number })}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            de {nounForms.nominative}, {nounForms.genitive} ({getTranslation(question.noun, glossLanguage)})
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+
+      {/* ADJETIVO A CONCORDAR */}
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography variant="subtitle2" sx={{ color: 'text.secondary' }}>
+          Adjetivo:
+        </Typography>
+        <Typography
+          variant={isMdUp ? 'h5' : 'h6'}
+          sx={{ fontWeight: 'bold', color: getDeclensionColor(question.adjective.declension) }}
+          data-testid="agreement-adjective"
+        >
+          {getEnunciation(question.adjective)}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            {getTranslation(question.adjective, glossLanguage)}
+          </Typography>
+        )}
+      </Box>
+
+      {/* RESPUESTA */}
+      <TextField
+        inputRef={inputRef}
+        label="Forma del adjetivo"
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        onKeyPress={handleKeyPress}
+        disabled={hasAnswered}
+        fullWidth
+        variant="outlined"
+        error={hasAnswered && !isCorrect}
+        helperText={
+          showLabels && !hasAnswered
+            ? 'Mismo género, número y caso que el sustantivo'
+            : ''
+        }
+        sx={{
+          flexShrink: 0,
+          '& .MuiInputBase-input': {
+            fontSize: { xs: '1rem', md: '1.1rem' }
+          }
+        }}
+        inputProps={{
+          'data-testid': 'input-agreement-answer'
+        }}
+      />
+
+      {/* BOTÓN DE ENVIAR */}
+      {!hasAnswered && (
+        <Box sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          flexShrink: 0,
+          mt: 'auto'  // Empujar hacia abajo usando margin-top auto
+        }}>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={handleSubmit}
+            disabled={!answer.trim()}
+            sx={{
+              px: 4,
+              py: 1.5,
+              fontSize: { xs: '1rem', md: '1.1rem' }
+            }}
+            data-testid="button-submit-answer"
+          >
+            Verificar Respuesta
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * ADJECTIVE AGREEMENT DRILL CARD COMPONENT
+ * 
+ * Componente principal que usa BaseDrillCard para el contenedor
+ * y maneja el estado general del ejercicio
+ */
+const AdjectiveAgreementDrillCard: React.FC<AdjectiveAgreementDrillCardProps> = ({
+  currentWord,
+  adjectiveIds = [],
+  onAnswer,
+  showLabels = true,
+  compact = false,
+  hideHeader = false
+}) => {
+  const [question, setQuestion] = useState<AgreementQuestion | null>(null);
+  const [answer, setAnswer] = useState('');
+  const [check, setCheck] = useState<AgreementCheck | null>(null);
+
+  // La lista de adjetivos como texto, para que el efecto no dependa
+  // de la identidad del array (el padre lo crea en cada render)
+  const adjectiveKey = adjectiveIds.join(',');
+
+  /**
+   * NUEVA PREGUNTA cuando cambia la palabra
+   */
+  useEffect(() => {
+    setQuestion(pickQuestion(currentWord.id, adjectiveKey ? adjectiveKey.split(',') : []));
+    setAnswer('');
+    setCheck(null);
+  }, [currentWord.id, adjectiveKey]);
+
+  const hasAnswered = check !== null;
+  const isCorrect = check?.correct ?? false;
+
+  /**
+   * MANEJAR RESPUESTA
+   * Correcta si concuerda con CUALQUIERA de las lecturas del sustantivo
+   */
+  const handleSubmit = (userAnswer: string) => {
+    if (!question) {
+      return;
+    }
+
+    const result = checkAgreement(userAnswer, question.adjective, question.targets);
+
+    setAnswer(userAnswer);
+    setCheck(result);
+    onAnswer(result.correct);
+  };
+
+  // Explicación de los errores (estado derivado, no necesita useState)
+  const explanations = question && check ? explainMismatches(answer, question, check) : [];
+
+  return (
+    <BaseDrillCard
+      title="Concordancia"
+      subtitle="Escribe el adjetivo que concuerda con el sustantivo"
+      isAnswered={hasAnswered}
+      isCorrect={isCorrect}
+      compact={compact}
+      hideHeader={hideHeader}
+      maxWidth={{ xs: '100%', md: 600, lg: 700 }}
+
+      // Contenido específico del ejercicio
+      exerciseContent={
+        question ? (
+          <AdjectiveAgreementExercise
+            question={question}
+            showLabels={showLabels}
+            hasAnswered={hasAnswered}
+            isCorrect={isCorrect}
+            onSubmit={handleSubmit}
+          />
+        ) : (
+          // Sin adjetivos en el vocabulario, o datos incompletos del sustantivo
+          <Alert severity="warning">
+            No se puede crear un ejercicio de concordancia con {currentWord.nominative}. Salta este ejercicio.
+          </Alert>
+        )
+      }
+
+      // Feedback: la forma correcta y en qué falla la respuesta
+      feedbackContent={
+        hasAnswered && question && check && (
+          <Alert
+            severity={isCorrect ? 'success' : 'error'}
+            sx={{ textAlign: 'left' }}
+          >
+            <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+              {isCorrect ? '¡Correcto!' : 'Respuesta incorrecta.'}
+              {' '}
+              <strong>{question.nounForm} {check.expectedForms.join(' / ')}</strong>
+            </Typography>
+            {!isCorrect && check.answerReadings.length === 0 && (
+              <Typography variant="body2">
+                "{answer}" no es una forma de {question.adjective.nominative.toLowerCase()}.
+              </Typography>
+            )}
+            {explanations.map(explanation => (
+              <Typography key={explanation} variant="body2" data-testid="agreement-mismatch">
+                {explanation}
+              </Typography>
+            ))}
+          </Alert>
+        )
+      }
+    />
+  );
+};
+
+export default AdjectiveAgreementDrillCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. CONCORDANCIA:
+ *    - El adjetivo copia género, número y caso del sustantivo
+ *    - No copia la terminación: agricola bonus, nauta bonus
+ * 
+ * 2. RESPUESTAS AMBIGUAS:
+ *    - Una forma del sustantivo puede tener varias lecturas
+ *    - checkAgreement acepta el adjetivo de cualquiera de ellas
+ * 
+ * 3. FEEDBACK EXPLICATIVO:
+ *    - La lógica de corrección vive en el paquete de datos
+ *    - El componente solo traduce los rasgos que fallan a frases en español
+ */
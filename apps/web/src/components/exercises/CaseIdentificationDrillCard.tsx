@@ -0,0 +1,401 @@
+/**
+ * CASE IDENTIFICATION DRILL CARD COMPONENT
+ * 
+ * Ejercicio inverso a la tabla de declinación: se muestra una forma
+ * declinada (ej: "rosae") y el usuario debe identificar su caso y número.
+ * 
+ * AMBIGÜEDAD:
+ * Muchas formas latinas tienen varias lecturas válidas.
+ * "rosae" es genitivo singular, dativo singular Y nominativo plural.
+ * El analizador del paquete de datos (analyzeForm) encuentra todas las
+ * lecturas, y cualquiera de ellas se acepta como correcta.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Reverse Lookup: De la forma a la palabra (el inverso del paradigma)
+ * - ToggleButtonGroup: Selección exclusiva de caso y número
+ * - Composition Pattern: Usa BaseDrillCard para comportamiento común
+ */
+
+import React, { useState, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  ToggleButtonGroup,
+  ToggleButton,
+  Button,
+  Alert,
+  Divider,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import BaseDrillCard from './BaseDrillCard';
+import type { LatinWord } from '../global/WordCard';
+import type { FormAnalysis, GrammaticalNumber, LatinCase } from '@latin-app/types';
+// Paradigmas y analizador de formas del paquete de datos
+import { vocabularyService, DECLINED_CASES, getTranslation, isValidAnalysis } from '@latin-app/data';
+import { getDisplayForms } from '@latin-app/shared';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+// Usar los colores centralizados de la aplicación
+import { getDeclensionColor } from '../../features/study-session/constants/colors';
+import { CASE_LABELS, NUMBER_LABELS, getAnalysisLabel } from '../../features/study-session/constants/cases';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface CaseIdentificationDrillCardProps {
+  currentWord: LatinWord;                    // Palabra actual del ejercicio
+  onAnswer: (isCorrect: boolean) => void;    // Callback cuando el usuario responde
+  showLabels?: boolean;                      // Mostrar etiquetas de ayuda
+  compact?: boolean;                         // Versión compacta para pantallas pequeñas
+  hideHeader?: boolean;                      // Ocultar encabezado para ahorrar espacio
+}
+
+/**
+ * PREGUNTA DEL EJERCICIO
+ * La forma que se muestra y todas sus lecturas válidas
+ */
+interface CaseQuestion {
+  form: string;                 // Forma declinada (ej: "rosae")
+  analyses: FormAnalysis[];     // Todas las lecturas válidas
+}
+
+/**
+ * Función helper: Elegir una forma aleatoria del paradigma de la palabra
+ * 
+ * @param wordId - ID de la palabra
+ * @returns La pregunta, o null si la palabra no tiene paradigma
+ */
+const pickRandomForm = (wordId: string): CaseQuestion | null => {
+  const paradigm = vocabularyService.getParadigm(wordId);
+  if (!paradigm) {
+    return null;
+  }
+
+  // Todas las formas disponibles (los pluralia tantum no tienen singular)
+  const candidates: string[] = [];
+  (['singular', 'plural'] as GrammaticalNumber[]).forEach(number => {
+    DECLINED_CASES.forEach(grammaticalCase => {
+      const form = paradigm[number]?.[grammaticalCase];
+      if (form) {
+        candidates.push(form);
+      }
+    });
+  });
+
+  if (candidates.length === 0) {
+    return null;
+  }
+
+  const form = candidates[Math.floor(Math.random() * candidates.length)];
+  return {
+    form,
+    // El analizador busca en TODO el vocabulario: si la forma coincide
+    // con la de otra palabra, esa lectura también es válida
+    analyses: vocabularyService.analyzeForm(form)
+  };
+};
+
+/**
+ * COMPONENTE INTERNO DE EJERCICIO
+ * Separamos la lógica del ejercicio para pasarla a BaseDrillCard
+ */
+const CaseIdentificationExercise: React.FC<{
+  currentWord: LatinWord;
+  question: CaseQuestion;
+  showLabels: boolean;
+  hasAnswered: boolean;
+  onSubmit: (grammaticalCase: LatinCase, number: GrammaticalNumber) => void;
+}> = ({ currentWord, question, showLabels, hasAnswered, onSubmit }) => {
+  const theme = useTheme();
+  const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const declensionColor = getDeclensionColor(currentWord.declension);
+  const forms = getDisplayForms(currentWord);
+  const { glossLanguage } = useAppSettings();
+
+  // Estados del formulario
+  const [selectedCase, setSelectedCase] = useState<LatinCase | ''>('');
+  const [selectedNumber, setSelectedNumber] = useState<GrammaticalNumber | ''>('');
+
+  /**
+   * RESETEAR FORMULARIO cuando cambia la pregunta
+   */
+  useEffect(() => {
+    setSelectedCase('');
+    setSelectedNumber('');
+  }, [question]);
+
+  const isFormComplete = selectedCase !== '' && selectedNumber !== '';
+
+  /**
+   * MANEJAR ENVÍO
+   */
+  const handleSubmit = () => {
+    if (selectedCase === '' || selectedNumber === '') {
+      return;
+    }
+    onSubmit(selectedCase, selectedNumber);
+  };
+
+  /**
+   * Color de un botón después de responder:
+   * - Verde si la opción forma parte de alguna lectura válida
+   * - Rojo si el usuario la eligió y no es válida
+   */
+  const getCaseButtonColor = (grammaticalCase: LatinCase) => {
+    if (!hasAnswered || selectedCase !== grammaticalCase) {
+      return undefined;
+    }
+    return question.analyses.some(a => a.case === grammaticalCase) ? 'success.main' : 'error.main';
+  };
+
+  const getNumberButtonColor = (number: GrammaticalNumber) => {
+    if (!hasAnswered || selectedNumber !== number) {
+      return undefined;
+    }
+    return question.analyses.some(a => a.number === number) ? 'success.main' : 'error.main';
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: { xs: 1.5, sm: 2, md: 2.5 },
+      height: '100%',
+      overflow: 'hidden'  // Prevenir scroll
+    }}>
+      {/* PREGUNTA - Forma declinada */}
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography
+          variant={isMdUp ? 'h3' : 'h4'}
+          sx={{ color: declensionColor, fontWeight: 'bold', mb: 0.5 }}
+          data-testid="case-question-form"
+        >
+          {question.form}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            de {forms.nominative}, {forms.genitive} ({getTranslation(currentWord, glossLanguage)})
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+
+      {/* SELECCIÓN DE CASO */}
+      <Box sx={{ flexShrink: 0 }}>
+        <Typography variant="subtitle2" sx={{ mb: 1, color: 'text.secondary' }}>
+          Caso:
+        </Typography>
+        <ToggleButtonGroup
+          value={selectedCase}
+          exclusive
+          onChange={(_, value) => value && setSelectedCase(value)}
+          aria-label="caso"
+          fullWidth
+          size={isMdUp ? 'medium' : 'small'}
+          disabled={hasAnswered}
+          sx={{
+            flexWrap: { xs: 'wrap', md: 'nowrap' },
+            '& .MuiToggleButton-root': { flex: { xs: '1 0 30%', md: 1 }, minWidth: 0, px: 1 }
+          }}
+        >
+          {DECLINED_CASES.map(grammaticalCase => (
+            <ToggleButton
+              key={grammaticalCase}
+              value={grammaticalCase}
+              data-testid={`button-case-${grammaticalCase}`}
+              sx={{ color: getCaseButtonColor(grammaticalCase) }}
+            >
+              {isMdUp ? CASE_LABELS[grammaticalCase].label : CASE_LABELS[grammaticalCase].shortLabel}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {/* SELECCIÓN DE NÚMERO */}
+      <Box sx={{ flexShrink: 0 }}>
+        <Typography variant="subtitle2" sx={{ mb: 1, color: 'text.secondary' }}>
+          Número:
+        </Typography>
+        <ToggleButtonGroup
+          value={selectedNumber}
+          exclusive
+          onChange={(_, value) => value && setSelectedNumber(value)}
+          aria-label="número"
+          fullWidth
+          size={isMdUp ? 'medium' : 'small'}
+          disabled={hasAnswered}
+        >
+          {(['singular', 'plural'] as GrammaticalNumber[]).map(number => (
+            <ToggleButton
+              key={number}
+              value={number}
+              data-testid={`button-number-${number}`}
+              sx={{ flex: 1, color: getNumberButtonColor(number) }}
+            >
+              {NUMBER_LABELS[number].label}
+            </ToggleButton>
+          ))}
+        </ToggleButtonGroup>
+      </Box>
+
+      {/* BOTÓN DE ENVIAR */}
+      {!hasAnswered && (
+        <Box sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          flexShrink: 0,
+          mt: 'auto'  // Empujar hacia abajo usando margin-top auto
+        }}>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={handleSubmit}
+            disabled={!isFormComplete}
+            sx={{
+              px: 4,
+              py: 1.5,
+              fontSize: { xs: '1rem', md: '1.1rem' }
+            }}
+            data-testid="button-submit-answer"
+          >
+            Verificar Respuesta
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * CASE IDENTIFICATION DRILL CARD COMPONENT
+ * 
+ * Componente principal que usa BaseDrillCard para el contenedor
+ * y maneja el estado general del ejercicio
+ */
+const CaseIdentificationDrillCard: React.FC<CaseIdentificationDrillCardProps> = ({
+  currentWord,
+  onAnswer,
+  showLabels = true,
+  compact = false,
+  hideHeader = false
+}) => {
+  const [question, setQuestion] = useState<CaseQuestion | null>(null);
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [isCorrect, setIsCorrect] = useState(false);
+
+  /**
+   * NUEVA PREGUNTA cuando cambia la palabra
+   */
+  useEffect(() => {
+    setQuestion(pickRandomForm(currentWord.id));
+    setHasAnswered(false);
+    setIsCorrect(false);
+  }, [currentWord.id]);
+
+  /**
+   * MANEJAR RESPUESTA
+   * Correcta si coincide con CUALQUIERA de las lecturas válidas
+   */
+  const handleSubmit = (grammaticalCase: LatinCase, number: GrammaticalNumber) => {
+    if (!question) {
+      return;
+    }
+
+    const correct = isValidAnalysis(question.analyses, grammaticalCase, number);
+
+    setIsCorrect(correct);
+    setHasAnswered(true);
+    onAnswer(correct);
+  };
+
+  /**
+   * Lecturas válidas sin repetir caso + número
+   * (dos palabras distintas pueden compartir la misma lectura)
+   */
+  const uniqueReadings = question
+    ? question.analyses.filter((analysis, index, all) =>
+        all.findIndex(a => a.case === analysis.case && a.number === analysis.number) === index
+      )
+    : [];
+
+  // Lecturas que pertenecen a OTRAS palabras (ej: una forma compartida)
+  const otherWords = question
+    ? [...new Set(question.analyses
+        .filter(a => a.wordId !== currentWord.id)
+        .map(a => a.nominative))]
+    : [];
+
+  return (
+    <BaseDrillCard
+      title="Identificar Caso y Número"
+      subtitle="¿En qué caso y número está esta forma?"
+      isAnswered={hasAnswered}
+      isCorrect={isCorrect}
+      compact={compact}
+      hideHeader={hideHeader}
+      maxWidth={{ xs: '100%', md: 600, lg: 700 }}
+
+      // Contenido específico del ejercicio
+      exerciseContent={
+        question ? (
+          <CaseIdentificationExercise
+            currentWord={currentWord}
+            question={question}
+            showLabels={showLabels}
+            hasAnswered={hasAnswered}
+            onSubmit={handleSubmit}
+          />
+        ) : (
+          // Datos incompletos: el genitivo no coincide con la declinación
+          <Alert severity="warning">
+            No se pueden generar formas de {currentWord.nominative}. Salta este ejercicio.
+          </Alert>
+        )
+      }
+
+      // Feedback: mostrar TODAS las lecturas válidas
+      feedbackContent={
+        hasAnswered && question && (
+          <Alert
+            severity={isCorrect ? 'success' : 'error'}
+            sx={{ textAlign: 'left' }}
+          >
+            <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+              {isCorrect ? '¡Correcto!' : 'Respuesta incorrecta.'}
+              {uniqueReadings.length > 1 && ' Esta forma tiene varias lecturas válidas:'}
+            </Typography>
+            <Typography variant="body2">
+              <strong>{question.form}</strong>
+              {' = '}
+              {uniqueReadings.map(a => getAnalysisLabel(a)).join(' • ')}
+            </Typography>
+            {otherWords.length > 0 && (
+              <Typography variant="caption" sx={{ display: 'block', mt: 0.5 }}>
+                También es una forma de: {otherWords.join(', ')}
+              </Typography>
+            )}
+          </Alert>
+        )
+      }
+    />
+  );
+};
+
+export default CaseIdentificationDrillCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. BÚSQUEDA INVERSA:
+ *    - El paradigma va de la palabra a las formas
+ *    - analyzeForm va de la forma a todas sus lecturas
+ * 
+ * 2. RESPUESTAS AMBIGUAS:
+ *    - Una forma puede tener varias respuestas correctas
+ *    - isValidAnalysis acepta cualquiera de ellas
+ * 
+ * 3. ESTADO DERIVADO:
+ *    - uniqueReadings y otherWords se calculan en cada render
+ *    - No necesitan su propio useState
+ */
@@ -0,0 +1,425 @@
+/**
+ * DECLENSION TABLE DRILL CARD COMPONENT
+ * 
+ * Ejercicio "completar el paradigma": se muestra el nominativo y el genitivo
+ * de una palabra y el usuario debe escribir la tabla completa de casos
+ * en singular y plural - exactamente lo que los estudiantes hacen en papel.
+ * 
+ * La corrección es POR CASILLA: cada forma se compara por separado con la
+ * forma generada por el paquete de datos (generateNounParadigm).
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Controlled Components: Todas las casillas están controladas por un solo estado
+ * - CSS Grid: La tabla se dibuja con grid para alinear filas y columnas
+ * - Tab Navigation: El orden del DOM es por columnas (todo el singular, luego el plural)
+ * - Composition Pattern: Usa BaseDrillCard para comportamiento común
+ */
+
+import React, { useState, useRef, useEffect, useMemo } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Divider,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import BaseDrillCard from './BaseDrillCard';
+import type { LatinWord } from '../global/WordCard';
+import type { GrammaticalNumber, NounParadigm } from '@latin-app/types';
+// Generador de paradigmas del paquete de datos (incluye los sustantivos irregulares)
+import { vocabularyService, DECLINED_CASES, getTranslation } from '@latin-app/data';
+// Usar las funciones de comparación centralizadas que manejan macrones (ō→o)
+import { compareStrings, getDisplayForms } from '@latin-app/shared';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+// Usar los colores centralizados de la aplicación
+import { getDeclensionColor, DECLENSION_INFO } from '../../features/study-session/constants/colors';
+import { CASE_LABELS, NUMBER_LABELS } from '../../features/study-session/constants/cases';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface DeclensionTableDrillCardProps {
+  currentWord: LatinWord;                    // Palabra actual del ejercicio
+  onAnswer: (isCorrect: boolean) => void;    // Callback cuando el usuario responde
+  showLabels?: boolean;                      // Mostrar etiquetas de ayuda
+  compact?: boolean;                         // Versión compacta para pantallas pequeñas
+  hideHeader?: boolean;                      // Ocultar encabezado para ahorrar espacio
+}
+
+/**
+ * TIPO DE LAS RESPUESTAS
+ * Una clave por casilla: "singular.dative", "plural.ablative"...
+ * Record<K, V> es como un Map<K, V> de Java
+ */
+type TableAnswers = Record<string, string>;
+
+/**
+ * Función helper para construir la clave de una casilla
+ */
+const cellKey = (number: GrammaticalNumber, grammaticalCase: string) => `${number}.${grammaticalCase}`;
+
+/**
+ * Función helper: ¿Qué casillas se muestran ya rellenas?
+ * Son las formas del diccionario: nominativo y genitivo del primer número
+ * disponible (singular normalmente, plural para "arma, armorum")
+ */
+const getGivenCells = (paradigm: NounParadigm): Set<string> => {
+  const firstNumber: GrammaticalNumber = paradigm.singular ? 'singular' : 'plural';
+  return new Set([cellKey(firstNumber, 'nominative'), cellKey(firstNumber, 'genitive')]);
+};
+
+/**
+ * Función helper: Números que tiene la palabra
+ * Los pluralia tantum no tienen singular y algunos nombres no tienen plural
+ */
+const getNumbers = (paradigm: NounParadigm): GrammaticalNumber[] =>
+  (['singular', 'plural'] as GrammaticalNumber[]).filter(number => paradigm[number]);
+
+/**
+ * COMPONENTE INTERNO DE EJERCICIO
+ * Separamos la lógica del ejercicio para pasarla a BaseDrillCard
+ */
+const DeclensionTableExercise: React.FC<{
+  currentWord: LatinWord;
+  paradigm: NounParadigm;
+  showLabels: boolean;
+  hasAnswered: boolean;
+  onSubmit: (answers: TableAnswers) => void;
+}> = ({ currentWord, paradigm, showLabels, hasAnswered, onSubmit }) => {
+  const theme = useTheme();
+  const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const declensionColor = getDeclensionColor(currentWord.declension);
+  const forms = getDisplayForms(currentWord);
+  const { glossLanguage } = useAppSettings();
+
+  const numbers = getNumbers(paradigm);
+  const givenCells = useMemo(() => getGivenCells(paradigm), [paradigm]);
+
+  // Estado del formulario: todas las casillas en un solo objeto
+  const [answers, setAnswers] = useState<TableAnswers>({});
+
+  // Referencia para focus management
+  const firstInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * RESETEAR FORMULARIO cuando cambia la palabra
+   */
+  useEffect(() => {
+    setAnswers({});
+
+    // Auto-focus en la primera casilla vacía
+    if (firstInputRef.current) {
+      firstInputRef.current.focus();
+    }
+  }, [currentWord.id]);
+
+  /**
+   * Casillas que el usuario debe rellenar (todas menos las dadas)
+   */
+  const editableKeys = numbers.flatMap(number =>
+    DECLINED_CASES.map(grammaticalCase => cellKey(number, grammaticalCase))
+  ).filter(key => !givenCells.has(key));
+
+  const isFormComplete = editableKeys.every(key => (answers[key] || '').trim() !== '');
+
+  /**
+   * MANEJAR ENVÍO
+   */
+  const handleSubmit = () => {
+    if (!isFormComplete) {
+      return;
+    }
+    onSubmit(answers);
+  };
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && isFormComplete && !hasAnswered) {
+      handleSubmit();
+    }
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: { xs: 1, sm: 1.5, md: 2 },
+      height: '100%',
+      overflow: 'hidden'  // Prevenir scroll
+    }}>
+      {/* PREGUNTA - Enunciado de diccionario */}
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography
+          variant={isMdUp ? 'h4' : 'h5'}
+          sx={{ color: declensionColor, fontWeight: 'bold' }}
+        >
+          {forms.nominative}, {forms.genitive}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            {getTranslation(currentWord, glossLanguage)}
+            {' • '}
+            {DECLENSION_INFO[currentWord.declension as keyof typeof DECLENSION_INFO]?.label || currentWord.declension}
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+
+      {/* TABLA DE CASOS - CSS Grid que se rellena por columnas */}
+      <Box sx={{
+        display: 'grid',
+        // Una columna de etiquetas + una columna por número
+        gridTemplateColumns: `auto repeat(${numbers.length}, 1fr)`,
+        // Encabezado + 6 casos
+        gridTemplateRows: `auto repeat(${DECLINED_CASES.length}, auto)`,
+        // Rellenar por columnas: el Tab recorre todo el singular y luego el plural
+        gridAutoFlow: 'column',
+        columnGap: { xs: 1, md: 2 },
+        rowGap: { xs: 0.5, md: 1 },
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        {/* Columna de etiquetas */}
+        <Box />
+        {DECLINED_CASES.map(grammaticalCase => (
+          <Typography
+            key={grammaticalCase}
+            variant="body2"
+            sx={{ color: 'text.secondary', fontWeight: 'medium', pr: 1 }}
+          >
+            {isMdUp ? CASE_LABELS[grammaticalCase].label : CASE_LABELS[grammaticalCase].shortLabel}
+          </Typography>
+        ))}
+
+        {/* Una columna por número (singular / plural) */}
+        {numbers.map(number => (
+          <React.Fragment key={number}>
+            <Typography
+              variant="subtitle2"
+              sx={{ textAlign: 'center', color: declensionColor, fontWeight: 'bold' }}
+            >
+              {NUMBER_LABELS[number].label}
+            </Typography>
+
+            {DECLINED_CASES.map(grammaticalCase => {
+              const key = cellKey(number, grammaticalCase);
+              const expected = paradigm[number]?.[grammaticalCase] ?? '';
+              const isGiven = givenCells.has(key);
+              const value = isGiven ? expected : (answers[key] || '');
+              const isCellCorrect = compareStrings(value, expected);
+              const isFirstEditable = key === editableKeys[0];
+
+              return (
+                <TextField
+                  key={key}
+                  inputRef={isFirstEditable ? firstInputRef : undefined}
+                  value={value}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyPress={handleKeyPress}
+                  disabled={hasAnswered || isGiven}
+                  size="small"
+                  fullWidth
+                  variant="outlined"
+                  error={hasAnswered && !isGiven && !isCellCorrect}
+                  helperText={hasAnswered && !isGiven && !isCellCorrect ? expected : undefined}
+                  InputProps={{
+                    endAdornment: hasAnswered && !isGiven && (
+                      isCellCorrect
+                        ? <CheckIcon fontSize="small" sx={{ color: declensionColor }} />
+                        : <CloseIcon fontSize="small" color="error" />
+                    )
+                  }}
+                  sx={{
+                    // Las casillas correctas usan el color de la declinación
+                    // (el mismo que getDeclensionColor usa en chips y tarjetas)
+                    ...(hasAnswered && !isGiven && isCellCorrect && {
+                      '& .MuiOutlinedInput-root': {
+                        bgcolor: `${declensionColor}20`,
+                        '& fieldset': { borderColor: declensionColor },
+                      },
+                    }),
+                    '& .MuiFormHelperText-root': { mx: 0.5, mt: 0 },
+                    '& .MuiInputBase-input': {
+                      fontSize: { xs: '0.9rem', md: '1rem' },
+                      py: { xs: 0.75, md: 1 }
+                    }
+                  }}
+                  inputProps={{
+                    'aria-label': `${CASE_LABELS[grammaticalCase].label} ${NUMBER_LABELS[number].label}`,
+                    'data-testid': `input-${number}-${grammaticalCase}`
+                  }}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </Box>
+
+      {/* BOTÓN DE ENVIAR */}
+      {!hasAnswered && (
+        <Box sx={{
+          display: 'flex',
+          justifyContent: 'center',
+          flexShrink: 0,
+          mt: 'auto'  // Empujar hacia abajo usando margin-top auto
+        }}>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={handleSubmit}
+            disabled={!isFormComplete}
+            sx={{
+              px: 4,
+              py: 1.5,
+              fontSize: { xs: '1rem', md: '1.1rem' }
+            }}
+            data-testid="button-submit-answer"
+          >
+            Verificar Tabla
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * DECLENSION TABLE DRILL CARD COMPONENT
+ * 
+ * Componente principal que usa BaseDrillCard para el contenedor
+ * y maneja el estado general del ejercicio
+ */
+const DeclensionTableDrillCard: React.FC<DeclensionTableDrillCardProps> = ({
+  currentWord,
+  onAnswer,
+  showLabels = true,
+  compact = false,
+  hideHeader = false
+}) => {
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [isCorrect, setIsCorrect] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  /**
+   * PARADIGMA DE LA PALABRA
+   * useMemo evita regenerar la tabla en cada render
+   * getParadigm ya aplica las excepciones (domus, vis, arma...)
+   */
+  const paradigm = useMemo(() => vocabularyService.getParadigm(currentWord.id), [currentWord.id]);
+
+  /**
+   * RESETEAR ESTADO cuando cambia la palabra
+   */
+  useEffect(() => {
+    setHasAnswered(false);
+    setIsCorrect(false);
+    setCorrectCount(0);
+  }, [currentWord.id]);
+
+  // Número de casillas que el usuario debe rellenar
+  const totalCells = paradigm
+    ? getNumbers(paradigm).length * DECLINED_CASES.length - getGivenCells(paradigm).size
+    : 0;
+
+  /**
+   * MANEJAR RESPUESTA - Corrección casilla por casilla
+   */
+  const handleSubmit = (answers: TableAnswers) => {
+    if (!paradigm) {
+      return;
+    }
+
+    const givenCells = getGivenCells(paradigm);
+    let correct = 0;
+
+    getNumbers(paradigm).forEach(number => {
+      DECLINED_CASES.forEach(grammaticalCase => {
+        const key = cellKey(number, grammaticalCase);
+        if (givenCells.has(key)) {
+          return;
+        }
+        // compareStrings ignora mayúsculas y macrones (rosā = rosa)
+        if (compareStrings(answers[key] || '', paradigm[number]?.[grammaticalCase] ?? '')) {
+          correct++;
+        }
+      });
+    });
+
+    const allCorrect = correct === totalCells;
+
+    setCorrectCount(correct);
+    setIsCorrect(allCorrect);
+    setHasAnswered(true);
+    onAnswer(allCorrect);
+  };
+
+  return (
+    <BaseDrillCard
+      title="Completar el Paradigma"
+      subtitle="Escribe todas las formas de la palabra en singular y plural"
+      isAnswered={hasAnswered}
+      isCorrect={isCorrect}
+      compact={compact}
+      hideHeader={hideHeader}
+      maxWidth={{ xs: '100%', md: 600, lg: 700 }}
+
+      // Contenido específico del ejercicio
+      exerciseContent={
+        paradigm ? (
+          <DeclensionTableExercise
+            currentWord={currentWord}
+            paradigm={paradigm}
+            showLabels={showLabels}
+            hasAnswered={hasAnswered}
+            onSubmit={handleSubmit}
+          />
+        ) : (
+          // Datos incompletos: el genitivo no coincide con la declinación
+          <Alert severity="warning">
+            No se puede generar la tabla de {currentWord.nominative}. Salta este ejercicio.
+          </Alert>
+        )
+      }
+
+      // Feedback adicional después de responder
+      feedbackContent={
+        hasAnswered && (
+          <Alert
+            severity={isCorrect ? 'success' : 'error'}
+            sx={{ textAlign: 'left' }}
+          >
+            <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+              {isCorrect ? '¡Excelente! Tabla completa.' : 'Hay formas incorrectas.'}
+            </Typography>
+            <Typography variant="body2">
+              {correctCount} de {totalCells} formas correctas
+            </Typography>
+          </Alert>
+        )
+      }
+    />
+  );
+};
+
+export default DeclensionTableDrillCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. ESTADO COMO OBJETO:
+ *    - Un solo useState con un objeto para 12 casillas
+ *    - Actualización inmutable: { ...prev, [key]: value }
+ * 
+ * 2. CSS GRID CON gridAutoFlow: 'column':
+ *    - Los elementos se colocan de arriba a abajo, columna por columna
+ *    - El orden del Tab sigue el orden del DOM (singular → plural)
+ * 
+ * 3. CORRECCIÓN POR CASILLA:
+ *    - Cada forma se compara por separado
+ *    - Las correctas toman el color de la declinación, las incorrectas rojo
+ */
@@ -3,7 +3,7 @@
  * 
  * Componente orquestador que maneja toda la sesión de ejercicios.
  * Es responsable de:
- * - Generar ejercicios aleatorios
+ * - Elegir los ejercicios (más a menudo las palabras y tipos que se fallan)
  * - Manejar la navegación entre ejercicios
  * - Tracking de respuestas y estadísticas
  * - Control del tiempo de sesión
@@ -11,10 +11,15 @@
  * CONCEPTOS IMPORTANTES:
  * - Session Manager Pattern: Un componente que orquesta otros
  * - State Management: Maneja el estado global de la sesión
- * - Randomization: Genera ejercicios aleatorios
+ * - Selección ponderada: selectNextDrill (@latin-app/scheduler) elige
+ *   palabra y tipo con más peso para lo que se falla, sin dejar ninguna
+ *   palabra seleccionada sin practicar
+ * - Repetición de fallos: un ejercicio fallado vuelve a la cola unos
+ *   ejercicios después, y cada acierto aleja la siguiente repetición
+ *   (getRetryGap e insertAtGap, de @latin-app/scheduler)
  */
 
-import React, { useState, useEffect, useCallback, useRef } from 'react';
+import React, { useState, useEffect, useCallback, useMemo, useRef } from 'react';
 import {
   Box,
   Typography,
@@ -24,7 +29,24 @@ import {
 import MultipleChoiceDrillCard from './MultipleChoiceDrillCard';
 import MultipleChoiceDeclensionCard from './MultipleChoiceDeclensionCard';
 import TypeLatinWordDrillCard from './TypeLatinWordDrillCard';
-import type { LatinWord } from '../global/WordCard';
+import DeclensionTableDrillCard from './DeclensionTableDrillCard';
+import CaseIdentificationDrillCard from './CaseIdentificationDrillCard';
+import AdjectiveAgreementDrillCard from './AdjectiveAgreementDrillCard';
+import PronounDeclensionDrillCard from './PronounDeclensionDrillCard';
+import type { PronounDrillMode } from './PronounDeclensionDrillCard';
+import type { LatinWord, VocabularyWord } from '../global/WordCard';
+import type { LatinPronoun } from '@latin-app/types';
+import { isAdjective, isNoun, isPronoun, vocabularyService } from '@latin-app/data';
+import {
+  DEFAULT_DRILL_RETRY_OPTIONS,
+  getDrillKind,
+  getRetryGap,
+  insertAtGap,
+  selectNextDrill,
+} from '@latin-app/scheduler';
+import type { DrillAttempt } from '@latin-app/scheduler';
+import { getWordMemories, recordReviewResult } from '../../services/wordMemoryStore';
+import { getDrillKindHistory } from '../../services/sessionHistoryStore';
 // Definimos QuestionType aquí ya que es usado por el componente
 export type QuestionType = 'latinToSpanish' | 'spanishToLatin' | 'gender' | 'declension';
 import NavigateNextIcon from '@mui/icons-material/NavigateNext';
@@ -33,7 +55,20 @@ import SkipNextIcon from '@mui/icons-material/SkipNext';
 /**
  * TIPOS DE DRILL DISPONIBLES
  */
-export type DrillType = 'multipleChoice' | 'multipleChoiceDeclension' | 'typeLatinWord';
+export type DrillType =
+  | 'multipleChoice'
+  | 'multipleChoiceDeclension'
+  | 'typeLatinWord'
+  | 'declensionTable'
+  | 'caseIdentification'
+  | 'adjectiveAgreement'
+  | 'pronounDeclension';
+
+/**
+ * PALABRA DE UN DRILL
+ * Un sustantivo, o un pronombre en los ejercicios de pronombres
+ */
+type DrillWord = LatinWord | LatinPronoun;
 
 /**
  * CONFIGURACIÓN DE UN DRILL INDIVIDUAL
@@ -41,18 +76,26 @@ export type DrillType = 'multipleChoice' | 'multipleChoiceDeclension' | 'typeLat
 interface DrillConfig {
   id: string;                          // ID único del ejercicio
   type: DrillType;                     // Tipo de ejercicio
-  word: LatinWord;                     // Palabra para el ejercicio
+  word: DrillWord;                     // Palabra para el ejercicio
   questionType?: QuestionType;         // Para multiple choice
+  pronounMode?: PronounDrillMode;      // Para pronombres: tabla o una forma
+  retryStep?: number;                  // Si repite un fallo: aciertos desde el fallo
   timestamp: number;                   // Cuándo se generó
 }
 
+/**
+ * DRILLS QUE SE PREPARAN POR ADELANTADO
+ */
+const QUEUE_SIZE = 5;
+
 /**
  * RESULTADO DE UN DRILL
  */
-interface DrillResult {
+export interface DrillResult {
   drillId: string;                     // ID del ejercicio
-  word: LatinWord;                     // Palabra del ejercicio
+  word: DrillWord;                     // Palabra del ejercicio
   type: DrillType;                     // Tipo de ejercicio
+  questionType?: QuestionType;         // Dirección (solo opción múltiple)
   isCorrect: boolean;                  // Si fue correcto
   timeSpent: number;                   // Tiempo en segundos
   timestamp: number;                   // Cuándo se respondió
@@ -64,9 +107,11 @@ interface DrillResult {
  */
 interface DrillSessionComponentProps {
   // Configuración de la sesión
-  selectedWords: LatinWord[];          // Palabras seleccionadas
+  selectedWords: VocabularyWord[];     // Palabras seleccionadas
   drillTypes: DrillType[];             // Tipos de ejercicios habilitados
   sessionDurationMinutes: number;      // Duración en minutos
+  strictMacrons?: boolean;             // Exigir macrones en "Escribir en Latín"
+  retryGap?: number;                   // Cuántos ejercicios después vuelve un fallo
   
   // Callbacks
   onSessionEnd?: (results: DrillResult[]) => void;  // Al terminar la sesión
@@ -77,13 +122,15 @@ interface DrillSessionComponentProps {
 /**
  * DRILL SESSION COMPONENT
  * 
- * Orquesta toda la sesión de ejercicios, generando drills aleatorios
- * y manejando la navegación entre ellos.
+ * Orquesta toda la sesión de ejercicios, eligiendo los drills (más
+ * práctica para lo que se falla) y manejando la navegación entre ellos.
  */
 const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
   selectedWords,
   drillTypes,
   sessionDurationMinutes,
+  strictMacrons = false,
+  retryGap = DEFAULT_DRILL_RETRY_OPTIONS.initialGap,
   onSessionEnd,
   onProgress,
   onDrillComplete
@@ -93,6 +140,7 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
   const [drillQueue, setDrillQueue] = useState<DrillConfig[]>([]);
   const [completedDrills, setCompletedDrills] = useState<DrillResult[]>([]);
   const [isSessionActive, setIsSessionActive] = useState(true);
+  const [hasNoDrills, setHasNoDrills] = useState(false);  // Ningún tipo tiene palabras
   const [timeRemaining, setTimeRemaining] = useState(sessionDurationMinutes * 60); // en segundos
   
   // Estado del drill actual
@@ -102,42 +150,179 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
   // Referencias
   const timerRef = useRef<NodeJS.Timeout | null>(null);
   
+  // Los ejercicios de declinación y traducción son de sustantivos:
+  // los adjetivos seleccionados no entran en estos drills
+  const nounWords = useMemo(() => selectedWords.filter(isNoun), [selectedWords]);
+  
+  // Los adjetivos seleccionados se usan en la concordancia
+  // (si no hay ninguno, el ejercicio usa todos los del vocabulario)
+  const adjectiveIds = useMemo(
+    () => selectedWords.filter(isAdjective).map(word => word.id),
+    [selectedWords]
+  );
+  
+  // Los pronombres seleccionados se usan en su propio ejercicio
+  // (si no hay ninguno, el ejercicio usa todos)
+  const pronouns = useMemo(() => {
+    const selectedPronouns = selectedWords.filter(isPronoun);
+    return selectedPronouns.length > 0 ? selectedPronouns : vocabularyService.getPronouns();
+  }, [selectedWords]);
+  
   /**
-   * GENERAR UN DRILL ALEATORIO
+   * TIPOS DE EJERCICIO Y SUS PALABRAS
+   * 
+   * El selector trabaja con "clases" de ejercicio: la opción múltiple
+   * cuenta como dos (latín → español y español → latín) para que también
+   * se practique más la dirección que más se falla.
    */
-  const generateRandomDrill = useCallback((): DrillConfig => {
-    // Seleccionar palabra aleatoria
-    const randomWord = selectedWords[Math.floor(Math.random() * selectedWords.length)];
+  const drillKinds = useMemo(() => {
+    const kinds = new Map<string, { type: DrillType; questionType?: QuestionType; words: DrillWord[] }>();
+    drillTypes.forEach(type => {
+      // Los pronombres tienen su ejercicio; el resto usa los sustantivos
+      const words: DrillWord[] = type === 'pronounDeclension' ? pronouns : nounWords;
+      if (type === 'multipleChoice') {
+        // Solo latinToSpanish y spanishToLatin son de traducción
+        // ('gender' y 'declension' son para otros tipos de ejercicios)
+        const questionTypes: QuestionType[] = ['latinToSpanish', 'spanishToLatin'];
+        questionTypes.forEach(questionType => {
+          kinds.set(getDrillKind(type, questionType), { type, questionType, words });
+        });
+      } else {
+        kinds.set(getDrillKind(type), { type, words });
+      }
+    });
+    return kinds;
+  }, [drillTypes, nounWords, pronouns]);
+  
+  // Historial guardado al empezar: estado de memoria de cada palabra y
+  // resultados anteriores de cada tipo de ejercicio
+  const [history] = useState(() => ({
+    memories: getWordMemories(),
+    kindHistory: getDrillKindHistory(),
+  }));
+  
+  /**
+   * ELEGIR EL SIGUIENTE DRILL
+   * 
+   * selectNextDrill da más peso a las palabras y tipos que se fallan (en
+   * esta sesión y en las anteriores) y saca antes las palabras
+   * seleccionadas que todavía no han salido.
+   * 
+   * @param results - Ejercicios respondidos hasta ahora
+   * @param queued - Ejercicios que ya están en la cola
+   * @returns El drill, o null si ningún tipo tiene palabras
+   */
+  const generateDrill = useCallback((results: DrillResult[], queued: DrillConfig[]): DrillConfig | null => {
+    const wordsById = new Map<string, DrillWord>();
+    const wordsByKind: Record<string, string[]> = {};
+    drillKinds.forEach(({ words }, kind) => {
+      words.forEach(word => wordsById.set(word.id, word));
+      wordsByKind[kind] = words.map(word => word.id);
+    });
+    
+    const attempts: DrillAttempt[] = results.map(result => ({
+      wordId: result.word.id,
+      drillKind: getDrillKind(result.type, result.questionType),
+      isCorrect: result.isCorrect,
+      wasSkipped: result.wasSkipped,
+    }));
     
-    // Seleccionar tipo de drill aleatorio
-    const randomDrillType = drillTypes[Math.floor(Math.random() * drillTypes.length)];
+    const next = selectNextDrill({
+      wordsByKind,
+      requiredWordIds: selectedWords.map(word => word.id),
+      attempts,
+      planned: queued.map(drill => ({
+        wordId: drill.word.id,
+        drillKind: getDrillKind(drill.type, drill.questionType),
+      })),
+      memories: history.memories,
+      kindHistory: history.kindHistory,
+    });
+    const kind = next && drillKinds.get(next.drillKind);
+    const word = next && wordsById.get(next.wordId);
+    if (!kind || !word) return null;
     
-    // Para multiple choice, seleccionar tipo de pregunta aleatorio
-    // Solo incluimos latinToSpanish y spanishToLatin para traducción
-    // 'gender' y 'declension' son para otros tipos de ejercicios
-    const questionTypes: QuestionType[] = ['latinToSpanish', 'spanishToLatin'];
-    const randomQuestionType = questionTypes[Math.floor(Math.random() * questionTypes.length)];
+    // Para pronombres, tabla completa o una sola forma (al 50%)
+    const pronounModes: PronounDrillMode[] = ['table', 'form'];
+    const randomPronounMode = pronounModes[Math.floor(Math.random() * pronounModes.length)];
     
     return {
       id: `drill_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
-      type: randomDrillType,
-      word: randomWord,
-      questionType: randomDrillType === 'multipleChoice' ? randomQuestionType : undefined,
+      type: kind.type,
+      word,
+      questionType: kind.questionType,
+      pronounMode: kind.type === 'pronounDeclension' ? randomPronounMode : undefined,
       timestamp: Date.now()
     };
-  }, [selectedWords, drillTypes]);
+  }, [drillKinds, selectedWords, history]);
   
   /**
    * GENERAR COLA INICIAL DE DRILLS
    */
   const generateInitialQueue = useCallback(() => {
     const queue: DrillConfig[] = [];
-    // Generar 5 drills iniciales
-    for (let i = 0; i < 5; i++) {
-      queue.push(generateRandomDrill());
+    // Generar los drills iniciales (cada uno sabe cuáles van antes)
+    for (let i = 0; i < QUEUE_SIZE; i++) {
+      const drill = generateDrill([], queue);
+      if (drill) queue.push(drill);
     }
     return queue;
-  }, [generateRandomDrill]);
+  }, [generateDrill]);
+  
+  /**
+   * REPETIR UN FALLO MÁS ADELANTE
+   * 
+   * Un fallo vuelve retryGap ejercicios después. Cada acierto de la
+   * repetición la aleja (el doble de ejercicios) hasta que se da por
+   * aprendida; un nuevo fallo vuelve a empezar. Si se salta una
+   * repetición, vuelve con el mismo hueco: si no, la palabra fallada
+   * podría no volver a salir. Un ejercicio normal saltado no se repite.
+   * 
+   * @param drill - El ejercicio recién respondido o saltado
+   * @param outcome - Cómo fue: acertado, fallado o saltado
+   * @param results - Ejercicios respondidos, incluido este
+   * @returns La cola nueva (la misma si no hay nada que repetir)
+   */
+  const scheduleRetry = (
+    drill: DrillConfig,
+    outcome: 'correct' | 'incorrect' | 'skipped',
+    results: DrillResult[]
+  ): DrillConfig[] => {
+    // Un ejercicio normal acertado o saltado no se repite
+    if (outcome !== 'incorrect' && drill.retryStep === undefined) return drillQueue;
+    
+    // Aciertos seguidos desde el fallo: 0 tras fallar, uno más tras
+    // acertar y los mismos tras saltar
+    const step = drill.retryStep ?? 0;
+    const successes = outcome === 'incorrect' ? 0 : outcome === 'correct' ? step + 1 : step;
+    const gap = getRetryGap(successes, { ...DEFAULT_DRILL_RETRY_OPTIONS, initialGap: retryGap });
+    if (gap === null) return drillQueue;
+    
+    // Quitar la repetición pendiente del mismo ejercicio, si la hay
+    const queue = drillQueue.filter(queued => !(
+      queued.retryStep !== undefined
+      && queued.word.id === drill.word.id
+      && queued.type === drill.type
+      && queued.questionType === drill.questionType
+    ));
+    
+    // Si la cola es más corta que el hueco, preparar más drills antes
+    while (queue.length < gap - 1) {
+      const next = generateDrill(results, queue);
+      if (!next) break;
+      queue.push(next);
+    }
+    
+    const retry: DrillConfig = {
+      ...drill,
+      id: `drill_${Date.now()}_${Math.random().toString(36).substr(2, 9)}`,
+      retryStep: successes,
+      timestamp: Date.now()
+    };
+    const newQueue = insertAtGap(queue, retry, gap);
+    setDrillQueue(newQueue);
+    return newQueue;
+  };
   
   /**
    * MANEJAR RESPUESTA DEL DRILL
@@ -152,6 +337,7 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
         drillId: currentDrill.id,
         word: currentDrill.word,
         type: currentDrill.type,
+        questionType: currentDrill.questionType,
         isCorrect: correct,
         timeSpent,
         timestamp: Date.now()
@@ -161,9 +347,15 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
       const updatedDrills = [...completedDrills, result];
       setCompletedDrills(updatedDrills);
       
-      // Notificar progreso
+      // El planificador de repasos decide cuándo vuelve a salir la palabra
+      recordReviewResult({ ...result, wordId: result.word.id });
+      
+      // Y dentro de la sesión, un fallo vuelve unos ejercicios después
+      const queue = scheduleRetry(currentDrill, correct ? 'correct' : 'incorrect', updatedDrills);
+      
+      // Notificar progreso (con la cola que ya incluye la repetición)
       if (onProgress) {
-        onProgress(updatedDrills.length, updatedDrills.length + drillQueue.length);
+        onProgress(updatedDrills.length, updatedDrills.length + queue.length);
       }
       
       // Notificar el resultado inmediatamente a StudySession para actualizar los contadores
@@ -175,16 +367,20 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
   
   /**
    * IR AL SIGUIENTE DRILL
+   * 
+   * @param results - Ejercicios respondidos (al saltar, el estado todavía
+   *                  no incluye el saltado, así que se pasan aquí)
+   * @param queue - La cola (al saltar, puede llevar ya una repetición que
+   *                el estado todavía no tiene)
    */
-  const goToNextDrill = () => {
-    if (drillQueue.length > 0) {
-      // Tomar el siguiente de la cola
-      const [nextDrill, ...remainingQueue] = drillQueue;
+  const goToNextDrill = (results: DrillResult[] = completedDrills, queue: DrillConfig[] = drillQueue) => {
+    if (queue.length > 0) {
+      // Tomar el siguiente de la cola y, si se queda corta, agregar uno
+      // nuevo al final (con repeticiones pendientes puede ser más larga)
+      const [nextDrill, ...remainingQueue] = queue;
+      const newDrill = remainingQueue.length < QUEUE_SIZE ? generateDrill(results, queue) : null;
       setCurrentDrill(nextDrill);
-      setDrillQueue(remainingQueue);
-      
-      // Agregar un nuevo drill a la cola
-      setDrillQueue(prev => [...prev, generateRandomDrill()]);
+      setDrillQueue(newDrill ? [...remainingQueue, newDrill] : remainingQueue);
       
       // Resetear estado
       setHasAnswered(false);
@@ -206,6 +402,7 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
         drillId: currentDrill.id,
         word: currentDrill.word,
         type: currentDrill.type,
+        questionType: currentDrill.questionType,
         isCorrect: false,      // Técnicamente no es correcto, pero tampoco es un error
         timeSpent: 0,          // No se gastó tiempo intentando resolverlo
         timestamp: Date.now(),
@@ -216,13 +413,21 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
       const updatedDrills = [...completedDrills, result];
       setCompletedDrills(updatedDrills);
       
+      // Cada resultado pasa por el planificador: él decide que un saltado no cuenta
+      recordReviewResult({ ...result, wordId: result.word.id });
+      
+      // Una repetición saltada vuelve más adelante
+      const queue = scheduleRetry(currentDrill, 'skipped', updatedDrills);
+      
       // Notificar el resultado inmediatamente a StudySession para actualizar los contadores
       if (onDrillComplete) {
         onDrillComplete(updatedDrills);
       }
+      
+      goToNextDrill(updatedDrills, queue);
+    } else {
+      goToNextDrill();
     }
-    
-    goToNextDrill();
   };
   
   /**
@@ -271,6 +476,11 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
     if (queue.length > 0) {
       setCurrentDrill(queue[0]);
       setDrillQueue(queue.slice(1));
+    } else {
+      // Ejercicios de sustantivos con solo adjetivos o pronombres: no hay
+      // nada que preguntar, así que se para el tiempo y se avisa
+      setHasNoDrills(true);
+      setIsSessionActive(false);
     }
   }, []);
   
@@ -295,6 +505,23 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
   // Progress bar removida - no sabemos cuántos ejercicios habrá en total
   
   
+  // Si ningún ejercicio tiene palabras con las que practicar
+  if (hasNoDrills) {
+    return (
+      <Box sx={{ textAlign: 'center', py: 4 }} data-testid="drill-session-no-drills">
+        <Typography variant="h6" gutterBottom>
+          No hay ejercicios para estas palabras
+        </Typography>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          Los ejercicios elegidos son de sustantivos y la selección no tiene ninguno.
+        </Typography>
+        <Button variant="contained" onClick={endSession}>
+          Terminar sesión
+        </Button>
+      </Box>
+    );
+  }
+  
   // Si no hay sesión activa
   if (!isSessionActive) {
     return (
@@ -334,6 +561,10 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
     );
   }
   
+  // Los ejercicios de sustantivos reciben un LatinWord; el de pronombres, un LatinPronoun
+  const drillWord = currentDrill.word;
+  const nounWord = isPronoun(drillWord) ? null : drillWord;
+  
   return (
     <Box sx={{ 
       width: '100%', 
@@ -392,10 +623,10 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
               }
             }}>
               {/* Multiple Choice tradicional - usando el componente correcto */}
-              {currentDrill.type === 'multipleChoice' && (
+              {currentDrill.type === 'multipleChoice' && nounWord && (
                 <MultipleChoiceDrillCard
-                  currentWord={currentDrill.word}
-                  allWords={selectedWords}
+                  currentWord={nounWord}
+                  allWords={nounWords}
                   questionType={currentDrill.questionType || 'latinToSpanish'}
                   onAnswer={handleDrillAnswer}
                   numberOfOptions={4}
@@ -405,9 +636,9 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
               )}
               
               {/* Multiple Choice de Declinación - usando el componente correcto */}
-              {currentDrill.type === 'multipleChoiceDeclension' && (
+              {currentDrill.type === 'multipleChoiceDeclension' && nounWord && (
                 <MultipleChoiceDeclensionCard
-                  currentWord={currentDrill.word}
+                  currentWord={nounWord}
                   onAnswer={handleDrillAnswer}
                   showLabels={true}  // IMPORTANTE: Mostrar labels para ver las explicaciones educativas
                   compact={false}  // Usar versión completa
@@ -416,13 +647,60 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
               )}
               
               {/* Escribir en Latín - ejercicio de escritura completa */}
-              {currentDrill.type === 'typeLatinWord' && (
+              {currentDrill.type === 'typeLatinWord' && nounWord && (
                 <TypeLatinWordDrillCard
-                  currentWord={currentDrill.word}
+                  currentWord={nounWord}
                   onAnswer={handleDrillAnswer}
                   showLabels={true}  // Mostrar ayudas y labels
                   compact={false}  // Usar versión completa
                   hideHeader={true}  // Ocultar header para ahorrar espacio
+                  strictMacrons={strictMacrons}  // Modo de macrones de la sesión
+                />
+              )}
+              
+              {/* Completar el Paradigma - tabla de casos completa */}
+              {currentDrill.type === 'declensionTable' && nounWord && (
+                <DeclensionTableDrillCard
+                  currentWord={nounWord}
+                  onAnswer={handleDrillAnswer}
+                  showLabels={true}  // Mostrar traducción y declinación
+                  compact={false}  // Usar versión completa
+                  hideHeader={true}  // Ocultar header para ahorrar espacio
+                />
+              )}
+              
+              {/* Concordancia - sustantivo + adjetivo */}
+              {currentDrill.type === 'adjectiveAgreement' && nounWord && (
+                <AdjectiveAgreementDrillCard
+                  currentWord={nounWord}
+                  adjectiveIds={adjectiveIds}
+                  onAnswer={handleDrillAnswer}
+                  showLabels={true}  // Mostrar traducciones y ayuda
+                  compact={false}  // Usar versión completa
+                  hideHeader={true}  // Ocultar header para ahorrar espacio
+                />
+              )}
+              
+              {/* Pronombres - tabla completa o una forma */}
+              {currentDrill.type === 'pronounDeclension' && isPronoun(drillWord) && (
+                <PronounDeclensionDrillCard
+                  currentPronoun={drillWord}
+                  mode={currentDrill.pronounMode || 'form'}
+                  onAnswer={handleDrillAnswer}
+                  showLabels={true}  // Mostrar traducción y ayuda
+                  compact={false}  // Usar versión completa
+                  hideHeader={true}  // Ocultar header para ahorrar espacio
+                />
+              )}
+              
+              {/* Identificar Caso y Número - forma declinada */}
+              {currentDrill.type === 'caseIdentification' && nounWord && (
+                <CaseIdentificationDrillCard
+                  currentWord={nounWord}
+                  onAnswer={handleDrillAnswer}
+                  showLabels={true}  // Mostrar de qué palabra viene la forma
+                  compact={false}  // Usar versión completa
+                  hideHeader={true}  // Ocultar header para ahorrar espacio
                 />
               )}
             </Box>
@@ -475,7 +753,7 @@ const DrillSessionComponent: React.FC<DrillSessionComponentProps> = ({
               variant="contained"
               size="large"
               endIcon={<NavigateNextIcon />}
-              onClick={goToNextDrill}
+              onClick={() => goToNextDrill()}
               color="primary"
               sx={{ 
                 px: 4,      // 32px horizontal padding
@@ -502,7 +780,8 @@ export default DrillSessionComponent;
  * RESUMEN DE RESPONSABILIDADES:
  * 
  * DrillSessionComponent:
- * - ✅ Genera drills aleatorios
+ * - ✅ Elige los drills (más a menudo lo que se falla)
+ * - ✅ Repite los fallos unos ejercicios después
  * - ✅ Maneja la navegación
  * - ✅ Tracking de respuestas
  * - ✅ Control del tiempo
@@ -515,10 +794,10 @@ export default DrillSessionComponent;
  * - ❌ NO tienen botón "Siguiente"
  * 
  * FLUJO:
- * 1. DrillSession genera drills aleatorios
+ * 1. DrillSession elige los drills con selectNextDrill
  * 2. Muestra el drill actual
  * 3. Drill reporta respuesta (correcta/incorrecta)
- * 4. DrillSession registra resultado
+ * 4. DrillSession registra resultado (y si falló, lo vuelve a poner en la cola)
  * 5. DrillSession maneja navegación al siguiente
  * 6. Repite hasta que termine el tiempo
  */
\ No newline at end of file
@@ -24,6 +24,7 @@ import {
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
 import type { LatinWord } from '../global/WordCard';
+import { getDisplayForms } from '@latin-app/shared';
 import BaseDrillCard from './BaseDrillCard';
 import { LATIN_COLORS } from '../../config/theme';
 
@@ -128,6 +129,9 @@ const MultipleChoiceDeclensionCard: React.FC<MultipleChoiceDeclensionCardProps>
   // Respuesta correcta
   const correctDeclension = currentWord.declension;
   
+  // Formas a mostrar (con macrones si la palabra los tiene)
+  const forms = getDisplayForms(currentWord);
+  
   // Opciones disponibles
   const declensionOptions = ['1st', '2nd', '3rd', '4th', '5th'] as const;
   
@@ -202,7 +206,7 @@ const MultipleChoiceDeclensionCard: React.FC<MultipleChoiceDeclensionCardProps>
             mb: 0.5
           }}
         >
-          {currentWord.nominative}
+          {forms.nominative}
         </Typography>
         
         {/* Genitivo */}
@@ -213,7 +217,7 @@ const MultipleChoiceDeclensionCard: React.FC<MultipleChoiceDeclensionCardProps>
             fontStyle: 'italic'
           }}
         >
-          {currentWord.genitive}
+          {forms.genitive}
         </Typography>
         
         {/* Género (solo si showLabels) */}
@@ -369,7 +373,7 @@ const MultipleChoiceDeclensionCard: React.FC<MultipleChoiceDeclensionCardProps>
           
           {/* Información principal */}
           <Typography variant="body2" sx={{ color: 'text.primary', mb: 0.5 }}>
-            <strong>{currentWord.nominative}</strong> → {DECLENSION_INFO[correctDeclension as keyof typeof DECLENSION_INFO].fullLabel}
+            <strong>{forms.nominative}</strong> → {DECLENSION_INFO[correctDeclension as keyof typeof DECLENSION_INFO].fullLabel}
           </Typography>
           
           {/* Patrón de la declinación */}
@@ -406,7 +410,7 @@ const MultipleChoiceDeclensionCard: React.FC<MultipleChoiceDeclensionCardProps>
       feedbackContent={
         hasAnswered && !showLabels && (
           <Typography variant="caption">
-            {currentWord.nominative} → {DECLENSION_INFO[correctDeclension as keyof typeof DECLENSION_INFO].fullLabel}
+            {forms.nominative} → {DECLENSION_INFO[correctDeclension as keyof typeof DECLENSION_INFO].fullLabel}
           </Typography>
         )
       }
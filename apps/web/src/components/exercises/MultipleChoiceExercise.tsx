@@ -20,6 +20,9 @@ import {
 } from '@mui/material';
 import MultipleChoiceOption from './MultipleChoiceOption';
 import type { LatinWord } from '../global/WordCard';
+import { getDisplayForms } from '@latin-app/shared';
+import { getGloss, getTranslation, hasAnyTag } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
 import { getDeclensionColor } from '../../features/study-session/constants/colors';
 import { LATIN_COLORS } from '../../config/theme';
 import { RADIUS } from '../../features/study-session/constants/spacing';
@@ -37,6 +40,16 @@ const COMPACT_SPACING = {
  */
 export type QuestionType = 'latinToSpanish' | 'spanishToLatin' | 'gender' | 'declension';
 
+/**
+ * FUNCIÓN HELPER: Enunciado de una palabra ("rosa, rosae")
+ * Usa las formas con macrones cuando existen, así la opción correcta
+ * y las incorrectas se escriben igual
+ */
+const formatLatinForms = (word: LatinWord): string => {
+  const forms = getDisplayForms(word);
+  return `${forms.nominative}, ${forms.genitive}`;
+};
+
 /**
  * PROPS DEL COMPONENTE
  */
@@ -71,6 +84,9 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
   numberOfOptions = 4,
   showLabels = true
 }) => {
+  // Idioma en el que el usuario quiere ver las traducciones
+  const { glossLanguage } = useAppSettings();
+  
   // Estado para la opción seleccionada
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   
@@ -128,10 +144,10 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
   const getCorrectAnswer = (): string => {
     switch (questionType) {
       case 'latinToSpanish':
-        return currentWord.spanishTranslation;
+        return getTranslation(currentWord, glossLanguage);
       
       case 'spanishToLatin':
-        return `${currentWord.nominative}, ${currentWord.genitive}`;
+        return formatLatinForms(currentWord);
       
       case 'gender':
         return getGenderLabel(currentWord.gender);
@@ -140,7 +156,7 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
         return getDeclensionLabel(currentWord.declension);
       
       default:
-        return currentWord.spanishTranslation;
+        return getTranslation(currentWord, glossLanguage);
     }
   };
 
@@ -155,6 +171,11 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
     // Filtrar palabras para evitar la palabra actual
     const availableWords = [...allWords.filter(w => w.id !== currentWord.id)]; // Crear copia para no mutar original
     
+    // DISTRACTORES SEMÁNTICOS: primero palabras del mismo tema
+    // ("hija" es una opción más difícil para "filius" que "ventana")
+    const currentTags = currentWord.tags ?? [];
+    const sharesTag = (word: LatinWord) => hasAnyTag(word, currentTags);
+    
     // Generar opciones según el tipo de pregunta
     switch (questionType) {
       case 'latinToSpanish':
@@ -170,17 +191,22 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
           // Si no hay suficientes palabras disponibles, romper el bucle
           if (availableWords.length === 0) break;
           
-          const randomIndex = Math.floor(Math.random() * availableWords.length);
-          const randomWord = availableWords[randomIndex];
+          // Elegir entre las del mismo tema mientras queden
+          const themedWords = availableWords.filter(sharesTag);
+          const pool = themedWords.length > 0 ? themedWords : availableWords;
+          const randomWord = pool[Math.floor(Math.random() * pool.length)];
+          const randomIndex = availableWords.indexOf(randomWord);
           const value = questionType === 'latinToSpanish' 
-            ? randomWord.spanishTranslation 
-            : `${randomWord.nominative}, ${randomWord.genitive}`;
+            ? getTranslation(randomWord, glossLanguage)
+            : formatLatinForms(randomWord);
+          
+          // Eliminar la palabra del todo: si su valor se repite tampoco
+          // servirá después (y así no se elige otra vez del mismo tema)
+          availableWords.splice(randomIndex, 1);
           
           if (!usedValues.has(value)) {
             incorrectOptions.push(value);
             usedValues.add(value);
-            // Eliminar palabra usada para evitar duplicados
-            availableWords.splice(randomIndex, 1);
           }
         }
         
@@ -275,12 +301,15 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
   };
 
   // Generar opciones cuando cambie la palabra
+  // Traducción de la palabra actual (para las preguntas Español → Latín)
+  const currentGloss = getGloss(currentWord, glossLanguage);
+
   useEffect(() => {
     // Resetear estado cuando cambia la palabra
     setSelectedOption(null);
     setIsAnswered(false);
     generateOptions();
-  }, [currentWord, questionType]);
+  }, [currentWord, questionType, glossLanguage]);
 
   return (
     // Contenedor principal con flexbox para prevenir scroll
@@ -324,9 +353,9 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
               }}
               data-testid="spanish-word-display"
             >
-              {currentWord.spanishTranslation}
+              {currentGloss.translation}
             </Typography>
-            {currentWord.additionalMeanings && currentWord.additionalMeanings.length > 0 && (
+            {currentGloss.additionalMeanings.length > 0 && (
               <Typography 
                 variant="body2" 
                 sx={{ 
@@ -335,7 +364,7 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
                   fontStyle: 'italic'
                 }}
               >
-                ({currentWord.additionalMeanings.join(', ')})
+                ({currentGloss.additionalMeanings.join(', ')})
               </Typography>
             )}
             </Box>
@@ -368,7 +397,7 @@ const MultipleChoiceExercise: React.FC<MultipleChoiceExerciseProps> = ({
                 fontSize: { xs: '1.8rem', sm: '2.125rem' }  // Más pequeño en móvil
               }}
             >
-              {currentWord.nominative}, {currentWord.genitive}
+              {formatLatinForms(currentWord)}
             </Typography>
             
             {/* Información gramatical compacta - Usando flexbox */}
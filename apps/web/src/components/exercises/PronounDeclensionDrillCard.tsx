@@ -0,0 +1,503 @@
+/**
+ * PRONOUN DECLENSION DRILL CARD COMPONENT
+ * 
+ * Ejercicio de pronombres (ego, tū, is, hic, ille, quī) con dos modos:
+ * 
+ * - 'table': escribir la tabla completa de un género (como en papel)
+ * - 'form': escribir una sola forma pedida (ej: "hic → femenino, dativo plural")
+ * 
+ * Las tablas de los pronombres están escritas a mano en el paquete de datos
+ * (son demasiado irregulares para generarlas). Algunas casillas aceptan dos
+ * formas: nostrī / nostrum, eīs / iīs.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Un componente, dos modos: el padre decide cuál con la prop "mode"
+ * - Composition Pattern: Usa BaseDrillCard para comportamiento común
+ * - Corrección por casilla: cada forma se compara por separado
+ */
+
+import React, { useState, useRef, useEffect } from 'react';
+import {
+  Box,
+  Typography,
+  TextField,
+  Button,
+  Alert,
+  Divider,
+  useTheme,
+  useMediaQuery
+} from '@mui/material';
+import BaseDrillCard from './BaseDrillCard';
+import type {
+  AdjectiveGender,
+  GrammaticalNumber,
+  LatinPronoun,
+  PronounCase,
+  PronounTable
+} from '@latin-app/types';
+// Tablas de pronombres y corrección (ignora macrones: nobis = nōbīs)
+import { PRONOUN_CASES, checkPronounForm, getTranslation } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+import { LATIN_COLORS } from '../../config/theme';
+import {
+  CASE_LABELS,
+  GENDER_LABELS,
+  NUMBER_LABELS,
+  PRONOUN_CATEGORY_LABELS
+} from '../../features/study-session/constants/cases';
+import CheckIcon from '@mui/icons-material/Check';
+import CloseIcon from '@mui/icons-material/Close';
+
+/**
+ * MODOS DEL EJERCICIO
+ */
+export type PronounDrillMode = 'table' | 'form';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface PronounDeclensionDrillCardProps {
+  currentPronoun: LatinPronoun;              // Pronombre del ejercicio
+  mode: PronounDrillMode;                    // Tabla completa o una sola forma
+  onAnswer: (isCorrect: boolean) => void;    // Callback cuando el usuario responde
+  showLabels?: boolean;                      // Mostrar etiquetas de ayuda
+  compact?: boolean;                         // Versión compacta para pantallas pequeñas
+  hideHeader?: boolean;                      // Ocultar encabezado para ahorrar espacio
+}
+
+/**
+ * PREGUNTA DEL MODO 'form'
+ */
+interface FormQuestion {
+  table: PronounTable;               // Tabla del género pedido
+  number: GrammaticalNumber;         // Número pedido
+  grammaticalCase: PronounCase;      // Caso pedido
+}
+
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural'];
+
+/**
+ * Función helper: Elegir un elemento aleatorio de una lista
+ */
+const pickRandom = <T,>(items: T[]): T => items[Math.floor(Math.random() * items.length)];
+
+/**
+ * Función helper para construir la clave de una casilla
+ */
+const cellKey = (number: GrammaticalNumber, grammaticalCase: PronounCase) => `${number}.${grammaticalCase}`;
+
+// La casilla que se da rellena en el modo tabla: el nominativo singular
+const GIVEN_CELL = cellKey('singular', 'nominative');
+
+/**
+ * Función helper: Etiqueta del género de una tabla ("" para ego y tū)
+ */
+const getGenderLabel = (gender?: AdjectiveGender) => (gender ? GENDER_LABELS[gender].label : '');
+
+/**
+ * COMPONENTE INTERNO: MODO TABLA
+ */
+const PronounTableExercise: React.FC<{
+  pronoun: LatinPronoun;
+  table: PronounTable;
+  showLabels: boolean;
+  hasAnswered: boolean;
+  onSubmit: (answers: Record<string, string>) => void;
+}> = ({ pronoun, table, showLabels, hasAnswered, onSubmit }) => {
+  const theme = useTheme();
+  const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const color = LATIN_COLORS.pronouns[pronoun.category];
+  const { glossLanguage } = useAppSettings();
+
+  const [answers, setAnswers] = useState<Record<string, string>>({});
+  const firstInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * RESETEAR FORMULARIO cuando cambia la tabla
+   */
+  useEffect(() => {
+    setAnswers({});
+    firstInputRef.current?.focus();
+  }, [pronoun.id, table.gender]);
+
+  const editableKeys = NUMBERS.flatMap(number =>
+    PRONOUN_CASES.map(grammaticalCase => cellKey(number, grammaticalCase))
+  ).filter(key => key !== GIVEN_CELL);
+
+  const isFormComplete = editableKeys.every(key => (answers[key] || '').trim() !== '');
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && isFormComplete && !hasAnswered) {
+      onSubmit(answers);
+    }
+  };
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: { xs: 1, sm: 1.5, md: 2 },
+      height: '100%',
+      overflow: 'hidden'
+    }}>
+      {/* PREGUNTA - Pronombre y género */}
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography variant={isMdUp ? 'h4' : 'h5'} sx={{ color, fontWeight: 'bold' }}>
+          {pronoun.lemma}
+        </Typography>
+        <Typography variant="subtitle1" sx={{ fontWeight: 'medium' }}>
+          {table.gender ? getGenderLabel(table.gender) : PRONOUN_CATEGORY_LABELS[pronoun.category].label}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            {getTranslation(pronoun, glossLanguage)}
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+
+      {/* TABLA - CSS Grid que se rellena por columnas (el Tab recorre el singular y luego el plural) */}
+      <Box sx={{
+        display: 'grid',
+        gridTemplateColumns: 'auto repeat(2, 1fr)',
+        gridTemplateRows: `auto repeat(${PRONOUN_CASES.length}, auto)`,
+        gridAutoFlow: 'column',
+        columnGap: { xs: 1, md: 2 },
+        rowGap: { xs: 0.5, md: 1 },
+        alignItems: 'center',
+        flexShrink: 0
+      }}>
+        <Box />
+        {PRONOUN_CASES.map(grammaticalCase => (
+          <Typography
+            key={grammaticalCase}
+            variant="body2"
+            sx={{ color: 'text.secondary', fontWeight: 'medium', pr: 1 }}
+          >
+            {isMdUp ? CASE_LABELS[grammaticalCase].label : CASE_LABELS[grammaticalCase].shortLabel}
+          </Typography>
+        ))}
+
+        {NUMBERS.map(number => (
+          <React.Fragment key={number}>
+            <Typography variant="subtitle2" sx={{ textAlign: 'center', color, fontWeight: 'bold' }}>
+              {NUMBER_LABELS[number].label}
+            </Typography>
+
+            {PRONOUN_CASES.map(grammaticalCase => {
+              const key = cellKey(number, grammaticalCase);
+              const accepted = table[number][grammaticalCase];
+              const isGiven = key === GIVEN_CELL;
+              const value = isGiven ? accepted[0] : (answers[key] || '');
+              const isCellCorrect = checkPronounForm(value, accepted);
+
+              return (
+                <TextField
+                  key={key}
+                  inputRef={key === editableKeys[0] ? firstInputRef : undefined}
+                  value={value}
+                  onChange={(e) => setAnswers(prev => ({ ...prev, [key]: e.target.value }))}
+                  onKeyPress={handleKeyPress}
+                  disabled={hasAnswered || isGiven}
+                  size="small"
+                  fullWidth
+                  variant="outlined"
+                  error={hasAnswered && !isGiven && !isCellCorrect}
+                  helperText={hasAnswered && !isGiven && !isCellCorrect ? accepted.join(' / ') : undefined}
+                  InputProps={{
+                    endAdornment: hasAnswered && !isGiven && (
+                      isCellCorrect
+                        ? <CheckIcon fontSize="small" sx={{ color }} />
+                        : <CloseIcon fontSize="small" color="error" />
+                    )
+                  }}
+                  sx={{
+                    '& .MuiFormHelperText-root': { mx: 0.5, mt: 0 },
+                    '& .MuiInputBase-input': {
+                      fontSize: { xs: '0.9rem', md: '1rem' },
+                      py: { xs: 0.75, md: 1 }
+                    }
+                  }}
+                  inputProps={{
+                    'aria-label': `${CASE_LABELS[grammaticalCase].label} ${NUMBER_LABELS[number].label}`,
+                    'data-testid': `input-${number}-${grammaticalCase}`
+                  }}
+                />
+              );
+            })}
+          </React.Fragment>
+        ))}
+      </Box>
+
+      {!hasAnswered && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', flexShrink: 0, mt: 'auto' }}>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={() => onSubmit(answers)}
+            disabled={!isFormComplete}
+            sx={{ px: 4, py: 1.5, fontSize: { xs: '1rem', md: '1.1rem' } }}
+            data-testid="button-submit-answer"
+          >
+            Verificar Tabla
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * COMPONENTE INTERNO: MODO UNA FORMA
+ */
+const PronounFormExercise: React.FC<{
+  pronoun: LatinPronoun;
+  question: FormQuestion;
+  showLabels: boolean;
+  hasAnswered: boolean;
+  isCorrect: boolean;
+  onSubmit: (answer: string) => void;
+}> = ({ pronoun, question, showLabels, hasAnswered, isCorrect, onSubmit }) => {
+  const theme = useTheme();
+  const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const color = LATIN_COLORS.pronouns[pronoun.category];
+  const { glossLanguage } = useAppSettings();
+
+  const [answer, setAnswer] = useState('');
+  const inputRef = useRef<HTMLInputElement>(null);
+
+  useEffect(() => {
+    setAnswer('');
+    inputRef.current?.focus();
+  }, [pronoun.id, question]);
+
+  const handleKeyPress = (e: React.KeyboardEvent) => {
+    if (e.key === 'Enter' && answer.trim() && !hasAnswered) {
+      onSubmit(answer);
+    }
+  };
+
+  // "Femenino · Dativo · Plural" (sin género para ego y tū)
+  const prompt = [
+    getGenderLabel(question.table.gender),
+    CASE_LABELS[question.grammaticalCase].label,
+    NUMBER_LABELS[question.number].label
+  ].filter(Boolean).join(' · ');
+
+  return (
+    <Box sx={{
+      display: 'flex',
+      flexDirection: 'column',
+      gap: { xs: 1.5, md: 2 },
+      height: '100%',
+      overflow: 'hidden'
+    }}>
+      <Box sx={{ flexShrink: 0, textAlign: 'center' }}>
+        <Typography variant={isMdUp ? 'h4' : 'h5'} sx={{ color, fontWeight: 'bold' }}>
+          {pronoun.lemma}
+        </Typography>
+        <Typography variant="h6" sx={{ fontWeight: 'medium', mt: 1 }} data-testid="pronoun-form-prompt">
+          {prompt}
+        </Typography>
+        {showLabels && (
+          <Typography variant="body2" sx={{ color: 'text.secondary', fontStyle: 'italic' }}>
+            {getTranslation(pronoun, glossLanguage)} • {CASE_LABELS[question.grammaticalCase].question}
+          </Typography>
+        )}
+      </Box>
+
+      <Divider />
+
+      <TextField
+        inputRef={inputRef}
+        label="Escribe la forma"
+        value={answer}
+        onChange={(e) => setAnswer(e.target.value)}
+        onKeyPress={handleKeyPress}
+        disabled={hasAnswered}
+        fullWidth
+        variant="outlined"
+        error={hasAnswered && !isCorrect}
+        sx={{
+          flexShrink: 0,
+          '& .MuiInputBase-input': { fontSize: { xs: '1rem', md: '1.1rem' } }
+        }}
+        inputProps={{ 'data-testid': 'input-pronoun-answer' }}
+      />
+
+      {!hasAnswered && (
+        <Box sx={{ display: 'flex', justifyContent: 'center', flexShrink: 0, mt: 'auto' }}>
+          <Button
+            variant="contained"
+            size="large"
+            onClick={() => onSubmit(answer)}
+            disabled={!answer.trim()}
+            sx={{ px: 4, py: 1.5, fontSize: { xs: '1rem', md: '1.1rem' } }}
+            data-testid="button-submit-answer"
+          >
+            Verificar Respuesta
+          </Button>
+        </Box>
+      )}
+    </Box>
+  );
+};
+
+/**
+ * PRONOUN DECLENSION DRILL CARD COMPONENT
+ * 
+ * Componente principal que usa BaseDrillCard para el contenedor
+ * y elige al azar la tabla (y en modo 'form', la casilla) a preguntar
+ */
+const PronounDeclensionDrillCard: React.FC<PronounDeclensionDrillCardProps> = ({
+  currentPronoun,
+  mode,
+  onAnswer,
+  showLabels = true,
+  compact = false,
+  hideHeader = false
+}) => {
+  const [question, setQuestion] = useState<FormQuestion | null>(null);
+  const [hasAnswered, setHasAnswered] = useState(false);
+  const [isCorrect, setIsCorrect] = useState(false);
+  const [correctCount, setCorrectCount] = useState(0);
+
+  /**
+   * NUEVA PREGUNTA cuando cambia el pronombre o el modo
+   * (en modo tabla solo se usa la tabla elegida)
+   */
+  useEffect(() => {
+    setQuestion({
+      table: pickRandom(currentPronoun.tables),
+      number: pickRandom(NUMBERS),
+      grammaticalCase: pickRandom(PRONOUN_CASES)
+    });
+    setHasAnswered(false);
+    setIsCorrect(false);
+    setCorrectCount(0);
+  }, [currentPronoun.tables, mode]);
+
+  // Casillas a rellenar en modo tabla (todas menos el nominativo singular)
+  const totalCells = NUMBERS.length * PRONOUN_CASES.length - 1;
+
+  /**
+   * MANEJAR RESPUESTA - MODO TABLA (corrección casilla por casilla)
+   */
+  const handleTableSubmit = (answers: Record<string, string>) => {
+    if (!question) {
+      return;
+    }
+
+    let correct = 0;
+    NUMBERS.forEach(number => {
+      PRONOUN_CASES.forEach(grammaticalCase => {
+        const key = cellKey(number, grammaticalCase);
+        if (key !== GIVEN_CELL && checkPronounForm(answers[key] || '', question.table[number][grammaticalCase])) {
+          correct++;
+        }
+      });
+    });
+
+    const allCorrect = correct === totalCells;
+    setCorrectCount(correct);
+    setIsCorrect(allCorrect);
+    setHasAnswered(true);
+    onAnswer(allCorrect);
+  };
+
+  /**
+   * MANEJAR RESPUESTA - MODO UNA FORMA
+   */
+  const handleFormSubmit = (answer: string) => {
+    if (!question) {
+      return;
+    }
+
+    const correct = checkPronounForm(answer, question.table[question.number][question.grammaticalCase]);
+    setIsCorrect(correct);
+    setHasAnswered(true);
+    onAnswer(correct);
+  };
+
+  return (
+    <BaseDrillCard
+      title={mode === 'table' ? 'Tabla del Pronombre' : 'Forma del Pronombre'}
+      subtitle={mode === 'table'
+        ? 'Escribe todas las formas del pronombre en singular y plural'
+        : 'Escribe la forma pedida del pronombre'}
+      isAnswered={hasAnswered}
+      isCorrect={isCorrect}
+      compact={compact}
+      hideHeader={hideHeader}
+      maxWidth={{ xs: '100%', md: 600, lg: 700 }}
+
+      // Contenido específico del ejercicio
+      exerciseContent={
+        question ? (
+          mode === 'table' ? (
+            <PronounTableExercise
+              pronoun={currentPronoun}
+              table={question.table}
+              showLabels={showLabels}
+              hasAnswered={hasAnswered}
+              onSubmit={handleTableSubmit}
+            />
+          ) : (
+            <PronounFormExercise
+              pronoun={currentPronoun}
+              question={question}
+              showLabels={showLabels}
+              hasAnswered={hasAnswered}
+              isCorrect={isCorrect}
+              onSubmit={handleFormSubmit}
+            />
+          )
+        ) : (
+          <Typography>Cargando ejercicio...</Typography>
+        )
+      }
+
+      // Feedback adicional después de responder
+      feedbackContent={
+        hasAnswered && question && (
+          <Alert severity={isCorrect ? 'success' : 'error'} sx={{ textAlign: 'left' }}>
+            {mode === 'table' ? (
+              <>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                  {isCorrect ? '¡Excelente! Tabla completa.' : 'Hay formas incorrectas.'}
+                </Typography>
+                <Typography variant="body2">
+                  {correctCount} de {totalCells} formas correctas
+                </Typography>
+              </>
+            ) : (
+              <Typography variant="body1" sx={{ fontWeight: 'medium' }}>
+                {isCorrect ? '¡Correcto!' : 'Respuesta incorrecta.'}
+                {' '}
+                <strong>{question.table[question.number][question.grammaticalCase].join(' / ')}</strong>
+              </Typography>
+            )}
+          </Alert>
+        )
+      }
+    />
+  );
+};
+
+export default PronounDeclensionDrillCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. UN COMPONENTE, DOS MODOS:
+ *    - La prop "mode" elige el subcomponente interno
+ *    - La lógica común (pregunta, BaseDrillCard, feedback) se comparte
+ * 
+ * 2. FORMAS ALTERNATIVAS:
+ *    - Cada casilla es una lista de formas aceptadas
+ *    - checkPronounForm acepta cualquiera de ellas
+ * 
+ * 3. DATOS ESTÁTICOS:
+ *    - Los pronombres no se generan: sus tablas vienen del paquete de datos
+ */
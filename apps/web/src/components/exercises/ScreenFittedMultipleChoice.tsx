@@ -22,6 +22,8 @@ import {
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
 import type { LatinWord } from '../global/WordCard';
+import { getTranslation } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
 import { getDeclensionColor } from '../../features/study-session/constants/colors';
 
 /**
@@ -62,6 +64,9 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
   onAnswer,
   numberOfOptions = 4
 }) => {
+  // Idioma de las traducciones elegido por el usuario
+  const { glossLanguage } = useAppSettings();
+  
   // Estado del ejercicio
   const [selectedOption, setSelectedOption] = useState<string | null>(null);
   const [isAnswered, setIsAnswered] = useState(false);
@@ -104,7 +109,7 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
   const getCorrectAnswer = (): string => {
     switch (questionType) {
       case 'latinToSpanish':
-        return currentWord.spanishTranslation;
+        return getTranslation(currentWord, glossLanguage);
       case 'spanishToLatin':
         return `${currentWord.nominative}, ${currentWord.genitive}`;
       case 'gender':
@@ -112,7 +117,7 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
       case 'declension':
         return getDeclensionLabel(currentWord.declension);
       default:
-        return currentWord.spanishTranslation;
+        return getTranslation(currentWord, glossLanguage);
     }
   };
 
@@ -135,7 +140,7 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
       
       switch (questionType) {
         case 'latinToSpanish':
-          optionText = shuffled[i].spanishTranslation;
+          optionText = getTranslation(shuffled[i], glossLanguage);
           break;
         case 'spanishToLatin':
           optionText = `${shuffled[i].nominative}, ${shuffled[i].genitive}`;
@@ -219,7 +224,7 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
     generateOptions();
     setSelectedOption(null);
     setIsAnswered(false);
-  }, [currentWord.id, questionType]);
+  }, [currentWord.id, questionType, glossLanguage]);
 
   /**
    * OBTENER PREGUNTA
@@ -249,7 +254,7 @@ const ScreenFittedMultipleChoice: React.FC<ScreenFittedMultipleChoiceProps> = ({
       case 'declension':
         return currentWord.nominative;
       case 'spanishToLatin':
-        return currentWord.spanishTranslation;
+        return getTranslation(currentWord, glossLanguage);
       default:
         return currentWord.nominative;
     }
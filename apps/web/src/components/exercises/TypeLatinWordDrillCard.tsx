@@ -8,6 +8,11 @@
  * - Seleccionar género
  * - Seleccionar declinación
  * 
+ * MODO MACRONES ESTRICTOS (strictMacrons):
+ * Si está activo y la palabra tiene formas con macrones, el nominativo
+ * y el genitivo se corrigen con la cantidad vocálica: "natura" ya no vale
+ * para "nātūra". Se muestran botones para insertar ā ē ī ō ū ȳ.
+ * 
  * CONCEPTOS IMPORTANTES:
  * - Controlled Components: Los inputs están controlados por React state
  * - Tab Navigation: Orden lógico de tabulación para completar rápidamente
@@ -26,13 +31,21 @@ import {
   Fade,
   Alert,
   Divider,
+  Stack,
   useTheme,
   useMediaQuery
 } from '@mui/material';
 import BaseDrillCard from './BaseDrillCard';
 import type { LatinWord } from '../global/WordCard';
 // Usar las funciones de comparación centralizadas que manejan macrones (ō→o)
-import { compareStrings } from '@latin-app/shared';
+import {
+  compareStrings,
+  compareWithMacrons,
+  getDisplayForms,
+  MACRON_VOWELS
+} from '@latin-app/shared';
+import { getGloss } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
 // Usar los colores centralizados de la aplicación
 import { getDeclensionColor } from '../../features/study-session/constants/colors';
 import CheckIcon from '@mui/icons-material/Check';
@@ -48,8 +61,25 @@ interface TypeLatinWordDrillCardProps {
   showLabels?: boolean;                      // Mostrar etiquetas de ayuda
   compact?: boolean;                         // Versión compacta para pantallas pequeñas
   hideHeader?: boolean;                      // Ocultar encabezado para ahorrar espacio
+  strictMacrons?: boolean;                   // Exigir macrones en nominativo y genitivo
 }
 
+/**
+ * FUNCIÓN HELPER: ¿Es correcta una forma escrita?
+ * 
+ * En modo estricto se compara con la forma macronizada. Si la palabra no
+ * tiene macrones conocidos, no podemos exigirlos y se corrige como siempre.
+ */
+const isFormCorrect = (
+  answer: string,
+  plainForm: string,
+  macronizedForm: string | undefined,
+  strictMacrons: boolean
+): boolean =>
+  strictMacrons && macronizedForm
+    ? compareWithMacrons(answer, macronizedForm)
+    : compareStrings(answer, plainForm);
+
 /**
  * COMPONENTE INTERNO DE EJERCICIO
  * Separamos la lógica del ejercicio para pasarla a BaseDrillCard
@@ -60,10 +90,15 @@ const TypeLatinWordExercise: React.FC<{
   showLabels: boolean;
   hasAnswered: boolean;
   isCorrect: boolean;
+  strictMacrons: boolean;
   onSubmit: (nominative: string, genitive: string, gender: string, declension: string) => void;
-}> = ({ currentWord, showLabels, hasAnswered, onSubmit }) => {
+}> = ({ currentWord, showLabels, hasAnswered, strictMacrons, onSubmit }) => {
   const theme = useTheme();
   const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
+  const forms = getDisplayForms(currentWord);
+  // La pregunta se muestra en el idioma de traducción elegido
+  const { glossLanguage } = useAppSettings();
+  const gloss = getGloss(currentWord, glossLanguage);
   
   // Estados del formulario
   const [nominative, setNominative] = useState('');
@@ -71,9 +106,20 @@ const TypeLatinWordExercise: React.FC<{
   const [selectedGender, setSelectedGender] = useState<string>('');
   const [selectedDeclension, setSelectedDeclension] = useState<string>('');
   const [showHint, setShowHint] = useState(false);
+  // Campo donde se insertan las vocales con macrón
+  const [activeField, setActiveField] = useState<'nominative' | 'genitive'>('nominative');
   
   // Referencias para focus management
   const nominativeRef = useRef<HTMLInputElement>(null);
+  const genitiveRef = useRef<HTMLInputElement>(null);
+  
+  // Resultado de cada campo (solo tiene sentido tras responder)
+  const nominativeCorrect = isFormCorrect(
+    nominative, currentWord.nominative, currentWord.macronizedNominative, strictMacrons
+  );
+  const genitiveCorrect = isFormCorrect(
+    genitive, currentWord.genitive, currentWord.macronizedGenitive, strictMacrons
+  );
   
   /**
    * RESETEAR FORMULARIO cuando cambia la palabra
@@ -84,6 +130,7 @@ const TypeLatinWordExercise: React.FC<{
     setSelectedGender('');
     setSelectedDeclension('');
     setShowHint(false);
+    setActiveField('nominative');
     
     // Auto-focus en el primer campo
     if (nominativeRef.current) {
@@ -103,6 +150,26 @@ const TypeLatinWordExercise: React.FC<{
   
   const isFormComplete = nominative && genitive && selectedGender && selectedDeclension;
   
+  /**
+   * INSERTAR VOCAL CON MACRÓN
+   * Se inserta en la posición del cursor del último campo enfocado
+   */
+  const insertMacronVowel = (vowel: string) => {
+    const isNominative = activeField === 'nominative';
+    const input = isNominative ? nominativeRef.current : genitiveRef.current;
+    const value = isNominative ? nominative : genitive;
+    const start = input?.selectionStart ?? value.length;
+    const end = input?.selectionEnd ?? value.length;
+    
+    (isNominative ? setNominative : setGenitive)(value.slice(0, start) + vowel + value.slice(end));
+    
+    // Devolver el foco y dejar el cursor después de la vocal (tras el re-render)
+    requestAnimationFrame(() => {
+      input?.focus();
+      input?.setSelectionRange(start + 1, start + 1);
+    });
+  };
+  
   const handleKeyPress = (e: React.KeyboardEvent) => {
     if (e.key === 'Enter' && isFormComplete && !hasAnswered) {
       handleSubmit();
@@ -133,9 +200,9 @@ const TypeLatinWordExercise: React.FC<{
             mb: 1
           }}
         >
-          {currentWord.spanishTranslation}
+          {gloss.translation}
         </Typography>
-        {currentWord.additionalMeanings && currentWord.additionalMeanings.length > 0 && (
+        {gloss.additionalMeanings.length > 0 && (
           <Typography 
             variant="body2" 
             sx={{ 
@@ -143,7 +210,7 @@ const TypeLatinWordExercise: React.FC<{
               fontStyle: 'italic'
             }}
           >
-            También: {currentWord.additionalMeanings.join(', ')}
+            También: {gloss.additionalMeanings.join(', ')}
           </Typography>
         )}
       </Box>
@@ -164,20 +231,21 @@ const TypeLatinWordExercise: React.FC<{
           label="Nominativo"
           value={nominative}
           onChange={(e) => setNominative(e.target.value)}
+          onFocus={() => setActiveField('nominative')}
           onKeyPress={handleKeyPress}
           disabled={hasAnswered}
           fullWidth
           variant="outlined"
           placeholder="Ej: Rosa"
-          error={hasAnswered && !compareStrings(nominative, currentWord.nominative)}
+          error={hasAnswered && !nominativeCorrect}
           helperText={
-            hasAnswered && !compareStrings(nominative, currentWord.nominative) 
-              ? `Correcto: ${currentWord.nominative}`
+            hasAnswered && !nominativeCorrect
+              ? `Correcto: ${forms.nominative}`
               : showLabels ? 'Caso nominativo (sujeto)' : ''
           }
           InputProps={{
             endAdornment: hasAnswered && (
-              compareStrings(nominative, currentWord.nominative) 
+              nominativeCorrect
                 ? <CheckIcon color="success" />
                 : <CloseIcon color="error" />
             )
@@ -195,23 +263,25 @@ const TypeLatinWordExercise: React.FC<{
         
         {/* Campo Genitivo */}
         <TextField
+          inputRef={genitiveRef}
           label="Genitivo"
           value={genitive}
           onChange={(e) => setGenitive(e.target.value)}
+          onFocus={() => setActiveField('genitive')}
           onKeyPress={handleKeyPress}
           disabled={hasAnswered}
           fullWidth
           variant="outlined"
           placeholder="Ej: Rosae"
-          error={hasAnswered && !compareStrings(genitive, currentWord.genitive)}
+          error={hasAnswered && !genitiveCorrect}
           helperText={
-            hasAnswered && !compareStrings(genitive, currentWord.genitive)
-              ? `Correcto: ${currentWord.genitive}`
+            hasAnswered && !genitiveCorrect
+              ? `Correcto: ${forms.genitive}`
               : showLabels ? 'Caso genitivo (de...)' : ''
           }
           InputProps={{
             endAdornment: hasAnswered && (
-              compareStrings(genitive, currentWord.genitive)
+              genitiveCorrect
                 ? <CheckIcon color="success" />
                 : <CloseIcon color="error" />
             )
@@ -228,6 +298,35 @@ const TypeLatinWordExercise: React.FC<{
         />
       </Box>
       
+      {/* VOCALES CON MACRÓN - Solo en modo estricto */}
+      {strictMacrons && !hasAnswered && (
+        <Stack
+          direction="row"
+          spacing={0.5}
+          alignItems="center"
+          sx={{ flexShrink: 0, mt: -1 }}
+          data-testid="macron-vowel-buttons"
+        >
+          <Typography variant="caption" sx={{ color: 'text.secondary', mr: 0.5 }}>
+            Macrones estrictos:
+          </Typography>
+          {MACRON_VOWELS.map((vowel) => (
+            <Button
+              key={vowel}
+              size="small"
+              variant="outlined"
+              // Evitar que el botón robe el foco del campo de texto
+              onMouseDown={(e) => e.preventDefault()}
+              onClick={() => insertMacronVowel(vowel)}
+              sx={{ minWidth: 32, px: 0.5, textTransform: 'none' }}
+              data-testid={`button-macron-${vowel}`}
+            >
+              {vowel}
+            </Button>
+          ))}
+        </Stack>
+      )}
+      
       {/* SELECCIÓN DE GÉNERO Y DECLINACIÓN - Usando flexbox */}
       <Box sx={{ 
         display: 'flex',
@@ -396,9 +495,9 @@ const TypeLatinWordExercise: React.FC<{
         <Fade in>
           <Alert severity="info" sx={{ py: 1 }}>
             <Typography variant="body2">
-              Primera letra del nominativo: <strong>{currentWord.nominative.charAt(0)}</strong>
+              Primera letra del nominativo: <strong>{forms.nominative.charAt(0)}</strong>
               {' • '}
-              Terminación del genitivo: <strong>-{currentWord.genitive.slice(-2)}</strong>
+              Terminación del genitivo: <strong>-{forms.genitive.slice(-2)}</strong>
             </Typography>
           </Alert>
         </Fade>
@@ -444,8 +543,10 @@ const TypeLatinWordDrillCard: React.FC<TypeLatinWordDrillCardProps> = ({
   onAnswer,
   showLabels = true,
   compact = false,
-  hideHeader = false
+  hideHeader = false,
+  strictMacrons = false
 }) => {
+  const forms = getDisplayForms(currentWord);
   const [hasAnswered, setHasAnswered] = useState(false);
   const [isCorrect, setIsCorrect] = useState(false);
   
@@ -461,9 +562,13 @@ const TypeLatinWordDrillCard: React.FC<TypeLatinWordDrillCardProps> = ({
    * MANEJAR RESPUESTA
    */
   const handleSubmit = (nominative: string, genitive: string, gender: string, declension: string) => {
-    // Comparar todas las respuestas usando compareStrings que maneja macrones
-    const nominativeCorrect = compareStrings(nominative, currentWord.nominative);
-    const genitiveCorrect = compareStrings(genitive, currentWord.genitive);
+    // Comparar las formas escritas (con o sin macrones según el modo)
+    const nominativeCorrect = isFormCorrect(
+      nominative, currentWord.nominative, currentWord.macronizedNominative, strictMacrons
+    );
+    const genitiveCorrect = isFormCorrect(
+      genitive, currentWord.genitive, currentWord.macronizedGenitive, strictMacrons
+    );
     const genderCorrect = gender === currentWord.gender;
     const declensionCorrect = declension === currentWord.declension;
     
@@ -499,6 +604,7 @@ const TypeLatinWordDrillCard: React.FC<TypeLatinWordDrillCardProps> = ({
           showLabels={showLabels}
           hasAnswered={hasAnswered}
           isCorrect={isCorrect}
+          strictMacrons={strictMacrons}
           onSubmit={handleSubmit}
         />
       }
@@ -516,7 +622,7 @@ const TypeLatinWordDrillCard: React.FC<TypeLatinWordDrillCardProps> = ({
             {!isCorrect && (
               <Box sx={{ mt: 1 }}>
                 <Typography variant="body2">
-                  Respuesta correcta: <strong>{currentWord.nominative}, {currentWord.genitive}</strong>
+                  Respuesta correcta: <strong>{forms.nominative}, {forms.genitive}</strong>
                   {' • '}
                   {currentWord.gender === 'masculine' ? 'Masculino' : 
                    currentWord.gender === 'feminine' ? 'Femenino' : currentWord.gender === 'neuter' ? 'Neutro': 'Común'}
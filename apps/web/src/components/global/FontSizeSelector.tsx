@@ -7,7 +7,7 @@
  * CARACTERÍSTICAS:
  * - 4 opciones de tamaño: Pequeño, Mediano, Grande, Extra Grande
  * - Muestra una vista previa del tamaño de cada opción
- * - Guarda automáticamente la selección en localStorage
+ * - Guarda automáticamente la selección en las preferencias
  * - Se sincroniza con el contexto global de la aplicación
  * - Totalmente responsive para móvil y desktop
  */
@@ -0,0 +1,151 @@
+/**
+ * GLOSS LANGUAGE SELECTOR COMPONENT - Selector del idioma de las traducciones
+ * 
+ * Permite elegir en qué idioma se muestran las traducciones de las palabras
+ * latinas: en las tarjetas, en los ejercicios y en la búsqueda.
+ * Es hermano de FontSizeSelector y se muestra debajo de él en el menú.
+ * 
+ * CARACTERÍSTICAS:
+ * - Una opción por idioma de GLOSS_LANGUAGES (español, inglés)
+ * - Muestra la traducción de una palabra de ejemplo en el idioma elegido
+ * - Guarda la selección en las preferencias a través del contexto
+ */
+
+import React from 'react';
+import {
+  Box,
+  Divider,
+  Paper,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+
+import type { GlossLanguage } from '@latin-app/types';
+import { GLOSS_LANGUAGES, getTranslation } from '@latin-app/data';
+
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+import { GLOSS_LANGUAGE_LABELS } from '../../config/glossLanguages';
+
+/**
+ * PALABRA DE EJEMPLO PARA LA VISTA PREVIA
+ * Tiene el mismo formato que las palabras del vocabulario
+ */
+const PREVIEW_WORD = {
+  nominative: 'agricola',
+  spanishTranslation: 'Agricultor',
+  glosses: { es: ['Agricultor'], en: ['Farmer'] },
+};
+
+/**
+ * COMPONENTE GlossLanguageSelector
+ * 
+ * Igual que FontSizeSelector, no recibe props: todo sale del contexto.
+ */
+export const GlossLanguageSelector: React.FC = () => {
+  const { glossLanguage, setGlossLanguage } = useAppSettings();
+
+  /**
+   * MANEJADOR DE CAMBIO DE IDIOMA
+   * newLanguage es null si se pulsa el botón ya seleccionado
+   */
+  const handleLanguageChange = (
+    _event: React.MouseEvent<HTMLElement>,
+    newLanguage: GlossLanguage | null
+  ) => {
+    if (newLanguage) {
+      setGlossLanguage(newLanguage);
+    }
+  };
+
+  return (
+    <Paper
+      data-testid="gloss-language-selector"
+      elevation={0}
+      sx={{
+        p: 2,
+        mt: 2,
+        border: '1px solid',
+        borderColor: 'divider',
+        borderRadius: 2,
+        bgcolor: 'background.paper',
+      }}
+    >
+      <Typography
+        variant="subtitle2"
+        gutterBottom
+        sx={{
+          color: 'text.secondary',
+          fontSize: { xs: '0.75rem', sm: '0.875rem' },
+          fontWeight: 500,
+        }}
+      >
+        Idioma de las Traducciones
+      </Typography>
+
+      {/* GRUPO DE BOTONES: uno por idioma */}
+      <ToggleButtonGroup
+        data-testid="gloss-language-toggle-group"
+        value={glossLanguage}
+        exclusive
+        onChange={handleLanguageChange}
+        aria-label="Selector del idioma de las traducciones"
+        sx={{ width: '100%', gap: 1 }}
+      >
+        {GLOSS_LANGUAGES.map((language) => (
+          <ToggleButton
+            key={language}
+            value={language}
+            data-testid={`gloss-language-option-${language}`}
+            sx={{
+              flex: 1,
+              py: 1,
+              borderRadius: 1,
+              transition: 'all 0.2s ease',
+              '&.Mui-selected': {
+                bgcolor: 'primary.main',
+                color: 'primary.contrastText',
+                boxShadow: '0 2px 8px rgba(187, 134, 252, 0.3)',
+                '&:hover': {
+                  bgcolor: 'primary.dark',
+                },
+              },
+            }}
+          >
+            {GLOSS_LANGUAGE_LABELS[language]}
+          </ToggleButton>
+        ))}
+      </ToggleButtonGroup>
+
+      <Divider sx={{ my: 1.5 }} />
+
+      {/* VISTA PREVIA: una palabra traducida al idioma elegido */}
+      <Box sx={{ pt: 1, textAlign: 'center' }}>
+        <Typography
+          variant="caption"
+          sx={{ color: 'text.secondary', display: 'block', mb: 0.5 }}
+        >
+          Vista previa:
+        </Typography>
+        <Typography variant="body1" sx={{ color: 'primary.main', fontWeight: 500 }}>
+          {PREVIEW_WORD.nominative} – {getTranslation(PREVIEW_WORD, glossLanguage)}
+        </Typography>
+      </Box>
+    </Paper>
+  );
+};
+
+export default GlossLanguageSelector;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. CONFIGURACIÓN COMPARTIDA:
+ *    - El idioma vive en AppSettingsContext, como el tamaño de fuente
+ *    - Cualquier componente lo lee con useAppSettings()
+ * 
+ * 2. UNA SOLA FUENTE DE VERDAD:
+ *    - Los botones salen de GLOSS_LANGUAGES (@latin-app/data)
+ *    - Si se añade un idioma allí, aparece aquí sin tocar este archivo
+ *      (solo hace falta su nombre en config/glossLanguages.ts)
+ */
@@ -0,0 +1,231 @@
+/**
+ * PRONOUN WORD CARD COMPONENT
+ * 
+ * Variante de WordCard para pronombres. Un pronombre no tiene un
+ * enunciado nominativo + genitivo ni una declinación: se aprende por su
+ * tabla completa, que aquí se muestra entera (singular y plural de cada
+ * género).
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Datos estáticos: las tablas vienen escritas a mano del paquete de datos
+ * - Formas alternativas: nostrī / nostrum se muestran separadas por "/"
+ */
+
+import React from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Stack,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+
+import TranslateIcon from '@mui/icons-material/Translate';
+
+import type { GrammaticalNumber, LatinPronoun } from '@latin-app/types';
+import { PRONOUN_CASES, getGloss } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+
+import { LATIN_COLORS } from '../../config/theme';
+import {
+  CASE_LABELS,
+  GENDER_LABELS,
+  NUMBER_LABELS,
+  PRONOUN_CATEGORY_LABELS,
+} from '../../features/study-session/constants/cases';
+
+/**
+ * PROPS DEL COMPONENTE
+ * Las mismas que WordCard (minimal y exercise se muestran como la versión completa)
+ */
+interface PronounWordCardProps {
+  word: LatinPronoun;        // El pronombre a mostrar
+  showTranslation?: boolean; // Si mostrar o no la traducción (por defecto true)
+  compact?: boolean;         // Modo compacto: solo enunciado y chips
+  onClick?: () => void;      // Callback opcional cuando se hace clic en la tarjeta
+  selected?: boolean;        // Si la tarjeta está seleccionada
+}
+
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural'];
+
+/**
+ * COMPONENTE PRONOUNWORDCARD
+ */
+const PronounWordCard: React.FC<PronounWordCardProps> = ({
+  word,
+  showTranslation = true,
+  compact = false,
+  onClick,
+  selected = false,
+}) => {
+  const color = LATIN_COLORS.pronouns[word.category];
+  const { glossLanguage } = useAppSettings();
+  const gloss = getGloss(word, glossLanguage);
+
+  // Chips comunes a las dos versiones
+  const chips = (
+    <Chip
+      label={PRONOUN_CATEGORY_LABELS[word.category].label}
+      size={compact ? 'small' : 'medium'}
+      sx={{ bgcolor: color, color: 'white', fontWeight: 'bold' }}
+      data-testid="chip-pronoun-category"
+    />
+  );
+
+  /**
+   * RENDERIZADO COMPACTO
+   */
+  if (compact) {
+    return (
+      <Card
+        elevation={selected ? 8 : 2}
+        onClick={onClick}
+        sx={{
+          width: '100%',
+          maxWidth: { xs: '100%', sm: 400, md: 450 },
+          margin: '0 auto',
+          cursor: onClick ? 'pointer' : 'default',
+          border: selected ? 2 : 0,
+          borderColor: 'primary.main',
+        }}
+        data-testid="pronoun-card-compact"
+      >
+        <CardContent sx={{ p: { xs: 1.5, sm: 2 } }}>
+          <Stack
+            direction={{ xs: 'column', sm: 'row' }}
+            spacing={{ xs: 1, sm: 2 }}
+            alignItems={{ xs: 'flex-start', sm: 'center' }}
+          >
+            <Typography variant="h6" component="div" sx={{ fontWeight: 'bold', color }}>
+              {word.lemma}
+            </Typography>
+            {chips}
+            {showTranslation && (
+              <Typography variant="body2" color="text.secondary" data-testid="text-translation-compact">
+                {gloss.translation}
+              </Typography>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  /**
+   * RENDERIZADO COMPLETO
+   * Una columna por género y número: m. sg., m. pl., f. sg...
+   */
+  return (
+    <Card
+      elevation={selected ? 8 : 3}
+      onClick={onClick}
+      sx={{
+        width: '100%',
+        maxWidth: { xs: '100%', sm: 550, md: 600 },
+        margin: '0 auto',
+        cursor: onClick ? 'pointer' : 'default',
+        transition: 'all 0.3s ease',
+        border: selected ? 2 : '1px solid',
+        borderColor: selected ? 'primary.main' : 'divider',
+        bgcolor: (theme) =>
+          selected ? 'action.selected' :
+          theme.palette.mode === 'dark' ? '#1a1a1a' : '#fafafa',
+      }}
+      data-testid="pronoun-card-full"
+    >
+      <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+        {/* ENUNCIADO + CHIP */}
+        <Box sx={{
+          display: 'flex',
+          flexDirection: { xs: 'column', md: 'row' },
+          alignItems: 'center',
+          gap: 2,
+          mb: 2
+        }}>
+          <Typography
+            variant="h4"
+            component="div"
+            sx={{ fontWeight: 'bold', color, letterSpacing: 1 }}
+            data-testid="text-pronoun-lemma"
+          >
+            {word.lemma}
+          </Typography>
+          {chips}
+        </Box>
+
+        {/* TRADUCCIÓN */}
+        {showTranslation && (
+          <Box sx={{ display: 'flex', alignItems: 'flex-start', mb: 1 }}>
+            <TranslateIcon sx={{ mr: 1, color: 'info.main', fontSize: 20, mt: 0.5 }} />
+            <Typography variant="body1" sx={{ fontWeight: 'medium' }} data-testid="text-translation-full">
+              {gloss.translation}
+              {gloss.additionalMeanings.length > 0 && (
+                <Typography component="span" variant="body2" color="text.secondary">
+                  {' '}({gloss.additionalMeanings.join(', ')})
+                </Typography>
+              )}
+            </Typography>
+          </Box>
+        )}
+
+        <Divider sx={{ my: 2 }} />
+
+        {/* TABLA COMPLETA */}
+        <Box sx={{ overflowX: 'auto' }}>
+          <Table size="small" data-testid="pronoun-forms-table">
+            <TableHead>
+              <TableRow>
+                <TableCell />
+                {word.tables.flatMap(table =>
+                  NUMBERS.map(number => (
+                    <TableCell key={`${table.gender ?? 'all'}-${number}`} sx={{ fontWeight: 'bold' }}>
+                      {table.gender ? `${GENDER_LABELS[table.gender].shortLabel} ` : ''}
+                      {NUMBER_LABELS[number].shortLabel}
+                    </TableCell>
+                  ))
+                )}
+              </TableRow>
+            </TableHead>
+            <TableBody>
+              {PRONOUN_CASES.map(grammaticalCase => (
+                <TableRow key={grammaticalCase}>
+                  <TableCell sx={{ color: 'text.secondary' }}>
+                    {CASE_LABELS[grammaticalCase].shortLabel}
+                  </TableCell>
+                  {word.tables.flatMap(table =>
+                    NUMBERS.map(number => (
+                      <TableCell key={`${table.gender ?? 'all'}-${number}`}>
+                        {table[number][grammaticalCase].join(' / ')}
+                      </TableCell>
+                    ))
+                  )}
+                </TableRow>
+              ))}
+            </TableBody>
+          </Table>
+        </Box>
+      </CardContent>
+    </Card>
+  );
+};
+
+export default PronounWordCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. TABLAS DINÁMICAS:
+ *    - Las columnas salen de los datos (1 tabla para ego, 3 para hic)
+ *    - flatMap convierte "géneros × números" en una lista plana de columnas
+ * 
+ * 2. COMPOSICIÓN:
+ *    - WordCard delega en PronounWordCard según partOfSpeech
+ *    - Reutiliza las etiquetas de casos, números y géneros de constants/cases
+ */
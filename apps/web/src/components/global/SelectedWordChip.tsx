@@ -23,19 +23,24 @@ import {
 import CloseIcon from '@mui/icons-material/Close';
 import SchoolIcon from '@mui/icons-material/School';
 
-// Importar el tipo LatinWord
-import type { LatinWord } from './WordCard';
+// Importar el tipo VocabularyWord (sustantivo, adjetivo o pronombre)
+import type { VocabularyWord } from './WordCard';
+import { getDisplayForms, getEnunciation } from '@latin-app/shared';
+import { getTranslation, isPronoun } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
 
 // Importar colores centralizados
 import { DECLENSION_COLORS } from '../../features/study-session/constants/colors';
+import { PRONOUN_CATEGORY_LABELS } from '../../features/study-session/constants/cases';
+import { LATIN_COLORS } from '../../config/theme';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface SelectedWordChipProps {
-  word: LatinWord;
+  word: VocabularyWord;
   onDelete?: (wordId: string) => void;
-  onClick?: (word: LatinWord) => void;
+  onClick?: (word: VocabularyWord) => void;
   // Variantes de visualización
   variant?: 'default' | 'compact' | 'detailed';
   // Mostrar información adicional en tooltip
@@ -63,6 +68,9 @@ const SelectedWordChip: React.FC<SelectedWordChipProps> = ({
   colorByDeclension = true,  // Cambiado de colorByGender a colorByDeclension
   disabled = false
 }) => {
+  // Idioma de la traducción del tooltip
+  const { glossLanguage } = useAppSettings();
+  
   /**
    * MANEJADOR DE CLICK
    * Previene propagación si hay un onClick definido
@@ -92,7 +100,15 @@ const SelectedWordChip: React.FC<SelectedWordChipProps> = ({
    * Ahora basado en declinación en lugar de género
    * Usa los colores centralizados de DECLENSION_COLORS
    */
-  const chipColor = colorByDeclension ? DECLENSION_COLORS[word.declension] : undefined;
+  // Los pronombres no tienen declinación: usan el color de su tipo
+  const chipColor = !colorByDeclension ? undefined
+    : isPronoun(word) ? LATIN_COLORS.pronouns[word.category]
+    : DECLENSION_COLORS[word.declension];
+
+  // Formas a mostrar (con macrones si la palabra los tiene)
+  // Un pronombre se muestra por su enunciado: "hic, haec, hoc"
+  const enunciation = isPronoun(word) ? word.lemma : getEnunciation(word);
+  const shortForm = isPronoun(word) ? word.lemma.split(',')[0] : getDisplayForms(word).nominative;
 
   /**
    * CREAR EL LABEL SEGÚN LA VARIANTE
@@ -101,24 +117,26 @@ const SelectedWordChip: React.FC<SelectedWordChipProps> = ({
     switch (variant) {
       case 'compact':
         // Solo el nominativo
-        return word.nominative;
+        return shortForm;
       
       case 'detailed':
-        // Enunciación completa con género
+        // Enunciación completa con género (o "adj." para los adjetivos)
         return (
           <Box sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }} data-testid="selected-word-chip-detailed-content">
             <span style={{ fontWeight: 'bold' }} data-testid="selected-word-chip-word-text">
-              {word.nominative}, {word.genitive}
+              {enunciation}
             </span>
             <span style={{ opacity: 0.7, fontSize: '0.85em' }} data-testid="selected-word-chip-gender-text">
-              ({word.gender === 'masculine' ? 'm' : word.gender === 'feminine' ? 'f' : 'n'})
+              ({word.partOfSpeech === 'adjective' ? 'adj.' :
+                word.partOfSpeech === 'pronoun' ? `pron. ${PRONOUN_CATEGORY_LABELS[word.category].shortLabel}` :
+                word.gender === 'masculine' ? 'm' : word.gender === 'feminine' ? 'f' : 'n'})
             </span>
           </Box>
         );
       
       default:
-        // Nominativo y genitivo
-        return `${word.nominative}, ${word.genitive}`;
+        // Enunciado: nominativo y genitivo (o los nominativos de un adjetivo)
+        return enunciation;
     }
   };
 
@@ -129,19 +147,25 @@ const SelectedWordChip: React.FC<SelectedWordChipProps> = ({
     <Box data-testid="selected-word-chip-tooltip-content">
       {/* Enunciación completa */}
       <Box sx={{ mb: 1 }} data-testid="selected-word-chip-tooltip-word">
-        <strong>{word.nominative}, {word.genitive}</strong>
+        <strong>{enunciation}</strong>
       </Box>
       
       {/* Información gramatical */}
       <Box sx={{ fontSize: '0.85em' }} data-testid="selected-word-chip-tooltip-grammar">
-        <div>Género: {word.gender === 'masculine' ? 'Masculino' : 
-                     word.gender === 'feminine' ? 'Femenino' : word.gender === 'neuter' ? 'Neutro': 'Común'}</div>
-        <div>Declinación: {word.declension}</div>
+        {word.partOfSpeech === 'pronoun' ? (
+          <div>{PRONOUN_CATEGORY_LABELS[word.category].label}</div>
+        ) : word.partOfSpeech === 'adjective' ? (
+          <div>Adjetivo de {word.terminations} terminaci{word.terminations === 1 ? 'ón' : 'ones'}</div>
+        ) : (
+          <div>Género: {word.gender === 'masculine' ? 'Masculino' : 
+                       word.gender === 'feminine' ? 'Femenino' : word.gender === 'neuter' ? 'Neutro': 'Común'}</div>
+        )}
+        {word.partOfSpeech !== 'pronoun' && <div>Declinación: {word.declension}</div>}
       </Box>
       
       {/* Traducción */}
       <Box sx={{ mt: 1, fontStyle: 'italic' }} data-testid="selected-word-chip-tooltip-translation">
-        {word.spanishTranslation}
+        {getTranslation(word, glossLanguage)}
       </Box>
     </Box>
   );
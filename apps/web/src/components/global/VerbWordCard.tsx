@@ -0,0 +1,277 @@
+/**
+ * VERB WORD CARD COMPONENT
+ * 
+ * Variante de WordCard para verbos. Un verbo no tiene nominativo, genitivo
+ * ni género: se aprende por sus cuatro partes principales
+ * (amō, amāre, amāvī, amātum) y su conjugación.
+ * 
+ * WordCard delega en este componente cuando recibe un verbo, así que el
+ * resto de la app no necesita distinguirlos.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Partes principales: de ellas salen TODAS las formas del verbo
+ * - Tabla de conjugación: la calcula @latin-app/data, no se guarda en el JSON
+ */
+
+import React, { useMemo } from 'react';
+import {
+  Card,
+  CardContent,
+  Typography,
+  Box,
+  Chip,
+  Stack,
+  Divider,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+} from '@mui/material';
+
+import TranslateIcon from '@mui/icons-material/Translate';
+
+// Tipos y servicio de datos: la tabla se genera a partir de las partes principales
+import type { GrammaticalNumber, LatinVerb, VerbTense } from '@latin-app/types';
+import { getGloss, getPrincipalParts, vocabularyService, VERB_PERSONS } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+
+import { LATIN_COLORS } from '../../config/theme';
+
+/**
+ * PROPS DEL COMPONENTE
+ * Las mismas que WordCard (minimal y exercise se muestran como la versión completa)
+ */
+interface VerbWordCardProps {
+  word: LatinVerb;           // El verbo a mostrar
+  showTranslation?: boolean; // Si mostrar o no la traducción (por defecto true)
+  compact?: boolean;         // Modo compacto: solo partes principales y chips
+  onClick?: () => void;      // Callback opcional cuando se hace clic en la tarjeta
+  selected?: boolean;        // Si la tarjeta está seleccionada
+}
+
+/**
+ * ETIQUETAS EN ESPAÑOL
+ */
+const conjugationLabels: Record<LatinVerb['conjugation'], string> = {
+  '1st': '1ª Conjugación',
+  '2nd': '2ª Conjugación',
+  '3rd': '3ª Conjugación',
+  '3rd-io': '3ª Conjugación (-iō)',
+  '4th': '4ª Conjugación',
+};
+
+// Los dos tiempos que se muestran en la tarjeta: uno de cada tema
+const PREVIEW_TENSES: { tense: VerbTense; label: string }[] = [
+  { tense: 'present', label: 'Presente' },
+  { tense: 'perfect', label: 'Perfecto' },
+];
+
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural'];
+
+const personLabels: Record<GrammaticalNumber, string[]> = {
+  singular: ['1ª sg.', '2ª sg.', '3ª sg.'],
+  plural: ['1ª pl.', '2ª pl.', '3ª pl.'],
+};
+
+/**
+ * COMPONENTE VERBWORDCARD
+ */
+const VerbWordCard: React.FC<VerbWordCardProps> = ({
+  word,
+  showTranslation = true,
+  compact = false,
+  onClick,
+  selected = false,
+}) => {
+  // "amō, amāre, amāvī, amātum"
+  const principalParts = getPrincipalParts(word).join(', ');
+  const conjugationColor = LATIN_COLORS.conjugations[word.conjugation] ?? LATIN_COLORS.default;
+  const { glossLanguage } = useAppSettings();
+  const gloss = getGloss(word, glossLanguage);
+
+  // La tabla solo cambia si cambia el verbo
+  const paradigm = useMemo(() => vocabularyService.getVerbForms(word.id), [word.id]);
+
+  // Chips comunes a las dos versiones
+  const chips = (
+    <>
+      <Chip
+        label={conjugationLabels[word.conjugation]}
+        size={compact ? 'small' : 'medium'}
+        variant="outlined"
+        sx={{
+          borderColor: conjugationColor,
+          color: conjugationColor,
+          borderWidth: 2,
+          fontWeight: 'medium'
+        }}
+        data-testid="chip-conjugation"
+      />
+      <Chip
+        label="Verbo"
+        size={compact ? 'small' : 'medium'}
+        sx={{ bgcolor: LATIN_COLORS.default, color: 'white', fontWeight: 'bold' }}
+        data-testid="chip-verb"
+      />
+    </>
+  );
+
+  /**
+   * RENDERIZADO COMPACTO
+   */
+  if (compact) {
+    return (
+      <Card
+        elevation={selected ? 8 : 2}
+        onClick={onClick}
+        sx={{
+          width: '100%',
+          maxWidth: { xs: '100%', sm: 400, md: 450 },
+          margin: '0 auto',
+          cursor: onClick ? 'pointer' : 'default',
+          border: selected ? 2 : 0,
+          borderColor: 'primary.main',
+        }}
+        data-testid="verb-card-compact"
+      >
+        <CardContent sx={{ p: { xs: 1.5, sm: 2 } }}>
+          <Stack
+            direction={{ xs: 'column', sm: 'row' }}
+            spacing={{ xs: 1, sm: 2 }}
+            alignItems={{ xs: 'flex-start', sm: 'center' }}
+            flexWrap="wrap"
+          >
+            <Typography
+              variant="h6"
+              component="div"
+              sx={{ fontWeight: 'bold', color: conjugationColor }}
+              data-testid="text-principal-parts-compact"
+            >
+              {principalParts}
+            </Typography>
+            {chips}
+            {showTranslation && (
+              <Typography variant="body2" color="text.secondary" data-testid="text-translation-compact">
+                {gloss.translation}
+              </Typography>
+            )}
+          </Stack>
+        </CardContent>
+      </Card>
+    );
+  }
+
+  /**
+   * RENDERIZADO COMPLETO
+   */
+  return (
+    <Card
+      elevation={selected ? 8 : 3}
+      onClick={onClick}
+      sx={{
+        width: '100%',
+        maxWidth: { xs: '100%', sm: 550, md: 600 },
+        margin: '0 auto',
+        cursor: onClick ? 'pointer' : 'default',
+        transition: 'all 0.3s ease',
+        border: selected ? 2 : '1px solid',
+        borderColor: selected ? 'primary.main' : 'divider',
+        bgcolor: (theme) =>
+          selected ? 'action.selected' :
+          theme.palette.mode === 'dark' ? '#1a1a1a' : '#fafafa',
+      }}
+      data-testid="verb-card-full"
+    >
+      <CardContent sx={{ p: { xs: 2, sm: 3 } }}>
+        {/* PARTES PRINCIPALES + CHIPS */}
+        <Box sx={{
+          display: 'flex',
+          flexDirection: { xs: 'column', md: 'row' },
+          alignItems: 'center',
+          gap: 2,
+          mb: 2
+        }}>
+          <Typography
+            variant="h4"
+            component="div"
+            sx={{ fontWeight: 'bold', color: conjugationColor, letterSpacing: 1 }}
+            data-testid="text-principal-parts-full"
+          >
+            {principalParts}
+          </Typography>
+          <Stack direction="row" spacing={1}>
+            {chips}
+          </Stack>
+        </Box>
+
+        {/* TRADUCCIÓN */}
+        {showTranslation && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Box sx={{ display: 'flex', alignItems: 'flex-start' }} data-testid="verb-translation-section">
+              <TranslateIcon sx={{ mr: 1, color: 'info.main', fontSize: 20, mt: 0.5 }} />
+              <Box>
+                <Typography variant="body1" sx={{ fontWeight: 'medium' }} data-testid="text-translation-full">
+                  {gloss.translation}
+                </Typography>
+                {gloss.additionalMeanings.length > 0 && (
+                  <Typography variant="body2" color="text.secondary">
+                    {gloss.additionalMeanings.join(', ')}
+                  </Typography>
+                )}
+              </Box>
+            </Box>
+          </>
+        )}
+
+        {/* PRESENTE Y PERFECTO (uno de cada tema) */}
+        {paradigm && (
+          <>
+            <Divider sx={{ my: 2 }} />
+            <Table size="small" data-testid="verb-forms-table">
+              <TableHead>
+                <TableRow>
+                  <TableCell />
+                  {PREVIEW_TENSES.map(({ tense, label }) => (
+                    <TableCell key={tense} sx={{ fontWeight: 'bold' }}>{label}</TableCell>
+                  ))}
+                </TableRow>
+              </TableHead>
+              <TableBody>
+                {NUMBERS.flatMap(number =>
+                  VERB_PERSONS.map((person, index) => (
+                    <TableRow key={`${number}-${person}`}>
+                      <TableCell sx={{ color: 'text.secondary' }}>{personLabels[number][index]}</TableCell>
+                      {PREVIEW_TENSES.map(({ tense }) => (
+                        <TableCell key={tense}>{paradigm[tense][number][person]}</TableCell>
+                      ))}
+                    </TableRow>
+                  ))
+                )}
+              </TableBody>
+            </Table>
+          </>
+        )}
+      </CardContent>
+    </Card>
+  );
+};
+
+export default VerbWordCard;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. DATOS DERIVADOS:
+ *    - El JSON solo guarda las partes principales
+ *    - Las formas se calculan con vocabularyService.getVerbForms
+ *    - useMemo evita recalcular la tabla en cada render
+ * 
+ * 2. COMPOSICIÓN:
+ *    - WordCard delega en VerbWordCard según partOfSpeech
+ *    - Los chips se definen una vez y se reutilizan en ambas versiones
+ * 
+ * 3. flatMap EN JSX:
+ *    - Convierte "números × personas" en una lista plana de filas
+ */
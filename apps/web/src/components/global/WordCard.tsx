@@ -28,6 +28,19 @@ import TranslateIcon from '@mui/icons-material/Translate'; // Para traducción
 // Importar colores por declinación
 import { getDeclensionColor } from '../../features/study-session/constants/colors';
 
+// Enunciado a mostrar: con macrones (Nātūra) si la palabra los tiene
+// y la línea de diccionario (rosa, -ae, f.)
+import { formatDictionaryEntry, getEnunciation } from '@latin-app/shared';
+
+// Traducción en el idioma que elige el usuario (español, inglés)
+import { getGloss } from '@latin-app/data';
+import { useAppSettings } from '../../contexts/AppSettingsContext';
+
+// Los verbos tienen su propia tarjeta (partes principales en lugar de casos)
+import type { GlossMap, LatinPronoun, LatinVerb } from '@latin-app/types';
+import VerbWordCard from './VerbWordCard';
+import PronounWordCard from './PronounWordCard';
+
 /**
  * INTERFAZ DE DATOS DE PALABRA
  * Esta interfaz define la estructura de una palabra latina
@@ -35,21 +48,57 @@ import { getDeclensionColor } from '../../features/study-session/constants/color
  */
 export interface LatinWord {
   id: string;                      // Identificador único (ej: "word_rosa_0001")
+  partOfSpeech?: 'noun';           // Los sustantivos del JSON no traen este campo
   nominative: string;              // Caso nominativo (sujeto)
   genitive: string;                // Caso genitivo (posesión)
   declension: string;              // Declinación (1st, 2nd, 3rd, 4th, 5th)
   gender: string;                  // Género (masculine, feminine, neuter)
   spanishTranslation: string;      // Traducción al español
   additionalMeanings?: string[];   // Significados adicionales (opcional)
+  glosses?: GlossMap;              // Traducciones por idioma: { en: ['Rose'] } (opcional)
+  exampleSentence?: string | null; // Oración de ejemplo (opcional)
+  macronizedNominative?: string;   // Nominativo con vocales largas marcadas (ej: "Nātūra")
+  macronizedGenitive?: string;     // Genitivo con vocales largas marcadas (ej: "nātūrae")
+  numberRestriction?: string;      // "plural-only" para arma, castra... (opcional)
+  tags?: string[];                 // Temas: familia, militia, natura... (opcional)
+}
+
+/**
+ * INTERFAZ DE DATOS DE ADJETIVO
+ * Un adjetivo no tiene género propio: toma el del sustantivo al que acompaña.
+ * Por eso en lugar de "gender" tiene las formas de cada género.
+ */
+export interface LatinAdjectiveWord {
+  id: string;                      // Identificador único
+  partOfSpeech: 'adjective';       // Discriminante: distingue adjetivos de sustantivos
+  nominative: string;              // Nominativo masculino (ej: "bonus")
+  genitive: string;                // Genitivo singular (ej: "bonī")
+  feminine?: string;               // Nominativo femenino (ej: "bona")
+  neuter?: string;                 // Nominativo neutro (ej: "bonum")
+  declension: string;              // Clase: "1st-2nd" o "3rd"
+  terminations: number;            // Número de terminaciones (1, 2 o 3)
+  spanishTranslation: string;      // Traducción al español
+  additionalMeanings?: string[];   // Significados adicionales (opcional)
+  glosses?: GlossMap;              // Traducciones por idioma: { en: ['Rose'] } (opcional)
   exampleSentence?: string | null; // Oración de ejemplo (opcional)
+  macronizedNominative?: string;   // Nominativo con vocales largas marcadas
+  macronizedGenitive?: string;     // Genitivo con vocales largas marcadas
 }
 
+/**
+ * CUALQUIER PALABRA SELECCIONABLE
+ * Unión discriminada: se distingue por partOfSpeech (isNoun / isAdjective /
+ * isPronoun de @latin-app/data estrechan el tipo). Los pronombres vienen
+ * tal cual del paquete de datos: sus tablas están escritas a mano.
+ */
+export type VocabularyWord = LatinWord | LatinAdjectiveWord | LatinPronoun;
+
 /**
  * PROPS DEL COMPONENTE
  * Define qué propiedades recibe este componente
  */
 interface WordCardProps {
-  word: LatinWord;           // Los datos de la palabra a mostrar
+  word: VocabularyWord | LatinVerb; // La palabra a mostrar (sustantivo, adjetivo, pronombre o verbo)
   showTranslation?: boolean; // Si mostrar o no la traducción (por defecto true)
   compact?: boolean;         // Modo compacto con menos detalles (por defecto false)
   minimal?: boolean;         // Modo minimalista sin etiquetas (por defecto false)
@@ -84,6 +133,7 @@ const declensionLabels: Record<string, string> = {
   '3rd': '3ª Declinación',
   '4th': '4ª Declinación',
   '5th': '5ª Declinación',
+  '1st-2nd': '1ª/2ª Declinación', // Adjetivos tipo bonus, bona, bonum
 };
 
 /**
@@ -92,7 +142,22 @@ const declensionLabels: Record<string, string> = {
  * Muestra una palabra latina en formato de tarjeta con toda su información
  * gramatical de forma clara y visualmente atractiva.
  */
-const WordCard: React.FC<WordCardProps> = ({
+const WordCard: React.FC<WordCardProps> = (props) => {
+  // Los verbos y los pronombres se muestran con su propia variante
+  if (props.word.partOfSpeech === 'verb') {
+    return <VerbWordCard {...props} word={props.word} />;
+  }
+  if (props.word.partOfSpeech === 'pronoun') {
+    return <PronounWordCard {...props} word={props.word} />;
+  }
+  return <NominalWordCard {...props} word={props.word} />;
+};
+
+/**
+ * TARJETA DE SUSTANTIVOS Y ADJETIVOS
+ * Todo lo que tiene enunciado nominativo + genitivo
+ */
+const NominalWordCard: React.FC<WordCardProps & { word: LatinWord | LatinAdjectiveWord }> = ({
   word,
   showTranslation = true,  // Por defecto muestra la traducción
   compact = false,          // Por defecto no es compacto
@@ -101,6 +166,23 @@ const WordCard: React.FC<WordCardProps> = ({
   onClick,                  // Opcional, puede ser undefined
   selected = false,         // Por defecto no está seleccionada
 }) => {
+  // Enunciado con la cantidad vocálica marcada cuando la conocemos
+  // (rosa, rosae / bonus, bona, bonum)
+  const enunciation = getEnunciation(word);
+  
+  // Línea de diccionario, tal como la escriben alumnos y profesores
+  // (rosa, -ae, f. / corpus, corporis, n. / bonus, -a, -um)
+  const dictionaryLine = formatDictionaryEntry(word);
+  
+  // Los adjetivos no tienen género propio: en su chip mostramos "Adjetivo"
+  const isAdjective = word.partOfSpeech === 'adjective';
+  const genderLabel = isAdjective ? 'Adjetivo' : genderLabels[word.gender];
+  const genderColor = isAdjective ? LATIN_COLORS.default : genderColors[word.gender];
+  
+  // Traducción en el idioma elegido (si la palabra no la tiene, en español)
+  const { glossLanguage } = useAppSettings();
+  const gloss = getGloss(word, glossLanguage);
+  
   /**
    * RENDERIZADO MODO EJERCICIO
    * Versión compacta para ejercicios: muestra solo la palabra con su información
@@ -145,7 +227,7 @@ const WordCard: React.FC<WordCardProps> = ({
             }}
             data-testid="text-word-enunciation-exercise"
           >
-            {word.nominative}, {word.genitive}
+            {enunciation}
           </Typography>
           
           {/* Información gramatical en una línea */}
@@ -172,10 +254,10 @@ const WordCard: React.FC<WordCardProps> = ({
             
             {/* Género */}
             <Chip 
-              label={genderLabels[word.gender]}
+              label={genderLabel}
               size="medium"
               sx={{ 
-                bgcolor: genderColors[word.gender],
+                bgcolor: genderColor,
                 color: 'white',
                 fontWeight: 'bold'
               }}
@@ -238,7 +320,7 @@ const WordCard: React.FC<WordCardProps> = ({
             }}
             data-testid="text-word-enunciation-minimal"
           >
-            {word.nominative}, {word.genitive}
+            {enunciation}
           </Typography>
           
           {/* Información gramatical en una línea simple, sin etiquetas */}
@@ -265,10 +347,10 @@ const WordCard: React.FC<WordCardProps> = ({
             
             {/* Género - Solo el chip con color */}
             <Chip 
-              label={genderLabels[word.gender]}
+              label={genderLabel}
               size="medium"
               sx={{ 
-                bgcolor: genderColors[word.gender],
+                bgcolor: genderColor,
                 color: 'white',
                 fontWeight: 'bold'
               }}
@@ -287,12 +369,12 @@ const WordCard: React.FC<WordCardProps> = ({
               }}
               data-testid="text-translation-minimal"
             >
-              {word.spanishTranslation}
+              {gloss.translation}
             </Typography>
           )}
           
           {/* Significados adicionales - más sutiles */}
-          {showTranslation && word.additionalMeanings && word.additionalMeanings.length > 0 && (
+          {showTranslation && gloss.additionalMeanings.length > 0 && (
             <Typography 
               variant="body2" 
               sx={{ 
@@ -302,7 +384,7 @@ const WordCard: React.FC<WordCardProps> = ({
               }}
               data-testid="text-additional-meanings-minimal"
             >
-              ({word.additionalMeanings.join(', ')})
+              ({gloss.additionalMeanings.join(', ')})
             </Typography>
           )}
         </CardContent>
@@ -361,15 +443,15 @@ const WordCard: React.FC<WordCardProps> = ({
               }}
               data-testid="text-word-enunciation-compact"
             >
-              {word.nominative}, {word.genitive}
+              {enunciation}
             </Typography>
             
             {/* Chips con información básica */}
             <Chip 
-              label={genderLabels[word.gender]} 
+              label={genderLabel} 
               size="small"
               sx={{ 
-                bgcolor: genderColors[word.gender],
+                bgcolor: genderColor,
                 color: 'white',
               }}
               data-testid="chip-gender-compact"
@@ -378,7 +460,7 @@ const WordCard: React.FC<WordCardProps> = ({
             {/* Traducción si está habilitada */}
             {showTranslation && (
               <Typography variant="body2" color="text.secondary" data-testid="text-translation-compact">
-                {word.spanishTranslation}
+                {gloss.translation}
               </Typography>
             )}
           </Stack>
@@ -446,7 +528,7 @@ const WordCard: React.FC<WordCardProps> = ({
               }}
               data-testid="text-word-enunciation-full"
             >
-              {word.nominative}, {word.genitive}
+              {enunciation}
             </Typography>
             
             {/* DECLINACIÓN Y GÉNERO - Ahora al lado inmediato del texto en desktop */}
@@ -474,10 +556,10 @@ const WordCard: React.FC<WordCardProps> = ({
             
             {/* Género */}
             <Chip 
-              label={genderLabels[word.gender]}
+              label={genderLabel}
               size="medium"
               sx={{ 
-                bgcolor: genderColors[word.gender],
+                bgcolor: genderColor,
                 color: 'white',
                 fontWeight: 'bold'
               }}
@@ -485,6 +567,19 @@ const WordCard: React.FC<WordCardProps> = ({
             />
           </Stack>
           </Box>
+          
+          {/* LÍNEA DE DICCIONARIO - Discreta, debajo del enunciado */}
+          <Typography
+            variant="body2"
+            color="text.secondary"
+            sx={{
+              fontStyle: 'italic',
+              textAlign: { xs: 'center', md: 'left' }
+            }}
+            data-testid="text-dictionary-entry-full"
+          >
+            {dictionaryLine}
+          </Typography>
         </Box>
 
         <Divider sx={{ my: 2 }} data-testid="word-card-divider-1" />
@@ -498,17 +593,17 @@ const WordCard: React.FC<WordCardProps> = ({
                 Traducción:
               </Typography>
               <Typography variant="body1" sx={{ fontWeight: 'medium' }} data-testid="text-translation-full">
-                {word.spanishTranslation}
+                {gloss.translation}
               </Typography>
               
               {/* Significados adicionales si existen */}
-              {word.additionalMeanings && word.additionalMeanings.length > 0 && (
+              {gloss.additionalMeanings.length > 0 && (
                 <Box sx={{ mt: 1 }} data-testid="additional-meanings-section">
                   <Typography variant="caption" color="text.secondary" data-testid="text-additional-meanings-label">
                     Otros significados:
                   </Typography>
                   <Typography variant="body2" data-testid="text-additional-meanings-full">
-                    {word.additionalMeanings.join(', ')}
+                    {gloss.additionalMeanings.join(', ')}
                   </Typography>
                 </Box>
               )}
@@ -22,14 +22,14 @@ import {
   Typography
 } from '@mui/material';
 import WordCard from './WordCard';
-import type { LatinWord } from './WordCard';
+import type { VocabularyWord } from './WordCard';
 import SwipeIcon from '@mui/icons-material/Swipe';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface WordNavigatorProps {
-  words: LatinWord[];                      // Lista de palabras para navegar
+  words: VocabularyWord[];                 // Lista de palabras para navegar
   showTranslation?: boolean;               // Si mostrar traducción
   minimalCard?: boolean;                   // Usar versión minimal del WordCard
   compactCard?: boolean;                   // Usar versión compacta del WordCard
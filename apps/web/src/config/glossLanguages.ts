@@ -0,0 +1,18 @@
+/**
+ * GLOSS LANGUAGES CONFIGURATION
+ * 
+ * Nombre de cada idioma en el que se pueden mostrar las traducciones.
+ * Las palabras latinas se traducen al idioma que elija el usuario
+ * (ver glosses.ts en @latin-app/data); la interfaz sigue en español.
+ */
+
+import type { GlossLanguage } from '@latin-app/types';
+
+/**
+ * NOMBRE DE CADA IDIOMA
+ * Record obliga a tener un nombre para cada GlossLanguage
+ */
+export const GLOSS_LANGUAGE_LABELS: Record<GlossLanguage, string> = {
+  es: 'Español',
+  en: 'Inglés',
+};
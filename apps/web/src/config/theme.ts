@@ -263,6 +263,24 @@ export const LATIN_COLORS = {
     '3rd': '#009688', // Teal - Different from success cyan, more green-shifted
     '4th': '#FF6F00', // Deep Orange - Darker than secondary amber, more red-shifted
     '5th': '#E91E63', // Pink/Magenta - Distinct from error red, more vibrant
+    '1st-2nd': '#5C6BC0', // Indigo - Between 1st purple and 2nd blue, for bonus-type adjectives
+  },
+  
+  // Conjugation Colors - colores para las conjugaciones verbales
+  // Reusan la paleta de declinaciones: los verbos nunca aparecen junto a ellas
+  conjugations: {
+    '1st': '#7C4DFF',    // Púrpura (amō, amāre)
+    '2nd': '#2196F3',    // Azul (moneō, monēre)
+    '3rd': '#009688',    // Verde azulado (regō, regere)
+    '3rd-io': '#26A69A', // Verde azulado claro (capiō, capere)
+    '4th': '#FF6F00',    // Naranja (audiō, audīre)
+  },
+  
+  // Pronoun Colors - un color por tipo de pronombre
+  pronouns: {
+    personal: '#8D6E63',      // Marrón (ego, tū)
+    demonstrative: '#78909C', // Gris azulado (is, hic, ille)
+    relative: '#AB47BC',      // Orquídea (quī, quae, quod)
   },
   
   // Gender Colors - colores para géneros gramaticales
@@ -280,6 +298,10 @@ export const LATIN_COLORS = {
     gender: '#03DAC6',         // Cyan para ejercicios de género
     spanishToLatin: '#03DAC6', // Cyan del tema principal
     fillInBlank: '#CF6679',    // Rojo/Rosa del tema
+    declensionTable: '#009688', // Verde azulado para tablas de casos
+    caseIdentification: '#FF6F00', // Naranja para identificar casos
+    adjectiveAgreement: '#E91E63', // Rosa para concordancia sustantivo-adjetivo
+    pronounDeclension: '#8D6E63', // Marrón para los pronombres
   },
   
   // Gradients - for special UI elements
@@ -2,7 +2,8 @@
  * APP SETTINGS CONTEXT - Manejo global de configuraciones de la aplicación
  * 
  * Este archivo crea un "contexto" de React para manejar configuraciones
- * que afectan a toda la aplicación, como el tamaño de fuente.
+ * que afectan a toda la aplicación, como el tamaño de fuente o el idioma
+ * de las traducciones.
  * 
  * ¿QUÉ ES UN CONTEXT EN REACT?
  * Context es una forma de compartir datos entre componentes sin tener que
@@ -24,6 +25,10 @@
 // We use "import type" for types that are only used in TypeScript
 import React, { createContext, useContext, useState, useEffect } from 'react';
 import type { ReactNode } from 'react';
+import type { FontSize, GlossLanguage } from '@latin-app/types';
+import { DEFAULT_GLOSS_LANGUAGE, vocabularyService } from '@latin-app/data';
+
+import { getPreferences, savePreferences } from '../services/storage';
 
 /**
  * TIPOS DE TAMAÑO DE FUENTE DISPONIBLES
@@ -36,8 +41,11 @@ import type { ReactNode } from 'react';
  * - medium (1.0x): Tamaño por defecto, óptimo para la mayoría
  * - large (1.125x): Mejora la legibilidad sin sacrificar mucho espacio
  * - extraLarge (1.25x): Para usuarios con dificultades visuales
+ * 
+ * El tipo en sí (FontSize) está en @latin-app/types porque también lo
+ * guarda el servicio de almacenamiento.
  */
-export type FontSizeOption = 'small' | 'medium' | 'large' | 'extraLarge';
+export type FontSizeOption = FontSize;
 
 /**
  * MAPEO DE OPCIONES A MULTIPLICADORES
@@ -80,12 +88,16 @@ export const FONT_SIZE_LABELS: Record<FontSizeOption, string> = {
  * @property fontSize - El tamaño de fuente actual seleccionado
  * @property fontScale - El multiplicador numérico correspondiente al tamaño
  * @property setFontSize - Función para cambiar el tamaño de fuente
+ * @property glossLanguage - Idioma de las traducciones ('es', 'en')
+ * @property setGlossLanguage - Función para cambiar el idioma de las traducciones
  * @property resetSettings - Función para restaurar configuraciones por defecto
  */
 interface AppSettingsContextType {
   fontSize: FontSizeOption;
   fontScale: number;
   setFontSize: (size: FontSizeOption) => void;
+  glossLanguage: GlossLanguage;
+  setGlossLanguage: (language: GlossLanguage) => void;
   resetSettings: () => void;
 }
 
@@ -94,25 +106,15 @@ interface AppSettingsContextType {
  * 
  * Configuraciones iniciales que se usan cuando:
  * - El usuario abre la app por primera vez
- * - No hay configuraciones guardadas en localStorage
+ * - No hay preferencias guardadas
  * - Se llama a resetSettings()
  */
 const DEFAULT_SETTINGS = {
   fontSize: 'medium' as FontSizeOption,
   fontScale: 1.0,
+  glossLanguage: DEFAULT_GLOSS_LANGUAGE,
 };
 
-/**
- * CLAVE PARA LOCALSTORAGE
- * 
- * localStorage es una API del navegador que permite guardar datos
- * que persisten incluso después de cerrar el navegador.
- * 
- * Usamos una clave única para identificar nuestros datos.
- * El prefijo 'latinApp' evita conflictos con otros datos.
- */
-const STORAGE_KEY = 'latinApp_settings';
-
 /**
  * CREAR EL CONTEXTO
  * 
@@ -133,8 +135,8 @@ const AppSettingsContext = createContext<AppSettingsContextType | undefined>(und
  * @param children - Los componentes hijos que tendrán acceso al contexto
  * 
  * FLUJO DE DATOS:
- * 1. Al montar: Lee configuraciones de localStorage
- * 2. Durante uso: Actualiza estado y guarda en localStorage
+ * 1. Al montar: Lee las preferencias del servicio de almacenamiento
+ * 2. Durante uso: Actualiza estado y guarda las preferencias
  * 3. Al cambiar: Notifica a todos los componentes que usan el contexto
  */
 export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ children }) => {
@@ -146,61 +148,32 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
    * 1. El valor actual del estado (fontSize)
    * 2. Una función para actualizar el estado (setFontSizeState)
    * 
-   * El estado inicial es el tamaño por defecto ('medium')
+   * El estado inicial son las preferencias guardadas: main.tsx abre el
+   * almacenamiento antes de montar la app, así que ya están leídas
+   * (y validadas) y no hay un primer render con el tamaño por defecto
    */
-  const [fontSize, setFontSizeState] = useState<FontSizeOption>(DEFAULT_SETTINGS.fontSize);
+  const [fontSize, setFontSizeState] = useState<FontSizeOption>(() => getPreferences().fontSize);
+  
+  // Idioma de las traducciones (español por defecto)
+  const [glossLanguage, setGlossLanguageState] = useState<GlossLanguage>(() => getPreferences().glossLanguage);
   
   /**
-   * EFECTO PARA CARGAR CONFIGURACIONES GUARDADAS
+   * EFECTO PARA SINCRONIZAR EL IDIOMA GUARDADO
    * 
    * useEffect es un Hook que ejecuta código después de que el componente se renderiza.
    * Se usa para "efectos secundarios" como:
    * - Llamadas a APIs
    * - Suscripciones a eventos
    * - Manipulación del DOM
-   * - Lectura/escritura de localStorage
+   * 
+   * El idioma de las traducciones también lo necesita la búsqueda, así que
+   * al montar se le pasa a vocabularyService el idioma guardado.
    * 
    * El array vacío [] al final significa que este efecto solo se ejecuta una vez,
    * cuando el componente se monta (aparece en pantalla por primera vez).
    */
   useEffect(() => {
-    // Función para cargar configuraciones de localStorage
-    const loadSettings = () => {
-      try {
-        // localStorage.getItem() lee un valor guardado
-        // Retorna null si no existe la clave
-        const savedSettings = localStorage.getItem(STORAGE_KEY);
-        
-        if (savedSettings) {
-          // JSON.parse() convierte un string JSON a objeto JavaScript
-          // Usamos any aquí porque no sabemos qué estructura tiene el JSON guardado
-          // Luego validamos que tenga la estructura esperada
-          const parsed = JSON.parse(savedSettings) as { fontSize?: unknown };
-          
-          // Validar que el valor guardado sea válido
-          // Verificamos que fontSize sea una de las opciones permitidas
-          // Usamos typeof para verificar que es un string antes de verificar si está en FONT_SIZE_SCALES
-          if (
-            parsed.fontSize && 
-            typeof parsed.fontSize === 'string' && 
-            parsed.fontSize in FONT_SIZE_SCALES
-          ) {
-            setFontSizeState(parsed.fontSize as FontSizeOption);
-            
-            // Log para debugging (se puede ver en la consola del navegador)
-            console.log('Configuraciones cargadas de localStorage:', parsed);
-          }
-        }
-      } catch (error) {
-        // Si hay error al leer o parsear, usamos valores por defecto
-        // Esto puede pasar si los datos están corruptos
-        console.error('Error al cargar configuraciones:', error);
-        // No hacemos nada más, se usarán los valores por defecto
-      }
-    };
-    
-    // Ejecutar la función de carga
-    loadSettings();
+    vocabularyService.setGlossLanguage(getPreferences().glossLanguage);
   }, []); // Array vacío = ejecutar solo al montar el componente
   
   /**
@@ -208,7 +181,7 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
    * 
    * Esta función:
    * 1. Actualiza el estado local
-   * 2. Guarda la nueva configuración en localStorage
+   * 2. Guarda la nueva configuración (servicio de almacenamiento)
    * 3. Dispara un re-render de todos los componentes que usan el contexto
    * 
    * @param newSize - El nuevo tamaño de fuente seleccionado
@@ -217,27 +190,22 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
     // Actualizar el estado de React
     setFontSizeState(newSize);
     
-    // Guardar en localStorage para persistencia
-    try {
-      // Crear objeto con todas las configuraciones
-      const settings = {
-        fontSize: newSize,
-        // Aquí podríamos agregar más configuraciones en el futuro
-        // Por ejemplo: theme: 'dark', language: 'es', etc.
-      };
-      
-      // JSON.stringify() convierte objeto JavaScript a string JSON
-      // localStorage solo puede guardar strings, no objetos
-      localStorage.setItem(STORAGE_KEY, JSON.stringify(settings));
-      
-      console.log('Configuraciones guardadas en localStorage:', settings);
-    } catch (error) {
-      // localStorage puede fallar si:
-      // - El usuario lo tiene deshabilitado
-      // - Se excede el límite de almacenamiento (usualment 5-10MB)
-      // - Modo incógnito en algunos navegadores
-      console.error('Error al guardar configuraciones:', error);
-    }
+    // Guardar para persistencia (el servicio se encarga de los errores)
+    savePreferences({ fontSize: newSize });
+  };
+  
+  /**
+   * FUNCIÓN PARA CAMBIAR EL IDIOMA DE LAS TRADUCCIONES
+   * 
+   * Igual que setFontSize, y además avisa a vocabularyService para que
+   * la búsqueda compare con las traducciones del nuevo idioma.
+   * 
+   * @param newLanguage - El nuevo idioma ('es', 'en')
+   */
+  const setGlossLanguage = (newLanguage: GlossLanguage) => {
+    setGlossLanguageState(newLanguage);
+    vocabularyService.setGlossLanguage(newLanguage);
+    savePreferences({ glossLanguage: newLanguage });
   };
   
   /**
@@ -247,15 +215,14 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
    * en la configuración de la aplicación.
    */
   const resetSettings = () => {
-    setFontSize(DEFAULT_SETTINGS.fontSize);
+    setFontSizeState(DEFAULT_SETTINGS.fontSize);
+    setGlossLanguageState(DEFAULT_SETTINGS.glossLanguage);
+    vocabularyService.setGlossLanguage(DEFAULT_SETTINGS.glossLanguage);
     
-    // Opcional: También limpiar localStorage
-    try {
-      localStorage.removeItem(STORAGE_KEY);
-      console.log('Configuraciones restauradas a valores por defecto');
-    } catch (error) {
-      console.error('Error al limpiar localStorage:', error);
-    }
+    savePreferences({
+      fontSize: DEFAULT_SETTINGS.fontSize,
+      glossLanguage: DEFAULT_SETTINGS.glossLanguage,
+    });
   };
   
   /**
@@ -276,6 +243,8 @@ export const AppSettingsProvider: React.FC<{ children: ReactNode }> = ({ childre
     fontSize,
     fontScale,
     setFontSize,
+    glossLanguage,
+    setGlossLanguage,
     resetSettings,
   };
   
@@ -25,7 +25,7 @@ import DrillTypeSelector from '../study-session/components/config/DrillTypeSelec
 
 // Importar el WordCard que muestra información de palabras latinas
 import WordCard from '../../components/global/WordCard';
-import type { LatinWord } from '../../components/global/WordCard';
+import type { LatinWord, VocabularyWord } from '../../components/global/WordCard';
 
 // Importar WordSearchBar para búsqueda de palabras (versión antigua)
 // import WordSearchBar from '../study-session/components/search/WordSearchBar'; // Removed - not being used
@@ -59,6 +59,7 @@ import FontSizeSelector from '../../components/global/FontSizeSelector';
 // Importar los tipos desde el archivo de tipos
 // Los tipos se importan desde un archivo separado para evitar problemas de módulos
 import type { DrillType, SessionDuration } from '../study-session/types';
+import type { LatinVerb } from '@latin-app/types';
 
 // ComponentCanvas: Contenedor principal que muestra todos los componentes en desarrollo
 // Props: ninguno - este es un componente contenedor que maneja su propio estado
@@ -85,6 +86,19 @@ const ComponentCanvas: React.FC = () => {
     exampleSentence: 'Rosa pulchra est' // La rosa es hermosa
   };
 
+  // Verbo de ejemplo: WordCard delega en VerbWordCard
+  const sampleVerb: LatinVerb = {
+    id: 'verb_amo_0001',
+    partOfSpeech: 'verb',
+    present: 'amō',
+    infinitive: 'amāre',
+    perfect: 'amāvī',
+    supine: 'amātum',
+    conjugation: '1st',
+    spanishTranslation: 'amar',
+    additionalMeanings: ['querer'],
+  };
+
   // Estado para demostrar la funcionalidad de selección de WordCard
   const [isWordCardSelected, setIsWordCardSelected] = useState(false);
   const [showTranslation, setShowTranslation] = useState(true);
@@ -94,7 +108,7 @@ const ComponentCanvas: React.FC = () => {
   // const [searchTextWithDebounce, setSearchTextWithDebounce] = useState(''); // Removed - not being used
   
   // Estado para WordSearchDropdown - palabras seleccionadas en la búsqueda
-  const [selectedSearchWords, setSelectedSearchWords] = useState<LatinWord[]>([]);
+  const [selectedSearchWords, setSelectedSearchWords] = useState<VocabularyWord[]>([]);
   
   // Palabras de ejemplo adicionales para SelectedWordChip y ejercicios
   const sampleWords: LatinWord[] = [
@@ -177,7 +191,7 @@ const ComponentCanvas: React.FC = () => {
   // const [selectedWordIds, setSelectedWordIds] = useState<string[]>(['word_rosa_0001', 'word_dominus_0002']); // Removed - not being used
   
   // Estado para WordSelectionStep - componente integrado
-  const [stepSelectedWords, setStepSelectedWords] = useState<LatinWord[]>([]);
+  const [stepSelectedWords, setStepSelectedWords] = useState<VocabularyWord[]>([]);
 
   return (
     // Container: Componente MUI que centra el contenido con márgenes automáticos
@@ -212,7 +226,7 @@ const ComponentCanvas: React.FC = () => {
                 sx={{ mb: 2, color: 'text.secondary' }}
               >
                 Permite al usuario ajustar el tamaño de fuente de toda la aplicación.
-                Los cambios se aplican inmediatamente y se guardan en localStorage para persistencia.
+                Los cambios se aplican inmediatamente y se guardan en el almacenamiento del navegador para persistencia.
                 Ofrece 4 opciones: Pequeño (87.5%), Mediano (100%), Grande (112.5%), Extra Grande (125%).
               </Typography>
               
@@ -239,7 +253,7 @@ const ComponentCanvas: React.FC = () => {
                 <Typography variant="body2" component="ul" sx={{ mt: 1, pl: 2 }}>
                   <li>Mejora la legibilidad para usuarios con dificultades visuales</li>
                   <li>Los cambios se aplican a toda la aplicación instantáneamente</li>
-                  <li>Configuración persistente entre sesiones (localStorage)</li>
+                  <li>Configuración persistente entre sesiones (IndexedDB o localStorage)</li>
                   <li>Escalado proporcional de toda la tipografía</li>
                   <li>Vista previa en tiempo real del tamaño seleccionado</li>
                 </Typography>
@@ -470,7 +484,7 @@ const ComponentCanvas: React.FC = () => {
               }}>
                 <DrillSessionComponent
                   selectedWords={sampleWords}
-                  drillTypes={['multipleChoice', 'multipleChoiceDeclension', 'typeLatinWord']}
+                  drillTypes={['multipleChoice', 'multipleChoiceDeclension', 'typeLatinWord', 'declensionTable', 'caseIdentification', 'adjectiveAgreement', 'pronounDeclension']}
                   sessionDurationMinutes={5}
                   onSessionEnd={(results) => {
                     console.log('Sesión terminada. Resultados:', results);
@@ -833,6 +847,18 @@ const ComponentCanvas: React.FC = () => {
                 selected={isWordCardSelected}
                 onClick={() => setIsWordCardSelected(!isWordCardSelected)}
               />
+              
+              {/* Verbo: partes principales y conjugación */}
+              <Typography 
+                variant="subtitle2" 
+                sx={{ mt: 3, mb: 1, color: 'text.secondary' }}
+              >
+                Verbo (partes principales):
+              </Typography>
+              <WordCard 
+                word={sampleVerb}
+                showTranslation={showTranslation}
+              />
             </Paper>
           </Grid>
 
@@ -1007,7 +1033,7 @@ const ComponentCanvas: React.FC = () => {
                       console.log('Eliminar palabra:', id);
                     }}
                     onClick={(w) => {
-                      console.log('Click en palabra:', w.nominative);
+                      console.log('Click en palabra:', w.id);
                     }}
                     variant="default"
                   />
@@ -1328,7 +1354,7 @@ const ComponentCanvas: React.FC = () => {
                 <StudySession
                   selectedWords={sampleWords}
                   duration={5}
-                  drillTypes={['multipleChoice', 'multipleChoiceDeclension', 'typeLatinWord']}
+                  drillTypes={['multipleChoice', 'multipleChoiceDeclension', 'typeLatinWord', 'declensionTable', 'caseIdentification', 'adjectiveAgreement', 'pronounDeclension']}
                   onEndSession={() => console.log('Sesión finalizada')}
                 />
               </Box>
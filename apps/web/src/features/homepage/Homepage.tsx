@@ -30,6 +30,9 @@ import {
 import SchoolIcon from '@mui/icons-material/School';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import AutoStoriesIcon from '@mui/icons-material/AutoStories';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+import MenuBookIcon from '@mui/icons-material/MenuBook';
+import HistoryIcon from '@mui/icons-material/History';
 // Componente reutilizable de guía de colores
 import DeclensionColorGuide from '../../components/global/DeclensionColorGuide';
 
@@ -37,7 +40,10 @@ import DeclensionColorGuide from '../../components/global/DeclensionColorGuide';
  * PROPS DEL COMPONENTE
  */
 interface HomepageProps {
-  onStartSession: () => void;  // Callback cuando el usuario quiere iniciar sesión
+  onStartSession: () => void;        // Callback cuando el usuario quiere iniciar sesión
+  onImportVocabulary?: () => void;   // Callback opcional para abrir el importador de vocabulario
+  onOpenPacks?: () => void;          // Callback opcional para elegir los vocabularios (paquetes)
+  onOpenHistory?: () => void;        // Callback opcional para ver el historial de sesiones
 }
 
 /**
@@ -45,7 +51,12 @@ interface HomepageProps {
  * 
  * Página de inicio con información y acceso rápido a sesión de estudio
  */
-const Homepage: React.FC<HomepageProps> = ({ onStartSession }) => {
+const Homepage: React.FC<HomepageProps> = ({
+  onStartSession,
+  onImportVocabulary,
+  onOpenPacks,
+  onOpenHistory
+}) => {
   const theme = useTheme();
   const isMdUp = useMediaQuery(theme.breakpoints.up('md'));
   const isLgUp = useMediaQuery(theme.breakpoints.up('lg'));
@@ -236,11 +247,14 @@ const Homepage: React.FC<HomepageProps> = ({ onStartSession }) => {
           </Grid>
         </Fade>
         
-        {/* BOTÓN SECUNDARIO DE ACCIÓN */}
+        {/* BOTONES SECUNDARIOS DE ACCIÓN */}
         <Fade in timeout={1300}>
           <Box sx={{ 
             display: 'flex', 
+            flexDirection: { xs: 'column', sm: 'row' },
+            alignItems: 'center',
             justifyContent: 'center',
+            gap: 2,
             mt: { xs: 4, md: 6 }
           }}>
             <Button
@@ -262,6 +276,63 @@ const Homepage: React.FC<HomepageProps> = ({ onStartSession }) => {
             >
               Practicar Vocabulario
             </Button>
+            
+            {/* Importar palabras propias (líneas de diccionario o CSV) */}
+            {onImportVocabulary && (
+              <Button
+                variant="text"
+                size="large"
+                startIcon={<LibraryAddIcon />}
+                onClick={onImportVocabulary}
+                sx={{
+                  px: { xs: 3, md: 4 },
+                  py: 1.5,
+                  borderRadius: 2,
+                  textTransform: 'none',
+                }}
+                data-testid="button-import-vocabulary"
+              >
+                Importar Vocabulario
+              </Button>
+            )}
+            
+            {/* Elegir vocabularios (general, libros de texto) */}
+            {onOpenPacks && (
+              <Button
+                variant="text"
+                size="large"
+                startIcon={<MenuBookIcon />}
+                onClick={onOpenPacks}
+                sx={{
+                  px: { xs: 3, md: 4 },
+                  py: 1.5,
+                  borderRadius: 2,
+                  textTransform: 'none',
+                }}
+                data-testid="button-open-vocabulary-packs"
+              >
+                Vocabularios
+              </Button>
+            )}
+            
+            {/* Sesiones terminadas y sus resultados */}
+            {onOpenHistory && (
+              <Button
+                variant="text"
+                size="large"
+                startIcon={<HistoryIcon />}
+                onClick={onOpenHistory}
+                sx={{
+                  px: { xs: 3, md: 4 },
+                  py: 1.5,
+                  borderRadius: 2,
+                  textTransform: 'none',
+                }}
+                data-testid="button-open-session-history"
+              >
+                Historial
+              </Button>
+            )}
           </Box>
         </Fade>
       </Box>
@@ -12,6 +12,7 @@
 
 import React, { useState, useEffect } from 'react';
 import { Box } from '@mui/material';
+import { DEFAULT_DRILL_RETRY_OPTIONS } from '@latin-app/scheduler';
 
 // Importar el hook del contexto de sesión de estudio
 import { useStudySession } from '../../contexts/StudySessionContext';
@@ -24,15 +25,24 @@ import { useStudySession } from '../../contexts/StudySessionContext';
 import Homepage from '../homepage/Homepage';
 import StudySession from '../study-session/components/StudySession';
 import StudySessionConfig from '../study-session/components/StudySessionConfig';
+import VocabularyImport from '../vocabulary-import/components/VocabularyImport';
+import VocabularyPacks from '../vocabulary-packs/components/VocabularyPacks';
+import SessionHistory from '../session-history/components/SessionHistory';
 
 // Importar tipos
 import type { DrillType, SessionDuration } from '../study-session/types';
-import type { LatinWord } from '../../components/global/WordCard';
+import type { VocabularyWord } from '../../components/global/WordCard';
 
 /**
  * TIPOS DE PÁGINA DISPONIBLES
  */
-type PageType = 'homepage' | 'study-config' | 'study-session';
+type PageType =
+  | 'homepage'
+  | 'study-config'
+  | 'study-session'
+  | 'vocabulary-import'
+  | 'vocabulary-packs'
+  | 'session-history';
 
 /**
  * PAGE CANVAS - CONTENEDOR PRINCIPAL
@@ -45,9 +55,11 @@ const PageCanvas: React.FC = () => {
   
   // Estados para la configuración de la sesión de estudio
   // Estos estados se comparten entre las páginas de configuración y sesión
-  const [selectedWords, setSelectedWords] = useState<LatinWord[]>([]);
+  const [selectedWords, setSelectedWords] = useState<VocabularyWord[]>([]);
   const [duration, setDuration] = useState<SessionDuration>(10);
   const [drillTypes, setDrillTypes] = useState<DrillType[]>(['multipleChoice']);
+  const [strictMacrons, setStrictMacrons] = useState(false);
+  const [retryGap, setRetryGap] = useState(DEFAULT_DRILL_RETRY_OPTIONS.initialGap);
   
   // Hook para manejar el contexto de sesión de estudio
   const { enterStudySession, exitStudySession } = useStudySession();
@@ -68,8 +80,8 @@ const PageCanvas: React.FC = () => {
     if (currentPage === 'study-config' || currentPage === 'study-session') {
       enterStudySession();
     } 
-    // Si volvemos a homepage, desactivar modo sesión
-    else if (currentPage === 'homepage') {
+    // Si volvemos a homepage (o al importador, los vocabularios o el historial), desactivar modo sesión
+    else {
       exitStudySession();
     }
     
@@ -88,6 +100,30 @@ const PageCanvas: React.FC = () => {
     setCurrentPage('study-config');
   };
   
+  /**
+   * MANEJADOR PARA IR AL IMPORTADOR DE VOCABULARIO
+   * Llamado desde la Homepage
+   */
+  const handleOpenImport = () => {
+    setCurrentPage('vocabulary-import');
+  };
+  
+  /**
+   * MANEJADOR PARA IR A LOS VOCABULARIOS (PAQUETES)
+   * Llamado desde la Homepage
+   */
+  const handleOpenPacks = () => {
+    setCurrentPage('vocabulary-packs');
+  };
+  
+  /**
+   * MANEJADOR PARA IR AL HISTORIAL DE SESIONES
+   * Llamado desde la Homepage
+   */
+  const handleOpenHistory = () => {
+    setCurrentPage('session-history');
+  };
+  
   /**
    * MANEJADOR PARA INICIAR SESIÓN
    * Llamado desde el último paso de configuración
@@ -123,11 +159,34 @@ const PageCanvas: React.FC = () => {
           flexDirection: 'column'
         }}
       >
-        <Homepage onStartSession={handleStartConfiguration} />
+        <Homepage
+          onStartSession={handleStartConfiguration}
+          onImportVocabulary={handleOpenImport}
+          onOpenPacks={handleOpenPacks}
+          onOpenHistory={handleOpenHistory}
+        />
       </Box>
     );
   }
   
+  // IMPORTADOR DE VOCABULARIO
+  // Página normal (con header): no es parte de una sesión de estudio
+  if (currentPage === 'vocabulary-import') {
+    return <VocabularyImport onBack={() => setCurrentPage('homepage')} />;
+  }
+  
+  // VOCABULARIOS (PAQUETES)
+  // Igual que el importador: página normal, fuera de la sesión de estudio
+  if (currentPage === 'vocabulary-packs') {
+    return <VocabularyPacks onBack={() => setCurrentPage('homepage')} />;
+  }
+  
+  // HISTORIAL DE SESIONES
+  // También es una página normal: se consulta fuera de la sesión de estudio
+  if (currentPage === 'session-history') {
+    return <SessionHistory onBack={() => setCurrentPage('homepage')} />;
+  }
+  
   // SESIÓN DE ESTUDIO ACTIVA
   // StudySession es una página completa que maneja su propio layout
   if (currentPage === 'study-session') {
@@ -136,6 +195,8 @@ const PageCanvas: React.FC = () => {
         selectedWords={selectedWords}
         duration={duration}
         drillTypes={drillTypes}
+        strictMacrons={strictMacrons}
+        retryGap={retryGap}
         onEndSession={handleEndSession}
       />
     );
@@ -152,6 +213,10 @@ const PageCanvas: React.FC = () => {
         onDurationChange={setDuration}
         drillTypes={drillTypes}
         onDrillTypesChange={setDrillTypes}
+        strictMacrons={strictMacrons}
+        onStrictMacronsChange={setStrictMacrons}
+        retryGap={retryGap}
+        onRetryGapChange={setRetryGap}
         onStartSession={handleStartSession}
       />
     );
@@ -167,7 +232,12 @@ const PageCanvas: React.FC = () => {
         flexDirection: 'column'
       }}
     >
-      <Homepage onStartSession={handleStartConfiguration} />
+      <Homepage
+          onStartSession={handleStartConfiguration}
+          onImportVocabulary={handleOpenImport}
+          onOpenPacks={handleOpenPacks}
+          onOpenHistory={handleOpenHistory}
+        />
     </Box>
   );
 };
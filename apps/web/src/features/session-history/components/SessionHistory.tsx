@@ -0,0 +1,188 @@
+/**
+ * SESSION HISTORY PAGE
+ * 
+ * Página con las sesiones de estudio terminadas, de la más reciente a la
+ * más antigua. Cada tarjeta resume una sesión (fecha, duración, precisión,
+ * palabras) y al pulsarla se abren sus resultados detallados.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Lista y detalle en la misma página: selectedId decide qué se muestra,
+ *   como currentPage en PageCanvas
+ * - El historial se lee una vez al montar la página; solo cambia aquí
+ *   dentro al borrar una sesión
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Card,
+  CardActionArea,
+  CardContent,
+  Chip,
+  Container,
+  IconButton,
+  Stack,
+  Typography,
+} from '@mui/material';
+
+// Iconos
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import HistoryIcon from '@mui/icons-material/History';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+
+import type { StoredSession } from '@latin-app/types';
+
+import {
+  deleteSessionFromHistory,
+  getSessionAccuracy,
+  getSessionHistory,
+} from '../../../services/sessionHistoryStore';
+import { formatElapsedTime, formatSessionDate } from '../constants/sessionFormat';
+import SessionResults from './SessionResults';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface SessionHistoryProps {
+  onBack: () => void;   // Volver a la página de inicio
+}
+
+/**
+ * COMPONENTE SESSIONHISTORY
+ */
+const SessionHistory: React.FC<SessionHistoryProps> = ({ onBack }) => {
+  const [sessions, setSessions] = useState<StoredSession[]>(() => getSessionHistory());
+
+  // Sesión abierta (null = se muestra la lista)
+  const [selectedId, setSelectedId] = useState<string | null>(null);
+  const selectedSession = sessions.find(session => session.id === selectedId) ?? null;
+
+  /**
+   * MANEJADOR: Borrar la sesión abierta y volver a la lista
+   */
+  const handleDelete = (sessionId: string) => {
+    deleteSessionFromHistory(sessionId);
+    setSessions(getSessionHistory());
+    setSelectedId(null);
+  };
+
+  // DETALLE DE UNA SESIÓN
+  if (selectedSession) {
+    return (
+      <Container maxWidth="md">
+        <Box sx={{ py: { xs: 3, sm: 4 } }}>
+          <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 3 }}>
+            <IconButton onClick={() => setSelectedId(null)} data-testid="button-history-detail-back">
+              <ArrowBackIcon />
+            </IconButton>
+            <Typography variant="h5" sx={{ fontWeight: 'bold', flexGrow: 1 }}>
+              Sesión del {formatSessionDate(selectedSession.startedAt)}
+            </Typography>
+            <Button
+              color="error"
+              size="small"
+              startIcon={<DeleteOutlineIcon />}
+              onClick={() => handleDelete(selectedSession.id)}
+              data-testid="button-delete-session"
+            >
+              Borrar
+            </Button>
+          </Stack>
+
+          <SessionResults session={selectedSession} />
+        </Box>
+      </Container>
+    );
+  }
+
+  // LISTA DE SESIONES
+  return (
+    <Container maxWidth="md">
+      <Box sx={{ py: { xs: 3, sm: 4 } }}>
+        {/* CABECERA */}
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+          <IconButton onClick={onBack} data-testid="button-history-back">
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+            Historial
+          </Typography>
+        </Stack>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          Tus sesiones de estudio terminadas. Abre una para ver cómo te fue con
+          cada palabra y cada ejercicio.
+        </Typography>
+
+        {sessions.length === 0 && (
+          <Typography variant="body1" color="text.secondary" sx={{ textAlign: 'center', py: 4 }}>
+            Todavía no has terminado ninguna sesión.
+          </Typography>
+        )}
+
+        {/* UNA TARJETA POR SESIÓN */}
+        <Stack spacing={2}>
+          {sessions.map(session => {
+            const accuracy = getSessionAccuracy(session);
+
+            return (
+              <Card key={session.id} variant="outlined" data-testid={`history-card-${session.id}`}>
+                <CardActionArea onClick={() => setSelectedId(session.id)}>
+                  <CardContent>
+                    <Stack direction="row" alignItems="flex-start" spacing={2}>
+                      <HistoryIcon color="primary" sx={{ mt: 0.5 }} />
+
+                      <Box sx={{ flexGrow: 1 }}>
+                        <Typography variant="h6">
+                          {formatSessionDate(session.startedAt)}
+                        </Typography>
+                        <Typography variant="body2" color="text.secondary">
+                          {formatElapsedTime(session.startedAt, session.completedAt)}
+                          {' de '}{session.durationMinutes} min
+                          {' · '}{session.wordIds.length} palabras
+                          {' · '}{session.drillResults.length} ejercicios
+                        </Typography>
+                        <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+                          <Chip size="small" color="success" variant="outlined" label={`✓ ${session.correct}`} />
+                          <Chip size="small" color="error" variant="outlined" label={`✗ ${session.incorrect}`} />
+                          {session.skipped > 0 && (
+                            <Chip size="small" variant="outlined" label={`⤳ ${session.skipped}`} />
+                          )}
+                        </Stack>
+                      </Box>
+
+                      {/* PRECISIÓN (sin contar los saltados) */}
+                      <Typography
+                        variant="h5"
+                        sx={{ fontWeight: 'bold', color: accuracy === null ? 'text.disabled' : 'text.primary' }}
+                      >
+                        {accuracy === null ? '—' : `${accuracy}%`}
+                      </Typography>
+                    </Stack>
+                  </CardContent>
+                </CardActionArea>
+              </Card>
+            );
+          })}
+        </Stack>
+      </Box>
+    </Container>
+  );
+};
+
+export default SessionHistory;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. LISTA Y DETALLE:
+ *    - selectedId guarda qué sesión está abierta
+ *    - La sesión se busca en la lista en cada render, así al borrarla
+ *      la página vuelve sola a la lista
+ * 
+ * 2. TARJETAS PULSABLES:
+ *    - CardActionArea hace que toda la tarjeta sea un botón
+ * 
+ * 3. ESTADO INICIAL PEREZOSO:
+ *    - useState(() => getSessionHistory()) lee el historial una sola vez
+ */
@@ -0,0 +1,241 @@
+/**
+ * SESSION RESULTS COMPONENT
+ * 
+ * Resultados detallados de una sesión guardada. Se usa en dos sitios:
+ * - El resumen al terminar una sesión (StudySession)
+ * - El detalle de una sesión antigua (SessionHistory)
+ * 
+ * Muestra:
+ * - Totales: correctas, incorrectas, saltadas y precisión
+ * - Configuración: fecha, duración, palabras y tipos de ejercicio
+ * - Palabras falladas, y cuáles se acabaron acertando
+ * - Resultados por palabra (primero las más falladas)
+ * - Cada ejercicio en el orden en que se respondió (desplegable)
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Componente presentacional: recibe una StoredSession y no guarda nada
+ * - Datos derivados: los resultados por palabra se calculan con
+ *   getSessionWordStats a partir de los ejercicios
+ */
+
+import React, { useMemo, useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Collapse,
+  Stack,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+
+// Iconos
+import CheckCircleIcon from '@mui/icons-material/CheckCircle';
+import CancelIcon from '@mui/icons-material/Cancel';
+import SkipNextIcon from '@mui/icons-material/SkipNext';
+import ExpandMoreIcon from '@mui/icons-material/ExpandMore';
+import ExpandLessIcon from '@mui/icons-material/ExpandLess';
+
+import type { StoredSession } from '@latin-app/types';
+
+import { getSessionAccuracy, getSessionWordStats } from '../../../services/sessionHistoryStore';
+import { getDrillTypeLabel } from '../../study-session/constants/drillTypes';
+import { formatElapsedTime, formatSeconds, formatSessionDate } from '../constants/sessionFormat';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface SessionResultsProps {
+  session: StoredSession;   // La sesión a mostrar
+}
+
+/**
+ * COMPONENTE SESSIONRESULTS
+ */
+const SessionResults: React.FC<SessionResultsProps> = ({ session }) => {
+  // Lista de ejercicios desplegada
+  const [showDrills, setShowDrills] = useState(false);
+
+  const wordStats = useMemo(() => getSessionWordStats(session), [session]);
+  const missedWords = wordStats.filter(stats => stats.incorrect > 0);
+  const recoveredCount = missedWords.filter(stats => stats.recovered).length;
+  const accuracy = getSessionAccuracy(session);
+
+  return (
+    <Stack spacing={3} data-testid="session-results">
+      {/* TOTALES */}
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" alignItems="center">
+        <Chip icon={<CheckCircleIcon />} label={`${session.correct} correctas`} color="success" />
+        <Chip icon={<CancelIcon />} label={`${session.incorrect} incorrectas`} color="error" />
+        {session.skipped > 0 && (
+          <Chip icon={<SkipNextIcon />} label={`${session.skipped} saltadas`} />
+        )}
+        {accuracy !== null && (
+          <Typography variant="h6" sx={{ ml: 1 }} data-testid="text-session-accuracy">
+            Precisión: {accuracy}%
+          </Typography>
+        )}
+      </Stack>
+
+      {/* CONFIGURACIÓN DE LA SESIÓN */}
+      <Box sx={{ p: 2, bgcolor: 'background.default', borderRadius: 1 }}>
+        <Typography variant="body2">
+          • Fecha: {formatSessionDate(session.startedAt)}
+        </Typography>
+        <Typography variant="body2">
+          • Duración: {session.durationMinutes} minutos
+          (practicados: {formatElapsedTime(session.startedAt, session.completedAt)})
+        </Typography>
+        <Typography variant="body2">
+          • Palabras seleccionadas: {session.wordIds.length}
+        </Typography>
+        {session.strictMacrons && (
+          <Typography variant="body2">• Macrones obligatorios</Typography>
+        )}
+        <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap" sx={{ mt: 1 }}>
+          {session.drillTypes.map(drillType => (
+            <Chip key={drillType} size="small" variant="outlined" label={getDrillTypeLabel(drillType)} />
+          ))}
+        </Stack>
+      </Box>
+
+      {session.drillResults.length === 0 ? (
+        <Typography variant="body2" color="text.secondary">
+          No se respondió ningún ejercicio en esta sesión.
+        </Typography>
+      ) : (
+        <>
+          {/* PALABRAS FALLADAS: ¿se acertaron al repetirlas? */}
+          {missedWords.length > 0 && (
+            <Box data-testid="session-missed-words">
+              <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+                Palabras falladas
+              </Typography>
+              <Typography variant="body2" color="text.secondary" sx={{ mb: 1 }}>
+                {recoveredCount} de {missedWords.length} acertadas al repetirlas
+              </Typography>
+              <Stack direction="row" spacing={0.5} useFlexGap flexWrap="wrap">
+                {missedWords.map(stats => (
+                  <Chip
+                    key={stats.wordId}
+                    size="small"
+                    variant="outlined"
+                    icon={stats.recovered ? <CheckCircleIcon /> : <CancelIcon />}
+                    color={stats.recovered ? 'success' : 'error'}
+                    label={stats.wordLabel}
+                    data-testid={`missed-word-${stats.wordId}`}
+                  />
+                ))}
+              </Stack>
+            </Box>
+          )}
+
+          {/* RESULTADOS POR PALABRA */}
+          <Box>
+            <Typography variant="subtitle1" sx={{ fontWeight: 'bold', mb: 1 }}>
+              Resultados por palabra
+            </Typography>
+            <Box sx={{ overflowX: 'auto' }}>
+              <Table size="small" data-testid="session-word-stats-table">
+                <TableHead>
+                  <TableRow>
+                    <TableCell sx={{ fontWeight: 'bold' }}>Palabra</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 'bold' }}>Ejercicios</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 'bold', color: 'success.main' }}>✓</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 'bold', color: 'error.main' }}>✗</TableCell>
+                    <TableCell align="right" sx={{ fontWeight: 'bold', color: 'text.secondary' }}>⤳</TableCell>
+                  </TableRow>
+                </TableHead>
+                <TableBody>
+                  {wordStats.map(stats => (
+                    <TableRow key={stats.wordId} data-testid={`session-word-row-${stats.wordId}`}>
+                      <TableCell sx={{ fontWeight: 'bold' }}>{stats.wordLabel}</TableCell>
+                      <TableCell align="right">{stats.attempts}</TableCell>
+                      <TableCell align="right">{stats.correct}</TableCell>
+                      <TableCell align="right">{stats.incorrect}</TableCell>
+                      <TableCell align="right">{stats.skipped}</TableCell>
+                    </TableRow>
+                  ))}
+                </TableBody>
+              </Table>
+            </Box>
+          </Box>
+
+          {/* CADA EJERCICIO, EN ORDEN */}
+          <Box>
+            <Button
+              size="small"
+              onClick={() => setShowDrills(!showDrills)}
+              endIcon={showDrills ? <ExpandLessIcon /> : <ExpandMoreIcon />}
+              data-testid="button-toggle-session-drills"
+            >
+              {showDrills ? 'Ocultar ejercicios' : `Ver los ${session.drillResults.length} ejercicios`}
+            </Button>
+            <Collapse in={showDrills} unmountOnExit>
+              <Box sx={{ overflowX: 'auto', mt: 1 }}>
+                <Table size="small" data-testid="session-drills-table">
+                  <TableHead>
+                    <TableRow>
+                      <TableCell sx={{ fontWeight: 'bold' }}>#</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Palabra</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Ejercicio</TableCell>
+                      <TableCell sx={{ fontWeight: 'bold' }}>Resultado</TableCell>
+                      <TableCell align="right" sx={{ fontWeight: 'bold' }}>Tiempo</TableCell>
+                    </TableRow>
+                  </TableHead>
+                  <TableBody>
+                    {session.drillResults.map((result, index) => (
+                      <TableRow key={result.drillId}>
+                        <TableCell sx={{ color: 'text.secondary' }}>{index + 1}</TableCell>
+                        <TableCell>{result.wordLabel}</TableCell>
+                        <TableCell>{getDrillTypeLabel(result.drillType)}</TableCell>
+                        <TableCell>
+                          {result.wasSkipped ? (
+                            <SkipNextIcon fontSize="small" color="disabled" />
+                          ) : result.isCorrect ? (
+                            <CheckCircleIcon fontSize="small" color="success" />
+                          ) : (
+                            <CancelIcon fontSize="small" color="error" />
+                          )}
+                        </TableCell>
+                        <TableCell align="right">
+                          {result.wasSkipped ? '—' : formatSeconds(result.timeSpent)}
+                        </TableCell>
+                      </TableRow>
+                    ))}
+                  </TableBody>
+                </Table>
+              </Box>
+            </Collapse>
+          </Box>
+        </>
+      )}
+    </Stack>
+  );
+};
+
+export default SessionResults;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. UN COMPONENTE, DOS PÁGINAS:
+ *    - El resumen de la sesión y el historial muestran lo mismo
+ *    - Los dos le pasan una StoredSession, la recién guardada o una antigua
+ * 
+ * 2. DATOS DERIVADOS CON useMemo:
+ *    - getSessionWordStats agrupa los ejercicios por palabra
+ *    - Solo se recalcula si cambia la sesión
+ * 
+ * 3. COLOR SEGÚN EL ESTADO:
+ *    - Cada palabra fallada es un Chip verde si se acabó acertando y
+ *      rojo si no
+ * 
+ * 4. CONTENIDO DESPLEGABLE:
+ *    - Collapse anima la lista de ejercicios al abrirla y cerrarla
+ *    - unmountOnExit: cerrada, la tabla no se renderiza
+ */
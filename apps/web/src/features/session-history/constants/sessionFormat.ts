@@ -0,0 +1,44 @@
+/**
+ * FORMATO DE LAS SESIONES GUARDADAS
+ * 
+ * Las sesiones guardan fechas ISO y tiempos en segundos. Aquí definimos
+ * cómo se muestran al usuario, en español.
+ */
+
+/**
+ * FECHA Y HORA DE UNA SESIÓN
+ * 
+ * @param isoDate - Fecha ISO (ej: '2026-10-19T18:30:00.000Z')
+ * @returns Ej: '19 oct 2026, 20:30' (en la hora local)
+ */
+export const formatSessionDate = (isoDate: string): string =>
+  new Date(isoDate).toLocaleString('es-ES', {
+    day: 'numeric',
+    month: 'short',
+    year: 'numeric',
+    hour: '2-digit',
+    minute: '2-digit',
+  });
+
+/**
+ * TIEMPO REAL ENTRE EL INICIO Y EL FINAL DE UNA SESIÓN
+ * 
+ * @param startedAt - Fecha ISO de inicio
+ * @param completedAt - Fecha ISO de final
+ * @returns Ej: '9 min 30 s'
+ */
+export const formatElapsedTime = (startedAt: string, completedAt: string): string =>
+  formatSeconds(Math.max(0, Math.round((Date.parse(completedAt) - Date.parse(startedAt)) / 1000)));
+
+/**
+ * SEGUNDOS EN MINUTOS Y SEGUNDOS
+ * 
+ * @param totalSeconds - Segundos
+ * @returns Ej: '45 s', '2 min 5 s', '3 min'
+ */
+export const formatSeconds = (totalSeconds: number): string => {
+  const minutes = Math.floor(totalSeconds / 60);
+  const seconds = totalSeconds % 60;
+  if (minutes === 0) return `${seconds} s`;
+  return seconds === 0 ? `${minutes} min` : `${minutes} min ${seconds} s`;
+};
@@ -12,7 +12,7 @@
  * - Datos de sesión: Mantiene palabras, configuración y resultados
  */
 
-import React, { useState } from 'react';
+import React, { useRef, useState } from 'react';
 import {
   Box,
   Paper,
@@ -25,9 +25,14 @@ import {
 import StudyWordsViewerWithNavigation from './StudyWordsViewerWithNavigation';
 import SessionTimer from '../../../components/global/SessionTimer';
 import DrillSessionComponent from '../../../components/exercises/DrillSessionComponent';
-import type { LatinWord } from '../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../components/global/WordCard';
 import type { DrillType, SessionDuration } from '../types';
-import type { DrillType as DrillSessionType } from '../../../components/exercises/DrillSessionComponent';
+import type { DrillType as DrillSessionType, DrillResult } from '../../../components/exercises/DrillSessionComponent';
+import type { StoredDrillResult, StoredSession } from '@latin-app/types';
+import { isPronoun } from '@latin-app/data';
+import { getEnunciation } from '@latin-app/shared';
+import { recordCompletedSession } from '../../../services/sessionHistoryStore';
+import SessionResults from '../../session-history/components/SessionResults';
 import CheckCircleIcon from '@mui/icons-material/CheckCircle';
 import CancelIcon from '@mui/icons-material/Cancel';
 import SkipNextIcon from '@mui/icons-material/SkipNext';
@@ -42,13 +47,31 @@ import { getPageContainerSx } from '../../../config/pageLayout';
  */
 type SessionPhase = 'review' | 'exercises' | 'summary';
 
+/**
+ * FUNCIÓN HELPER: Resultado de un ejercicio tal como se guarda
+ * La palabra se guarda con su enunciado ("rosa, rosae"), no entera
+ */
+const toStoredDrillResult = (result: DrillResult): StoredDrillResult => ({
+  drillId: result.drillId,
+  wordId: result.word.id,
+  wordLabel: isPronoun(result.word) ? result.word.lemma : getEnunciation(result.word),
+  drillType: result.type,
+  ...(result.questionType ? { questionType: result.questionType } : {}),
+  isCorrect: result.isCorrect,
+  wasSkipped: result.wasSkipped ?? false,
+  timeSpent: result.timeSpent,
+  answeredAt: new Date(result.timestamp).toISOString(),
+});
+
 /**
  * PROPS DEL COMPONENTE
  */
 interface StudySessionProps {
-  selectedWords: LatinWord[];              // Palabras seleccionadas
+  selectedWords: VocabularyWord[];         // Palabras seleccionadas
   duration: SessionDuration;               // Duración en minutos
   drillTypes: DrillType[];                 // Tipos de ejercicios
+  strictMacrons?: boolean;                 // Exigir macrones al escribir en latín
+  retryGap?: number;                       // Ejercicios hasta repetir un fallo
   onEndSession: () => void;                // Callback al terminar
 }
 
@@ -66,6 +89,8 @@ const StudySession: React.FC<StudySessionProps> = ({
   selectedWords,
   duration,
   drillTypes,
+  strictMacrons = false,
+  retryGap,
   onEndSession
 }) => {
   // Estado de la fase actual
@@ -78,7 +103,39 @@ const StudySession: React.FC<StudySessionProps> = ({
   const [timeIsUp, setTimeIsUp] = useState(false);
   
   // Estado para rastrear resultados de ejercicios
-  const [drillResults, setDrillResults] = useState<any[]>([]);
+  const [drillResults, setDrillResults] = useState<DrillResult[]>([]);
+  
+  // Momento en que empezó la sesión (al montar la página)
+  const [startedAt] = useState(() => new Date());
+  
+  // La sesión tal como se guardó en el historial (null = todavía no, o sin ejercicios que guardar)
+  const [savedSession, setSavedSession] = useState<StoredSession | null>(null);
+  
+  // Últimos resultados y si la sesión ya se guardó. Son refs porque los
+  // dos timers (el de la cabecera y el de los ejercicios) pueden terminar
+  // la sesión casi a la vez, y solo se debe guardar una vez
+  const latestResultsRef = useRef<DrillResult[]>([]);
+  const isSavedRef = useRef(false);
+  
+  /**
+   * GUARDAR LA SESIÓN EN EL HISTORIAL (una sola vez)
+   * 
+   * Una sesión sin ningún ejercicio respondido no se guarda: el tiempo
+   * puede acabarse en el repaso, o no haber ejercicios para las palabras.
+   */
+  const saveToHistory = () => {
+    if (isSavedRef.current || latestResultsRef.current.length === 0) return;
+    isSavedRef.current = true;
+    
+    setSavedSession(recordCompletedSession({
+      startedAt,
+      durationMinutes: duration,
+      wordIds: selectedWords.map(word => word.id),
+      drillTypes,
+      strictMacrons,
+      drillResults: latestResultsRef.current.map(toStoredDrillResult),
+    }));
+  };
   
   /**
    * MANEJADORES DE TRANSICIÓN ENTRE FASES
@@ -87,26 +144,37 @@ const StudySession: React.FC<StudySessionProps> = ({
     setCurrentPhase('exercises');
   };
   
-  const handleFinishExercises = (results?: any[]) => {
+  const handleFinishExercises = (results?: DrillResult[]) => {
     // Guardar resultados si se proporcionan
-    if (results) {
+    if (results && results.length >= latestResultsRef.current.length) {
+      latestResultsRef.current = results;
       setDrillResults(results);
     }
+    saveToHistory();
     // Cambiar a la fase de resumen
     setCurrentPhase('summary');
   };
   
   // Nuevo manejador para actualizar resultados en tiempo real
-  const handleDrillComplete = (results: any[]) => {
+  const handleDrillComplete = (results: DrillResult[]) => {
     // Solo actualizar los resultados, sin cambiar de fase
+    latestResultsRef.current = results;
     setDrillResults(results);
   };
   
   const handleTimeUp = () => {
     setTimeIsUp(true);
+    saveToHistory();
     setCurrentPhase('summary');
   };
   
+  // "Finalizar Sesión" antes del resumen: si ya se respondió algún
+  // ejercicio, la sesión se guarda igualmente
+  const handleEndSession = () => {
+    saveToHistory();
+    onEndSession();
+  };
+  
   // Función getPhaseInfo comentada - se usará en futuras implementaciones
   // cuando necesitemos mostrar información de la fase actual
   /*
@@ -173,7 +241,7 @@ const StudySession: React.FC<StudySessionProps> = ({
             <Stack direction="column" spacing={0.5} data-testid="exercise-stats">
               <Chip
                 icon={<CheckCircleIcon />}
-                label={drillResults.filter((r: any) => r.isCorrect).length}
+                label={drillResults.filter(r => r.isCorrect).length}
                 color="success"
                 size="small"
                 sx={{ minWidth: 60 }}
@@ -182,16 +250,16 @@ const StudySession: React.FC<StudySessionProps> = ({
                 icon={<CancelIcon />}
                 // Mostrar solo respuestas incorrectas (NO saltadas)
                 // wasSkipped indica que el usuario no intentó responder
-                label={drillResults.filter((r: any) => !r.isCorrect && !r.wasSkipped).length}
+                label={drillResults.filter(r => !r.isCorrect && !r.wasSkipped).length}
                 color="error"
                 size="small"
                 sx={{ minWidth: 60 }}
               />
               {/* NUEVO: Mostrar ejercicios saltados si hay alguno */}
-              {drillResults.some((r: any) => r.wasSkipped) && (
+              {drillResults.some(r => r.wasSkipped) && (
                 <Chip
                   icon={<SkipNextIcon />}
-                  label={drillResults.filter((r: any) => r.wasSkipped).length}
+                  label={drillResults.filter(r => r.wasSkipped).length}
                   color="default"
                   size="small"
                   sx={{ minWidth: 60 }}
@@ -206,7 +274,7 @@ const StudySession: React.FC<StudySessionProps> = ({
           variant="outlined"
           color="error"
           size="small"
-          onClick={onEndSession}
+          onClick={handleEndSession}
           data-testid="button-end-session"
         >
           Finalizar Sesión
@@ -255,6 +323,8 @@ const StudySession: React.FC<StudySessionProps> = ({
               selectedWords={selectedWords}
               drillTypes={drillTypes as DrillSessionType[]}  // Conversión de tipos
               sessionDurationMinutes={duration}  // Duración en minutos
+              strictMacrons={strictMacrons}  // Corrección estricta de macrones
+              retryGap={retryGap}  // Cuándo vuelve un ejercicio fallado
               onSessionEnd={handleFinishExercises}  // Callback cuando termine
               onDrillComplete={handleDrillComplete}  // Callback para actualizar resultados en tiempo real
             />
@@ -276,36 +346,17 @@ const StudySession: React.FC<StudySessionProps> = ({
               Has estudiado {selectedWords.length} palabras durante {duration} minutos.
             </Typography>
             
-            <Stack spacing={2} sx={{ mt: 3, maxWidth: 400, mx: 'auto' }} data-testid="session-stats-container">
-              <Box sx={{ 
-                p: 2, 
-                bgcolor: 'background.default',
-                borderRadius: 1,
-                textAlign: 'left'
-              }} data-testid="session-stats-box">
-                <Typography variant="subtitle2" color="text.secondary" data-testid="text-stats-title">
-                  Estadísticas de la sesión:
+            <Stack spacing={3} sx={{ mt: 3, maxWidth: 700, mx: 'auto' }} data-testid="session-stats-container">
+              {/* RESULTADOS DETALLADOS (los mismos que en el historial) */}
+              {savedSession ? (
+                <Box sx={{ textAlign: 'left' }} data-testid="session-stats-box">
+                  <SessionResults session={savedSession} />
+                </Box>
+              ) : (
+                <Typography variant="body2" color="text.secondary" data-testid="text-no-drills-answered">
+                  No se respondió ningún ejercicio, así que la sesión no se guardó en el historial.
                 </Typography>
-                <Typography variant="body2" data-testid="text-stats-words">
-                  • Palabras revisadas: {selectedWords.length}
-                </Typography>
-                <Typography variant="body2" data-testid="text-stats-duration">
-                  • Duración: {duration} minutos
-                </Typography>
-                <Typography variant="body2" data-testid="text-stats-drill-types">
-                  • Tipos de ejercicios: {drillTypes.length}
-                </Typography>
-                {drillResults.length > 0 && (
-                  <>
-                    <Typography variant="body2" data-testid="text-stats-exercises">
-                      • Ejercicios completados: {drillResults.length}
-                    </Typography>
-                    <Typography variant="body2" data-testid="text-stats-accuracy">
-                      • Precisión: {Math.round((drillResults.filter((r: any) => r.isCorrect).length / drillResults.length) * 100)}%
-                    </Typography>
-                  </>
-                )}
-              </Box>
+              )}
               
               <Button 
                 variant="contained" 
@@ -17,6 +17,7 @@
 
 import React, { useState } from 'react';
 import {
+  Alert,
   Box,
   Button
 } from '@mui/material';
@@ -32,21 +33,26 @@ import ConfigStep2DurationDrills from './config/ConfigStep2DurationDrills';
 // Importar configuración centralizada de layout
 import { getPageContainerSx, SECTION_SPACING } from '../../../config/pageLayout';
 
-// Importar tipos
+// Importar tipos y helpers
 import type { DrillType, SessionDuration } from '../types';
-import type { LatinWord } from '../../../components/global/WordCard';
+import { hasDrillsForWords } from '../constants/drillTypes';
+import type { VocabularyWord } from '../../../components/global/WordCard';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface StudySessionConfigProps {
   // Datos compartidos con el componente padre
-  selectedWords: LatinWord[];                           // Palabras seleccionadas
-  onSelectionChange: (words: LatinWord[]) => void;      // Actualizar palabras
+  selectedWords: VocabularyWord[];                      // Palabras seleccionadas
+  onSelectionChange: (words: VocabularyWord[]) => void; // Actualizar palabras
   duration: SessionDuration;                            // Duración seleccionada
   onDurationChange: (duration: SessionDuration) => void; // Actualizar duración
   drillTypes: DrillType[];                              // Tipos de ejercicios
   onDrillTypesChange: (types: DrillType[]) => void;     // Actualizar ejercicios
+  strictMacrons?: boolean;                              // Exigir macrones al escribir
+  onStrictMacronsChange?: (strict: boolean) => void;    // Actualizar modo de macrones
+  retryGap?: number;                                    // Ejercicios hasta repetir un fallo
+  onRetryGapChange?: (gap: number) => void;             // Actualizar ese hueco
   onStartSession: () => void;                           // Iniciar la sesión
 }
 
@@ -63,6 +69,10 @@ const StudySessionConfig: React.FC<StudySessionConfigProps> = ({
   onDurationChange,
   drillTypes,
   onDrillTypesChange,
+  strictMacrons,
+  onStrictMacronsChange,
+  retryGap,
+  onRetryGapChange,
   onStartSession
 }) => {
   // Estado del paso actual (0: palabras, 1: duración y ejercicios)
@@ -103,7 +113,8 @@ const StudySessionConfig: React.FC<StudySessionConfigProps> = ({
       case 0:
         return selectedWords.length >= 5; // Mínimo 5 palabras
       case 1:
-        return drillTypes.length > 0;     // Al menos un tipo de ejercicio
+        // Al menos un tipo de ejercicio, y que tenga palabras con las que practicar
+        return hasDrillsForWords(selectedWords, drillTypes);
       default:
         return true;
     }
@@ -150,12 +161,24 @@ const StudySessionConfig: React.FC<StudySessionConfigProps> = ({
               onDurationChange={onDurationChange}
               drillTypes={drillTypes}
               onDrillTypesChange={onDrillTypesChange}
+              strictMacrons={strictMacrons}
+              onStrictMacronsChange={onStrictMacronsChange}
+              retryGap={retryGap}
+              onRetryGapChange={onRetryGapChange}
               onStartSession={onStartSession}
               canStartSession={selectedWords.length >= 5}
             />
           )}
         </Box>
 
+        {/* AVISO: los ejercicios elegidos no tienen palabras */}
+        {currentStep === 1 && drillTypes.length > 0 && !hasDrillsForWords(selectedWords, drillTypes) && (
+          <Alert severity="warning" sx={{ mt: 1 }} data-testid="alert-no-drill-words">
+            Estos ejercicios son de sustantivos y no has elegido ninguno. Añade
+            algún sustantivo o elige el ejercicio de pronombres.
+          </Alert>
+        )}
+
         {/* NAVEGACIÓN ENTRE PASOS - Siempre visible en la parte inferior */}
         <Box 
           data-testid="navigation-buttons-container"
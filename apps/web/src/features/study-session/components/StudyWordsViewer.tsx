@@ -20,7 +20,7 @@ import {
   Stack
 } from '@mui/material';
 import WordNavigator from '../../../components/global/WordNavigator';
-import type { LatinWord } from '../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../components/global/WordCard';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import SchoolIcon from '@mui/icons-material/School';
 import SwipeIcon from '@mui/icons-material/Swipe';
@@ -29,7 +29,7 @@ import SwipeIcon from '@mui/icons-material/Swipe';
  * PROPS DEL COMPONENTE
  */
 interface StudyWordsViewerProps {
-  words: LatinWord[];                      // Lista de palabras a estudiar
+  words: VocabularyWord[];                 // Lista de palabras a estudiar
   onContinueToExercises: () => void;       // Callback para continuar a ejercicios
   showTranslation?: boolean;               // Si mostrar traducción (default: true)
 }
@@ -26,7 +26,7 @@ import {
   Fade
 } from '@mui/material';
 import WordCard from '../../../components/global/WordCard';
-import type { LatinWord } from '../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../components/global/WordCard';
 import PlayArrowIcon from '@mui/icons-material/PlayArrow';
 import SchoolIcon from '@mui/icons-material/School';
 import SwipeIcon from '@mui/icons-material/Swipe';
@@ -37,7 +37,7 @@ import NavigateNextIcon from '@mui/icons-material/NavigateNext';
  * PROPS DEL COMPONENTE
  */
 interface StudyWordsViewerWithNavigationProps {
-  words: LatinWord[];                      // Lista de palabras a estudiar
+  words: VocabularyWord[];                 // Lista de palabras a estudiar
   onContinueToExercises: () => void;       // Callback para continuar a ejercicios
   showTranslation?: boolean;               // Si mostrar traducción (default: true)
 }
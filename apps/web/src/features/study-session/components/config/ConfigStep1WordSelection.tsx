@@ -6,21 +6,27 @@
  * 
  * Este componente está optimizado para usar el mínimo espacio vertical
  * manteniendo toda la funcionalidad accesible.
+ * 
+ * Encima del buscador se muestran las colas de repaso (ReviewQueueSelector)
+ * y los mazos del usuario (DeckSelector): un clic carga una cola o un mazo
+ * entero como selección.
  */
 
 import React from 'react';
 import { Box } from '@mui/material';
 import WordSelectionStep from './WordSelectionStep';
-import type { LatinWord } from '../../../../components/global/WordCard';
+import DeckSelector from './DeckSelector';
+import ReviewQueueSelector from './ReviewQueueSelector';
+import type { VocabularyWord } from '../../../../components/global/WordCard';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface ConfigStep1WordSelectionProps {
   // Palabras actualmente seleccionadas
-  selectedWords: LatinWord[];
+  selectedWords: VocabularyWord[];
   // Callback cuando cambia la selección
-  onSelectionChange: (words: LatinWord[]) => void;
+  onSelectionChange: (words: VocabularyWord[]) => void;
   // Configuración de límites
   minWords?: number;
   maxWords?: number;
@@ -43,6 +49,15 @@ const ConfigStep1WordSelection: React.FC<ConfigStep1WordSelectionProps> = ({
   // Este componente actúa como un alias con valores por defecto
   return (
     <Box data-testid="config-step1-word-selection">
+      <ReviewQueueSelector
+        onSelectionChange={onSelectionChange}
+        maxWords={maxWords}
+      />
+      <DeckSelector
+        selectedWords={selectedWords}
+        onSelectionChange={onSelectionChange}
+        maxWords={maxWords}
+      />
       <WordSelectionStep
         selectedWords={selectedWords}
         onSelectionChange={onSelectionChange}
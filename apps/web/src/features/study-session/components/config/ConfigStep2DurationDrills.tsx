@@ -8,11 +8,17 @@
  */
 
 import React from 'react';
-import { Box, Typography } from '@mui/material';
+import { Box, Typography, FormControlLabel, Switch, ToggleButtonGroup, ToggleButton } from '@mui/material';
 import DurationSelector from './DurationSelector';
 import DrillTypeSelector from './DrillTypeSelector';
 import type { DrillType, SessionDuration } from '../../types';
 
+/**
+ * OPCIONES DE REPETICIÓN DE FALLOS
+ * Cuántos ejercicios después vuelve a salir un ejercicio fallado
+ */
+const RETRY_GAP_OPTIONS = [2, 3, 5];
+
 /**
  * PROPS DEL COMPONENTE
  */
@@ -25,6 +31,14 @@ interface ConfigStep2DurationDrillsProps {
   drillTypes: DrillType[];
   // Callback para cambio de tipos
   onDrillTypesChange: (types: DrillType[]) => void;
+  // Exigir macrones en "Escribir en Latín" (solo para esta sesión)
+  strictMacrons?: boolean;
+  // Callback para cambiar el modo de macrones
+  onStrictMacronsChange?: (strict: boolean) => void;
+  // Ejercicios hasta que vuelve un ejercicio fallado
+  retryGap?: number;
+  // Callback para cambiar ese número
+  onRetryGapChange?: (gap: number) => void;
   // Callback para comenzar la sesión (nuevo)
   onStartSession?: () => void;
   // Si el botón de inicio debe estar habilitado
@@ -42,6 +56,10 @@ const ConfigStep2DurationDrills: React.FC<ConfigStep2DurationDrillsProps> = ({
   onDurationChange,
   drillTypes,
   onDrillTypesChange,
+  strictMacrons = false,
+  onStrictMacronsChange,
+  retryGap,
+  onRetryGapChange,
 }) => {
   return (
     // Stack vertical con espaciado optimizado
@@ -87,6 +105,53 @@ const ConfigStep2DurationDrills: React.FC<ConfigStep2DurationDrillsProps> = ({
         />
       </Box>
 
+      {/* MODO DE MACRONES - Solo afecta al ejercicio de escritura */}
+      {drillTypes.includes('typeLatinWord') && onStrictMacronsChange && (
+        <Box data-testid="strict-macrons-section">
+          <FormControlLabel
+            control={
+              <Switch
+                checked={strictMacrons}
+                onChange={(e) => onStrictMacronsChange(e.target.checked)}
+                data-testid="strict-macrons-switch"
+              />
+            }
+            label="Macrones estrictos"
+          />
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+            Al escribir en latín, "natura" no valdrá por "nātūra"
+          </Typography>
+        </Box>
+      )}
+
+      {/* REPETICIÓN DE FALLOS */}
+      {onRetryGapChange && (
+        <Box data-testid="retry-gap-section">
+          <Typography variant="subtitle2" sx={{ mb: 0.5 }}>
+            Repetir los fallos tras
+          </Typography>
+          <ToggleButtonGroup
+            value={retryGap}
+            exclusive
+            size="small"
+            color="primary"
+            onChange={(_event, gap: number | null) => {
+              if (gap !== null) onRetryGapChange(gap);
+            }}
+            data-testid="retry-gap-group"
+          >
+            {RETRY_GAP_OPTIONS.map(gap => (
+              <ToggleButton key={gap} value={gap} data-testid={`retry-gap-button-${gap}`}>
+                {gap} ejercicios
+              </ToggleButton>
+            ))}
+          </ToggleButtonGroup>
+          <Typography variant="caption" sx={{ color: 'text.secondary', display: 'block' }}>
+            Cada vez que la aciertes, tardará el doble en volver
+          </Typography>
+        </Box>
+      )}
+
     </Box>
   );
 };
@@ -11,15 +11,16 @@ import React from 'react';
 import { Box, Typography, Stack, Chip, Button, Paper } from '@mui/material';
 import SelectedWordChip from '../../../../components/global/SelectedWordChip';
 import RocketLaunchIcon from '@mui/icons-material/RocketLaunch';
-import type { LatinWord } from '../../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../../components/global/WordCard';
 import type { DrillType, SessionDuration } from '../../types';
+import { DRILL_TYPE_LABELS } from '../../constants/drillTypes';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface ConfigStep3ReviewProps {
   // Configuración a revisar
-  selectedWords: LatinWord[];
+  selectedWords: VocabularyWord[];
   duration: SessionDuration;
   drillTypes: DrillType[];
   // Callback para comenzar la sesión
@@ -38,15 +39,6 @@ const ConfigStep3Review: React.FC<ConfigStep3ReviewProps> = ({
   drillTypes,
   onStartSession,
 }) => {
-  /**
-   * Mapeo de tipos de ejercicios a labels en español
-   */
-  const drillTypeLabels: Record<DrillType, string> = {
-    multipleChoice: 'Opción Múltiple',
-    multipleChoiceDeclension: 'Identificar Declinación',
-    typeLatinWord: 'Escribir en Latín'
-  };
-
   return (
     <Stack spacing={2} data-testid="config-step3-review">  {/* Espaciado reducido */}
       {/* TÍTULO DEL PASO */}
@@ -137,7 +129,7 @@ const ConfigStep3Review: React.FC<ConfigStep3ReviewProps> = ({
               {drillTypes.map((type, index) => (
                 <Chip
                   key={type}
-                  label={drillTypeLabels[type] || type}
+                  label={DRILL_TYPE_LABELS[type] || type}
                   color="secondary"
                   size="small"
                   data-testid={`config-step3-review-drill-chip-${index}`}
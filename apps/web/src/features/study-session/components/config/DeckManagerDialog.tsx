@@ -0,0 +1,389 @@
+/**
+ * DECK MANAGER DIALOG
+ * 
+ * Ventana para gestionar los mazos del usuario: crearlos, renombrarlos,
+ * borrarlos, añadir o quitar palabras, cambiar su orden y exportarlos o
+ * importarlos como archivos JSON.
+ * 
+ * Cada cambio se hace con las funciones puras de @latin-app/data
+ * (renameDeck, setDeckWords, moveDeckWord...) y se guarda al momento
+ * con deckStore; el padre recibe la lista nueva en onDecksChange.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Dialog: ventana modal de MUI, se abre y cierra con la prop open
+ * - Input no controlado: el nombre se edita libremente y se guarda al
+ *   salir del campo (onBlur); key={deck.id} lo reinicia al cambiar de mazo
+ * - Descargar archivos: un Blob con el JSON y un enlace temporal
+ */
+
+import React, { useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  IconButton,
+  List,
+  ListItemButton,
+  ListItemText,
+  Paper,
+  Stack,
+  TextField,
+  Tooltip,
+  Typography,
+} from '@mui/material';
+
+// Iconos
+import AddIcon from '@mui/icons-material/Add';
+import ArrowDownwardIcon from '@mui/icons-material/ArrowDownward';
+import ArrowUpwardIcon from '@mui/icons-material/ArrowUpward';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import FileDownloadIcon from '@mui/icons-material/FileDownload';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+
+import type { WordDeck } from '@latin-app/types';
+import {
+  createDeck,
+  exportDecks,
+  getTranslation,
+  moveDeckWord,
+  parseDeckExport,
+  removeWordFromDeck,
+  renameDeck,
+  setDeckWords,
+} from '@latin-app/data';
+
+import WordSearchDropdown from '../search/WordSearchDropdown';
+import SelectedWordChip from '../../../../components/global/SelectedWordChip';
+import { useAppSettings } from '../../../../contexts/AppSettingsContext';
+import {
+  addImportedDecks,
+  deleteDeck,
+  getDeckWords,
+  saveDeck,
+} from '../../../../services/deckStore';
+import {
+  DECK_EXPORT_FILENAME,
+  DECK_FILE_READ_ERROR_MESSAGE,
+  DECK_IMPORT_ERROR_MESSAGES,
+  MAX_DECK_WORDS,
+} from '../../constants/decks';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface DeckManagerDialogProps {
+  open: boolean;                                  // ¿Está abierta la ventana?
+  decks: WordDeck[];                              // Mazos guardados
+  onDecksChange: (decks: WordDeck[]) => void;     // Lista nueva tras cada cambio
+  onClose: () => void;                            // Cerrar la ventana
+}
+
+/**
+ * FUNCIÓN HELPER: Descargar un texto como archivo
+ * 
+ * El navegador no deja escribir archivos directamente: creamos un Blob,
+ * le damos una URL temporal y simulamos el clic en un enlace <a download>.
+ */
+const downloadTextFile = (content: string, filename: string): void => {
+  const url = URL.createObjectURL(new Blob([content], { type: 'application/json' }));
+  const link = document.createElement('a');
+  link.href = url;
+  link.download = filename;
+  link.click();
+  URL.revokeObjectURL(url);
+};
+
+/**
+ * COMPONENTE DECKMANAGERDIALOG
+ */
+const DeckManagerDialog: React.FC<DeckManagerDialogProps> = ({
+  open,
+  decks,
+  onDecksChange,
+  onClose,
+}) => {
+  // Idioma de las traducciones de la lista de palabras
+  const { glossLanguage } = useAppSettings();
+
+  // Mazo que se está editando (null = el primero)
+  const [activeDeckId, setActiveDeckId] = useState<string | null>(null);
+
+  // Resultado de la última importación
+  const [message, setMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  // Input de archivo oculto: el botón lo abre con click()
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  // VALORES DERIVADOS
+  const activeDeck = decks.find(deck => deck.id === activeDeckId) ?? decks[0] ?? null;
+  const deckWords = activeDeck ? getDeckWords(activeDeck) : [];
+  // Ids que ya no existen (p. ej. una palabra importada que se borró)
+  const missingCount = activeDeck ? activeDeck.wordIds.length - deckWords.length : 0;
+
+  /**
+   * FUNCIÓN HELPER: Guardar un mazo modificado y avisar al padre
+   */
+  const updateDeck = (deck: WordDeck) => {
+    onDecksChange(saveDeck(deck));
+  };
+
+  /**
+   * MANEJADOR: Crear un mazo vacío y editarlo
+   */
+  const handleCreate = () => {
+    const deck = createDeck(`Mazo ${decks.length + 1}`);
+    updateDeck(deck);
+    setActiveDeckId(deck.id);
+    setMessage(null);
+  };
+
+  /**
+   * MANEJADOR: Borrar el mazo activo
+   */
+  const handleDelete = () => {
+    if (!activeDeck) return;
+    onDecksChange(deleteDeck(activeDeck.id));
+    setActiveDeckId(null);
+  };
+
+  /**
+   * MANEJADOR: Mover una palabra un puesto arriba (-1) o abajo (+1)
+   * Los índices son los del mazo, que puede tener ids que ya no existen
+   */
+  const handleMove = (position: number, offset: -1 | 1) => {
+    if (!activeDeck) return;
+    const neighbor = deckWords[position + offset];
+    if (!neighbor) return;
+    updateDeck(moveDeckWord(
+      activeDeck,
+      activeDeck.wordIds.indexOf(deckWords[position].id),
+      activeDeck.wordIds.indexOf(neighbor.id)
+    ));
+  };
+
+  /**
+   * MANEJADOR: Leer un archivo de mazos
+   * FileReader es asíncrono: el contenido llega en onload
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      const result = parseDeckExport(String(reader.result ?? ''));
+      if (result.error) {
+        setMessage({ severity: 'error', text: DECK_IMPORT_ERROR_MESSAGES[result.error] });
+        return;
+      }
+      onDecksChange(addImportedDecks(result.decks));
+      setActiveDeckId(result.decks[0].id);
+      const imported = result.decks.length === 1 ? '1 mazo importado' : `${result.decks.length} mazos importados`;
+      const skipped = result.skippedCount > 0 ? ` (${result.skippedCount} no válidos se han saltado)` : '';
+      setMessage({ severity: 'success', text: imported + skipped });
+    };
+    reader.onerror = () => {
+      console.error('Error al leer el archivo:', reader.error);
+      setMessage({ severity: 'error', text: DECK_FILE_READ_ERROR_MESSAGE });
+    };
+    reader.readAsText(file);
+
+    // Permitir volver a elegir el mismo archivo
+    event.target.value = '';
+  };
+
+  return (
+    <Dialog open={open} onClose={onClose} fullWidth maxWidth="md" data-testid="deck-manager-dialog">
+      <DialogTitle>Mis mazos</DialogTitle>
+
+      <DialogContent dividers>
+        {/* ACCIONES GENERALES */}
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" sx={{ mb: 2 }}>
+          <Button variant="contained" size="small" startIcon={<AddIcon />} onClick={handleCreate} data-testid="button-deck-create">
+            Nuevo mazo
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<UploadFileIcon />}
+            onClick={() => fileInputRef.current?.click()}
+            data-testid="button-deck-import"
+          >
+            Importar
+          </Button>
+          <Button
+            variant="outlined"
+            size="small"
+            startIcon={<FileDownloadIcon />}
+            disabled={decks.length === 0}
+            onClick={() => downloadTextFile(exportDecks(decks), DECK_EXPORT_FILENAME)}
+            data-testid="button-deck-export"
+          >
+            Exportar todos
+          </Button>
+          <input
+            ref={fileInputRef}
+            type="file"
+            accept=".json,application/json"
+            hidden
+            onChange={handleFileChange}
+          />
+        </Stack>
+
+        {message && (
+          <Alert severity={message.severity} sx={{ mb: 2 }} onClose={() => setMessage(null)}>
+            {message.text}
+          </Alert>
+        )}
+
+        {!activeDeck ? (
+          <Typography variant="body2" color="text.secondary">
+            Todavía no tienes mazos. Crea uno o importa un archivo exportado.
+          </Typography>
+        ) : (
+          <Stack direction={{ xs: 'column', sm: 'row' }} spacing={2} alignItems="flex-start">
+            {/* LISTA DE MAZOS */}
+            <Paper variant="outlined" sx={{ width: { xs: '100%', sm: 220 }, flexShrink: 0 }}>
+              <List dense disablePadding data-testid="deck-list">
+                {decks.map(deck => (
+                  <ListItemButton
+                    key={deck.id}
+                    selected={deck.id === activeDeck.id}
+                    onClick={() => setActiveDeckId(deck.id)}
+                  >
+                    <ListItemText
+                      primary={deck.name}
+                      secondary={`${deck.wordIds.length} palabras`}
+                    />
+                  </ListItemButton>
+                ))}
+              </List>
+            </Paper>
+
+            {/* EDITOR DEL MAZO ACTIVO */}
+            <Box sx={{ flexGrow: 1, width: '100%' }} data-testid="deck-editor">
+              <Stack direction="row" spacing={1} alignItems="center" sx={{ mb: 2 }}>
+                <TextField
+                  key={activeDeck.id}
+                  size="small"
+                  label="Nombre"
+                  defaultValue={activeDeck.name}
+                  onBlur={(event) => updateDeck(renameDeck(activeDeck, event.target.value))}
+                  onKeyDown={(event) => {
+                    if (event.key === 'Enter') (event.target as HTMLInputElement).blur();
+                  }}
+                  sx={{ flexGrow: 1 }}
+                  inputProps={{ 'data-testid': 'input-deck-name' }}
+                />
+                <Tooltip title="Exportar este mazo">
+                  <IconButton
+                    onClick={() => downloadTextFile(exportDecks([activeDeck]), DECK_EXPORT_FILENAME)}
+                    aria-label="Exportar este mazo"
+                  >
+                    <FileDownloadIcon />
+                  </IconButton>
+                </Tooltip>
+                <Tooltip title="Borrar mazo">
+                  <IconButton color="error" onClick={handleDelete} aria-label="Borrar mazo" data-testid="button-deck-delete">
+                    <DeleteOutlineIcon />
+                  </IconButton>
+                </Tooltip>
+              </Stack>
+
+              {/* AÑADIR PALABRAS */}
+              {/* Mismo buscador que el paso 1; la lista la mostramos abajo, con orden */}
+              {/* Al editar, los ids que ya no existen se quitan del mazo */}
+              <WordSearchDropdown
+                selectedWords={deckWords}
+                onSelectionChange={(words) => updateDeck(setDeckWords(activeDeck, words.map(word => word.id)))}
+                maxSelection={MAX_DECK_WORDS}
+                showSelectedWords={false}
+              />
+
+              {missingCount > 0 && (
+                <Typography variant="caption" color="warning.main" sx={{ display: 'block', mt: 1 }}>
+                  {missingCount === 1
+                    ? '1 palabra de este mazo ya no está en el vocabulario'
+                    : `${missingCount} palabras de este mazo ya no están en el vocabulario`}
+                </Typography>
+              )}
+
+              {/* PALABRAS EN ORDEN */}
+              {deckWords.length === 0 ? (
+                <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+                  Busca palabras arriba para añadirlas al mazo.
+                </Typography>
+              ) : (
+                <List dense data-testid="deck-word-list" sx={{ mt: 1 }}>
+                  {deckWords.map((word, index) => (
+                    <Box
+                      key={word.id}
+                      component="li"
+                      sx={{ display: 'flex', alignItems: 'center', gap: 1, py: 0.25 }}
+                    >
+                      <Typography variant="caption" color="text.secondary" sx={{ width: 24, textAlign: 'right' }}>
+                        {index + 1}
+                      </Typography>
+                      <SelectedWordChip word={word} variant="compact" />
+                      <Typography variant="body2" color="text.secondary" noWrap sx={{ flexGrow: 1 }}>
+                        {getTranslation(word, glossLanguage)}
+                      </Typography>
+                      <IconButton size="small" disabled={index === 0} onClick={() => handleMove(index, -1)} aria-label="Subir">
+                        <ArrowUpwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        disabled={index === deckWords.length - 1}
+                        onClick={() => handleMove(index, 1)}
+                        aria-label="Bajar"
+                      >
+                        <ArrowDownwardIcon fontSize="small" />
+                      </IconButton>
+                      <IconButton
+                        size="small"
+                        onClick={() => updateDeck(removeWordFromDeck(activeDeck, word.id))}
+                        aria-label="Quitar del mazo"
+                      >
+                        <DeleteOutlineIcon fontSize="small" />
+                      </IconButton>
+                    </Box>
+                  ))}
+                </List>
+              )}
+            </Box>
+          </Stack>
+        )}
+      </DialogContent>
+
+      <DialogActions>
+        <Button onClick={onClose} data-testid="button-deck-manager-close">Cerrar</Button>
+      </DialogActions>
+    </Dialog>
+  );
+};
+
+export default DeckManagerDialog;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. FUNCIONES PURAS + GUARDADO:
+ *    - renameDeck, moveDeckWord... devuelven un mazo nuevo
+ *    - saveDeck lo guarda y devuelve la lista, que sube al padre
+ * 
+ * 2. INPUT NO CONTROLADO CON key:
+ *    - defaultValue + onBlur: se guarda al terminar de escribir
+ *    - Cambiar key fuerza a React a crear un campo nuevo con el otro nombre
+ * 
+ * 3. ARCHIVOS EN EL NAVEGADOR:
+ *    - Exportar: Blob + URL.createObjectURL + <a download>
+ *    - Importar: <input type="file"> oculto + FileReader
+ * 
+ * 4. REUTILIZACIÓN:
+ *    - WordSearchDropdown busca y añade palabras (showSelectedWords={false})
+ *    - SelectedWordChip muestra cada palabra con su color
+ */
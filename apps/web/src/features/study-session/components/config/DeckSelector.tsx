@@ -0,0 +1,204 @@
+/**
+ * DECK SELECTOR COMPONENT
+ * 
+ * Fila de "mazos" encima del buscador del paso 1: un clic en un mazo
+ * reemplaza la selección por sus palabras. Desde aquí también se guarda
+ * la selección actual como mazo nuevo y se abre el gestor de mazos.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Estado elevado: la selección es del padre; este componente solo la
+ *   reemplaza con onSelectionChange
+ * - Estado local: la lista de mazos vive aquí (y en deckStore), porque
+ *   ningún otro paso de la configuración la necesita
+ */
+
+import React, { useState } from 'react';
+import {
+  Box,
+  Button,
+  Chip,
+  Dialog,
+  DialogActions,
+  DialogContent,
+  DialogTitle,
+  Stack,
+  TextField,
+  Typography,
+} from '@mui/material';
+
+// Iconos
+import BookmarkAddIcon from '@mui/icons-material/BookmarkAdd';
+import StyleIcon from '@mui/icons-material/Style';
+
+import type { WordDeck } from '@latin-app/types';
+import { createDeck, normalizeDeckName } from '@latin-app/data';
+
+import type { VocabularyWord } from '../../../../components/global/WordCard';
+import { getDeckWords, getDecks, saveDeck } from '../../../../services/deckStore';
+import DeckManagerDialog from './DeckManagerDialog';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface DeckSelectorProps {
+  selectedWords: VocabularyWord[];                       // Selección actual
+  onSelectionChange: (words: VocabularyWord[]) => void;  // Reemplazar la selección
+  maxWords: number;                                      // Máximo de la sesión
+}
+
+/**
+ * COMPONENTE DECKSELECTOR
+ */
+const DeckSelector: React.FC<DeckSelectorProps> = ({
+  selectedWords,
+  onSelectionChange,
+  maxWords,
+}) => {
+  // Mazos guardados (ya leídos al abrir el almacenamiento)
+  const [decks, setDecks] = useState<WordDeck[]>(() => getDecks());
+
+  // Ventanas abiertas
+  const [isManagerOpen, setIsManagerOpen] = useState(false);
+  const [isSaveOpen, setIsSaveOpen] = useState(false);
+  const [newDeckName, setNewDeckName] = useState('');
+
+  // Aviso cuando un mazo no cabe entero en la sesión
+  const [notice, setNotice] = useState<string | null>(null);
+
+  // Clave de la selección actual, para marcar el mazo que coincide
+  const selectionKey = selectedWords.map(word => word.id).join('|');
+
+  /**
+   * MANEJADOR: Cargar un mazo como selección
+   * Si tiene más palabras que el máximo, se usan las primeras
+   */
+  const handleLoadDeck = (deck: WordDeck) => {
+    const words = getDeckWords(deck);
+    onSelectionChange(words.slice(0, maxWords));
+    setNotice(words.length > maxWords
+      ? `"${deck.name}" tiene ${words.length} palabras: se han cargado las ${maxWords} primeras`
+      : null);
+  };
+
+  /**
+   * MANEJADOR: Guardar la selección actual como mazo nuevo
+   */
+  const handleSaveSelection = () => {
+    const name = normalizeDeckName(newDeckName) || `Mazo ${decks.length + 1}`;
+    setDecks(saveDeck(createDeck(name, selectedWords.map(word => word.id))));
+    setIsSaveOpen(false);
+    setNewDeckName('');
+  };
+
+  return (
+    <Box data-testid="deck-selector" sx={{ mb: 1.5 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
+        <Typography variant="subtitle2" sx={{ color: 'text.secondary', flexGrow: 1 }}>
+          Mis mazos
+        </Typography>
+        <Button
+          size="small"
+          startIcon={<BookmarkAddIcon />}
+          disabled={selectedWords.length === 0}
+          onClick={() => setIsSaveOpen(true)}
+          data-testid="button-save-selection-as-deck"
+        >
+          Guardar selección
+        </Button>
+        <Button
+          size="small"
+          startIcon={<StyleIcon />}
+          onClick={() => setIsManagerOpen(true)}
+          data-testid="button-open-deck-manager"
+        >
+          Gestionar
+        </Button>
+      </Stack>
+
+      {/* UN CHIP POR MAZO: relleno si la selección es exactamente ese mazo */}
+      {decks.length === 0 ? (
+        <Typography variant="caption" color="text.secondary">
+          Guarda una selección o crea un mazo para reutilizar tus listas de palabras.
+        </Typography>
+      ) : (
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+          {decks.map(deck => {
+            const isActive = selectionKey !== ''
+              && getDeckWords(deck).slice(0, maxWords).map(word => word.id).join('|') === selectionKey;
+            return (
+              <Chip
+                key={deck.id}
+                label={`${deck.name} (${deck.wordIds.length})`}
+                size="small"
+                color="primary"
+                variant={isActive ? 'filled' : 'outlined'}
+                disabled={deck.wordIds.length === 0}
+                onClick={() => handleLoadDeck(deck)}
+                data-testid={`deck-chip-${deck.id}`}
+              />
+            );
+          })}
+        </Stack>
+      )}
+
+      {notice && (
+        <Typography variant="caption" color="info.main" sx={{ display: 'block', mt: 0.5 }}>
+          {notice}
+        </Typography>
+      )}
+
+      {/* VENTANA: NOMBRE DEL MAZO NUEVO */}
+      <Dialog open={isSaveOpen} onClose={() => setIsSaveOpen(false)} fullWidth maxWidth="xs">
+        <DialogTitle>Guardar selección como mazo</DialogTitle>
+        <DialogContent>
+          <TextField
+            autoFocus
+            fullWidth
+            margin="dense"
+            label="Nombre del mazo"
+            placeholder={`Mazo ${decks.length + 1}`}
+            value={newDeckName}
+            onChange={(event) => setNewDeckName(event.target.value)}
+            onKeyDown={(event) => {
+              if (event.key === 'Enter') handleSaveSelection();
+            }}
+            helperText={`${selectedWords.length} palabras`}
+            inputProps={{ 'data-testid': 'input-new-deck-name' }}
+          />
+        </DialogContent>
+        <DialogActions>
+          <Button onClick={() => setIsSaveOpen(false)}>Cancelar</Button>
+          <Button variant="contained" onClick={handleSaveSelection} data-testid="button-confirm-save-deck">
+            Guardar
+          </Button>
+        </DialogActions>
+      </Dialog>
+
+      {/* VENTANA: GESTOR DE MAZOS */}
+      <DeckManagerDialog
+        open={isManagerOpen}
+        decks={decks}
+        onDecksChange={setDecks}
+        onClose={() => setIsManagerOpen(false)}
+      />
+    </Box>
+  );
+};
+
+export default DeckSelector;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. SELECCIÓN DE UN CLIC:
+ *    - getDeckWords traduce los ids del mazo a palabras, en su orden
+ *    - onSelectionChange reemplaza la selección del padre
+ * 
+ * 2. ESTADO LOCAL + PERSISTENCIA:
+ *    - useState con función inicial: getDecks() solo se llama al montar
+ *    - Cada cambio pasa por deckStore, que guarda y devuelve la lista nueva
+ * 
+ * 3. VENTANAS MODALES:
+ *    - Dialog se muestra u oculta con la prop open
+ *    - El gestor recibe la lista y avisa de los cambios con onDecksChange
+ */
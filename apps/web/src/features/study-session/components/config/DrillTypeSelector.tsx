@@ -24,6 +24,10 @@ import {
 import QuizIcon from '@mui/icons-material/Quiz'; // Icono para opción múltiple
 import CategoryIcon from '@mui/icons-material/Category'; // Icono para declinación
 import EditIcon from '@mui/icons-material/Edit'; // Icono para escritura
+import TableChartIcon from '@mui/icons-material/TableChart'; // Icono para tabla de casos
+import ManageSearchIcon from '@mui/icons-material/ManageSearch'; // Icono para identificar casos
+import JoinInnerIcon from '@mui/icons-material/JoinInner'; // Icono para concordancia
+import RecordVoiceOverIcon from '@mui/icons-material/RecordVoiceOver'; // Icono para pronombres
 
 // Importamos el tipo DrillType desde nuestro archivo de tipos
 // Esto es mejor práctica que definirlo aquí porque evita problemas de importación
@@ -64,6 +68,30 @@ const drillTypeConfig: Record<DrillType, {
     description: 'Escribe la palabra latina completa con sus casos y atributos',
     icon: <EditIcon />,
     color: '#4CAF50' // Verde para escritura
+  },
+  declensionTable: {
+    label: 'Completar el Paradigma',
+    description: 'Escribe la tabla completa de casos en singular y plural',
+    icon: <TableChartIcon />,
+    color: LATIN_COLORS.drillTypes.declensionTable // Color desde tema centralizado
+  },
+  caseIdentification: {
+    label: 'Identificar Caso',
+    description: 'Reconoce el caso y el número de una forma declinada',
+    icon: <ManageSearchIcon />,
+    color: LATIN_COLORS.drillTypes.caseIdentification // Color desde tema centralizado
+  },
+  adjectiveAgreement: {
+    label: 'Concordancia',
+    description: 'Escribe el adjetivo en el género, número y caso del sustantivo',
+    icon: <JoinInnerIcon />,
+    color: LATIN_COLORS.drillTypes.adjectiveAgreement // Color desde tema centralizado
+  },
+  pronounDeclension: {
+    label: 'Pronombres',
+    description: 'Escribe la tabla o una forma de ego, tū, is, hic, ille y quī',
+    icon: <RecordVoiceOverIcon />,
+    color: LATIN_COLORS.drillTypes.pronounDeclension // Color desde tema centralizado
   }
 };
 
@@ -0,0 +1,120 @@
+/**
+ * REVIEW QUEUE SELECTOR COMPONENT
+ * 
+ * Fila de "repaso espaciado" encima de los mazos del paso 1. El
+ * planificador (@latin-app/scheduler) separa el vocabulario en tres colas
+ * y un clic en una de ellas la carga como selección:
+ * 
+ * - Para repasar: palabras aprendidas cuya fecha de repaso ya pasó
+ * - Aprendiendo: palabras falladas hace poco que necesitan más práctica
+ * - Nuevas: palabras que todavía no se han practicado nunca
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Igual que DeckSelector: la selección es del padre y este componente
+ *   solo la reemplaza con onSelectionChange
+ * - Las colas se calculan al montar el paso: cambian al terminar una
+ *   sesión, no mientras se configura la siguiente
+ */
+
+import React, { useState } from 'react';
+import { Box, Chip, Stack, Typography } from '@mui/material';
+
+// Iconos
+import EventRepeatIcon from '@mui/icons-material/EventRepeat';
+
+import type { ReviewQueues } from '@latin-app/types';
+
+import type { VocabularyWord } from '../../../../components/global/WordCard';
+import { getQueueWords, getWordReviewQueues } from '../../../../services/wordMemoryStore';
+
+/**
+ * LAS TRES COLAS, EN EL ORDEN EN QUE SE MUESTRAN
+ */
+const QUEUE_OPTIONS: { queue: keyof ReviewQueues; label: string }[] = [
+  { queue: 'due', label: 'Para repasar' },
+  { queue: 'learning', label: 'Aprendiendo' },
+  { queue: 'new', label: 'Nuevas' },
+];
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface ReviewQueueSelectorProps {
+  onSelectionChange: (words: VocabularyWord[]) => void;  // Reemplazar la selección
+  maxWords: number;                                      // Máximo de la sesión
+}
+
+/**
+ * COMPONENTE REVIEWQUEUESELECTOR
+ */
+const ReviewQueueSelector: React.FC<ReviewQueueSelectorProps> = ({
+  onSelectionChange,
+  maxWords,
+}) => {
+  // Colas de repaso (se calculan una vez, al montar)
+  const [queues] = useState<ReviewQueues>(() => getWordReviewQueues());
+
+  // Cola cargada como selección (para marcar su chip)
+  const [activeQueue, setActiveQueue] = useState<keyof ReviewQueues | null>(null);
+
+  /**
+   * MANEJADOR: Cargar una cola como selección
+   * Las colas ya vienen ordenadas: primero las palabras más urgentes
+   */
+  const handleLoadQueue = (queue: keyof ReviewQueues) => {
+    onSelectionChange(getQueueWords(queues[queue].slice(0, maxWords)));
+    setActiveQueue(queue);
+  };
+
+  const hasPractised = queues.due.length > 0 || queues.learning.length > 0;
+
+  return (
+    <Box data-testid="review-queue-selector" sx={{ mb: 1.5 }}>
+      <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 0.5 }}>
+        <EventRepeatIcon fontSize="small" sx={{ color: 'text.secondary' }} />
+        <Typography variant="subtitle2" sx={{ color: 'text.secondary' }}>
+          Repaso espaciado
+        </Typography>
+      </Stack>
+
+      {/* UN CHIP POR COLA: las vacías se desactivan */}
+      <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+        {QUEUE_OPTIONS.map(({ queue, label }) => (
+          <Chip
+            key={queue}
+            label={`${label} (${queues[queue].length})`}
+            size="small"
+            color={queue === 'due' ? 'secondary' : 'primary'}
+            variant={activeQueue === queue ? 'filled' : 'outlined'}
+            disabled={queues[queue].length === 0}
+            onClick={() => handleLoadQueue(queue)}
+            data-testid={`review-queue-chip-${queue}`}
+          />
+        ))}
+      </Stack>
+
+      {!hasPractised && (
+        <Typography variant="caption" color="text.secondary" sx={{ display: 'block', mt: 0.5 }}>
+          Al practicar, cada palabra vuelve cuando estés a punto de olvidarla.
+        </Typography>
+      )}
+    </Box>
+  );
+};
+
+export default ReviewQueueSelector;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. REPASO ESPACIADO:
+ *    - Cada ejercicio actualiza el estado de memoria de su palabra
+ *    - El planificador calcula cuándo conviene volver a verla
+ * 
+ * 2. COLAS COMO SELECCIONES:
+ *    - keyof ReviewQueues ('due' | 'learning' | 'new') identifica cada cola
+ *    - getQueueWords traduce los ids a palabras, como getDeckWords en los mazos
+ * 
+ * 3. ESTADO INICIAL PEREZOSO:
+ *    - useState(() => ...) calcula las colas una sola vez al montar
+ */
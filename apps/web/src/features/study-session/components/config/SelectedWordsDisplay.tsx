@@ -30,7 +30,7 @@ import ClearAllIcon from '@mui/icons-material/ClearAll';
 
 // Componentes
 import SelectedWordChip from '../../../../components/global/SelectedWordChip';
-import type { LatinWord } from '../../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../../components/global/WordCard';
 
 /**
  * PROPS DEL COMPONENTE
@@ -39,7 +39,7 @@ import type { LatinWord } from '../../../../components/global/WordCard';
  */
 interface SelectedWordsDisplayProps {
   // Array de palabras seleccionadas para mostrar
-  selectedWords: LatinWord[];
+  selectedWords: VocabularyWord[];
   
   // Callback cuando se elimina una palabra individual
   // Recibe el ID de la palabra a eliminar
@@ -49,7 +49,7 @@ interface SelectedWordsDisplayProps {
   onClearAll: () => void;
   
   // Callback opcional cuando se hace click en una palabra
-  onWordClick?: (word: LatinWord) => void;
+  onWordClick?: (word: VocabularyWord) => void;
   
   // Texto personalizado para el botón de limpiar
   clearButtonText?: string;
@@ -15,13 +15,23 @@
  *    - Evita redundancia mostrando información una sola vez
  *    - WordSearchDropdown ya muestra las palabras seleccionadas
  *    - Mantiene todo visible sin necesidad de scroll
+ * 
+ * 3. CATEGORÍA DE PRONOMBRES:
+ *    - Los pronombres no salen en la búsqueda (no son vocabulario declinable)
+ *    - Se eligen con chips propios y se guardan en la misma selección
+ * 
+ * 4. SESIONES POR TEMA:
+ *    - Los chips de temas (TagFilter) limitan la selección aleatoria
+ *    - "familia" + "20 del tema" → 20 sustantivos sobre la familia
  */
 
-import React from 'react';
+import React, { useState } from 'react';
 import {
   Box,           // Contenedor flexible - como un div mejorado
   Typography,    // Componente para todo tipo de texto
   Button,        // Botón interactivo
+  Chip,          // Etiqueta clicable (para los pronombres)
+  Stack,         // Fila de chips con espaciado automático
 } from '@mui/material';
 
 // Iconos
@@ -29,12 +39,16 @@ import AutoAwesomeIcon from '@mui/icons-material/AutoAwesome';
 
 // Componentes
 import WordSearchDropdown from '../search/WordSearchDropdown';
-import type { LatinWord } from '../../../../components/global/WordCard';
+import TagFilter from '../filters/TagFilter';
+import type { VocabularyWord } from '../../../../components/global/WordCard';
 
 // Servicio de vocabulario para obtener palabras aleatorias
 // Importamos la instancia singleton en lugar de la clase
 // Esto evita crear múltiples instancias y el mensaje "Loaded 690 words" apareciendo varias veces
-import { vocabularyService } from '@latin-app/data';
+import { isPronoun, vocabularyService } from '@latin-app/data';
+
+// Colores por tipo de pronombre
+import { LATIN_COLORS } from '../../../../config/theme';
 
 /**
  * PROPS DEL COMPONENTE
@@ -48,12 +62,12 @@ import { vocabularyService } from '@latin-app/data';
 interface WordSelectionStepProps {
   // Array de palabras actualmente seleccionadas
   // Este dato viene del componente padre, no lo manejamos aquí
-  selectedWords: LatinWord[];
+  selectedWords: VocabularyWord[];
   
   // Función callback - se ejecuta cuando cambia la selección
   // El padre nos da esta función para que le avisemos de cambios
   // Es como un event listener: "cuando pase esto, ejecuta esta función"
-  onSelectionChange: (words: LatinWord[]) => void;
+  onSelectionChange: (words: VocabularyWord[]) => void;
   
   // Mínimo de palabras requeridas para continuar
   // El ? significa que es opcional - si no se proporciona, usamos el valor por defecto
@@ -97,6 +111,27 @@ const WordSelectionStep: React.FC<WordSelectionStepProps> = ({
   // isFull: ¿Ya llegó al máximo permitido?
   const isFull = selectedWords.length >= maxWords;
 
+  // TEMAS elegidos para la selección aleatoria (vacío = todo el vocabulario)
+  const [selectedTags, setSelectedTags] = useState<string[]>([]);
+
+  // PRONOMBRES: categoría propia, fuera de la búsqueda
+  const pronouns = vocabularyService.getPronouns();
+  const selectedPronounIds = new Set(selectedWords.filter(isPronoun).map(word => word.id));
+
+  /**
+   * MANEJADOR: AÑADIR O QUITAR UN PRONOMBRE
+   */
+  const handleTogglePronoun = (pronounId: string) => {
+    if (selectedPronounIds.has(pronounId)) {
+      onSelectionChange(selectedWords.filter(word => word.id !== pronounId));
+      return;
+    }
+    const pronoun = pronouns.find(candidate => candidate.id === pronounId);
+    if (pronoun && !isFull) {
+      onSelectionChange([...selectedWords, pronoun]);
+    }
+  };
+
   /**
    * MANEJADOR: SELECCIÓN ALEATORIA DE PALABRAS
    * 
@@ -104,12 +139,18 @@ const WordSelectionStep: React.FC<WordSelectionStepProps> = ({
    * En este caso, cuando el usuario hace click en "Seleccionar aleatorias"
    */
   const handleRandomSelection = () => {
-    // Obtener 20 palabras aleatorias del servicio
-    const randomWords = vocabularyService.getRandomWords(20);
+    // Obtener 20 sustantivos aleatorios del servicio
+    // (los ejercicios de la sesión son de sustantivos)
+    // Si hay temas elegidos, solo de esos temas
+    const randomWords = vocabularyService.getRandomWords(20, {
+      partsOfSpeech: ['noun'],
+      ...(selectedTags.length > 0 && { tags: selectedTags }),
+    });
     
     // Avisar al componente padre del cambio
     // Esto ejecuta la función que el padre nos pasó en props
-    onSelectionChange(randomWords);
+    // Los pronombres elegidos se conservan: son una categoría aparte
+    onSelectionChange([...selectedWords.filter(isPronoun), ...randomWords]);
   };
 
   // RETURN DEL COMPONENTE
@@ -154,7 +195,7 @@ const WordSelectionStep: React.FC<WordSelectionStepProps> = ({
             size="small"                      // Tamaño reducido
             onClick={handleRandomSelection}   // Función a ejecutar al hacer click
           >
-            20 Aleatorias
+            {selectedTags.length > 0 ? '20 del Tema' : '20 Aleatorias'}
           </Button>
         )}
       </Box>
@@ -202,6 +243,48 @@ const WordSelectionStep: React.FC<WordSelectionStepProps> = ({
         </Typography>
       )}
 
+      {/* CATEGORÍA: PRONOMBRES */}
+      {/* Un chip por pronombre: relleno si está seleccionado */}
+      <Box data-testid="pronoun-selection" sx={{ mb: 1.5 }}>
+        <Typography variant="subtitle2" sx={{ color: 'text.secondary', mb: 0.5 }}>
+          Pronombres
+        </Typography>
+        <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap">
+          {pronouns.map(pronoun => {
+            const isSelected = selectedPronounIds.has(pronoun.id);
+            const color = LATIN_COLORS.pronouns[pronoun.category];
+            return (
+              <Chip
+                key={pronoun.id}
+                label={pronoun.lemma}
+                size="small"
+                variant={isSelected ? 'filled' : 'outlined'}
+                onClick={() => handleTogglePronoun(pronoun.id)}
+                disabled={!isSelected && isFull}
+                sx={{
+                  borderColor: color,
+                  bgcolor: isSelected ? color : undefined,
+                  color: isSelected ? 'white' : color,
+                }}
+                data-testid={`pronoun-chip-${pronoun.id}`}
+              />
+            );
+          })}
+        </Stack>
+      </Box>
+
+      {/* TEMAS: limitan la selección aleatoria */}
+      <Box data-testid="tag-selection" sx={{ mb: 1.5 }}>
+        <Typography variant="subtitle2" sx={{ color: 'text.secondary', mb: 0.5 }}>
+          Temas
+        </Typography>
+        <TagFilter
+          selectedTags={selectedTags}
+          onChange={setSelectedTags}
+          compact
+        />
+      </Box>
+
       {/* COMPONENTE DE BÚSQUEDA Y SELECCIÓN */}
       {/* WordSearchDropdown maneja todo: búsqueda, dropdown, y visualización de seleccionadas */}
       {/* No necesitamos duplicar la visualización de palabras seleccionadas */}
@@ -240,4 +323,12 @@ export default WordSelectionStep;
  *    - WordSearchDropdown maneja su propia complejidad
  *    - Este componente solo orquesta y añade funcionalidad extra
  *    - Mantiene responsabilidades claras y separadas
+ * 
+ * 5. CHIPS COMO INTERRUPTORES:
+ *    - variant 'filled' / 'outlined' indica si el pronombre está elegido
+ *    - El mismo clic añade o quita (toggle)
+ * 
+ * 6. FILTROS COMPARTIDOS:
+ *    - Los temas se pasan a getRandomWords como un VocabularyFilter más
+ *    - ...(condición && { ... }) añade la propiedad solo si hace falta
  */
\ No newline at end of file
@@ -0,0 +1,187 @@
+/**
+ * TAG FILTER COMPONENT
+ * 
+ * Componente para filtrar palabras latinas por tema (etiqueta):
+ * familia, militia, natura, corpus...
+ * Igual que DeclensionFilter y GenderFilter, pero las opciones no son
+ * fijas: salen del vocabulario (vocabularyService.getTags()), así que
+ * las etiquetas de las palabras importadas también aparecen.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Opciones dinámicas: la lista de chips se calcula a partir de los datos
+ * - Record parcial: solo los temas de la app tienen descripción en español
+ * - Variante compacta: sin encabezado ni contador, para usar en línea
+ */
+
+import React from 'react';
+import {
+  Box,
+  Typography,
+  Chip,
+  Stack,
+  Tooltip,
+} from '@mui/material';
+
+// Iconos
+import FilterListIcon from '@mui/icons-material/FilterList';
+import LocalOfferIcon from '@mui/icons-material/LocalOffer';
+
+import type { VocabularyTag } from '@latin-app/types';
+import { normalizeTag, vocabularyService } from '@latin-app/data';
+
+/**
+ * DESCRIPCIÓN DE LOS TEMAS DE LA APP
+ * Las etiquetas están en latín; el tooltip explica cada una en español.
+ * Las etiquetas del usuario ("Wheelock cap. 3") no tienen descripción.
+ */
+const TAG_DESCRIPTIONS: Partial<Record<string, string>> = {
+  familia: 'Familia y personas de la casa',
+  militia: 'Guerra y ejército',
+  natura: 'Naturaleza, paisaje y cielo',
+  corpus: 'Partes del cuerpo',
+  animalia: 'Animales',
+  religio: 'Religión e Iglesia',
+  domus: 'La casa: estancias, comida y ropa',
+  tempus: 'El tiempo: horas, días, estaciones y edades',
+  animus: 'Sentimientos y mente',
+  civitas: 'Estado, leyes y dinero',
+  grammatica: 'Lengua, escritura y gramática',
+  scientia: 'Disciplinas y estudio',
+};
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface TagFilterProps {
+  // Etiquetas seleccionadas (tal como se muestran)
+  selectedTags: string[];
+  // Recibe el nuevo array de etiquetas seleccionadas
+  onChange: (tags: string[]) => void;
+  // Etiquetas disponibles (por defecto, todas las del vocabulario)
+  tags?: VocabularyTag[];
+  // Mostrar cuántas palabras tiene cada etiqueta
+  showCounts?: boolean;
+  // Sin encabezado ni contador
+  compact?: boolean;
+  disabled?: boolean;
+}
+
+/**
+ * COMPONENTE TAG FILTER
+ * 
+ * Permite filtrar palabras por tema con chips de selección múltiple.
+ */
+const TagFilter: React.FC<TagFilterProps> = ({
+  selectedTags,
+  onChange,
+  tags = vocabularyService.getTags(),
+  showCounts = true,
+  compact = false,
+  disabled = false,
+}) => {
+  // Las etiquetas se comparan sin mayúsculas ni acentos ('Natura' = 'natura')
+  const selectedKeys = new Set(selectedTags.map(normalizeTag));
+  const isSelected = (tag: string): boolean => selectedKeys.has(normalizeTag(tag));
+
+  /**
+   * MANEJADOR DE CLICK EN CHIP
+   * Añade o quita la etiqueta (toggle)
+   */
+  const handleChipClick = (tag: string) => {
+    onChange(isSelected(tag)
+      ? selectedTags.filter(selected => normalizeTag(selected) !== normalizeTag(tag))
+      : [...selectedTags, tag]);
+  };
+
+  // CHIPS DE ETIQUETAS
+  const chips = (
+    <Stack direction="row" spacing={1} useFlexGap flexWrap="wrap" data-testid="tag-filter-chips">
+      {tags.map(({ tag, count }) => {
+        const selected = isSelected(tag);
+        const description = TAG_DESCRIPTIONS[normalizeTag(tag)];
+        const chip = (
+          <Chip
+            key={tag}
+            label={showCounts ? `${tag} (${count})` : tag}
+            size="small"
+            icon={selected ? <LocalOfferIcon /> : undefined}
+            color={selected ? 'primary' : 'default'}
+            variant={selected ? 'filled' : 'outlined'}
+            onClick={() => handleChipClick(tag)}
+            disabled={disabled}
+            data-testid={`tag-chip-${normalizeTag(tag)}`}
+          />
+        );
+
+        // Tooltip solo para los temas que tienen descripción
+        return description ? (
+          <Tooltip key={tag} title={description} arrow placement="top">
+            {chip}
+          </Tooltip>
+        ) : chip;
+      })}
+    </Stack>
+  );
+
+  if (compact) {
+    return chips;
+  }
+
+  return (
+    <Box>
+      {/* ENCABEZADO CON CONTROLES */}
+      <Box sx={{
+        display: 'flex',
+        alignItems: 'center',
+        justifyContent: 'space-between',
+        mb: 2
+      }}>
+        <Box sx={{ display: 'flex', alignItems: 'center', gap: 1 }}>
+          <FilterListIcon sx={{ color: 'primary.main', fontSize: 20 }} />
+          <Typography variant="subtitle1" sx={{ fontWeight: 'bold' }}>
+            Filtrar por Tema
+          </Typography>
+        </Box>
+
+        <Chip
+          label="Ninguno"
+          size="small"
+          onClick={() => onChange([])}
+          disabled={disabled}
+          variant={selectedTags.length === 0 ? 'filled' : 'outlined'}
+          sx={{ cursor: 'pointer' }}
+        />
+      </Box>
+
+      {chips}
+
+      {/* CONTADOR DE SELECCIÓN */}
+      <Box sx={{ mt: 2 }}>
+        <Typography variant="caption" color="text.secondary">
+          {selectedTags.length === 0
+            ? 'No hay temas seleccionados'
+            : `Palabras de: ${selectedTags.join(', ')}`}
+        </Typography>
+      </Box>
+    </Box>
+  );
+};
+
+// Exportar el componente
+export default TagFilter;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. OPCIONES DINÁMICAS:
+ *    - Los chips salen de getTags(), no de una lista fija
+ *    - Así las etiquetas nuevas aparecen sin tocar el componente
+ * 
+ * 2. COMPARAR SIN MAYÚSCULAS NI ACENTOS:
+ *    - normalizeTag convierte 'Natura' y 'nātūra' en la misma clave
+ *    - Un Set de claves hace la comprobación en O(1)
+ * 
+ * 3. VARIANTE COMPACTA:
+ *    - compact devuelve solo los chips, para usarlos dentro de otro paso
+ *    - El mismo componente sirve como filtro completo o como fila de temas
+ */
@@ -0,0 +1,54 @@
+/**
+ * QUERY ERROR HINTS COMPONENT
+ * 
+ * Muestra, debajo de una barra de búsqueda, los tokens de la consulta que
+ * no se pudieron entender ("decl:7", "foo:bar"...) con una pista de cómo
+ * escribirlos bien.
+ * 
+ * El resto de la consulta sigue funcionando: estos tokens simplemente
+ * se ignoran hasta que el usuario los corrija.
+ */
+
+import React from 'react';
+import { Box, Typography } from '@mui/material';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+
+import type { QueryError } from '@latin-app/data';
+import { getQueryErrorMessage } from '../../constants/searchQuery';
+
+/**
+ * PROPS DEL COMPONENTE
+ * 
+ * errors: Errores devueltos por parseWordQuery
+ */
+interface QueryErrorHintsProps {
+  errors: QueryError[];
+}
+
+/**
+ * COMPONENTE QUERY ERROR HINTS
+ * Una línea por error, en color de error; no renderiza nada si no hay errores
+ */
+const QueryErrorHints: React.FC<QueryErrorHintsProps> = ({ errors }) => {
+  if (errors.length === 0) {
+    return null;
+  }
+
+  return (
+    <Box role="alert" sx={{ mt: 0.5, ml: 2 }} data-testid="query-error-hints">
+      {errors.map(error => (
+        <Typography
+          key={`${error.start}-${error.token}`}
+          variant="caption"
+          color="error"
+          sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+        >
+          <ErrorOutlineIcon sx={{ fontSize: 14 }} />
+          {getQueryErrorMessage(error)}
+        </Typography>
+      ))}
+    </Box>
+  );
+};
+
+export default QueryErrorHints;
@@ -8,9 +8,10 @@
  * - Input Adornments: Elementos decorativos en inputs (iconos, botones)
  * - Controlled Components: El valor viene de props, no estado interno
  * - Debouncing: Técnica para retrasar ejecución hasta que el usuario pare de escribir
+ * - Sintaxis de consulta: "decl:3 gen:n \"tiempo\"" se convierte en un VocabularyFilter
  */
 
-import React, { useState, useEffect } from 'react';
+import React, { useState, useEffect, useMemo } from 'react';
 import {
   TextField,          // Input de texto de MUI
   InputAdornment,    // Para añadir iconos dentro del input
@@ -24,6 +25,11 @@ import {
 import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
 
+// Parser de la sintaxis de búsqueda (decl:, gen:, ends:, negación con -)
+import { parseWordQuery } from '@latin-app/data';
+import type { VocabularyFilter } from '@latin-app/types';
+import QueryErrorHints from './QueryErrorHints';
+
 /**
  * PROPS DEL COMPONENTE
  * 
@@ -33,6 +39,7 @@ import ClearIcon from '@mui/icons-material/Clear';
  * onClear: Callback opcional cuando se limpia la búsqueda
  * disabled: Si la barra está deshabilitada
  * helperText: Texto de ayuda debajo de la barra
+ * onFilterChange: Callback opcional con la consulta ya convertida en filtro
  */
 interface WordSearchBarProps {
   value: string;
@@ -43,6 +50,8 @@ interface WordSearchBarProps {
   helperText?: string;
   // Prop para activar debouncing (retraso en búsqueda)
   debounceMs?: number;
+  // Recibe el filtro compilado de la consulta ("decl:3 gen:n" → { declensions, genders })
+  onFilterChange?: (filter: VocabularyFilter) => void;
 }
 
 /**
@@ -62,6 +71,7 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
   disabled = false,
   helperText,
   debounceMs = 0, // Sin debounce por defecto
+  onFilterChange,
 }) => {
   /**
    * ESTADO LOCAL PARA DEBOUNCING
@@ -76,6 +86,16 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
    */
   const [localValue, setLocalValue] = useState(value);
 
+  /**
+   * NOTIFICAR UN NUEVO VALOR
+   * Llama a onChange con el texto y, si existe, a onFilterChange con la
+   * consulta ya compilada, para que el padre no tenga que parsearla
+   */
+  const emitChange = (newValue: string) => {
+    onChange(newValue);
+    onFilterChange?.(parseWordQuery(newValue).filter);
+  };
+
   /**
    * USE EFFECT PARA DEBOUNCING
    * 
@@ -95,13 +115,14 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
     const timer = setTimeout(() => {
       if (localValue !== value) {
         onChange(localValue);
+        onFilterChange?.(parseWordQuery(localValue).filter);
       }
     }, debounceMs);
 
     // Cleanup: cancelar el timer si el componente se desmonta
     // o si localValue cambia antes de que termine el timer
     return () => clearTimeout(timer);
-  }, [localValue, debounceMs, onChange, value]);
+  }, [localValue, debounceMs, onChange, onFilterChange, value]);
 
   /**
    * MANEJADOR DE CAMBIOS EN EL INPUT
@@ -115,7 +136,7 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
     if (debounceMs > 0) {
       setLocalValue(newValue); // Actualizar estado local para debouncing
     } else {
-      onChange(newValue); // Llamar directamente al callback
+      emitChange(newValue); // Llamar directamente al callback
     }
   };
 
@@ -127,7 +148,7 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
     if (debounceMs > 0) {
       setLocalValue('');
     }
-    onChange('');
+    emitChange('');
     
     // Llamar al callback onClear si existe
     if (onClear) {
@@ -148,6 +169,9 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
   // Determinar qué valor mostrar (local si hay debounce, prop si no)
   const displayValue = debounceMs > 0 ? localValue : value;
 
+  // Errores de sintaxis de lo que se ve escrito (se recalcula solo si cambia el texto)
+  const queryErrors = useMemo(() => parseWordQuery(displayValue).errors, [displayValue]);
+
   return (
     <Box sx={{ width: '100%' }}>
       <TextField
@@ -157,6 +181,7 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
         onChange={handleChange}
         disabled={disabled}
         placeholder={placeholder}
+        error={queryErrors.length > 0}
         // InputProps permite personalizar el input interno
         InputProps={{
           // Icono de búsqueda al inicio (izquierda)
@@ -231,6 +256,9 @@ const WordSearchBar: React.FC<WordSearchBarProps> = ({
         </Typography>
       )}
 
+      {/* PISTAS DE ERRORES EN LA CONSULTA ("decl:7", "foo:bar"...) */}
+      <QueryErrorHints errors={queryErrors} />
+
       {/* INDICADOR DE BÚSQUEDA ACTIVA */}
       {displayValue && (
         <Typography 
@@ -285,7 +313,11 @@ export default WordSearchBar;
  *    - Transitions CSS: Cambios suaves de propiedades
  *    - transform: scale() para efectos de zoom
  * 
- * 6. ACCESIBILIDAD:
+ * 6. useMemo HOOK:
+ *    - Guarda el resultado de un cálculo entre renders
+ *    - Solo lo repite cuando cambian sus dependencias (aquí, el texto)
+ * 
+ * 7. ACCESIBILIDAD:
  *    - aria-label: Describe elementos para lectores de pantalla
  *    - Importante para usuarios con discapacidades visuales
  */
\ No newline at end of file
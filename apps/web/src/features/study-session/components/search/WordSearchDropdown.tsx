@@ -11,6 +11,8 @@
  * - Selección múltiple sin cerrar el dropdown
  * - Visualización de palabras seleccionadas con opción de eliminar
  * - Prevención de apertura del dropdown al eliminar palabras
+ * - Búsqueda por formas declinadas: "rosarum" encuentra Rosa (Gen. pl.)
+ * - Sintaxis de filtros: decl:3 gen:n ends:-us "tiempo", -gen:m para excluir
  * 
  * FLUJO DE DATOS:
  * 1. Usuario escribe → debouncing → búsqueda en vocabulario
@@ -19,7 +21,7 @@
  * 4. Click en X → elimina de selección (sin abrir dropdown)
  */
 
-import React, { useState, useEffect, useRef } from 'react';
+import React, { useState, useEffect, useMemo, useRef } from 'react';
 import {
   Box,
   TextField,
@@ -37,24 +39,32 @@ import SearchIcon from '@mui/icons-material/Search';
 import ClearIcon from '@mui/icons-material/Clear';
 
 // Tipos y componentes internos
-import type { LatinWord } from '../../../../components/global/WordCard';
+import type { VocabularyWord } from '../../../../components/global/WordCard';
 import SelectedWordChip from '../../../../components/global/SelectedWordChip';
 import SelectedWordsDisplay from '../config/SelectedWordsDisplay';
+import { getAnalysisLabel } from '../../constants/cases';
+import { QUERY_SYNTAX_HELP } from '../../constants/searchQuery';
+import QueryErrorHints from './QueryErrorHints';
 
 // Servicio de datos
 // Importamos la instancia singleton en lugar de la clase
 // Esto evita crear múltiples instancias y el mensaje "Loaded 690 words" apareciendo varias veces
-import { vocabularyService } from '@latin-app/data';
+import { vocabularyService, parseWordQuery } from '@latin-app/data';
+
+// Idioma de las traducciones: vocabularyService busca en ese idioma
+import { useAppSettings } from '../../../../contexts/AppSettingsContext';
+import { GLOSS_LANGUAGE_LABELS } from '../../../../config/glossLanguages';
 
 /**
  * PROPS DEL COMPONENTE
  */
 interface WordSearchDropdownProps {
-  selectedWords: LatinWord[];                      // Palabras actualmente seleccionadas
-  onSelectionChange: (words: LatinWord[]) => void; // Callback para cambios en selección
+  selectedWords: VocabularyWord[];                 // Palabras actualmente seleccionadas
+  onSelectionChange: (words: VocabularyWord[]) => void; // Callback para cambios en selección
   maxSelection?: number;                           // Máximo de palabras permitidas
   placeholder?: string;                            // Texto del placeholder (ya no se usa)
   disabled?: boolean;                              // Estado deshabilitado
+  showSelectedWords?: boolean;                     // Mostrar la lista de seleccionadas debajo
 }
 
 /**
@@ -64,19 +74,27 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
   selectedWords,
   onSelectionChange,
   maxSelection = 20,
-  disabled = false
+  disabled = false,
+  showSelectedWords = true
 }) => {
   // ============================================================================
   // ESTADOS
   // ============================================================================
   
+  // Al cambiar de idioma se repite la búsqueda con las nuevas traducciones
+  const { glossLanguage } = useAppSettings();
+  
   // Texto de búsqueda y su versión con debounce
   const [searchText, setSearchText] = useState('');
   const [debouncedSearchText, setDebouncedSearchText] = useState('');
   
   // Control del dropdown
   const [isOpen, setIsOpen] = useState(false);
-  const [filteredWords, setFilteredWords] = useState<LatinWord[]>([]);
+  const [filteredWords, setFilteredWords] = useState<VocabularyWord[]>([]);
+  
+  // Etiquetas de caso para las palabras encontradas por una forma declinada
+  // Clave: ID de la palabra, valor: "Gen. sg. • Dat. sg. • Nom. pl."
+  const [matchedCaseLabels, setMatchedCaseLabels] = useState<Record<string, string>>({});
   
   // Flag para prevenir apertura del dropdown al eliminar palabras
   const [isRemovingWord, setIsRemovingWord] = useState(false);
@@ -88,6 +106,16 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
   const textFieldRef = useRef<HTMLDivElement>(null); // Para anclar el Popper
   const inputRef = useRef<HTMLInputElement>(null);   // Para focus programático
   
+  // ============================================================================
+  // CONSULTA ESTRUCTURADA
+  // ============================================================================
+  
+  // Errores de lo que se está escribiendo (se muestran al momento, sin debounce)
+  const queryErrors = useMemo(() => parseWordQuery(searchText).errors, [searchText]);
+  
+  // Consulta con debounce ya compilada: "decl:3 gen:n tiempo" → filtro + texto
+  const debouncedQuery = useMemo(() => parseWordQuery(debouncedSearchText), [debouncedSearchText]);
+  
   // ============================================================================
   // SERVICIOS
   // ============================================================================
@@ -129,19 +157,35 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
       return;
     }
 
-    // Buscar en el vocabulario
-    const results = vocabularyService.searchWords(debouncedSearchText);
+    // Buscar en el vocabulario (incluye formas declinadas: "rosarum" → Rosa)
+    // Si la consulta tiene filtros (decl:, gen:, ends:), se aplican además del texto
+    const results = debouncedQuery.hasFilters
+      ? vocabularyService.searchWordsWithFilter(debouncedQuery.filter)
+      : vocabularyService.searchWordsWithMatches(debouncedQuery.filter.searchText ?? '');
     
     // Filtrar palabras ya seleccionadas (usando Set para O(1) lookup)
     const selectedIds = new Set(selectedWords.map(w => w.id));
-    const availableResults = results.filter(word => !selectedIds.has(word.id));
+    const availableResults = results
+      .filter(result => !selectedIds.has(result.word.id))
+      .slice(0, 20);
+    
+    // Etiquetas del caso encontrado para cada palabra
+    const labels: Record<string, string> = {};
+    availableResults.forEach(result => {
+      if (result.matchedForms.length > 0) {
+        labels[result.word.id] = result.matchedForms
+          .map(analysis => getAnalysisLabel(analysis, true))
+          .join(' • ');
+      }
+    });
     
     // Limitar resultados y actualizar estado
-    setFilteredWords(availableResults.slice(0, 20));
+    setFilteredWords(availableResults.map(result => result.word));
+    setMatchedCaseLabels(labels);
     
     // Nota: NO abrimos el dropdown automáticamente aquí
     // El dropdown se abre solo cuando el usuario interactúa
-  }, [debouncedSearchText, vocabularyService, selectedWords, isRemovingWord]);
+  }, [debouncedSearchText, debouncedQuery, vocabularyService, selectedWords, isRemovingWord, glossLanguage]);
 
   // ============================================================================
   // MANEJADORES DE EVENTOS
@@ -163,7 +207,7 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
   /**
    * Maneja la selección de una palabra del dropdown
    */
-  const handleWordSelect = (word: LatinWord) => {
+  const handleWordSelect = (word: VocabularyWord) => {
     if (selectedWords.length < maxSelection) {
       onSelectionChange([...selectedWords, word]);
     }
@@ -291,8 +335,9 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
               onKeyDown={handleKeyDown}
               onFocus={handleFocus}
               disabled={disabled}
-              placeholder="Busca palabras por su forma latina o traducción española..."
+              placeholder={`Busca palabras por cualquier forma latina o traducción (${GLOSS_LANGUAGE_LABELS[glossLanguage].toLowerCase()})...`}
               variant="outlined"
+              error={queryErrors.length > 0}
               InputProps={{
                 startAdornment: (
                   <InputAdornment position="start">
@@ -332,6 +377,9 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
             />
           </Box>
           
+          {/* Pistas de los filtros mal escritos ("decl:7", "foo:bar"...) */}
+          <QueryErrorHints errors={queryErrors} />
+          
           {/* Indicadores de estado de búsqueda */}
           {renderSearchIndicators() && (
             <Box sx={{ mt: 1 }}>
@@ -397,6 +445,17 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
                                 colorByDeclension={true}
                                 onClick={() => handleWordSelect(word)}
                               />
+                              {/* Caso encontrado (solo si se buscó una forma declinada) */}
+                              {matchedCaseLabels[word.id] && (
+                                <Typography
+                                  variant="caption"
+                                  color="text.secondary"
+                                  sx={{ display: 'block', textAlign: 'center', mt: 0.25 }}
+                                  data-testid={`matched-case-${word.id}`}
+                                >
+                                  {debouncedQuery.filter.searchText}: {matchedCaseLabels[word.id]}
+                                </Typography>
+                              )}
                             </Box>
                           ))}
                         </Box>
@@ -412,6 +471,9 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
                         <Typography variant="caption" color="text.secondary">
                           Haz clic para seleccionar • ESC para cerrar
                         </Typography>
+                        <Typography variant="caption" color="text.secondary" display="block">
+                          {QUERY_SYNTAX_HELP}
+                        </Typography>
                         {selectedWords.length >= maxSelection && (
                           <Typography variant="caption" color="warning.main" display="block">
                             Máximo de {maxSelection} palabras alcanzado
@@ -434,17 +496,20 @@ const WordSearchDropdown: React.FC<WordSearchDropdownProps> = ({
       </ClickAwayListener>
 
       {/* SECCIÓN DE PALABRAS SELECCIONADAS */}
-      <SelectedWordsDisplay
-        selectedWords={selectedWords}
-        onRemoveWord={handleRemoveWord}
-        onClearAll={handleClearAll}
-        onWordClick={(word) => {
-          console.log('Palabra seleccionada clickeada:', word.nominative);
-        }}
-        showTooltips={true}
-        colorByDeclension={true}
-        data-testid="word-search-dropdown-selected-words"
-      />
+      {/* Se puede ocultar cuando el padre muestra su propia lista (p. ej. el editor de mazos) */}
+      {showSelectedWords && (
+        <SelectedWordsDisplay
+          selectedWords={selectedWords}
+          onRemoveWord={handleRemoveWord}
+          onClearAll={handleClearAll}
+          onWordClick={(word) => {
+            console.log('Palabra seleccionada clickeada:', word.id);
+          }}
+          showTooltips={true}
+          colorByDeclension={true}
+          data-testid="word-search-dropdown-selected-words"
+        />
+      )}
     </Box>
   );
 };
@@ -0,0 +1,90 @@
+/**
+ * ETIQUETAS DE CASOS Y NÚMEROS GRAMATICALES
+ * 
+ * El paquete de datos usa nombres en inglés para los casos ('nominative',
+ * 'genitive'...). Aquí definimos cómo se muestran en la interfaz, en español,
+ * para que todos los ejercicios usen las mismas etiquetas.
+ */
+
+import type { AdjectiveGender, FormAnalysis, GrammaticalNumber, LatinCase, PronounCategory } from '@latin-app/types';
+
+/**
+ * ETIQUETAS DE CASOS
+ * 
+ * - label: Nombre completo (para tablas y feedback)
+ * - shortLabel: Abreviatura (para espacios reducidos)
+ * - question: Pregunta que responde el caso (ayuda para el estudiante)
+ */
+export const CASE_LABELS: Record<LatinCase, { label: string; shortLabel: string; question: string }> = {
+  nominative: { label: 'Nominativo', shortLabel: 'Nom.', question: '¿Quién?' },
+  genitive: { label: 'Genitivo', shortLabel: 'Gen.', question: '¿De quién?' },
+  dative: { label: 'Dativo', shortLabel: 'Dat.', question: '¿A/para quién?' },
+  accusative: { label: 'Acusativo', shortLabel: 'Ac.', question: '¿Qué?' },
+  ablative: { label: 'Ablativo', shortLabel: 'Abl.', question: '¿Con/desde qué?' },
+  vocative: { label: 'Vocativo', shortLabel: 'Voc.', question: '¡Oh...!' },
+  locative: { label: 'Locativo', shortLabel: 'Loc.', question: '¿Dónde?' },
+};
+
+/**
+ * ETIQUETAS DE NÚMERO GRAMATICAL
+ */
+export const NUMBER_LABELS: Record<GrammaticalNumber, { label: string; shortLabel: string }> = {
+  singular: { label: 'Singular', shortLabel: 'Sg.' },
+  plural: { label: 'Plural', shortLabel: 'Pl.' },
+};
+
+/**
+ * ETIQUETAS DE GÉNERO (para las formas de adjetivos)
+ */
+export const GENDER_LABELS: Record<AdjectiveGender, { label: string; shortLabel: string }> = {
+  masculine: { label: 'Masculino', shortLabel: 'm.' },
+  feminine: { label: 'Femenino', shortLabel: 'f.' },
+  neuter: { label: 'Neutro', shortLabel: 'n.' },
+};
+
+/**
+ * ETIQUETAS DE TIPOS DE PRONOMBRE
+ */
+export const PRONOUN_CATEGORY_LABELS: Record<PronounCategory, { label: string; shortLabel: string }> = {
+  personal: { label: 'Pronombre personal', shortLabel: 'pers.' },
+  demonstrative: { label: 'Pronombre demostrativo', shortLabel: 'dem.' },
+  relative: { label: 'Pronombre relativo', shortLabel: 'rel.' },
+};
+
+/**
+ * FUNCIÓN HELPER: Obtener etiqueta de un caso
+ * 
+ * @param grammaticalCase - El caso ('nominative', 'genitive'...)
+ * @param short - Si usar la abreviatura
+ * @returns La etiqueta en español
+ */
+export const getCaseLabel = (grammaticalCase: LatinCase, short = false): string => {
+  const info = CASE_LABELS[grammaticalCase];
+  return short ? info.shortLabel : info.label;
+};
+
+/**
+ * FUNCIÓN HELPER: Obtener etiqueta de una lectura (caso + número)
+ * 
+ * Las formas de adjetivos traen además el género ("Gen. sg. f.")
+ * 
+ * @param analysis - La lectura (se usan case, number y gender si existe)
+ * @param short - Si usar abreviaturas ("Gen. pl." en lugar de "Genitivo plural")
+ * @returns La etiqueta en español
+ */
+export const getAnalysisLabel = (
+  analysis: Pick<FormAnalysis, 'case' | 'number' | 'gender'>,
+  short = false
+): string => {
+  const caseLabel = getCaseLabel(analysis.case, short);
+  const numberLabel = short
+    ? NUMBER_LABELS[analysis.number].shortLabel.toLowerCase()
+    : NUMBER_LABELS[analysis.number].label.toLowerCase();
+  if (!analysis.gender) {
+    return `${caseLabel} ${numberLabel}`;
+  }
+  const genderLabel = short
+    ? GENDER_LABELS[analysis.gender].shortLabel
+    : GENDER_LABELS[analysis.gender].label.toLowerCase();
+  return `${caseLabel} ${numberLabel} ${genderLabel}`;
+};
@@ -0,0 +1,36 @@
+/**
+ * MENSAJES Y LÍMITES DE LOS MAZOS
+ * 
+ * parseDeckExport (en @latin-app/data) devuelve los problemas de un
+ * archivo de mazos como códigos ('invalid-json', 'wrong-format'...).
+ * Aquí definimos cómo se explican al usuario, en español.
+ */
+
+import type { DeckImportErrorCode } from '@latin-app/data';
+
+/**
+ * MÁXIMO DE PALABRAS POR MAZO
+ * Más que las de una sesión: al elegir un mazo se cargan las primeras
+ */
+export const MAX_DECK_WORDS = 200;
+
+/**
+ * NOMBRE DEL ARCHIVO EXPORTADO
+ */
+export const DECK_EXPORT_FILENAME = 'mazos-latin.json';
+
+/**
+ * MENSAJE DE CADA ERROR DE IMPORTACIÓN
+ */
+export const DECK_IMPORT_ERROR_MESSAGES: Record<DeckImportErrorCode, string> = {
+  'invalid-json': 'El archivo no es un JSON válido',
+  'wrong-format': 'El archivo no contiene mazos exportados desde esta aplicación',
+  'unsupported-version': 'El archivo es de una versión que esta aplicación no sabe leer',
+  'no-decks': 'El archivo no contiene ningún mazo válido',
+};
+
+/**
+ * MENSAJE SI EL NAVEGADOR NO PUEDE LEER EL ARCHIVO
+ * (antes de llegar a parseDeckExport)
+ */
+export const DECK_FILE_READ_ERROR_MESSAGE = 'No se pudo leer el archivo';
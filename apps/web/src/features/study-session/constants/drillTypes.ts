@@ -0,0 +1,51 @@
+/**
+ * NOMBRES DE LOS TIPOS DE EJERCICIO
+ * 
+ * Los textos cortos que se muestran al usuario para cada tipo de
+ * ejercicio (revisión de la configuración, historial de sesiones...).
+ * DrillTypeSelector tiene además la descripción y el icono de cada uno.
+ */
+
+import { isNoun } from '@latin-app/data';
+
+import type { DrillType } from '../types';
+import type { VocabularyWord } from '../../../components/global/WordCard';
+
+/**
+ * NOMBRE DE CADA TIPO DE EJERCICIO
+ */
+export const DRILL_TYPE_LABELS: Record<DrillType, string> = {
+  multipleChoice: 'Opción Múltiple',
+  multipleChoiceDeclension: 'Identificar Declinación',
+  typeLatinWord: 'Escribir en Latín',
+  declensionTable: 'Completar el Paradigma',
+  caseIdentification: 'Identificar Caso',
+  adjectiveAgreement: 'Concordancia',
+  pronounDeclension: 'Pronombres',
+};
+
+/**
+ * NOMBRE DE UN TIPO GUARDADO
+ * Las sesiones guardadas tienen el tipo como string; si es uno que
+ * ya no existe, se muestra tal cual
+ * 
+ * @param drillType - El tipo de ejercicio
+ * @returns Su nombre en español
+ */
+export const getDrillTypeLabel = (drillType: string): string =>
+  DRILL_TYPE_LABELS[drillType as DrillType] ?? drillType;
+
+/**
+ * ¿HAY EJERCICIOS PARA ESTAS PALABRAS?
+ * 
+ * El de pronombres siempre tiene palabras (sin pronombres seleccionados
+ * usa todos); los demás son de sustantivos y necesitan al menos uno.
+ * Con solo adjetivos o solo pronombres, un ejercicio de sustantivos no
+ * tendría nada que preguntar.
+ * 
+ * @param words - Las palabras seleccionadas
+ * @param drillTypes - Los tipos de ejercicio elegidos
+ * @returns true si algún tipo elegido tiene palabras con las que practicar
+ */
+export const hasDrillsForWords = (words: VocabularyWord[], drillTypes: DrillType[]): boolean =>
+  drillTypes.some(type => type === 'pronounDeclension' || words.some(isNoun));
@@ -0,0 +1,67 @@
+/**
+ * MENSAJES DE LA SINTAXIS DE BÚSQUEDA
+ * 
+ * El parser de consultas (parseWordQuery en @latin-app/data) devuelve los
+ * errores como códigos ('unknown-key', 'invalid-value'...). Aquí definimos
+ * cómo se explican al usuario, en español, junto con un ejemplo válido.
+ */
+
+import type { QueryError, QueryKey } from '@latin-app/data';
+
+/**
+ * EJEMPLO VÁLIDO DE CADA FILTRO
+ */
+export const QUERY_KEY_EXAMPLES: Record<QueryKey, string> = {
+  declension: 'decl:3',
+  gender: 'gen:f',
+  ending: 'ends:-us',
+  partOfSpeech: 'pos:adj',
+  tag: 'tag:familia',
+};
+
+/**
+ * QUÉ VALORES ACEPTA CADA FILTRO
+ */
+const QUERY_VALUE_HINTS: Record<QueryKey, string> = {
+  declension: 'la declinación va de 1 a 5',
+  gender: 'el género puede ser m, f, n o c',
+  ending: 'escribe una terminación con letras',
+  partOfSpeech: 'el tipo puede ser sust o adj',
+  tag: 'escribe el nombre de un tema',
+};
+
+/**
+ * AYUDA GENERAL DE LA SINTAXIS
+ * Se muestra como texto de ayuda debajo de la barra de búsqueda
+ */
+export const QUERY_SYNTAX_HELP =
+  'Filtros: decl:3 gen:n ends:-us pos:adj tag:natura • "texto exacto" • -gen:m para excluir';
+
+/**
+ * FUNCIÓN HELPER: Mensaje de un error de la consulta
+ * 
+ * @param error - Error devuelto por parseWordQuery
+ * @returns Mensaje en español, con el token problemático al inicio
+ * 
+ * EJEMPLOS:
+ * - "decl:7" → '"decl:7": la declinación va de 1 a 5 (ej. decl:3)'
+ * - "-rosa"  → '"-rosa": solo se pueden excluir filtros (ej. -gen:f)'
+ */
+export const getQueryErrorMessage = (error: QueryError): string => {
+  switch (error.code) {
+    case 'unknown-key': {
+      const examples = Object.values(QUERY_KEY_EXAMPLES).join(', ');
+      return `"${error.token}": filtro desconocido (usa ${examples})`;
+    }
+    case 'missing-value':
+      return error.key
+        ? `"${error.token}": falta el valor (ej. ${QUERY_KEY_EXAMPLES[error.key]})`
+        : `"${error.token}": falta el valor`;
+    case 'invalid-value':
+      return error.key
+        ? `"${error.token}": ${QUERY_VALUE_HINTS[error.key]} (ej. ${QUERY_KEY_EXAMPLES[error.key]})`
+        : `"${error.token}": valor no válido`;
+    case 'negated-text':
+      return `"${error.token}": solo se pueden excluir filtros (ej. -${QUERY_KEY_EXAMPLES.gender})`;
+  }
+};
@@ -17,8 +17,19 @@
  * - multipleChoice: Ejercicio de opción múltiple tradicional
  * - multipleChoiceDeclension: Ejercicio específico para identificar declinaciones
  * - typeLatinWord: Ejercicio de escritura - escribir la palabra latina completa
+ * - declensionTable: Completar la tabla de casos (singular y plural)
+ * - caseIdentification: Identificar el caso y número de una forma declinada
+ * - adjectiveAgreement: Escribir el adjetivo que concuerda con un sustantivo
+ * - pronounDeclension: Escribir la tabla o una forma de un pronombre (ego, hic, quī...)
  */
-export type DrillType = 'multipleChoice' | 'multipleChoiceDeclension' | 'typeLatinWord';
+export type DrillType =
+  | 'multipleChoice'
+  | 'multipleChoiceDeclension'
+  | 'typeLatinWord'
+  | 'declensionTable'
+  | 'caseIdentification'
+  | 'adjectiveAgreement'
+  | 'pronounDeclension';
 
 /**
  * Declension - Las cinco declinaciones del latín
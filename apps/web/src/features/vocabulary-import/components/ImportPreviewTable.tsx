@@ -0,0 +1,128 @@
+/**
+ * IMPORT PREVIEW TABLE COMPONENT
+ * 
+ * Muestra, fila por fila, cómo se ha leído lo que el usuario pegó o subió:
+ * la línea original, la palabra resultante (en formato de diccionario)
+ * y sus problemas.
+ * 
+ * Las filas con errores se resaltan en rojo (no se importarán) y las
+ * que solo tienen avisos, en naranja (se importarán igualmente).
+ */
+
+import React from 'react';
+import {
+  Box,
+  Table,
+  TableBody,
+  TableCell,
+  TableHead,
+  TableRow,
+  Typography,
+} from '@mui/material';
+import { alpha } from '@mui/material/styles';
+
+import CheckCircleOutlineIcon from '@mui/icons-material/CheckCircleOutline';
+import ErrorOutlineIcon from '@mui/icons-material/ErrorOutline';
+import WarningAmberIcon from '@mui/icons-material/WarningAmber';
+
+import type { ImportRow } from '@latin-app/data';
+import { formatDictionaryEntry } from '@latin-app/shared';
+
+import { getImportIssueMessage } from '../constants/importIssues';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface ImportPreviewTableProps {
+  rows: ImportRow[];   // Filas devueltas por previewImport
+}
+
+/**
+ * COMPONENTE IMPORTPREVIEWTABLE
+ */
+const ImportPreviewTable: React.FC<ImportPreviewTableProps> = ({ rows }) => {
+  return (
+    <Box sx={{ overflowX: 'auto' }}>
+      <Table size="small" data-testid="import-preview-table">
+        <TableHead>
+          <TableRow>
+            <TableCell sx={{ fontWeight: 'bold' }}>Línea</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Texto</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Resultado</TableCell>
+            <TableCell sx={{ fontWeight: 'bold' }}>Problemas</TableCell>
+          </TableRow>
+        </TableHead>
+        <TableBody>
+          {rows.map(row => {
+            // Estado de la fila: el problema más grave decide el color
+            const hasError = row.issues.some(issue => issue.severity === 'error');
+            const hasWarning = row.issues.some(issue => issue.severity === 'warning');
+            const status = hasError ? 'error' : hasWarning ? 'warning' : 'success';
+
+            return (
+              <TableRow
+                key={row.lineNumber}
+                sx={{
+                  bgcolor: (theme) => status === 'success'
+                    ? 'transparent'
+                    : alpha(theme.palette[status].main, 0.12),
+                }}
+                data-testid={`import-row-${row.lineNumber}`}
+              >
+                <TableCell sx={{ color: 'text.secondary' }}>{row.lineNumber}</TableCell>
+                <TableCell sx={{ fontFamily: 'monospace' }}>{row.source}</TableCell>
+                <TableCell>
+                  {row.word && (
+                    <>
+                      <Typography variant="body2" sx={{ fontWeight: 'bold' }}>
+                        {formatDictionaryEntry(row.word)}
+                      </Typography>
+                      <Typography variant="caption" color="text.secondary">
+                        {[row.word.spanishTranslation, ...row.word.additionalMeanings]
+                          .filter(Boolean)
+                          .join(', ')}
+                      </Typography>
+                    </>
+                  )}
+                </TableCell>
+                <TableCell>
+                  {row.issues.length === 0 ? (
+                    <CheckCircleOutlineIcon color="success" fontSize="small" />
+                  ) : (
+                    row.issues.map(issue => (
+                      <Typography
+                        key={`${issue.code}-${issue.field}`}
+                        variant="caption"
+                        color={issue.severity === 'error' ? 'error' : 'warning.main'}
+                        sx={{ display: 'flex', alignItems: 'center', gap: 0.5 }}
+                      >
+                        {issue.severity === 'error'
+                          ? <ErrorOutlineIcon sx={{ fontSize: 14 }} />
+                          : <WarningAmberIcon sx={{ fontSize: 14 }} />}
+                        {getImportIssueMessage(issue)}
+                      </Typography>
+                    ))
+                  )}
+                </TableCell>
+              </TableRow>
+            );
+          })}
+        </TableBody>
+      </Table>
+    </Box>
+  );
+};
+
+export default ImportPreviewTable;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. RESALTADO POR ESTADO:
+ *    - alpha() aclara el color del tema para usarlo de fondo
+ *    - theme.palette[status] elige error/warning según la fila
+ * 
+ * 2. COMPONENTE PRESENTACIONAL:
+ *    - No guarda estado: recibe las filas ya analizadas
+ *    - Los mensajes salen de constants/importIssues
+ */
@@ -0,0 +1,317 @@
+/**
+ * VOCABULARY IMPORT PAGE
+ * 
+ * Página para añadir palabras propias sin editar vocabulary.json:
+ * el usuario pega líneas de diccionario ("nauta, -ae, m. – marinero")
+ * o sube un archivo CSV, ve una vista previa con los errores resaltados
+ * e importa las filas válidas.
+ * 
+ * Las palabras importadas se guardan en el navegador (userVocabularyStore)
+ * y aparecen en la búsqueda y los ejercicios como cualquier otra.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Estado derivado: la vista previa se calcula con useMemo a partir del
+ *   texto, no se guarda en el estado
+ * - FileReader: API del navegador para leer archivos elegidos por el usuario
+ */
+
+import React, { useMemo, useRef, useState } from 'react';
+import {
+  Alert,
+  Box,
+  Button,
+  Chip,
+  Container,
+  Divider,
+  IconButton,
+  List,
+  ListItem,
+  ListItemText,
+  Paper,
+  Stack,
+  TextField,
+  ToggleButton,
+  ToggleButtonGroup,
+  Typography,
+} from '@mui/material';
+
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import DeleteOutlineIcon from '@mui/icons-material/DeleteOutline';
+import LibraryAddIcon from '@mui/icons-material/LibraryAdd';
+import UploadFileIcon from '@mui/icons-material/UploadFile';
+
+import type { NormalizedLatinWord } from '@latin-app/types';
+import {
+  getImportableWords,
+  nextUserWordSequence,
+  previewImport,
+  vocabularyService,
+  type ImportFormat,
+} from '@latin-app/data';
+import { formatDictionaryEntry } from '@latin-app/shared';
+
+import {
+  addUserWords,
+  clearUserWords,
+  removeUserWord,
+} from '../../../services/userVocabularyStore';
+import { IMPORT_FILE_READ_ERROR_MESSAGE, IMPORT_FORMAT_EXAMPLES } from '../constants/importIssues';
+import ImportPreviewTable from './ImportPreviewTable';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface VocabularyImportProps {
+  onBack: () => void;   // Volver a la página de inicio
+}
+
+/**
+ * COMPONENTE VOCABULARYIMPORT
+ */
+const VocabularyImport: React.FC<VocabularyImportProps> = ({ onBack }) => {
+  // Texto pegado (o leído del archivo) y su formato
+  const [text, setText] = useState('');
+  const [format, setFormat] = useState<ImportFormat>('lines');
+
+  // Palabras del usuario ya guardadas
+  const [userWords, setUserWords] = useState<NormalizedLatinWord[]>(
+    () => vocabularyService.getUserWords()
+  );
+
+  // Mensaje tras importar ("5 palabras importadas") o si falla la lectura del archivo
+  const [importMessage, setImportMessage] = useState<{ severity: 'success' | 'error'; text: string } | null>(null);
+
+  // Input de archivo oculto: el botón lo abre con click()
+  const fileInputRef = useRef<HTMLInputElement>(null);
+
+  /**
+   * VISTA PREVIA
+   * Se recalcula solo cuando cambia el texto, el formato o las palabras guardadas
+   */
+  const preview = useMemo(
+    () => previewImport(text, format, {
+      existingWords: vocabularyService.getAllWords(),
+      firstSequence: nextUserWordSequence(userWords),
+    }),
+    [text, format, userWords]
+  );
+
+  /**
+   * MANEJADOR: Leer un archivo CSV
+   * FileReader es asíncrono: el contenido llega en onload
+   */
+  const handleFileChange = (event: React.ChangeEvent<HTMLInputElement>) => {
+    const file = event.target.files?.[0];
+    if (!file) return;
+
+    const reader = new FileReader();
+    reader.onload = () => {
+      setFormat('csv');
+      setText(String(reader.result ?? ''));
+      setImportMessage(null);
+    };
+    reader.onerror = () => {
+      console.error('Error al leer el archivo:', reader.error);
+      setImportMessage({ severity: 'error', text: IMPORT_FILE_READ_ERROR_MESSAGE });
+    };
+    reader.readAsText(file);
+
+    // Permitir volver a elegir el mismo archivo
+    event.target.value = '';
+  };
+
+  /**
+   * MANEJADOR: Importar las filas válidas
+   */
+  const handleImport = () => {
+    const words = getImportableWords(preview);
+    setUserWords(addUserWords(words));
+    setImportMessage({
+      severity: 'success',
+      text: words.length === 1 ? '1 palabra importada' : `${words.length} palabras importadas`,
+    });
+    setText('');
+  };
+
+  return (
+    <Container maxWidth="lg">
+      <Box sx={{ py: { xs: 3, sm: 4 } }}>
+        {/* CABECERA */}
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 3 }}>
+          <IconButton onClick={onBack} data-testid="button-import-back">
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+            Importar vocabulario
+          </Typography>
+        </Stack>
+
+        {/* ENTRADA: formato, texto y archivo */}
+        <Paper elevation={2} sx={{ p: { xs: 2, sm: 3 }, mb: 3 }}>
+          <Stack
+            direction={{ xs: 'column', sm: 'row' }}
+            spacing={2}
+            alignItems={{ xs: 'stretch', sm: 'center' }}
+            sx={{ mb: 2 }}
+          >
+            <ToggleButtonGroup
+              value={format}
+              exclusive
+              size="small"
+              onChange={(_, value: ImportFormat | null) => value && setFormat(value)}
+              data-testid="import-format-toggle"
+            >
+              <ToggleButton value="lines">Líneas de diccionario</ToggleButton>
+              <ToggleButton value="csv">CSV</ToggleButton>
+            </ToggleButtonGroup>
+
+            <Button
+              variant="outlined"
+              startIcon={<UploadFileIcon />}
+              onClick={() => fileInputRef.current?.click()}
+              data-testid="button-import-file"
+            >
+              Subir archivo CSV
+            </Button>
+            <input
+              ref={fileInputRef}
+              type="file"
+              accept=".csv,.txt,text/csv,text/plain"
+              hidden
+              onChange={handleFileChange}
+            />
+          </Stack>
+
+          <TextField
+            multiline
+            fullWidth
+            minRows={6}
+            maxRows={16}
+            value={text}
+            onChange={(event) => {
+              setText(event.target.value);
+              setImportMessage(null);
+            }}
+            placeholder={IMPORT_FORMAT_EXAMPLES[format]}
+            helperText={format === 'lines'
+              ? 'Una palabra por línea: enunciado – traducción; otros significados'
+              : 'Columnas: nominativo, genitivo, género, traducción, significados (separados por ;)'}
+            inputProps={{ 'data-testid': 'input-import-text', spellCheck: false }}
+          />
+        </Paper>
+
+        {importMessage && (
+          <Alert severity={importMessage.severity} sx={{ mb: 3 }} onClose={() => setImportMessage(null)}>
+            {importMessage.text}
+          </Alert>
+        )}
+
+        {/* VISTA PREVIA */}
+        {preview.rows.length > 0 && (
+          <Paper elevation={2} sx={{ p: { xs: 2, sm: 3 }, mb: 3 }}>
+            <Stack
+              direction={{ xs: 'column', sm: 'row' }}
+              spacing={1}
+              alignItems={{ xs: 'flex-start', sm: 'center' }}
+              sx={{ mb: 2 }}
+            >
+              <Typography variant="h6" sx={{ flexGrow: 1 }}>
+                Vista previa
+              </Typography>
+              <Chip label={`${preview.validCount} válidas`} color="success" size="small" />
+              {preview.errorCount > 0 && (
+                <Chip label={`${preview.errorCount} errores`} color="error" size="small" />
+              )}
+              {preview.warningCount > 0 && (
+                <Chip label={`${preview.warningCount} avisos`} color="warning" size="small" />
+              )}
+            </Stack>
+
+            <ImportPreviewTable rows={preview.rows} />
+
+            <Box sx={{ display: 'flex', justifyContent: 'flex-end', mt: 2 }}>
+              <Button
+                variant="contained"
+                startIcon={<LibraryAddIcon />}
+                disabled={preview.validCount === 0}
+                onClick={handleImport}
+                data-testid="button-import-confirm"
+              >
+                Importar {preview.validCount} {preview.validCount === 1 ? 'palabra' : 'palabras'}
+              </Button>
+            </Box>
+          </Paper>
+        )}
+
+        {/* PALABRAS YA IMPORTADAS */}
+        <Paper elevation={1} sx={{ p: { xs: 2, sm: 3 } }}>
+          <Stack direction="row" alignItems="center" sx={{ mb: 1 }}>
+            <Typography variant="h6" sx={{ flexGrow: 1 }}>
+              Tus palabras ({userWords.length})
+            </Typography>
+            {userWords.length > 0 && (
+              <Button
+                color="error"
+                size="small"
+                onClick={() => {
+                  clearUserWords();
+                  setUserWords([]);
+                }}
+                data-testid="button-clear-user-words"
+              >
+                Borrar todas
+              </Button>
+            )}
+          </Stack>
+          <Divider />
+
+          {userWords.length === 0 ? (
+            <Typography variant="body2" color="text.secondary" sx={{ mt: 2 }}>
+              Todavía no has importado ninguna palabra.
+            </Typography>
+          ) : (
+            <List dense data-testid="user-words-list">
+              {userWords.map(word => (
+                <ListItem
+                  key={word.id}
+                  secondaryAction={
+                    <IconButton
+                      edge="end"
+                      aria-label={`Borrar ${word.nominative}`}
+                      onClick={() => setUserWords(removeUserWord(word.id))}
+                    >
+                      <DeleteOutlineIcon />
+                    </IconButton>
+                  }
+                >
+                  <ListItemText
+                    primary={formatDictionaryEntry(word)}
+                    secondary={word.spanishTranslation}
+                  />
+                </ListItem>
+              ))}
+            </List>
+          )}
+        </Paper>
+      </Box>
+    </Container>
+  );
+};
+
+export default VocabularyImport;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. ESTADO DERIVADO CON useMemo:
+ *    - Solo el texto y el formato están en el estado
+ *    - La vista previa se calcula a partir de ellos (nunca se desincroniza)
+ * 
+ * 2. LEER ARCHIVOS EN EL NAVEGADOR:
+ *    - Un <input type="file"> oculto, abierto desde un botón con useRef
+ *    - FileReader.readAsText entrega el contenido en onload
+ * 
+ * 3. PERSISTENCIA:
+ *    - userVocabularyStore guarda las palabras y avisa a vocabularyService
+ *    - El componente solo guarda una copia para mostrar la lista
+ */
@@ -0,0 +1,59 @@
+/**
+ * MENSAJES DEL IMPORTADOR DE VOCABULARIO
+ * 
+ * previewImport (en @latin-app/data) devuelve los problemas de cada fila
+ * como códigos ('missing-gender', 'unexpected-gender'...). Aquí definimos
+ * cómo se explican al usuario, en español.
+ */
+
+import type { ImportIssue, ImportIssueCode } from '@latin-app/data';
+
+/**
+ * MENSAJE DE CADA CÓDIGO
+ */
+const IMPORT_ISSUE_MESSAGES: Record<ImportIssueCode, string> = {
+  // El enunciado no se pudo leer
+  'empty': 'La línea está vacía',
+  'missing-genitive': 'Falta el genitivo (ej. rosa, -ae, f.)',
+  'missing-gender': 'Falta el género: m., f., n. o m./f.',
+  'invalid-gender': 'El género debe ser m., f., n. o m./f.',
+  'invalid-genitive': 'La abreviatura del genitivo no encaja con el nominativo; escríbelo completo',
+  'ending-mismatch': 'Esa terminación del genitivo no va con este nominativo (ej. rosa, -ae; dominus, -ī)',
+  'unknown-declension': 'El genitivo no tiene la terminación de ninguna declinación',
+  // Reglas del validador
+  'duplicate-id': 'Id repetido',
+  'unknown-part-of-speech': 'Tipo de palabra desconocido',
+  'invalid-terminations': 'Número de terminaciones no válido',
+  'unexpected-macrons': 'Escribe el femenino y el neutro sin macrones',
+  'genitive-declension-mismatch': 'El genitivo no corresponde a la declinación',
+  'unexpected-gender': 'Género poco habitual para esta declinación',
+  'empty-translation': 'Falta la traducción',
+  'duplicated-meaning': 'Significado repetido',
+  // Propios del importador
+  'missing-translation': 'Falta la traducción (escríbela después de " – ")',
+  'duplicate-in-vocabulary': 'Esta palabra ya está en el vocabulario',
+  'duplicate-in-import': 'Esta palabra aparece más arriba en la importación',
+};
+
+/**
+ * AYUDA DE CADA FORMATO
+ * Se muestra como texto de ejemplo en el cuadro de texto
+ */
+export const IMPORT_FORMAT_EXAMPLES = {
+  lines: 'nauta, -ae, m. – marinero\ncorpus, corporis, n. – cuerpo; cadáver',
+  csv: 'nominativo,genitivo,género,traducción,significados\nnauta,-ae,m,marinero,\ncorpus,corporis,n,cuerpo,cadáver',
+} as const;
+
+/**
+ * MENSAJE SI EL NAVEGADOR NO PUEDE LEER EL ARCHIVO CSV
+ */
+export const IMPORT_FILE_READ_ERROR_MESSAGE = 'No se pudo leer el archivo';
+
+/**
+ * FUNCIÓN HELPER: Mensaje de un problema de una fila
+ * 
+ * @param issue - Problema devuelto por previewImport
+ * @returns Mensaje en español
+ */
+export const getImportIssueMessage = (issue: ImportIssue): string =>
+  IMPORT_ISSUE_MESSAGES[issue.code] ?? issue.message;
@@ -0,0 +1,187 @@
+/**
+ * VOCABULARY PACKS PAGE
+ * 
+ * Página para elegir qué vocabularios se estudian: el general de la app
+ * o el de un libro de texto (Wheelock...). Cada paquete se activa o
+ * desactiva con un interruptor; las búsquedas, los filtros y los
+ * ejercicios solo usan las palabras de los paquetes activos.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Manifiesto: la lista de paquetes (título, libro, idioma, número de
+ *   palabras) se conoce sin descargar ninguno
+ * - Carga asíncrona: al activar un paquete que no se ha usado todavía,
+ *   se descarga; mientras tanto se muestra un indicador de progreso
+ */
+
+import React, { useState } from 'react';
+import {
+  Alert,
+  Box,
+  Card,
+  CardContent,
+  Chip,
+  CircularProgress,
+  Container,
+  IconButton,
+  Stack,
+  Switch,
+  Typography,
+} from '@mui/material';
+
+import ArrowBackIcon from '@mui/icons-material/ArrowBack';
+import MenuBookIcon from '@mui/icons-material/MenuBook';
+
+import type { VocabularyPackInfo } from '@latin-app/types';
+import { vocabularyService } from '@latin-app/data';
+
+import { GLOSS_LANGUAGE_LABELS } from '../../../config/glossLanguages';
+import { setEnabledPacks } from '../../../services/vocabularyPackStore';
+
+/**
+ * PROPS DEL COMPONENTE
+ */
+interface VocabularyPacksProps {
+  onBack: () => void;   // Volver a la página de inicio
+}
+
+/**
+ * COMPONENTE VOCABULARYPACKS
+ */
+const VocabularyPacks: React.FC<VocabularyPacksProps> = ({ onBack }) => {
+  // El manifiesto no cambia mientras la app está abierta
+  const [packs] = useState<VocabularyPackInfo[]>(() => vocabularyService.getPacks());
+
+  // Paquetes activos (la primera lectura sale de vocabularyService)
+  const [enabledIds, setEnabledIds] = useState<string[]>(
+    () => vocabularyService.getEnabledPackIds()
+  );
+
+  // Paquete que se está cargando (null = ninguno)
+  const [loadingId, setLoadingId] = useState<string | null>(null);
+  const [error, setError] = useState<string | null>(null);
+
+  /**
+   * MANEJADOR: Activar o desactivar un paquete
+   * async/await: esperamos a que el paquete se descargue antes de marcarlo
+   */
+  const handleToggle = async (pack: VocabularyPackInfo) => {
+    const ids = enabledIds.includes(pack.id)
+      ? enabledIds.filter(id => id !== pack.id)
+      : [...enabledIds, pack.id];
+
+    setLoadingId(pack.id);
+    setError(null);
+    try {
+      setEnabledIds(await setEnabledPacks(ids));
+    } catch (loadError) {
+      console.error('Error al cargar el paquete de vocabulario:', loadError);
+      setError(`No se ha podido cargar "${pack.title}". Comprueba la conexión e inténtalo de nuevo.`);
+    } finally {
+      setLoadingId(null);
+    }
+  };
+
+  return (
+    <Container maxWidth="md">
+      <Box sx={{ py: { xs: 3, sm: 4 } }}>
+        {/* CABECERA */}
+        <Stack direction="row" alignItems="center" spacing={1} sx={{ mb: 1 }}>
+          <IconButton onClick={onBack} data-testid="button-packs-back">
+            <ArrowBackIcon />
+          </IconButton>
+          <Typography variant="h4" sx={{ fontWeight: 'bold' }}>
+            Vocabularios
+          </Typography>
+        </Stack>
+        <Typography variant="body1" color="text.secondary" sx={{ mb: 3 }}>
+          Elige con qué vocabulario quieres estudiar. Las palabras que importaste
+          siguen disponibles con cualquier vocabulario.
+        </Typography>
+
+        {error && (
+          <Alert severity="error" onClose={() => setError(null)} sx={{ mb: 2 }}>
+            {error}
+          </Alert>
+        )}
+
+        {/* UNA TARJETA POR PAQUETE */}
+        <Stack spacing={2}>
+          {packs.map(pack => {
+            const isEnabled = enabledIds.includes(pack.id);
+            // Siempre tiene que quedar al menos un paquete activo
+            const isLastEnabled = isEnabled && enabledIds.length === 1;
+
+            return (
+              <Card
+                key={pack.id}
+                variant="outlined"
+                sx={{ borderColor: isEnabled ? 'primary.main' : 'divider' }}
+                data-testid={`pack-card-${pack.id}`}
+              >
+                <CardContent>
+                  <Stack direction="row" alignItems="flex-start" spacing={2}>
+                    <MenuBookIcon color={isEnabled ? 'primary' : 'disabled'} sx={{ mt: 0.5 }} />
+
+                    <Box sx={{ flexGrow: 1 }}>
+                      <Typography variant="h6">{pack.title}</Typography>
+                      <Typography variant="body2" color="text.secondary">
+                        {pack.source}
+                      </Typography>
+                      {pack.description && (
+                        <Typography variant="body2" sx={{ mt: 1 }}>
+                          {pack.description}
+                        </Typography>
+                      )}
+                      <Stack direction="row" spacing={1} sx={{ mt: 1.5 }}>
+                        <Chip size="small" label={`${pack.wordCount} palabras`} />
+                        {pack.glossLanguages.map(language => (
+                          <Chip
+                            key={language}
+                            size="small"
+                            variant="outlined"
+                            label={GLOSS_LANGUAGE_LABELS[language]}
+                          />
+                        ))}
+                      </Stack>
+                    </Box>
+
+                    {/* INTERRUPTOR (o indicador mientras se descarga) */}
+                    {loadingId === pack.id ? (
+                      <CircularProgress size={24} sx={{ m: 1 }} />
+                    ) : (
+                      <Switch
+                        checked={isEnabled}
+                        disabled={isLastEnabled || loadingId !== null}
+                        onChange={() => handleToggle(pack)}
+                        inputProps={{ 'aria-label': pack.title }}
+                        data-testid={`pack-switch-${pack.id}`}
+                      />
+                    )}
+                  </Stack>
+                </CardContent>
+              </Card>
+            );
+          })}
+        </Stack>
+      </Box>
+    </Container>
+  );
+};
+
+export default VocabularyPacks;
+
+/**
+ * RESUMEN DE CONCEPTOS APRENDIDOS:
+ * 
+ * 1. MANEJADORES ASÍNCRONOS:
+ *    - handleToggle es async: espera a setEnabledPacks antes de actualizar
+ *    - try/catch/finally: el indicador se quita tanto si sale bien como si falla
+ * 
+ * 2. ESTADO DE CARGA:
+ *    - loadingId guarda qué paquete se está descargando
+ *    - Mientras tanto, los demás interruptores se desactivan
+ * 
+ * 3. REGLAS EN LA INTERFAZ:
+ *    - El último paquete activo no se puede desactivar (disabled)
+ *    - Así la app nunca se queda sin palabras
+ */
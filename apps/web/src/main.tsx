@@ -2,6 +2,9 @@ import { StrictMode } from 'react'
 import { createRoot } from 'react-dom/client'
 import './index.css'
 import App from './App.tsx'
+import { loadUserVocabulary } from './services/userVocabularyStore'
+import { loadVocabularyPacks } from './services/vocabularyPackStore'
+import { openStorage } from './services/storage'
 
 // Registrar el Service Worker para PWA
 // Esto permite que la app funcione offline y sea instalable
@@ -17,8 +20,24 @@ if ('serviceWorker' in navigator) {
   });
 }
 
-createRoot(document.getElementById('root')!).render(
-  <StrictMode>
-    <App />
-  </StrictMode>,
-)
+// Abrir el almacenamiento (sesiones, progreso, mazos, palabras importadas y
+// preferencias) y después cargar los paquetes de vocabulario elegidos y
+// las palabras del usuario antes de montar la app, así todos los
+// componentes ven ya los datos guardados y el vocabulario completo. Las
+// dos cosas son asíncronas (IndexedDB y un import dinámico), y la segunda
+// necesita la primera: los paquetes activos son una preferencia guardada.
+// openStorage() nunca falla: en el peor caso los datos quedan en memoria
+openStorage()
+  .then(() => loadVocabularyPacks().catch((error) => {
+    console.error('Error al cargar los paquetes de vocabulario:', error)
+    return []
+  }))
+  .then(() => {
+    loadUserVocabulary()
+
+    createRoot(document.getElementById('root')!).render(
+      <StrictMode>
+        <App />
+      </StrictMode>,
+    )
+  })
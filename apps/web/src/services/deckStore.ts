@@ -0,0 +1,85 @@
+/**
+ * DECK STORE
+ * 
+ * Guarda los mazos del usuario: listas de palabras con nombre
+ * ("Capítulo 3", "Las que siempre fallo") que se pueden cargar de un
+ * clic al configurar una sesión.
+ * 
+ * Los cambios de cada mazo (renombrar, añadir, reordenar...) los hacen las
+ * funciones puras de @latin-app/data (decks.ts); este módulo guarda la
+ * lista con el servicio de almacenamiento y traduce los ids de palabra a
+ * palabras.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Ids, no palabras: un mazo guarda ids, así siempre muestra la versión
+ *   actual de cada palabra y ocupa poco
+ */
+
+import type { LatinPronoun, VocabularyEntry, WordDeck } from '@latin-app/types';
+import { vocabularyService } from '@latin-app/data';
+
+import { getStoredDecks, saveStoredDecks } from './storage';
+
+/**
+ * FUNCIÓN HELPER: Guardar la lista completa
+ */
+const saveDecks = (decks: WordDeck[]): WordDeck[] => {
+  saveStoredDecks(decks);
+  return decks;
+};
+
+/**
+ * OBTENER LOS MAZOS
+ * 
+ * El servicio de almacenamiento ya los ha leído y validado al abrir la app.
+ * 
+ * @returns Los mazos, en el orden en que se crearon
+ */
+export const getDecks = (): WordDeck[] => getStoredDecks();
+
+/**
+ * GUARDAR UN MAZO
+ * Sustituye al mazo con el mismo id o lo añade al final si es nuevo
+ * 
+ * @param deck - El mazo (nuevo o modificado con las funciones de decks.ts)
+ * @returns La lista completa de mazos
+ */
+export const saveDeck = (deck: WordDeck): WordDeck[] => {
+  const decks = getDecks();
+  const exists = decks.some(candidate => candidate.id === deck.id);
+  return saveDecks(exists
+    ? decks.map(candidate => (candidate.id === deck.id ? deck : candidate))
+    : [...decks, deck]);
+};
+
+/**
+ * BORRAR UN MAZO
+ * 
+ * @param id - Id del mazo
+ * @returns La lista completa de mazos
+ */
+export const deleteDeck = (id: string): WordDeck[] =>
+  saveDecks(getDecks().filter(deck => deck.id !== id));
+
+/**
+ * AÑADIR MAZOS IMPORTADOS
+ * parseDeckExport ya les da ids nuevos, así que nunca pisan uno existente
+ * 
+ * @param decks - Mazos leídos de un archivo
+ * @returns La lista completa de mazos
+ */
+export const addImportedDecks = (decks: WordDeck[]): WordDeck[] =>
+  saveDecks([...getDecks(), ...decks]);
+
+/**
+ * PALABRAS DE UN MAZO
+ * 
+ * Busca cada id en el vocabulario (sustantivos y adjetivos) y en los
+ * pronombres, respetando el orden del mazo. Los ids que ya no existen
+ * (por ejemplo, una palabra importada que se borró) se saltan.
+ * 
+ * @param deck - El mazo
+ * @returns Las palabras encontradas, en el orden del mazo
+ */
+export const getDeckWords = (deck: WordDeck): (VocabularyEntry | LatinPronoun)[] =>
+  vocabularyService.getWordsAndPronounsByIds(deck.wordIds);
@@ -0,0 +1,166 @@
+/**
+ * SESSION HISTORY STORE
+ * 
+ * Historial de sesiones de estudio terminadas: cada una con su
+ * configuración (palabras, duración, tipos de ejercicio) y el resultado
+ * de cada ejercicio. Se guarda con el servicio de almacenamiento.
+ * 
+ * FLUJO:
+ * 1. StudySession llama a recordCompletedSession() al llegar al resumen
+ * 2. La página de historial lista las sesiones con getSessionHistory()
+ * 3. Al abrir una, getSessionWordStats() agrupa sus ejercicios por palabra
+ * 4. Al empezar una sesión, getDrillKindHistory() dice qué tipos de
+ *    ejercicio se suelen fallar (para elegir los ejercicios)
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Los totales (correctas, incorrectas, saltadas) se calculan una vez al
+ *   guardar, así la lista no recorre los ejercicios de cada sesión
+ * - Las estadísticas por palabra se calculan al abrir una sesión: salen
+ *   de drillResults y no hace falta guardarlas
+ */
+
+import type { StoredDrillResult, StoredSession } from '@latin-app/types';
+import { getDrillKind, getDrillKindStats } from '@latin-app/scheduler';
+import type { DrillKindStats } from '@latin-app/scheduler';
+
+import { deleteSession, getSessions, saveSession } from './storage';
+
+/**
+ * DATOS DE UNA SESIÓN TERMINADA
+ * Lo que StudySession sabe al acabar; el resto se calcula aquí
+ */
+export interface CompletedSession {
+  startedAt: Date;
+  durationMinutes: number;
+  wordIds: string[];
+  drillTypes: string[];
+  strictMacrons: boolean;
+  drillResults: StoredDrillResult[];
+}
+
+/**
+ * RESULTADOS DE UNA PALABRA EN UNA SESIÓN
+ */
+export interface SessionWordStats {
+  wordId: string;
+  wordLabel: string;
+  attempts: number;     // Ejercicios de la palabra (incluidos los saltados)
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  recovered: boolean;   // La falló, pero acabó acertándola (la última respuesta fue correcta)
+}
+
+/**
+ * GUARDAR UNA SESIÓN TERMINADA
+ * 
+ * @param completed - Configuración y resultados de la sesión
+ * @returns La sesión tal como se ha guardado
+ */
+export const recordCompletedSession = (completed: CompletedSession): StoredSession => {
+  const { drillResults } = completed;
+  const startedAt = completed.startedAt.getTime();
+
+  const session: StoredSession = {
+    id: `session_${startedAt}_${Math.random().toString(36).slice(2, 6)}`,
+    startedAt: completed.startedAt.toISOString(),
+    completedAt: new Date().toISOString(),
+    durationMinutes: completed.durationMinutes,
+    wordIds: completed.wordIds,
+    drillTypes: completed.drillTypes,
+    strictMacrons: completed.strictMacrons,
+    correct: drillResults.filter(result => result.isCorrect).length,
+    incorrect: drillResults.filter(result => !result.isCorrect && !result.wasSkipped).length,
+    skipped: drillResults.filter(result => result.wasSkipped).length,
+    drillResults,
+  };
+
+  saveSession(session);
+  return session;
+};
+
+/**
+ * OBTENER EL HISTORIAL
+ * 
+ * @returns Las sesiones, de la más reciente a la más antigua
+ */
+export const getSessionHistory = (): StoredSession[] => getSessions();
+
+/**
+ * BORRAR UNA SESIÓN DEL HISTORIAL
+ * No cambia el progreso de repaso de sus palabras
+ * 
+ * @param sessionId - Id de la sesión
+ */
+export const deleteSessionFromHistory = (sessionId: string) => {
+  deleteSession(sessionId);
+};
+
+/**
+ * PRECISIÓN DE UNA SESIÓN
+ * Como en el resumen de la sesión, los ejercicios saltados no cuentan
+ * 
+ * @param session - La sesión
+ * @returns Porcentaje de aciertos (0-100), o null si no se respondió ninguno
+ */
+export const getSessionAccuracy = (session: StoredSession): number | null => {
+  const attempted = session.correct + session.incorrect;
+  return attempted > 0 ? Math.round((session.correct / attempted) * 100) : null;
+};
+
+/**
+ * RESULTADOS POR PALABRA
+ * 
+ * Agrupa los ejercicios de una sesión por palabra. Primero las palabras
+ * con más fallos: son las que conviene repasar. También dice si cada
+ * palabra fallada se acabó acertando (al repetirla más adelante).
+ * 
+ * @param session - La sesión
+ * @returns Una entrada por palabra practicada
+ */
+export const getSessionWordStats = (session: StoredSession): SessionWordStats[] => {
+  const statsById = new Map<string, SessionWordStats>();
+
+  session.drillResults.forEach(result => {
+    const stats = statsById.get(result.wordId) ?? {
+      wordId: result.wordId,
+      wordLabel: result.wordLabel,
+      attempts: 0,
+      correct: 0,
+      incorrect: 0,
+      skipped: 0,
+      recovered: false,
+    };
+    stats.attempts += 1;
+    if (result.wasSkipped) stats.skipped += 1;
+    else if (result.isCorrect) stats.correct += 1;
+    else stats.incorrect += 1;
+    // Los ejercicios van en orden: un acierto después de un fallo la
+    // recupera y un nuevo fallo la vuelve a perder
+    if (!result.wasSkipped) stats.recovered = result.isCorrect && stats.incorrect > 0;
+    statsById.set(result.wordId, stats);
+  });
+
+  return [...statsById.values()].sort((a, b) =>
+    b.incorrect - a.incorrect || a.wordLabel.localeCompare(b.wordLabel)
+  );
+};
+
+/**
+ * RESULTADOS ANTERIORES DE CADA TIPO DE EJERCICIO
+ * 
+ * Junta los ejercicios de todas las sesiones guardadas. La opción
+ * múltiple se cuenta por dirección ('multipleChoice/spanishToLatin'),
+ * igual que la cuenta el selector de ejercicios.
+ * 
+ * @returns Ejercicios respondidos y fallados, por tipo
+ */
+export const getDrillKindHistory = (): Record<string, DrillKindStats> =>
+  getDrillKindStats(getSessions().flatMap(session =>
+    session.drillResults.map(result => ({
+      wordId: result.wordId,
+      drillKind: getDrillKind(result.drillType, result.questionType),
+      isCorrect: result.isCorrect,
+      wasSkipped: result.wasSkipped,
+    }))
+  ));
@@ -0,0 +1,228 @@
+/**
+ * STORAGE BACKENDS
+ * 
+ * Los sitios donde el servicio de almacenamiento puede guardar los datos,
+ * del mejor al peor:
+ * 
+ * 1. IndexedDB: base de datos del navegador, asíncrona y con mucho más
+ *    espacio que localStorage (cientos de MB frente a unos 5 MB)
+ * 2. localStorage: si IndexedDB no está disponible (algunos navegadores
+ *    en modo privado, WebViews antiguas)
+ * 3. Memoria: si no se puede guardar nada, la app sigue funcionando y
+ *    los datos se pierden al cerrar la pestaña
+ * 
+ * Los tres tienen la misma interfaz (StorageBackend): guardan "registros"
+ * por clave ('meta', 'sessions', 'progress', 'preferences'). El servicio
+ * no necesita saber cuál está usando.
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Promesas: IndexedDB avisa con eventos (onsuccess, onerror); aquí se
+ *   envuelven en Promises para poder usar async/await
+ * - Cuota: cada navegador limita el espacio de cada web. Al pasarse, la
+ *   escritura falla con un QuotaExceededError (isQuotaError lo detecta)
+ */
+
+import type { StorageBackendName } from '@latin-app/types';
+
+/**
+ * INTERFAZ COMÚN DE LOS BACKENDS
+ */
+export interface StorageBackend {
+  name: StorageBackendName;
+
+  // Lee un registro: undefined si no existe; la Promise se rechaza si
+  // el registro existe pero no se puede leer (datos corruptos)
+  read: (key: string) => Promise<unknown>;
+
+  // Guarda un registro; la Promise se rechaza si no cabe o falla
+  write: (key: string, value: unknown) => Promise<void>;
+
+  remove: (key: string) => Promise<void>;
+}
+
+/**
+ * NOMBRES DE INDEXEDDB
+ * 
+ * DB_VERSION es la versión de la base de datos de IndexedDB, que solo
+ * cambia si cambian los almacenes. La versión de los datos (el esquema
+ * de StorageData) se guarda aparte, en el registro 'meta'.
+ */
+const DB_NAME = 'latinApp';
+const DB_VERSION = 1;
+const STORE_NAME = 'records';
+
+/**
+ * PREFIJO DE LAS CLAVES EN LOCALSTORAGE
+ * Mismo prefijo 'latinApp' que el resto de claves de la app
+ */
+const LOCAL_STORAGE_PREFIX = 'latinApp_storage_';
+
+/**
+ * ¿EL ERROR ES POR FALTA DE ESPACIO?
+ * 
+ * Cada navegador lo dice a su manera: Chrome y Safari con el nombre
+ * 'QuotaExceededError' (código 22), Firefox con 'NS_ERROR_DOM_QUOTA_REACHED'
+ * (código 1014).
+ * 
+ * @param error - El error de una escritura
+ * @returns true si la escritura falló por la cuota
+ */
+export const isQuotaError = (error: unknown): boolean =>
+  error instanceof DOMException && (
+    error.name === 'QuotaExceededError' ||
+    error.name === 'NS_ERROR_DOM_QUOTA_REACHED' ||
+    error.code === 22 ||
+    error.code === 1014
+  );
+
+/**
+ * FUNCIÓN HELPER: Abrir la base de datos de IndexedDB
+ * La primera vez (o al subir DB_VERSION) se crea el almacén de registros
+ */
+const openDatabase = (): Promise<IDBDatabase> =>
+  new Promise((resolve, reject) => {
+    if (typeof indexedDB === 'undefined') {
+      reject(new Error('IndexedDB no está disponible'));
+      return;
+    }
+
+    const request = indexedDB.open(DB_NAME, DB_VERSION);
+    request.onupgradeneeded = () => {
+      if (!request.result.objectStoreNames.contains(STORE_NAME)) {
+        request.result.createObjectStore(STORE_NAME);
+      }
+    };
+    request.onsuccess = () => resolve(request.result);
+    request.onerror = () => reject(request.error);
+    // Otra pestaña tiene abierta una versión antigua de la base de datos
+    request.onblocked = () => reject(new Error('IndexedDB bloqueada por otra pestaña'));
+  });
+
+/**
+ * FUNCIÓN HELPER: Ejecutar una operación en una transacción
+ * 
+ * La Promise se resuelve cuando la transacción termina (no cuando termina
+ * la petición): solo entonces los datos están realmente guardados. Los
+ * errores de cuota llegan como un "abort" de la transacción.
+ */
+const runTransaction = <T>(
+  db: IDBDatabase,
+  mode: IDBTransactionMode,
+  operation: (store: IDBObjectStore) => IDBRequest<T>
+): Promise<T> =>
+  new Promise((resolve, reject) => {
+    const transaction = db.transaction(STORE_NAME, mode);
+    const request = operation(transaction.objectStore(STORE_NAME));
+    transaction.oncomplete = () => resolve(request.result);
+    transaction.onerror = () => reject(transaction.error ?? request.error);
+    transaction.onabort = () => reject(transaction.error ?? new Error('Transacción cancelada'));
+  });
+
+/**
+ * BACKEND DE INDEXEDDB
+ * 
+ * Los valores se guardan tal cual (IndexedDB copia objetos, no hace
+ * falta JSON.stringify).
+ * 
+ * @returns El backend, o una Promise rechazada si IndexedDB no se puede abrir
+ */
+export const createIndexedDBBackend = async (): Promise<StorageBackend> => {
+  const db = await openDatabase();
+
+  return {
+    name: 'indexedDB',
+    read: (key) => runTransaction<unknown>(db, 'readonly', store => store.get(key)),
+    write: async (key, value) => {
+      await runTransaction(db, 'readwrite', store => store.put(value, key));
+    },
+    remove: async (key) => {
+      await runTransaction(db, 'readwrite', store => store.delete(key));
+    },
+  };
+};
+
+/**
+ * BACKEND DE LOCALSTORAGE
+ * 
+ * localStorage solo guarda strings, así que cada registro se guarda como
+ * JSON. Si un registro no se puede leer, su texto se copia a
+ * "<clave>_corrupted" antes de avisar, para no perderlo del todo cuando
+ * el servicio lo reemplace.
+ * 
+ * @returns El backend, o una Promise rechazada si localStorage no funciona
+ */
+export const createLocalStorageBackend = async (): Promise<StorageBackend> => {
+  // Comprobar que se puede escribir (en algunos modos privados, no)
+  const testKey = `${LOCAL_STORAGE_PREFIX}test`;
+  localStorage.setItem(testKey, 'test');
+  localStorage.removeItem(testKey);
+
+  return {
+    name: 'localStorage',
+    read: async (key) => {
+      const saved = localStorage.getItem(LOCAL_STORAGE_PREFIX + key);
+      if (saved === null) return undefined;
+      try {
+        return JSON.parse(saved) as unknown;
+      } catch (error) {
+        try {
+          localStorage.setItem(`${LOCAL_STORAGE_PREFIX}${key}_corrupted`, saved);
+        } catch {
+          // Sin espacio para la copia: el error original es el importante
+        }
+        throw error;
+      }
+    },
+    write: async (key, value) => {
+      localStorage.setItem(LOCAL_STORAGE_PREFIX + key, JSON.stringify(value));
+    },
+    remove: async (key) => {
+      localStorage.removeItem(LOCAL_STORAGE_PREFIX + key);
+    },
+  };
+};
+
+/**
+ * BACKEND EN MEMORIA
+ * Nunca falla; los datos duran lo que dure la pestaña
+ * 
+ * @returns El backend
+ */
+export const createMemoryBackend = (): StorageBackend => {
+  const records = new Map<string, unknown>();
+
+  return {
+    name: 'memory',
+    read: async (key) => records.get(key),
+    write: async (key, value) => {
+      records.set(key, value);
+    },
+    remove: async (key) => {
+      records.delete(key);
+    },
+  };
+};
+
+/**
+ * ABRIR EL MEJOR BACKEND DISPONIBLE
+ * 
+ * Prueba IndexedDB, después localStorage y, si ninguno funciona,
+ * se queda con la memoria. Nunca se rechaza.
+ * 
+ * @returns El backend que se va a usar
+ */
+export const openBestBackend = async (): Promise<StorageBackend> => {
+  try {
+    return await createIndexedDBBackend();
+  } catch (error) {
+    console.warn('IndexedDB no disponible, se usa localStorage:', error);
+  }
+
+  try {
+    return await createLocalStorageBackend();
+  } catch (error) {
+    console.error('localStorage no disponible, los datos no se guardarán:', error);
+  }
+
+  return createMemoryBackend();
+};
@@ -0,0 +1,30 @@
+/**
+ * STORAGE
+ * 
+ * Punto de entrada del servicio de almacenamiento. Los componentes y los
+ * stores importan desde aquí, no desde los archivos internos.
+ */
+
+export {
+  clearAllData,
+  DEFAULT_PREFERENCES,
+  deleteSession,
+  flushStorage,
+  getPreferences,
+  getProgress,
+  getSessions,
+  getStorageStatus,
+  getStoredDecks,
+  getStoredUserWords,
+  isStoredDrillResult,
+  isStoredSession,
+  MAX_STORED_SESSIONS,
+  openStorage,
+  saveProgress,
+  savePreferences,
+  saveSession,
+  saveStoredDecks,
+  saveStoredUserWords,
+} from './storageService';
+export { STORAGE_SCHEMA_VERSION } from './migrations';
+export type { StorageMigration } from './migrations';
@@ -0,0 +1,133 @@
+/**
+ * STORAGE MIGRATIONS
+ * 
+ * Cada versión del esquema de datos tiene una migración que transforma
+ * los datos de la versión anterior en los de la nueva. Al abrir la app,
+ * el servicio ejecuta EN ORDEN todas las migraciones posteriores a la
+ * versión guardada.
+ * 
+ * EJEMPLO:
+ * Datos guardados en la versión 1, la app va por la 3
+ * → se ejecutan la migración 2 y después la 3
+ * 
+ * CÓMO AÑADIR UNA MIGRACIÓN:
+ * 1. Cambiar los tipos en packages/types/src/storage.ts
+ * 2. Añadir al final de STORAGE_MIGRATIONS un objeto con la versión
+ *    siguiente y la función que transforma los datos
+ * 3. Nunca modificar una migración ya publicada: alguien puede tener
+ *    datos que todavía no han pasado por ella
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Los datos de entrada son "unknown": vienen del navegador y pueden
+ *   tener cualquier forma. El servicio comprueba el resultado después
+ * - Las migraciones no guardan nada: devuelven los datos nuevos y el
+ *   servicio los guarda solo si TODAS han funcionado
+ */
+
+/**
+ * DATOS SIN VALIDAR
+ * Registro → valor, tal como se ha leído del backend
+ */
+export type RawStorageData = Record<string, unknown>;
+
+/**
+ * UNA MIGRACIÓN
+ */
+export interface StorageMigration {
+  version: number;        // Versión a la que lleva los datos
+  description: string;    // Qué cambia (para los mensajes de la consola)
+  migrate: (data: RawStorageData) => RawStorageData;
+}
+
+/**
+ * CLAVES ANTERIORES AL SERVICIO DE ALMACENAMIENTO
+ * Cada store guardaba lo suyo directamente en localStorage
+ */
+const LEGACY_SETTINGS_KEY = 'latinApp_settings';
+const LEGACY_WORD_MEMORY_KEY = 'latinApp_wordMemory';
+const LEGACY_DECKS_KEY = 'latinApp_decks';
+const LEGACY_USER_WORDS_KEY = 'latinApp_userVocabulary';
+const LEGACY_PACKS_KEY = 'latinApp_vocabularyPacks';
+
+/**
+ * FUNCIÓN HELPER: Leer una clave antigua de localStorage
+ * Devuelve undefined si no existe, no se puede leer o no hay localStorage
+ */
+const readLegacyKey = (key: string): unknown => {
+  try {
+    const saved = localStorage.getItem(key);
+    return saved === null ? undefined : JSON.parse(saved) as unknown;
+  } catch (error) {
+    console.warn(`No se ha podido leer ${key}:`, error);
+    return undefined;
+  }
+};
+
+/**
+ * LISTA DE MIGRACIONES, EN ORDEN DE VERSIÓN
+ */
+export const STORAGE_MIGRATIONS: StorageMigration[] = [
+  {
+    version: 1,
+    description: 'Importar las preferencias y el progreso de repaso de localStorage',
+    migrate: (data) => ({
+      ...data,
+      sessions: data.sessions ?? [],
+      progress: data.progress ?? readLegacyKey(LEGACY_WORD_MEMORY_KEY) ?? {},
+      preferences: data.preferences ?? readLegacyKey(LEGACY_SETTINGS_KEY) ?? {},
+    }),
+  },
+  {
+    version: 2,
+    description: 'Guardar la configuración y los resultados de cada ejercicio en las sesiones',
+    migrate: (data) => ({
+      ...data,
+      sessions: Array.isArray(data.sessions)
+        ? data.sessions.map(session => ({ strictMacrons: false, drillResults: [], ...session }))
+        : data.sessions,
+    }),
+  },
+  {
+    version: 3,
+    description: 'Importar los mazos, las palabras del usuario y los paquetes de vocabulario de localStorage',
+    migrate: (data) => {
+      const preferences = typeof data.preferences === 'object' && data.preferences !== null
+        ? data.preferences
+        : {};
+      const packIds = readLegacyKey(LEGACY_PACKS_KEY);
+      return {
+        ...data,
+        decks: data.decks ?? readLegacyKey(LEGACY_DECKS_KEY) ?? [],
+        userWords: data.userWords ?? readLegacyKey(LEGACY_USER_WORDS_KEY) ?? [],
+        // Los paquetes pasan a ser una preferencia más
+        preferences: packIds === undefined ? preferences : { enabledPackIds: packIds, ...preferences },
+      };
+    },
+  },
+];
+
+/**
+ * VERSIÓN ACTUAL DEL ESQUEMA
+ * La de la última migración (0 = datos sin ninguna migración)
+ */
+export const STORAGE_SCHEMA_VERSION = STORAGE_MIGRATIONS.length > 0
+  ? STORAGE_MIGRATIONS[STORAGE_MIGRATIONS.length - 1].version
+  : 0;
+
+/**
+ * EJECUTAR LAS MIGRACIONES PENDIENTES
+ * 
+ * Si una migración lanza un error, se propaga y no se aplica ninguna:
+ * el servicio decide qué hacer con los datos antiguos.
+ * 
+ * @param data - Los datos guardados
+ * @param fromVersion - La versión con la que se guardaron
+ * @returns Los datos en la versión actual
+ */
+export const runMigrations = (data: RawStorageData, fromVersion: number): RawStorageData =>
+  STORAGE_MIGRATIONS
+    .filter(migration => migration.version > fromVersion)
+    .reduce((migrated, migration) => {
+      console.info(`Migración de almacenamiento ${migration.version}: ${migration.description}`);
+      return migration.migrate(migrated);
+    }, data);
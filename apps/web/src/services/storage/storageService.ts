@@ -0,0 +1,505 @@
+/**
+ * STORAGE SERVICE
+ * 
+ * El único sitio donde se guardan las sesiones terminadas, el progreso de
+ * repaso de cada palabra, los mazos, las palabras importadas y las
+ * preferencias (incluidos los paquetes de vocabulario activos). Los
+ * componentes y los stores no tocan IndexedDB ni localStorage: usan
+ * estas funciones.
+ * 
+ * FLUJO:
+ * 1. main.tsx llama a openStorage() antes de montar la app
+ * 2. openStorage() elige el backend (IndexedDB → localStorage → memoria),
+ *    lee los datos, ejecuta las migraciones pendientes y los valida
+ * 3. Desde ese momento las lecturas son síncronas (copia en memoria) y
+ *    cada cambio se guarda en segundo plano
+ * 
+ * QUÉ PASA CUANDO ALGO VA MAL (la app nunca se queda sin arrancar):
+ * - Registro corrupto: se sustituye por su valor por defecto
+ * - Sin espacio (cuota): se borra la mitad más antigua del historial de
+ *   sesiones y se reintenta; si sigue sin caber, los datos quedan en memoria
+ * - Migración fallida o datos de una versión más nueva de la app: se
+ *   trabaja en memoria y los datos guardados NO se tocan
+ * 
+ * Cada problema queda anotado en getStorageStatus().
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Copia en memoria: el backend es solo el respaldo, así las lecturas
+ *   no tienen que esperar
+ * - Cola de escrituras: las escrituras se encadenan en una Promise para
+ *   que nunca se pisen (IndexedDB es asíncrono)
+ * - Validación: todo lo que se lee del navegador se comprueba antes de
+ *   usarlo, porque puede venir de otra versión o estar dañado
+ */
+
+import type {
+  NormalizedLatinWord,
+  StorageData,
+  StorageProblem,
+  StorageRecordKey,
+  StorageStatus,
+  StoredDrillResult,
+  StoredPreferences,
+  StoredSession,
+  WordDeck,
+  WordMemory,
+} from '@latin-app/types';
+import { DEFAULT_GLOSS_LANGUAGE, DEFAULT_PACK_IDS, isGlossLanguage, isWordDeck } from '@latin-app/data';
+import { isWordMemory } from '@latin-app/scheduler';
+
+import { createMemoryBackend, isQuotaError, openBestBackend } from './backends';
+import type { StorageBackend } from './backends';
+import { runMigrations, STORAGE_SCHEMA_VERSION } from './migrations';
+import type { RawStorageData } from './migrations';
+
+/**
+ * CONSTANTES
+ */
+// Registro con la versión del esquema de los datos guardados
+const META_KEY = 'meta';
+
+// Registros de datos, en el orden en que se leen
+const RECORD_KEYS: StorageRecordKey[] = ['sessions', 'progress', 'decks', 'userWords', 'preferences'];
+
+// Máximo de sesiones en el historial (las más antiguas se descartan)
+export const MAX_STORED_SESSIONS = 200;
+
+/**
+ * PREFERENCIAS POR DEFECTO
+ * Las mismas que usa AppSettingsContext la primera vez
+ */
+export const DEFAULT_PREFERENCES: StoredPreferences = {
+  fontSize: 'medium',
+  glossLanguage: DEFAULT_GLOSS_LANGUAGE,
+  enabledPackIds: DEFAULT_PACK_IDS,
+};
+
+/**
+ * FUNCIÓN HELPER: Datos vacíos (primera vez que se abre la app)
+ */
+const createDefaultData = (): StorageData => ({
+  sessions: [],
+  progress: {},
+  decks: [],
+  userWords: [],
+  preferences: { ...DEFAULT_PREFERENCES },
+});
+
+/**
+ * ESTADO DEL SERVICIO
+ * Hasta que se llama a openStorage(), todo vive en memoria
+ */
+let data: StorageData = createDefaultData();
+let backend: StorageBackend = createMemoryBackend();
+let schemaVersion = STORAGE_SCHEMA_VERSION;
+const problems = new Set<StorageProblem>();
+
+// Última escritura pendiente (cada una espera a la anterior)
+let writeQueue: Promise<void> = Promise.resolve();
+
+/**
+ * FUNCIÓN HELPER: Anotar un problema
+ */
+const reportProblem = (problem: StorageProblem, error?: unknown) => {
+  problems.add(problem);
+  console.error(`Problema de almacenamiento (${problem}):`, error ?? '');
+};
+
+/**
+ * VALIDACIÓN DE LOS REGISTROS
+ * 
+ * Cada función recibe lo que se ha leído (unknown) y devuelve un valor
+ * con el tipo correcto, descartando lo que no encaja.
+ */
+
+/**
+ * ¿TIENE EL VALOR LA FORMA DEL RESULTADO DE UN EJERCICIO?
+ * 
+ * @param value - El valor a comprobar
+ * @returns true si se puede usar como StoredDrillResult
+ */
+export const isStoredDrillResult = (value: unknown): value is StoredDrillResult => {
+  if (typeof value !== 'object' || value === null) return false;
+  const result = value as Partial<StoredDrillResult>;
+
+  return typeof result.drillId === 'string'
+    && typeof result.wordId === 'string'
+    && typeof result.wordLabel === 'string'
+    && typeof result.drillType === 'string'
+    && (result.questionType === undefined || typeof result.questionType === 'string')
+    && typeof result.isCorrect === 'boolean'
+    && typeof result.wasSkipped === 'boolean'
+    && typeof result.timeSpent === 'number' && result.timeSpent >= 0
+    && typeof result.answeredAt === 'string' && !Number.isNaN(Date.parse(result.answeredAt));
+};
+
+/**
+ * ¿TIENE EL VALOR LA FORMA DE UNA SESIÓN GUARDADA?
+ * 
+ * @param value - El valor a comprobar
+ * @returns true si se puede usar como StoredSession
+ */
+export const isStoredSession = (value: unknown): value is StoredSession => {
+  if (typeof value !== 'object' || value === null) return false;
+  const session = value as Partial<StoredSession>;
+  const isCount = (count: unknown) => typeof count === 'number' && count >= 0;
+  const isStringList = (list: unknown) =>
+    Array.isArray(list) && list.every(item => typeof item === 'string');
+
+  return typeof session.id === 'string'
+    && typeof session.startedAt === 'string' && !Number.isNaN(Date.parse(session.startedAt))
+    && typeof session.completedAt === 'string' && !Number.isNaN(Date.parse(session.completedAt))
+    && isCount(session.durationMinutes)
+    && isStringList(session.wordIds)
+    && isStringList(session.drillTypes)
+    && typeof session.strictMacrons === 'boolean'
+    && isCount(session.correct)
+    && isCount(session.incorrect)
+    && isCount(session.skipped)
+    && Array.isArray(session.drillResults) && session.drillResults.every(isStoredDrillResult);
+};
+
+const sanitizeSessions = (value: unknown): StoredSession[] =>
+  Array.isArray(value) ? value.filter(isStoredSession).slice(0, MAX_STORED_SESSIONS) : [];
+
+const sanitizeProgress = (value: unknown): Record<string, WordMemory> => {
+  const progress: Record<string, WordMemory> = {};
+  if (typeof value === 'object' && value !== null) {
+    Object.values(value).filter(isWordMemory).forEach(memory => {
+      progress[memory.wordId] = memory;
+    });
+  }
+  return progress;
+};
+
+/**
+ * ¿TIENE EL VALOR LA FORMA DE UNA PALABRA IMPORTADA?
+ */
+const isStoredUserWord = (value: unknown): value is NormalizedLatinWord => {
+  const word = value as Partial<NormalizedLatinWord> | null;
+  return typeof word?.id === 'string'
+    && typeof word.nominative === 'string'
+    && typeof word.genitive === 'string'
+    && typeof word.declension === 'string'
+    && typeof word.gender === 'string'
+    && typeof word.spanishTranslation === 'string'
+    && Array.isArray(word.additionalMeanings);
+};
+
+const sanitizeDecks = (value: unknown): WordDeck[] =>
+  Array.isArray(value) ? value.filter(isWordDeck) : [];
+
+const sanitizeUserWords = (value: unknown): NormalizedLatinWord[] =>
+  Array.isArray(value) ? value.filter(isStoredUserWord) : [];
+
+const sanitizePreferences = (value: unknown): StoredPreferences => {
+  const saved = (typeof value === 'object' && value !== null ? value : {}) as Record<string, unknown>;
+  const fontSizes: StoredPreferences['fontSize'][] = ['small', 'medium', 'large', 'extraLarge'];
+
+  return {
+    fontSize: fontSizes.find(size => size === saved.fontSize) ?? DEFAULT_PREFERENCES.fontSize,
+    glossLanguage: isGlossLanguage(saved.glossLanguage)
+      ? saved.glossLanguage
+      : DEFAULT_PREFERENCES.glossLanguage,
+    enabledPackIds: Array.isArray(saved.enabledPackIds)
+      ? saved.enabledPackIds.filter((id): id is string => typeof id === 'string')
+      : DEFAULT_PREFERENCES.enabledPackIds,
+  };
+};
+
+/**
+ * FUNCIÓN HELPER: Validar todos los registros
+ */
+const sanitizeData = (raw: RawStorageData): StorageData => ({
+  sessions: sanitizeSessions(raw.sessions),
+  progress: sanitizeProgress(raw.progress),
+  decks: sanitizeDecks(raw.decks),
+  userWords: sanitizeUserWords(raw.userWords),
+  preferences: sanitizePreferences(raw.preferences),
+});
+
+/**
+ * FUNCIÓN HELPER: Escribir un registro en el backend
+ * 
+ * Si no hay espacio, libera sitio recortando el historial de sesiones
+ * (lo menos importante: el progreso, los mazos, las palabras y las
+ * preferencias se conservan)
+ * y reintenta una vez.
+ */
+const writeRecord = async (key: StorageRecordKey | typeof META_KEY, value: unknown) => {
+  try {
+    await backend.write(key, value);
+    return;
+  } catch (error) {
+    if (!isQuotaError(error)) {
+      console.error(`Error al guardar "${key}":`, error);
+      return;
+    }
+    reportProblem('quota-exceeded', error);
+  }
+
+  try {
+    if (data.sessions.length > 0) {
+      data = { ...data, sessions: data.sessions.slice(0, Math.floor(data.sessions.length / 2)) };
+      await backend.write('sessions', data.sessions);
+    }
+    if (key !== 'sessions') {
+      await backend.write(key, value);
+    }
+  } catch (error) {
+    // Los datos siguen en memoria hasta que se cierre la pestaña
+    console.error(`Sin espacio para guardar "${key}":`, error);
+  }
+};
+
+/**
+ * FUNCIÓN HELPER: Guardar un registro en segundo plano
+ * Se guarda el valor que tenga el registro cuando le toque el turno
+ */
+const persist = (key: StorageRecordKey) => {
+  writeQueue = writeQueue.then(() => writeRecord(key, data[key]));
+};
+
+/**
+ * FUNCIÓN HELPER: Leer un registro
+ * Si está corrupto, se anota y se trata como si no existiera
+ */
+const readRecord = async (key: string): Promise<{ value: unknown; corrupted: boolean }> => {
+  try {
+    return { value: await backend.read(key), corrupted: false };
+  } catch (error) {
+    reportProblem('corrupted-data', error);
+    return { value: undefined, corrupted: true };
+  }
+};
+
+/**
+ * FUNCIÓN HELPER: Leer la versión de los datos guardados
+ * 0 = nunca se ha guardado nada (o el registro está dañado)
+ */
+const readSchemaVersion = async (): Promise<number> => {
+  const { value } = await readRecord(META_KEY);
+  if (typeof value === 'object' && value !== null) {
+    const version = (value as { schemaVersion?: unknown }).schemaVersion;
+    if (typeof version === 'number' && Number.isInteger(version) && version >= 0) {
+      return version;
+    }
+  }
+  return 0;
+};
+
+/**
+ * ABRIR EL ALMACENAMIENTO
+ * 
+ * Hay que llamarla (y esperarla) una vez, antes de montar la app.
+ * Nunca se rechaza: en el peor caso la app funciona con datos en memoria.
+ * 
+ * @returns El estado del almacenamiento
+ */
+export const openStorage = async (): Promise<StorageStatus> => {
+  backend = await openBestBackend();
+  if (backend.name === 'memory') {
+    reportProblem('unavailable');
+  }
+
+  const storedVersion = await readSchemaVersion();
+
+  // Leer todos los registros; los corruptos se guardarán de nuevo con su
+  // valor por defecto
+  const raw: RawStorageData = {};
+  const corruptedKeys: StorageRecordKey[] = [];
+  for (const key of RECORD_KEYS) {
+    const { value, corrupted } = await readRecord(key);
+    if (corrupted) corruptedKeys.push(key);
+    if (value !== undefined) raw[key] = value;
+  }
+
+  // Datos de una versión más nueva de la app: se usa lo que se entienda,
+  // pero sin escribir nada para no estropearlos
+  if (storedVersion > STORAGE_SCHEMA_VERSION) {
+    reportProblem('newer-version', `versión ${storedVersion}, esta app conoce hasta la ${STORAGE_SCHEMA_VERSION}`);
+    data = sanitizeData(raw);
+    schemaVersion = storedVersion;
+    backend = createMemoryBackend();
+    return getStorageStatus();
+  }
+
+  let migrated = raw;
+  if (storedVersion < STORAGE_SCHEMA_VERSION) {
+    try {
+      migrated = runMigrations(raw, storedVersion);
+    } catch (error) {
+      // Los datos antiguos se quedan como están, por si una versión
+      // corregida de la app puede migrarlos
+      reportProblem('migration-failed', error);
+      data = createDefaultData();
+      schemaVersion = storedVersion;
+      backend = createMemoryBackend();
+      return getStorageStatus();
+    }
+  }
+
+  data = sanitizeData(migrated);
+  schemaVersion = STORAGE_SCHEMA_VERSION;
+
+  // Guardar los datos migrados (todos) o los registros reparados
+  const keysToSave = storedVersion < STORAGE_SCHEMA_VERSION ? RECORD_KEYS : corruptedKeys;
+  keysToSave.forEach(persist);
+  if (storedVersion < STORAGE_SCHEMA_VERSION) {
+    writeQueue = writeQueue.then(() => writeRecord(META_KEY, {
+      schemaVersion: STORAGE_SCHEMA_VERSION,
+      migratedAt: new Date().toISOString(),
+    }));
+  }
+  await writeQueue;
+
+  return getStorageStatus();
+};
+
+/**
+ * ESTADO DEL ALMACENAMIENTO
+ * 
+ * @returns Backend en uso, versión de los datos y problemas encontrados
+ */
+export const getStorageStatus = (): StorageStatus => ({
+  backend: backend.name,
+  schemaVersion,
+  problems: [...problems],
+});
+
+/**
+ * ESPERAR A QUE SE GUARDEN LOS CAMBIOS PENDIENTES
+ * Útil antes de exportar datos o cerrar sesión
+ */
+export const flushStorage = (): Promise<void> => writeQueue;
+
+// ============================================================================
+// SESIONES
+// ============================================================================
+
+/**
+ * OBTENER EL HISTORIAL DE SESIONES
+ * 
+ * @returns Las sesiones, de la más reciente a la más antigua
+ */
+export const getSessions = (): StoredSession[] => data.sessions;
+
+/**
+ * GUARDAR UNA SESIÓN TERMINADA
+ * Si ya existe una con el mismo id, se reemplaza
+ * 
+ * @param session - La sesión
+ */
+export const saveSession = (session: StoredSession) => {
+  const others = data.sessions.filter(saved => saved.id !== session.id);
+  data = { ...data, sessions: [session, ...others].slice(0, MAX_STORED_SESSIONS) };
+  persist('sessions');
+};
+
+/**
+ * BORRAR UNA SESIÓN DEL HISTORIAL
+ * 
+ * @param sessionId - Id de la sesión
+ */
+export const deleteSession = (sessionId: string) => {
+  data = { ...data, sessions: data.sessions.filter(session => session.id !== sessionId) };
+  persist('sessions');
+};
+
+// ============================================================================
+// PROGRESO DE REPASO
+// ============================================================================
+
+/**
+ * OBTENER EL PROGRESO DE REPASO
+ * 
+ * @returns Estado de memoria de cada palabra practicada, por id
+ */
+export const getProgress = (): Record<string, WordMemory> => data.progress;
+
+/**
+ * GUARDAR EL PROGRESO DE REPASO
+ * 
+ * @param progress - Los estados de memoria (reemplazan a los anteriores)
+ */
+export const saveProgress = (progress: Record<string, WordMemory>) => {
+  data = { ...data, progress };
+  persist('progress');
+};
+
+// ============================================================================
+// MAZOS
+// ============================================================================
+
+/**
+ * OBTENER LOS MAZOS
+ * 
+ * @returns Los mazos, en el orden en que se crearon
+ */
+export const getStoredDecks = (): WordDeck[] => data.decks;
+
+/**
+ * GUARDAR LOS MAZOS
+ * 
+ * @param decks - La lista completa (reemplaza a la anterior)
+ */
+export const saveStoredDecks = (decks: WordDeck[]) => {
+  data = { ...data, decks };
+  persist('decks');
+};
+
+// ============================================================================
+// PALABRAS IMPORTADAS
+// ============================================================================
+
+/**
+ * OBTENER LAS PALABRAS IMPORTADAS POR EL USUARIO
+ * 
+ * @returns Las palabras, en el orden en que se importaron
+ */
+export const getStoredUserWords = (): NormalizedLatinWord[] => data.userWords;
+
+/**
+ * GUARDAR LAS PALABRAS IMPORTADAS
+ * 
+ * @param words - La lista completa (reemplaza a la anterior)
+ */
+export const saveStoredUserWords = (words: NormalizedLatinWord[]) => {
+  data = { ...data, userWords: words };
+  persist('userWords');
+};
+
+// ============================================================================
+// PREFERENCIAS
+// ============================================================================
+
+/**
+ * OBTENER LAS PREFERENCIAS
+ * 
+ * @returns Las preferencias guardadas (o las de por defecto)
+ */
+export const getPreferences = (): StoredPreferences => data.preferences;
+
+/**
+ * GUARDAR PREFERENCIAS
+ * 
+ * @param changes - Solo las preferencias que cambian
+ */
+export const savePreferences = (changes: Partial<StoredPreferences>) => {
+  data = { ...data, preferences: { ...data.preferences, ...changes } };
+  persist('preferences');
+};
+
+// ============================================================================
+// GESTIÓN DE DATOS
+// ============================================================================
+
+/**
+ * BORRAR TODOS LOS DATOS
+ * Sesiones, progreso, mazos, palabras importadas y preferencias vuelven
+ * a su estado inicial
+ */
+export const clearAllData = () => {
+  data = createDefaultData();
+  RECORD_KEYS.forEach(persist);
+};
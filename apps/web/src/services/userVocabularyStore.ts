@@ -0,0 +1,78 @@
+/**
+ * USER VOCABULARY STORE
+ * 
+ * Guarda las palabras que el usuario importó y las
+ * entrega a vocabularyService, que las mezcla con el vocabulario de la app.
+ * Así las palabras importadas aparecen en la búsqueda, los filtros y los
+ * ejercicios igual que las demás.
+ * 
+ * FLUJO:
+ * 1. main.tsx llama a loadUserVocabulary() antes de montar la app
+ *    (después de openStorage)
+ * 2. El importador llama a addUserWords() con las filas válidas
+ * 3. Cada cambio se guarda y se vuelve a pasar a vocabularyService
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Persistencia: las palabras son un registro más del servicio de
+ *   almacenamiento (con sus migraciones y su control de cuota)
+ * - Fuente única: vocabularyService es quien tiene la lista completa;
+ *   este módulo solo la guarda y la recupera
+ */
+
+import type { NormalizedLatinWord } from '@latin-app/types';
+import { vocabularyService } from '@latin-app/data';
+
+import { getStoredUserWords, saveStoredUserWords } from './storage';
+
+/**
+ * FUNCIÓN HELPER: Guardar la lista y pasársela a vocabularyService
+ */
+const saveUserWords = (words: NormalizedLatinWord[]): void => {
+  vocabularyService.setUserWords(words);
+  saveStoredUserWords(vocabularyService.getUserWords());
+};
+
+/**
+ * CARGAR EL VOCABULARIO DEL USUARIO
+ * 
+ * Entrega a vocabularyService las palabras guardadas (el servicio de
+ * almacenamiento ya descartó las que no tienen la forma esperada).
+ * 
+ * @returns Las palabras cargadas
+ */
+export const loadUserVocabulary = (): NormalizedLatinWord[] => {
+  const words = getStoredUserWords();
+  vocabularyService.setUserWords(words);
+  console.log(`Vocabulario del usuario: ${words.length} palabras cargadas`);
+
+  return vocabularyService.getUserWords();
+};
+
+/**
+ * AÑADIR PALABRAS
+ * 
+ * @param words - Palabras nuevas (normalmente getImportableWords del importador)
+ * @returns La lista completa de palabras del usuario
+ */
+export const addUserWords = (words: NormalizedLatinWord[]): NormalizedLatinWord[] => {
+  saveUserWords([...vocabularyService.getUserWords(), ...words]);
+  return vocabularyService.getUserWords();
+};
+
+/**
+ * BORRAR UNA PALABRA
+ * 
+ * @param id - Id de la palabra (user_nauta_0001)
+ * @returns La lista completa de palabras del usuario
+ */
+export const removeUserWord = (id: string): NormalizedLatinWord[] => {
+  saveUserWords(vocabularyService.getUserWords().filter(word => word.id !== id));
+  return vocabularyService.getUserWords();
+};
+
+/**
+ * BORRAR TODAS LAS PALABRAS DEL USUARIO
+ */
+export const clearUserWords = (): void => {
+  saveUserWords([]);
+};
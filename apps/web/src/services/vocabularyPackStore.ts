@@ -0,0 +1,50 @@
+/**
+ * VOCABULARY PACK STORE
+ * 
+ * Guarda qué paquetes de vocabulario estudia el usuario (el vocabulario
+ * general, Wheelock...) y se los pide a vocabularyService, que los
+ * descarga la primera vez que hacen falta.
+ * 
+ * FLUJO:
+ * 1. main.tsx espera a loadVocabularyPacks() antes de montar la app
+ *    (después de openStorage: la elección es una preferencia guardada)
+ * 2. La página de vocabularios llama a setEnabledPacks() al activar o
+ *    desactivar un paquete
+ * 3. Cada cambio se guarda y vocabularyService rehace la lista de palabras
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - Carga diferida: cada paquete es un archivo aparte que solo se
+ *   descarga cuando se activa (import() dinámico en @latin-app/data)
+ * - async/await: cargar un paquete lleva tiempo, así que estas funciones
+ *   devuelven una Promise
+ */
+
+import { vocabularyService } from '@latin-app/data';
+
+import { getPreferences, savePreferences } from './storage';
+
+/**
+ * CARGAR LOS PAQUETES DEL USUARIO
+ * 
+ * Los ids que ya no existen se ignoran; si no queda ninguno,
+ * vocabularyService usa los paquetes por defecto.
+ * 
+ * @returns Los ids de los paquetes activos
+ */
+export const loadVocabularyPacks = (): Promise<string[]> =>
+  vocabularyService.loadPacks(getPreferences().enabledPackIds);
+
+/**
+ * CAMBIAR LOS PAQUETES ACTIVOS
+ * 
+ * Carga los paquetes nuevos y guarda la elección. Si la carga falla
+ * (sin conexión, por ejemplo), la Promise se rechaza y no se guarda nada.
+ * 
+ * @param ids - Los paquetes que se quieren estudiar
+ * @returns Los ids de los paquetes activos
+ */
+export const setEnabledPacks = async (ids: string[]): Promise<string[]> => {
+  const enabled = await vocabularyService.loadPacks(ids);
+  savePreferences({ enabledPackIds: enabled });
+  return enabled;
+};
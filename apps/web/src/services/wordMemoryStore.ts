@@ -0,0 +1,76 @@
+/**
+ * WORD MEMORY STORE
+ * 
+ * Guarda (con el servicio de almacenamiento) lo que el planificador de repasos
+ * (@latin-app/scheduler) sabe de cada palabra: estabilidad, dificultad
+ * y cuándo toca repasarla. Se actualiza con cada ejercicio respondido.
+ * 
+ * FLUJO:
+ * 1. DrillSessionComponent llama a recordReviewResult() con cada resultado
+ * 2. El planificador calcula el nuevo estado y aquí se guarda
+ * 3. Al configurar una sesión, getWordReviewQueues() separa las palabras
+ *    en "para repasar", "aprendiendo" y "nuevas"
+ * 
+ * CONCEPTOS IMPORTANTES:
+ * - El servicio de almacenamiento guarda y valida el progreso; aquí solo
+ *   se combina con el planificador y el vocabulario
+ * - Objeto por id: { word_rosa_0001: {...} } se guarda tal cual y se
+ *   consulta sin recorrer ninguna lista
+ */
+
+import type { LatinPronoun, ReviewQueues, ReviewResult, VocabularyEntry } from '@latin-app/types';
+import { vocabularyService } from '@latin-app/data';
+import { applyReviewResult, getReviewQueues } from '@latin-app/scheduler';
+import type { WordMemoryMap } from '@latin-app/scheduler';
+
+import { getProgress, saveProgress } from './storage';
+
+/**
+ * OBTENER LOS ESTADOS DE MEMORIA
+ * 
+ * @returns Los estados, por id de palabra
+ */
+export const getWordMemories = (): WordMemoryMap => getProgress();
+
+/**
+ * REGISTRAR EL RESULTADO DE UN EJERCICIO
+ * 
+ * Los ejercicios saltados no cambian nada (el planificador los ignora).
+ * 
+ * @param result - El resultado, con el id de la palabra
+ * @returns Los estados actualizados
+ */
+export const recordReviewResult = (result: ReviewResult): WordMemoryMap => {
+  const memories = getWordMemories();
+  const updated = applyReviewResult(memories, result);
+  if (updated === memories) return memories;
+
+  saveProgress(updated);
+  return updated;
+};
+
+/**
+ * COLAS DE REPASO DE TODO EL VOCABULARIO
+ * 
+ * Incluye las palabras de los paquetes activos, las importadas
+ * y los pronombres.
+ * 
+ * @returns Los ids de cada cola
+ */
+export const getWordReviewQueues = (): ReviewQueues => {
+  const wordIds = [
+    ...vocabularyService.getAllWords().map(word => word.id),
+    ...vocabularyService.getPronouns().map(pronoun => pronoun.id),
+  ];
+  return getReviewQueues(wordIds, getWordMemories());
+};
+
+/**
+ * PALABRAS DE UNA COLA
+ * Traduce los ids a palabras, saltando los que ya no existen
+ * 
+ * @param wordIds - Ids de una de las colas
+ * @returns Las palabras, en el orden de la cola
+ */
+export const getQueueWords = (wordIds: string[]): (VocabularyEntry | LatinPronoun)[] =>
+  vocabularyService.getWordsAndPronounsByIds(wordIds);
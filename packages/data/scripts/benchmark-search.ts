@@ -0,0 +1,171 @@
+/**
+ * SEARCH BENCHMARK
+ * 
+ * Compares the indexed search in VocabularyService with the previous
+ * implementation, which normalized every field of every word on each call.
+ * 
+ * It also checks that both return EXACTLY the same results (same words,
+ * same order, same scores), so the index is a pure speedup.
+ * 
+ * Run it from the repository root with:
+ *   npm run benchmark:search --workspace=@latin-app/data
+ * 
+ * The script is bundled with esbuild (it's TypeScript and imports the
+ * workspace packages) and piped straight into node.
+ */
+
+import type { FormAnalysis, VocabularyEntry, WordSearchResult } from '@latin-app/types';
+import {
+  compareStrings,
+  fuzzySearchScore,
+  stringIncludes,
+  stringStartsWith
+} from '@latin-app/shared';
+
+import { vocabularyService } from '../src';
+
+// What the user types, keystroke by keystroke, plus some typos and inflected forms
+const QUERIES = [
+  'a', 'am', 'ami', 'amic', 'amici', 'amicit', 'amiciti', 'amicitia',
+  'agricla', 'amistd', 'dominorum', 'rosae', 'agua', 'ciudad', 'tiempo', 'rex'
+];
+
+// How many times each query is repeated (more runs = more stable numbers)
+const RUNS = 20;
+
+/**
+ * The old filterWords search: normalizes every field on every call
+ */
+function legacyFilter(words: VocabularyEntry[], searchText: string): VocabularyEntry[] {
+  const searchTerm = searchText.trim();
+  return words.filter(word =>
+    stringIncludes(word.nominative, searchTerm) ||
+    stringIncludes(word.genitive, searchTerm) ||
+    stringIncludes(word.spanishTranslation, searchTerm) ||
+    word.additionalMeanings.some(meaning => stringIncludes(meaning, searchTerm))
+  );
+}
+
+/**
+ * The old searchWordsWithMatches: same scoring, normalizing on every call
+ */
+function legacySearch(words: VocabularyEntry[], searchText: string): WordSearchResult[] {
+  const searchTerm = searchText.trim();
+
+  const formMatches = new Map<string, FormAnalysis[]>();
+  vocabularyService.analyzeForm(searchTerm).forEach(analysis => {
+    const analyses = formMatches.get(analysis.wordId) ?? [];
+    analyses.push(analysis);
+    formMatches.set(analysis.wordId, analyses);
+  });
+
+  return words
+    .map(word => {
+      let score = 0;
+      let matchedForms: FormAnalysis[] = [];
+
+      if (compareStrings(word.nominative, searchTerm)) {
+        score += 100;
+      } else if (formMatches.has(word.id)) {
+        score += 60;
+        matchedForms = formMatches.get(word.id) ?? [];
+      } else if (stringStartsWith(word.nominative, searchTerm)) {
+        score += 50;
+      } else if (stringIncludes(word.nominative, searchTerm)) {
+        score += 25;
+      } else {
+        score += Math.round(fuzzySearchScore(searchTerm, word.nominative) * 50);
+      }
+
+      if (compareStrings(word.spanishTranslation, searchTerm)) {
+        score += 75;
+      } else if (stringIncludes(word.spanishTranslation, searchTerm)) {
+        score += 20;
+      } else {
+        score += Math.round(fuzzySearchScore(searchTerm, word.spanishTranslation) * 40);
+      }
+
+      if (stringIncludes(word.genitive, searchTerm)) {
+        score += 15;
+      }
+
+      if (word.additionalMeanings.some(m => stringIncludes(m, searchTerm))) {
+        score += 10;
+      } else if (word.additionalMeanings.length > 0) {
+        const bestMeaning = Math.max(
+          ...word.additionalMeanings.map(m => fuzzySearchScore(searchTerm, m))
+        );
+        score += Math.round(bestMeaning * 20);
+      }
+
+      return { word, score, matchedForms };
+    })
+    .filter(result => result.score > 0)
+    .sort((a, b) => b.score - a.score);
+}
+
+/**
+ * Run a function RUNS times per query and return the average milliseconds per call
+ */
+function measure(run: (query: string) => unknown): number {
+  // Warm-up run, so the JIT compiler and the lazy form index don't skew the numbers
+  QUERIES.forEach(run);
+
+  const start = performance.now();
+  for (let i = 0; i < RUNS; i++) {
+    QUERIES.forEach(run);
+  }
+  return (performance.now() - start) / (RUNS * QUERIES.length);
+}
+
+/**
+ * Turn search results into a comparable string (ids and scores, in order)
+ */
+function fingerprint(results: Array<VocabularyEntry | WordSearchResult>): string {
+  return results
+    .map(result => ('score' in result ? `${result.word.id}:${result.score}` : result.id))
+    .join(',');
+}
+
+// The vocabulary packs load asynchronously, and esbuild outputs CommonJS
+// (no top-level await), so the benchmark runs once they're ready
+function runBenchmark(): void {
+  const words = vocabularyService.getAllWords();
+
+  // 1. Same results?
+  const mismatches = QUERIES.filter(query =>
+    fingerprint(legacyFilter(words, query)) !==
+      fingerprint(vocabularyService.filterWords({ searchText: query })) ||
+    fingerprint(legacySearch(words, query)) !==
+      fingerprint(vocabularyService.searchWordsWithMatches(query))
+  );
+
+  if (mismatches.length > 0) {
+    console.error(`Results differ for: ${mismatches.join(', ')}`);
+    process.exit(1);
+  }
+
+  // 2. How much faster?
+  const rows = [
+    {
+      api: 'filterWords',
+      legacy: measure(query => legacyFilter(words, query)),
+      indexed: measure(query => vocabularyService.filterWords({ searchText: query })),
+    },
+    {
+      api: 'searchWords',
+      legacy: measure(query => legacySearch(words, query)),
+      indexed: measure(query => vocabularyService.searchWordsWithMatches(query)),
+    },
+  ];
+
+  console.log(`${words.length} words, ${QUERIES.length} queries x ${RUNS} runs - results identical`);
+  console.table(rows.map(row => ({
+    api: row.api,
+    'before (ms/call)': row.legacy.toFixed(3),
+    'after (ms/call)': row.indexed.toFixed(3),
+    speedup: `${(row.legacy / row.indexed).toFixed(1)}x`,
+  })));
+}
+
+vocabularyService.loadPacks().then(runBenchmark);
@@ -0,0 +1,52 @@
+/**
+ * VOCABULARY VALIDATION COMMAND
+ * 
+ * Checks vocabulary-normalized.json (the 'core' pack) with
+ * validateVocabulary() and prints the report as JSON, so it can be read
+ * by CI or piped into jq. Other packs (see src/packs.ts) are checked by
+ * passing their file:
+ * 
+ *   npm run -s validate:vocabulary --workspace=@latin-app/data
+ *   npm run -s validate:vocabulary --workspace=@latin-app/data -- ../../vocabulary-wheelock.json
+ * 
+ * A short summary goes to stderr, so stdout stays valid JSON.
+ * The exit code is 1 when the report has errors (warnings don't fail),
+ * so bad entries are caught before release.
+ * 
+ * Like the search benchmark, the script is bundled with esbuild and piped
+ * into node ("node -" reads the script from stdin and passes any extra
+ * arguments on to it).
+ */
+
+import { readFileSync } from 'node:fs';
+import { resolve } from 'node:path';
+
+import { validateVocabulary, type RawVocabularyEntry } from '../src/vocabularyValidator';
+
+// npm runs workspace scripts from the package folder, so the default
+// path goes up to the repository root
+const DEFAULT_PATH = '../../vocabulary-normalized.json';
+
+const path = resolve(process.argv[2] ?? DEFAULT_PATH);
+
+let entries: RawVocabularyEntry[];
+try {
+  entries = JSON.parse(readFileSync(path, 'utf-8'));
+} catch (error) {
+  console.error(`Could not read ${path}: ${(error as Error).message}`);
+  process.exit(2);
+}
+
+if (!Array.isArray(entries)) {
+  console.error(`${path} must contain an array of words`);
+  process.exit(2);
+}
+
+const report = validateVocabulary(entries);
+
+console.log(JSON.stringify({ file: path, ...report }, null, 2));
+console.error(
+  `${report.totalWords} words: ${report.errorCount} errors, ${report.warningCount} warnings`
+);
+
+process.exit(report.valid ? 0 : 1);
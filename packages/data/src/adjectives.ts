@@ -0,0 +1,213 @@
+/**
+ * ADJECTIVES - PARADIGM GENERATOR
+ * 
+ * An adjective is declined like a noun, but three times: once for each
+ * gender, because it agrees with the noun it describes
+ * (bonus dominus, bona puella, bonum templum).
+ * 
+ * There are only two patterns:
+ * 
+ * 1. 1st/2nd DECLENSION (bonus, bona, bonum / pulcher, pulchra, pulchrum)
+ *    masculine like dominus (or puer), feminine like rosa, neuter like bellum
+ * 
+ * 2. 3rd DECLENSION, always with i-stem endings (ablative -ī, genitive
+ *    plural -ium, neuter plural -ia). By how many nominatives they list:
+ *    - three terminations: ācer, ācris, ācre
+ *    - two terminations:   fortis, forte
+ *    - one termination:    fēlīx, fēlīcis
+ * 
+ * Like morphology.ts, this is a pure "calculator": dictionary entry in,
+ * full table out. Forms are returned in lowercase.
+ * 
+ * NOT COVERED (yet): the "ūnus nauta" adjectives with genitive -īus
+ * (ūnus, sōlus, tōtus...) and the few consonant-stem 3rd declension
+ * adjectives (vetus, pauper, dīves), which take -e, -um and -a.
+ */
+
+import type {
+  AdjectiveGender,
+  AdjectiveLemma,
+  AdjectiveParadigm,
+  CaseForms,
+  GrammaticalNumber,
+  LatinCase,
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+/**
+ * The three genders, in the order a grammar table lists them
+ */
+export const ADJECTIVE_GENDERS: AdjectiveGender[] = ['masculine', 'feminine', 'neuter'];
+
+/**
+ * Genitive singular ending of each adjective class
+ * (with or without macron, like the noun endings in morphology.ts)
+ */
+const GENITIVE_ENDINGS: Record<AdjectiveLemma['declension'], RegExp> = {
+  '1st-2nd': /[iī]$/,
+  '3rd': /[iī]s$/,
+};
+
+/**
+ * Helper: Build the CaseForms object from a stem and a list of endings
+ * [nominative, genitive, dative, accusative, ablative, vocative]
+ */
+function buildForms(stem: string, endings: string[]): CaseForms {
+  return {
+    nominative: stem + endings[0],
+    genitive: stem + endings[1],
+    dative: stem + endings[2],
+    accusative: stem + endings[3],
+    ablative: stem + endings[4],
+    vocative: stem + endings[5],
+  };
+}
+
+/**
+ * Get the stem of an adjective from its genitive
+ * 
+ * @param {AdjectiveLemma} adjective - The dictionary entry
+ * @returns {string | null} The stem, or null if the genitive doesn't match the class
+ * 
+ * EXAMPLES:
+ * - bonus, bonī → "bon"
+ * - pulcher, pulchrī → "pulchr"
+ * - fēlīx, fēlīcis → "fēlīc"
+ */
+export function getAdjectiveStem(adjective: AdjectiveLemma): string | null {
+  const genitive = adjective.genitive.trim().toLowerCase();
+  const ending = GENITIVE_ENDINGS[adjective.declension];
+
+  if (!ending || !ending.test(genitive)) {
+    return null;
+  }
+
+  return genitive.replace(ending, '');
+}
+
+/**
+ * 1st/2nd DECLENSION (bonus, bona, bonum / līber, lībera, līberum)
+ */
+function declineFirstSecond(adjective: AdjectiveLemma, stem: string): AdjectiveParadigm {
+  const nominative = adjective.nominative.trim().toLowerCase();
+
+  const masculineSingular = buildForms(stem, ['us', 'i', 'o', 'um', 'o', 'e']);
+  masculineSingular.nominative = nominative;
+  // Only the -us adjectives have a vocative in -e (bone); pulcher stays pulcher
+  if (!normalizeForSearch(nominative).endsWith('us')) {
+    masculineSingular.vocative = nominative;
+  }
+
+  const feminineSingular = buildForms(stem, ['a', 'ae', 'ae', 'am', 'a', 'a']);
+  if (adjective.feminine) {
+    feminineSingular.nominative = adjective.feminine.trim().toLowerCase();
+    feminineSingular.vocative = feminineSingular.nominative;
+  }
+
+  const neuterSingular = buildForms(stem, ['um', 'i', 'o', 'um', 'o', 'um']);
+  if (adjective.neuter) {
+    const neuter = adjective.neuter.trim().toLowerCase();
+    neuterSingular.nominative = neuter;
+    neuterSingular.accusative = neuter;
+    neuterSingular.vocative = neuter;
+  }
+
+  return {
+    masculine: {
+      singular: masculineSingular,
+      plural: buildForms(stem, ['i', 'orum', 'is', 'os', 'is', 'i']),
+    },
+    feminine: {
+      singular: feminineSingular,
+      plural: buildForms(stem, ['ae', 'arum', 'is', 'as', 'is', 'ae']),
+    },
+    neuter: {
+      singular: neuterSingular,
+      plural: buildForms(stem, ['a', 'orum', 'is', 'a', 'is', 'a']),
+    },
+  };
+}
+
+/**
+ * 3rd DECLENSION (ācer, ācris, ācre / fortis, forte / fēlīx, fēlīcis)
+ * 
+ * Masculine and feminine only differ in the nominative and vocative
+ * singular of the three-termination adjectives (ācer / ācris).
+ * The neuter has nominative = accusative = vocative, plural in -ia.
+ */
+function declineThird(adjective: AdjectiveLemma, stem: string): AdjectiveParadigm {
+  const masculine = adjective.nominative.trim().toLowerCase();
+  // Two and one termination: the feminine is the same as the masculine
+  const feminine = adjective.terminations === 3 && adjective.feminine
+    ? adjective.feminine.trim().toLowerCase()
+    : masculine;
+  // One termination: the neuter is the same too (fēlīx)
+  const neuter = adjective.neuter ? adjective.neuter.trim().toLowerCase() : masculine;
+
+  const masculineFeminine = (nominative: string) => {
+    const singular = buildForms(stem, ['', 'is', 'i', 'em', 'i', '']);
+    singular.nominative = nominative;
+    singular.vocative = nominative;
+    return {
+      singular,
+      plural: buildForms(stem, ['es', 'ium', 'ibus', 'es', 'ibus', 'es']),
+    };
+  };
+
+  const neuterSingular = buildForms(stem, ['', 'is', 'i', '', 'i', '']);
+  neuterSingular.nominative = neuter;
+  neuterSingular.accusative = neuter;
+  neuterSingular.vocative = neuter;
+
+  return {
+    masculine: masculineFeminine(masculine),
+    feminine: masculineFeminine(feminine),
+    neuter: {
+      singular: neuterSingular,
+      plural: buildForms(stem, ['ia', 'ium', 'ibus', 'ia', 'ibus', 'ia']),
+    },
+  };
+}
+
+/**
+ * Generate the full paradigm of an adjective
+ * 
+ * @param {AdjectiveLemma} adjective - The dictionary entry (a LatinAdjective works too)
+ * @returns {AdjectiveParadigm | null} One table per gender, or null if the
+ *   genitive doesn't match the declension (bad data)
+ * 
+ * EXAMPLE:
+ * generateAdjectiveParadigm({ nominative: 'bonus', feminine: 'bona', neuter: 'bonum',
+ *                             genitive: 'bonī', declension: '1st-2nd', terminations: 3 })
+ * → { masculine: { singular: { nominative: 'bonus', genitive: 'boni', ... }, plural: {...} },
+ *     feminine: { singular: { nominative: 'bona', ... }, ... },
+ *     neuter: { ... } }
+ */
+export function generateAdjectiveParadigm(adjective: AdjectiveLemma): AdjectiveParadigm | null {
+  const stem = getAdjectiveStem(adjective);
+  if (stem === null) {
+    return null;
+  }
+
+  return adjective.declension === '1st-2nd'
+    ? declineFirstSecond(adjective, stem)
+    : declineThird(adjective, stem);
+}
+
+/**
+ * Get a single form from an adjective paradigm
+ * 
+ * @param {AdjectiveParadigm} paradigm - The paradigm
+ * @param {AdjectiveGender} gender - The gender of the noun it agrees with
+ * @param {GrammaticalNumber} number - Singular or plural
+ * @param {LatinCase} grammaticalCase - The case
+ * @returns {string | undefined} The form (undefined for the locative)
+ */
+export function getAdjectiveForm(
+  paradigm: AdjectiveParadigm,
+  gender: AdjectiveGender,
+  number: GrammaticalNumber,
+  grammaticalCase: LatinCase
+): string | undefined {
+  return paradigm[gender][number]?.[grammaticalCase];
+}
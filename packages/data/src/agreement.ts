@@ -0,0 +1,181 @@
+/**
+ * NOUN-ADJECTIVE AGREEMENT
+ * 
+ * An adjective takes the gender, number and case of the noun it goes with:
+ *   bellum (neuter, singular, nominative) + magnus → bellum magnum
+ *   agricolae (masculine, plural, nominative) + bonus → agricolae bonī
+ * 
+ * Agreement is about gender, number and case - NOT about endings.
+ * agricola is a 1st declension noun but masculine, so its adjective takes
+ * the masculine endings: agricola bonus, never "agricola bona".
+ * 
+ * checkAgreement() grades an answer and, when it's wrong, says WHICH of
+ * the three features doesn't agree, so the drill can explain the mistake
+ * ("magnus is masculine, but bellum is neuter").
+ * 
+ * Answers are compared with normalizeForSearch (macrons and capitals are
+ * ignored): the adjective paradigms are generated without vowel lengths.
+ */
+
+import type {
+  AdjectiveGender,
+  AdjectiveLemma,
+  AdjectiveParadigm,
+  AgreementCheck,
+  AgreementFeature,
+  AgreementReading,
+  AgreementTarget,
+  GrammaticalNumber,
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+import { ADJECTIVE_GENDERS, generateAdjectiveParadigm } from './adjectives';
+import { DECLINED_CASES } from './morphology';
+
+const NUMBERS: GrammaticalNumber[] = ['singular', 'plural'];
+
+/**
+ * Helper: The adjective genders that agree with a noun gender
+ * (a 'common' noun like cīvis takes either masculine or feminine)
+ */
+function getAgreeingGenders(gender: AgreementTarget['gender']): AdjectiveGender[] {
+  return gender === 'common' ? ['masculine', 'feminine'] : [gender];
+}
+
+/**
+ * Helper: The forms of a paradigm that agree with one target
+ */
+function getTargetForms(paradigm: AdjectiveParadigm, target: AgreementTarget): string[] {
+  return getAgreeingGenders(target.gender)
+    .map(gender => paradigm[gender][target.number]?.[target.case])
+    .filter((form): form is string => Boolean(form));
+}
+
+/**
+ * Helper: Which features of a reading don't agree with a target
+ */
+function getMismatches(reading: AgreementReading, target: AgreementTarget): AgreementFeature[] {
+  const mismatches: AgreementFeature[] = [];
+
+  if (!getAgreeingGenders(target.gender).includes(reading.gender)) {
+    mismatches.push('gender');
+  }
+  if (reading.number !== target.number) {
+    mismatches.push('number');
+  }
+  if (reading.case !== target.case) {
+    mismatches.push('case');
+  }
+
+  return mismatches;
+}
+
+/**
+ * Get the forms of an adjective that agree with a noun
+ * 
+ * @param {AdjectiveLemma} adjective - The adjective's dictionary entry
+ * @param {AgreementTarget} target - Gender, number and case of the noun
+ * @returns {string[]} The agreeing forms (two for 'common' nouns when
+ *   masculine and feminine differ), or [] if the adjective can't be declined
+ * 
+ * EXAMPLE:
+ * getAgreeingForms(magnus, { gender: 'neuter', number: 'singular', case: 'nominative' })
+ * → ['magnum']
+ */
+export function getAgreeingForms(adjective: AdjectiveLemma, target: AgreementTarget): string[] {
+  const paradigm = generateAdjectiveParadigm(adjective);
+  return paradigm ? [...new Set(getTargetForms(paradigm, target))] : [];
+}
+
+/**
+ * Find every reading of a form in an adjective's paradigm
+ * 
+ * @param {AdjectiveLemma} adjective - The adjective's dictionary entry
+ * @param {string} form - Any form (macrons and capitals are ignored)
+ * @returns {AgreementReading[]} Gender, number and case of each match
+ * 
+ * EXAMPLE:
+ * analyzeAdjectiveForm(bonus, 'bonae')
+ * → feminine genitive singular, feminine dative singular,
+ *   feminine nominative plural, feminine vocative plural
+ */
+export function analyzeAdjectiveForm(adjective: AdjectiveLemma, form: string): AgreementReading[] {
+  const paradigm = generateAdjectiveParadigm(adjective);
+  const normalized = normalizeForSearch(form);
+  const readings: AgreementReading[] = [];
+
+  if (!paradigm || !normalized) {
+    return readings;
+  }
+
+  ADJECTIVE_GENDERS.forEach(gender => {
+    NUMBERS.forEach(number => {
+      DECLINED_CASES.forEach(grammaticalCase => {
+        const candidate = paradigm[gender][number]?.[grammaticalCase];
+        if (candidate && normalizeForSearch(candidate) === normalized) {
+          readings.push({ gender, number, case: grammaticalCase });
+        }
+      });
+    });
+  });
+
+  return readings;
+}
+
+/**
+ * Grade an agreement answer
+ * 
+ * The answer is correct if it agrees with ANY of the targets, because a
+ * noun form can have several readings: "templa" is nominative or
+ * accusative plural, and "magna" agrees with both.
+ * 
+ * When the answer is wrong but is a form of the adjective, we look for
+ * the reading and target that differ in the fewest features: that's most
+ * likely what the learner meant, and its mismatches explain the mistake.
+ * 
+ * @param {string} answer - What the learner typed
+ * @param {AdjectiveLemma} adjective - The adjective's dictionary entry
+ * @param {AgreementTarget[]} targets - Every reading of the noun form
+ * @returns {AgreementCheck} The grade, the correct forms and the mismatches
+ * 
+ * EXAMPLE:
+ * checkAgreement('magnus', magnus, [{ gender: 'neuter', number: 'singular', case: 'nominative' }])
+ * → { correct: false, expectedForms: ['magnum'], mismatches: ['gender'], ... }
+ */
+export function checkAgreement(
+  answer: string,
+  adjective: AdjectiveLemma,
+  targets: AgreementTarget[]
+): AgreementCheck {
+  const paradigm = generateAdjectiveParadigm(adjective);
+  if (!paradigm) {
+    return { correct: false, expectedForms: [], answerReadings: [], mismatches: [] };
+  }
+
+  const expectedForms = [...new Set(targets.flatMap(target => getTargetForms(paradigm, target)))];
+  const normalized = normalizeForSearch(answer);
+  const correct = expectedForms.some(form => normalizeForSearch(form) === normalized);
+  const answerReadings = analyzeAdjectiveForm(adjective, answer);
+
+  if (correct || answerReadings.length === 0 || targets.length === 0) {
+    return { correct, expectedForms, answerReadings, mismatches: [] };
+  }
+
+  // The closest (reading, target) pair
+  let closestReading = answerReadings[0];
+  let closestTarget = targets[0];
+  let mismatches = getMismatches(closestReading, closestTarget);
+
+  for (const reading of answerReadings) {
+    for (const target of targets) {
+      const candidate = getMismatches(reading, target);
+      if (candidate.length < mismatches.length) {
+        closestReading = reading;
+        closestTarget = target;
+        mismatches = candidate;
+      }
+    }
+  }
+
+  return { correct, expectedForms, answerReadings, mismatches, closestReading, closestTarget };
+}
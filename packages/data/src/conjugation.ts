@@ -0,0 +1,254 @@
+/**
+ * CONJUGATION ENGINE - VERB FORMS FROM THE PRINCIPAL PARTS
+ * 
+ * Like morphology.ts does for nouns, this is a pure "calculator":
+ * the four principal parts in, every indicative active form out.
+ * 
+ * A Latin verb has two stems, and each builds three tenses:
+ * 
+ * 1. PRESENT STEM (from the present and the infinitive)
+ *    - present:    amō, amās, amat...
+ *    - imperfect:  amābam, amābās...      (stem + bam)
+ *    - future:     amābō, amābis...       (1st/2nd: stem + bō)
+ *                  regam, regēs...        (3rd/4th: stem + am, ēs)
+ * 
+ * 2. PERFECT STEM (the perfect without its -ī: amāv-)
+ *    - perfect:       amāvī, amāvistī...
+ *    - pluperfect:    amāveram...         (stem + eram, the imperfect of sum)
+ *    - futurePerfect: amāverō...          (stem + erō, the future of sum)
+ *    These endings are the SAME for every conjugation.
+ * 
+ * Forms are returned in lowercase and without macrons, like the noun
+ * paradigms.
+ * 
+ * NOT COVERED (yet): irregular verbs (sum, possum, eō, volō, ferō),
+ * deponents (loquor), the subjunctive and the passive.
+ */
+
+import type {
+  GrammaticalNumber,
+  TenseForms,
+  VerbLemma,
+  VerbParadigm,
+  VerbPerson,
+  VerbTense,
+} from '@latin-app/types';
+import { stripMacrons } from '@latin-app/shared';
+
+/**
+ * The six tenses, in the order a grammar table lists them
+ */
+export const VERB_TENSES: VerbTense[] = [
+  'present',
+  'imperfect',
+  'future',
+  'perfect',
+  'pluperfect',
+  'futurePerfect',
+];
+
+/**
+ * The three persons, in the order a student recites them
+ */
+export const VERB_PERSONS: VerbPerson[] = ['first', 'second', 'third'];
+
+/**
+ * Infinitive ending of each conjugation (without macrons)
+ * 
+ * 2nd and 3rd both end in -ere once the macron is gone (monēre / regere),
+ * so the conjugation has to come from the data, not from the infinitive.
+ */
+const INFINITIVE_ENDINGS: Record<VerbLemma['conjugation'], RegExp> = {
+  '1st': /are$/,
+  '2nd': /ere$/,
+  '3rd': /ere$/,
+  '3rd-io': /ere$/,
+  '4th': /ire$/,
+};
+
+/**
+ * Present stems: what we add the endings to
+ */
+interface PresentStems {
+  // Stem for the present, e.g. "ama", "mone", "reg", "cap", "aud"
+  present: string;
+  // Stem for the imperfect and future, e.g. "ama", "mone", "reg", "capi", "audi"
+  imperfect: string;
+}
+
+/**
+ * Helper: Plain lowercase form (amāre → amare)
+ */
+function plain(form: string): string {
+  return stripMacrons(form).trim().toLowerCase();
+}
+
+/**
+ * Helper: Build the TenseForms object from a stem and six endings
+ * [1st sg, 2nd sg, 3rd sg, 1st pl, 2nd pl, 3rd pl]
+ */
+function buildTense(stem: string, endings: string[]): TenseForms {
+  return {
+    singular: { first: stem + endings[0], second: stem + endings[1], third: stem + endings[2] },
+    plural: { first: stem + endings[3], second: stem + endings[4], third: stem + endings[5] },
+  };
+}
+
+/**
+ * Get the present stems of a verb
+ * 
+ * @param {VerbLemma} verb - The principal parts and conjugation
+ * @returns {PresentStems | null} The stems, or null if the principal
+ *   parts don't match the conjugation (bad data)
+ * 
+ * EXAMPLES:
+ * - amō, amāre (1st)    → present "ama", imperfect "ama"
+ * - regō, regere (3rd)  → present "reg", imperfect "reg"
+ * - capiō, capere (3rd-io) → present "cap", imperfect "capi"
+ */
+function getPresentStems(verb: VerbLemma): PresentStems | null {
+  const present = plain(verb.present);
+  const infinitive = plain(verb.infinitive);
+
+  if (!INFINITIVE_ENDINGS[verb.conjugation].test(infinitive)) {
+    return null;
+  }
+
+  switch (verb.conjugation) {
+    case '1st':
+    case '2nd': {
+      // The infinitive without -re keeps the theme vowel: amā-re, monē-re
+      const stem = infinitive.slice(0, -2);
+      return { present: stem, imperfect: stem };
+    }
+    case '3rd': {
+      if (!present.endsWith('o')) {
+        return null;
+      }
+      const stem = present.slice(0, -1);
+      return { present: stem, imperfect: stem };
+    }
+    case '3rd-io':
+    case '4th': {
+      if (!present.endsWith('io')) {
+        return null;
+      }
+      const stem = present.slice(0, -2);
+      return { present: stem, imperfect: stem + 'i' };
+    }
+  }
+}
+
+/**
+ * Get the perfect stem of a verb (the perfect without its final -ī)
+ * 
+ * @param {VerbLemma} verb - The principal parts
+ * @returns {string | null} The stem, or null if the perfect doesn't end in -ī
+ * 
+ * EXAMPLES:
+ * - amāvī → "amav"
+ * - rēxī → "rex"
+ */
+export function getPerfectStem(verb: VerbLemma): string | null {
+  const perfect = plain(verb.perfect);
+  return perfect.endsWith('i') && perfect.length > 1 ? perfect.slice(0, -1) : null;
+}
+
+/**
+ * Helper: The present tense, which has the most irregular endings
+ */
+function conjugatePresent(verb: VerbLemma, stem: string): TenseForms {
+  const firstPerson = plain(verb.present);
+
+  switch (verb.conjugation) {
+    case '1st':
+      // amō (not "amao"), then ama-s, ama-t...
+      return buildTense('', [firstPerson, stem + 's', stem + 't', stem + 'mus', stem + 'tis', stem + 'nt']);
+    case '2nd':
+      // mone-ō, mone-s, mone-t...
+      return buildTense(stem, ['o', 's', 't', 'mus', 'tis', 'nt']);
+    case '3rd':
+      // reg-ō, reg-is, reg-it, reg-imus, reg-itis, reg-unt
+      return buildTense(stem, ['o', 'is', 'it', 'imus', 'itis', 'unt']);
+    case '3rd-io':
+    case '4th':
+      // cap-iō, cap-is, cap-it, cap-imus, cap-itis, cap-iunt
+      // aud-iō, aud-īs, aud-it, aud-īmus, aud-ītis, aud-iunt (same letters, longer vowels)
+      return buildTense(stem, ['io', 'is', 'it', 'imus', 'itis', 'iunt']);
+  }
+}
+
+/**
+ * Helper: The future, which has two patterns
+ * - 1st and 2nd: -bō, -bis, -bit (amābō)
+ * - 3rd and 4th: -am, -ēs, -et (regam, capiam, audiam)
+ */
+function conjugateFuture(verb: VerbLemma, stem: string): TenseForms {
+  return verb.conjugation === '1st' || verb.conjugation === '2nd'
+    ? buildTense(stem, ['bo', 'bis', 'bit', 'bimus', 'bitis', 'bunt'])
+    : buildTense(stem, ['am', 'es', 'et', 'emus', 'etis', 'ent']);
+}
+
+/**
+ * Generate every indicative active form of a verb
+ * 
+ * @param {VerbLemma} verb - The principal parts and conjugation (a LatinVerb works too)
+ * @returns {VerbParadigm | null} The six tenses, or null if the principal
+ *   parts don't match the conjugation (bad data)
+ * 
+ * EXAMPLE:
+ * conjugateVerb({ present: 'amō', infinitive: 'amāre', perfect: 'amāvī',
+ *                 supine: 'amātum', conjugation: '1st' })
+ * → { present: { singular: { first: 'amo', second: 'amas', third: 'amat' }, plural: {...} },
+ *     imperfect: { singular: { first: 'amabam', ... } }, ... }
+ */
+export function conjugateVerb(verb: VerbLemma): VerbParadigm | null {
+  const stems = getPresentStems(verb);
+  const perfectStem = getPerfectStem(verb);
+  if (!stems || perfectStem === null) {
+    return null;
+  }
+
+  // 3rd conjugation imperfect takes a linking -ē-: reg-ēbam, capi-ēbam, audi-ēbam
+  const imperfectStem = verb.conjugation === '1st' || verb.conjugation === '2nd'
+    ? stems.imperfect
+    : stems.imperfect + 'e';
+
+  return {
+    present: conjugatePresent(verb, stems.present),
+    imperfect: buildTense(imperfectStem, ['bam', 'bas', 'bat', 'bamus', 'batis', 'bant']),
+    future: conjugateFuture(verb, stems.imperfect),
+    perfect: buildTense(perfectStem, ['i', 'isti', 'it', 'imus', 'istis', 'erunt']),
+    pluperfect: buildTense(perfectStem, ['eram', 'eras', 'erat', 'eramus', 'eratis', 'erant']),
+    futurePerfect: buildTense(perfectStem, ['ero', 'eris', 'erit', 'erimus', 'eritis', 'erint']),
+  };
+}
+
+/**
+ * Get a single form from a verb paradigm
+ * 
+ * @param {VerbParadigm} paradigm - The paradigm
+ * @param {VerbTense} tense - The tense
+ * @param {GrammaticalNumber} number - Singular or plural
+ * @param {VerbPerson} person - First, second or third person
+ * @returns {string} The form
+ */
+export function getVerbForm(
+  paradigm: VerbParadigm,
+  tense: VerbTense,
+  number: GrammaticalNumber,
+  person: VerbPerson
+): string {
+  return paradigm[tense][number][person];
+}
+
+/**
+ * Get the principal parts of a verb as the dictionary prints them
+ * 
+ * @param {VerbLemma} verb - The verb
+ * @returns {string[]} amō, amāre, amāvī, amātum (three parts when there's no supine)
+ */
+export function getPrincipalParts(verb: VerbLemma): string[] {
+  return [verb.present, verb.infinitive, verb.perfect, verb.supine]
+    .filter((part): part is string => Boolean(part));
+}
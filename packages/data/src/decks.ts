@@ -0,0 +1,261 @@
+/**
+ * WORD DECKS - USER-MADE WORD LISTS
+ * 
+ * A deck is a named, ordered list of word IDs ("Chapter 3", "Words I
+ * always miss"). The app keeps the decks; this module only knows how to
+ * change one and how to turn a list of decks into a file and back.
+ * 
+ * Every function here is PURE: it never modifies the deck it receives,
+ * it returns a new one. That's what React state expects (a new object
+ * means "something changed, re-render"), and it keeps the functions
+ * easy to reason about.
+ * 
+ * EXAMPLE:
+ *   let deck = createDeck('Capítulo 1', ['word_rosa_0001']);
+ *   deck = addWordsToDeck(deck, ['word_puella_0002', 'word_rosa_0001']);
+ *   deck.wordIds  // ['word_rosa_0001', 'word_puella_0002'] - no repeats
+ *   deck = moveDeckWord(deck, 1, 0);
+ *   deck.wordIds  // ['word_puella_0002', 'word_rosa_0001']
+ */
+
+import type { DeckExportFile, WordDeck } from '@latin-app/types';
+
+// Prefix of every deck id
+export const DECK_ID_PREFIX = 'deck_';
+
+// Format tag and version written in every export file
+export const DECK_EXPORT_FORMAT: DeckExportFile['format'] = 'latin-app-decks';
+export const DECK_EXPORT_VERSION: DeckExportFile['version'] = 1;
+
+// Longest deck name we accept (longer names are cut)
+export const MAX_DECK_NAME_LENGTH = 60;
+
+/**
+ * Why a deck file couldn't be read
+ */
+export type DeckImportErrorCode =
+  | 'invalid-json'     // Not JSON at all
+  | 'wrong-format'     // JSON, but not a deck export
+  | 'unsupported-version'
+  | 'no-decks';        // A deck export with no valid deck in it
+
+/**
+ * DeckImportResult - What parseDeckExport returns
+ * 
+ * Malformed decks inside a valid file are skipped (skippedCount),
+ * so one bad deck doesn't block the rest.
+ */
+export interface DeckImportResult {
+  decks: WordDeck[];
+  skippedCount: number;
+  error?: DeckImportErrorCode;
+}
+
+/**
+ * Clean up a deck name: trim, collapse spaces and cut to the maximum length
+ * 
+ * @param {string} name - The name as typed
+ * @returns {string} The cleaned name (may be empty)
+ */
+export function normalizeDeckName(name: string): string {
+  return name.trim().replace(/\s+/g, ' ').slice(0, MAX_DECK_NAME_LENGTH);
+}
+
+/**
+ * Remove repeated IDs, keeping the first occurrence of each
+ * 
+ * @param {string[]} ids - Word IDs
+ * @returns {string[]} The same IDs, in the same order, without repeats
+ */
+function uniqueIds(ids: string[]): string[] {
+  return [...new Set(ids)];
+}
+
+/**
+ * Build a new deck id
+ * The timestamp keeps ids in creation order; the random part keeps two
+ * decks created in the same millisecond (e.g. by an import) apart
+ * 
+ * @param {number} now - Current time in milliseconds
+ * @returns {string} The id, e.g. "deck_1718000000000_k3x9"
+ */
+export function buildDeckId(now: number = Date.now()): string {
+  const random = Math.random().toString(36).slice(2, 6);
+  return `${DECK_ID_PREFIX}${now}_${random}`;
+}
+
+/**
+ * Create a deck
+ * 
+ * @param {string} name - Deck name
+ * @param {string[]} wordIds - Initial words (repeats are dropped)
+ * @returns {WordDeck} The new deck
+ */
+export function createDeck(name: string, wordIds: string[] = []): WordDeck {
+  const now = new Date().toISOString();
+  return {
+    id: buildDeckId(),
+    name: normalizeDeckName(name),
+    wordIds: uniqueIds(wordIds),
+    createdAt: now,
+    updatedAt: now,
+  };
+}
+
+/**
+ * Return a copy of the deck with new word IDs and a fresh updatedAt
+ */
+function withWordIds(deck: WordDeck, wordIds: string[]): WordDeck {
+  return { ...deck, wordIds, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Rename a deck
+ * 
+ * @param {WordDeck} deck - The deck
+ * @param {string} name - New name (an empty name keeps the old one)
+ * @returns {WordDeck} The renamed deck
+ */
+export function renameDeck(deck: WordDeck, name: string): WordDeck {
+  const cleanName = normalizeDeckName(name);
+  if (!cleanName || cleanName === deck.name) return deck;
+  return { ...deck, name: cleanName, updatedAt: new Date().toISOString() };
+}
+
+/**
+ * Add words to the end of a deck
+ * Words already in the deck keep their position
+ * 
+ * @param {WordDeck} deck - The deck
+ * @param {string[]} wordIds - Words to add
+ * @returns {WordDeck} The updated deck
+ */
+export function addWordsToDeck(deck: WordDeck, wordIds: string[]): WordDeck {
+  const merged = uniqueIds([...deck.wordIds, ...wordIds]);
+  return merged.length === deck.wordIds.length ? deck : withWordIds(deck, merged);
+}
+
+/**
+ * Remove a word from a deck
+ * 
+ * @param {WordDeck} deck - The deck
+ * @param {string} wordId - The word to remove
+ * @returns {WordDeck} The updated deck
+ */
+export function removeWordFromDeck(deck: WordDeck, wordId: string): WordDeck {
+  if (!deck.wordIds.includes(wordId)) return deck;
+  return withWordIds(deck, deck.wordIds.filter(id => id !== wordId));
+}
+
+/**
+ * Replace all the words of a deck (e.g. from a word picker)
+ * 
+ * @param {WordDeck} deck - The deck
+ * @param {string[]} wordIds - The new list, in order
+ * @returns {WordDeck} The updated deck
+ */
+export function setDeckWords(deck: WordDeck, wordIds: string[]): WordDeck {
+  const unique = uniqueIds(wordIds);
+  const unchanged = unique.length === deck.wordIds.length
+    && unique.every((id, index) => id === deck.wordIds[index]);
+  return unchanged ? deck : withWordIds(deck, unique);
+}
+
+/**
+ * Move one word to another position
+ * 
+ * @param {WordDeck} deck - The deck
+ * @param {number} from - Current index of the word
+ * @param {number} to - Index it should end up at
+ * @returns {WordDeck} The updated deck (unchanged if an index is out of range)
+ * 
+ * EXAMPLE:
+ *   ['rosa', 'puella', 'nauta'], from 2, to 0 → ['nauta', 'rosa', 'puella']
+ */
+export function moveDeckWord(deck: WordDeck, from: number, to: number): WordDeck {
+  const last = deck.wordIds.length - 1;
+  if (from === to || from < 0 || to < 0 || from > last || to > last) return deck;
+
+  const wordIds = [...deck.wordIds];
+  const [moved] = wordIds.splice(from, 1);
+  wordIds.splice(to, 0, moved);
+  return withWordIds(deck, wordIds);
+}
+
+/**
+ * Check that a value read from JSON has the shape of a deck
+ * 
+ * @param {unknown} value - Anything
+ * @returns {boolean} True if it can be used as a WordDeck
+ */
+export function isWordDeck(value: unknown): value is WordDeck {
+  const deck = value as Partial<WordDeck> | null;
+  return (
+    typeof deck?.id === 'string' &&
+    typeof deck.name === 'string' &&
+    Array.isArray(deck.wordIds) &&
+    deck.wordIds.every(id => typeof id === 'string') &&
+    typeof deck.createdAt === 'string' &&
+    typeof deck.updatedAt === 'string'
+  );
+}
+
+/**
+ * Turn decks into the content of an export file
+ * 
+ * @param {WordDeck[]} decks - Decks to export
+ * @returns {string} Pretty-printed JSON (DeckExportFile)
+ */
+export function exportDecks(decks: WordDeck[]): string {
+  const file: DeckExportFile = {
+    format: DECK_EXPORT_FORMAT,
+    version: DECK_EXPORT_VERSION,
+    exportedAt: new Date().toISOString(),
+    decks,
+  };
+  return JSON.stringify(file, null, 2);
+}
+
+/**
+ * Read the content of an export file
+ * 
+ * The decks keep their names and words but get NEW ids, so importing
+ * the same file twice (or a friend's file) never overwrites a deck.
+ * Word IDs are kept as they are: the app decides what to do with the
+ * ones it doesn't know.
+ * 
+ * @param {string} json - File content
+ * @returns {DeckImportResult} The decks, or an error code
+ */
+export function parseDeckExport(json: string): DeckImportResult {
+  let parsed: unknown;
+  try {
+    parsed = JSON.parse(json);
+  } catch {
+    return { decks: [], skippedCount: 0, error: 'invalid-json' };
+  }
+
+  const file = parsed as Partial<DeckExportFile> | null;
+  if (file?.format !== DECK_EXPORT_FORMAT || !Array.isArray(file.decks)) {
+    return { decks: [], skippedCount: 0, error: 'wrong-format' };
+  }
+  if (file.version !== DECK_EXPORT_VERSION) {
+    return { decks: [], skippedCount: 0, error: 'unsupported-version' };
+  }
+
+  const decks: WordDeck[] = [];
+  for (const candidate of file.decks as unknown[]) {
+    if (!isWordDeck(candidate) || !normalizeDeckName(candidate.name)) continue;
+    decks.push({
+      ...candidate,
+      id: buildDeckId(),
+      name: normalizeDeckName(candidate.name),
+      wordIds: uniqueIds(candidate.wordIds),
+    });
+  }
+
+  const skippedCount = file.decks.length - decks.length;
+  return decks.length > 0
+    ? { decks, skippedCount }
+    : { decks, skippedCount, error: 'no-decks' };
+}
@@ -0,0 +1,156 @@
+/**
+ * FORM ANALYZER - REVERSE LOOKUP OF INFLECTED FORMS
+ * 
+ * The paradigm generators go from a word to its forms:
+ *   rosa → rosa, rosae, rosae, rosam, rosa...
+ *   bonus → bonus, boni, bono... bona, bonae... bonum...
+ * 
+ * The analyzer goes the other way, from a form to every word, case
+ * and number that can produce it:
+ *   rosae → rosa (genitive singular), rosa (dative singular), rosa (nominative plural)
+ * 
+ * Latin forms are very often ambiguous, so the result is always a LIST.
+ * 
+ * HOW IT WORKS:
+ * We decline every word in the vocabulary once and store each form in a
+ * Map (like Java's HashMap<String, List<FormAnalysis>>). After that,
+ * every lookup is a single Map.get() call.
+ */
+
+import type {
+  AdjectiveGender,
+  FormAnalysis,
+  GrammaticalNumber,
+  LatinCase,
+  NounParadigm,
+  VocabularyEntry
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+import { generateNounParadigm } from './morphology';
+import { ADJECTIVE_GENDERS, generateAdjectiveParadigm } from './adjectives';
+import { isAdjective } from './partOfSpeech';
+
+/**
+ * The index type: normalized form → all its analyses
+ */
+export type FormIndex = Map<string, FormAnalysis[]>;
+
+/**
+ * Helper: Add every form of one noun-like table to the index
+ * 
+ * @param {FormIndex} index - The index being built
+ * @param {VocabularyEntry} word - The word the table belongs to
+ * @param {NounParadigm} paradigm - A noun paradigm, or one gender of an adjective
+ * @param {AdjectiveGender} gender - For adjectives, the gender of the table
+ */
+function addParadigm(
+  index: FormIndex,
+  word: VocabularyEntry,
+  paradigm: NounParadigm,
+  gender?: AdjectiveGender
+): void {
+  (['singular', 'plural'] as GrammaticalNumber[]).forEach(number => {
+    const forms = paradigm[number];
+    if (!forms) {
+      return;
+    }
+
+    // Object.entries gives us [case, form] pairs, like Map.entrySet() in Java
+    Object.entries(forms).forEach(([grammaticalCase, form]) => {
+      if (!form) {
+        return;
+      }
+
+      const key = normalizeForSearch(form);
+      const analyses = index.get(key) ?? [];
+
+      // The same analysis can't appear twice (e.g. an override equal to the regular form)
+      const isDuplicate = analyses.some(analysis =>
+        analysis.wordId === word.id &&
+        analysis.number === number &&
+        analysis.case === grammaticalCase &&
+        analysis.gender === gender
+      );
+
+      if (!isDuplicate) {
+        analyses.push({
+          wordId: word.id,
+          nominative: word.nominative,
+          form,
+          number,
+          case: grammaticalCase as LatinCase,
+          ...(gender && { gender }),
+        });
+        index.set(key, analyses);
+      }
+    });
+  });
+}
+
+/**
+ * Build the reverse-lookup index for a list of words
+ * 
+ * Keys are normalized with normalizeForSearch, so macrons and
+ * capital letters don't matter (rosā, Rosa and rosa are the same key).
+ * 
+ * Adjectives are indexed once per gender, and their analyses carry
+ * the gender: "bonae" → bonus (feminine genitive singular, ...).
+ * 
+ * @param {VocabularyEntry[]} words - The vocabulary
+ * @returns {FormIndex} The index
+ */
+export function buildFormIndex(words: VocabularyEntry[]): FormIndex {
+  const index: FormIndex = new Map();
+
+  words.forEach(word => {
+    if (isAdjective(word)) {
+      const paradigm = generateAdjectiveParadigm(word);
+      if (paradigm) {
+        ADJECTIVE_GENDERS.forEach(gender => addParadigm(index, word, paradigm[gender], gender));
+      }
+      return;
+    }
+
+    const paradigm = generateNounParadigm(word);
+    if (paradigm) {
+      addParadigm(index, word, paradigm);
+    }
+  });
+
+  return index;
+}
+
+/**
+ * Look up a form in the index
+ * 
+ * @param {FormIndex} index - An index built with buildFormIndex
+ * @param {string} form - The inflected form (e.g., "rosae")
+ * @returns {FormAnalysis[]} Every possible analysis (empty if unknown)
+ */
+export function lookupForm(index: FormIndex, form: string): FormAnalysis[] {
+  if (!form || form.trim() === '') {
+    return [];
+  }
+
+  return index.get(normalizeForSearch(form)) ?? [];
+}
+
+/**
+ * Check whether a case + number is a valid reading of a form
+ * 
+ * Used to grade the "identify the case" drill: any of the
+ * analyses is a correct answer.
+ * 
+ * @param {FormAnalysis[]} analyses - The analyses of the form
+ * @param {LatinCase} grammaticalCase - The case the learner picked
+ * @param {GrammaticalNumber} number - The number the learner picked
+ * @returns {boolean} true if at least one analysis matches
+ */
+export function isValidAnalysis(
+  analyses: FormAnalysis[],
+  grammaticalCase: LatinCase,
+  number: GrammaticalNumber
+): boolean {
+  return analyses.some(analysis => analysis.case === grammaticalCase && analysis.number === number);
+}
@@ -0,0 +1,117 @@
+/**
+ * GLOSSES - TRANSLATIONS IN SEVERAL LANGUAGES
+ * 
+ * A "gloss" is the short translation a dictionary gives next to a word
+ * ("agricola, -ae, m. – farmer"). The vocabulary was written for Spanish
+ * speakers, so every word has spanishTranslation and additionalMeanings.
+ * Other languages live in the word's glosses map:
+ * 
+ *   { spanishTranslation: 'Agricultor', glosses: { en: ['Farmer'] } }
+ * 
+ * The JSON files keep the Spanish fields as they are (the importer, the
+ * validator and older saved words all use them); when a word is loaded,
+ * applyGlosses copies them into the map as 'es'. Code that shows a
+ * translation asks getGloss() for the learner's language and doesn't
+ * need to know where it came from.
+ * 
+ * Words without a translation in the chosen language fall back to
+ * Spanish, so a half-translated pack is still usable.
+ */
+
+import type { GlossLanguage, GlossMap } from '@latin-app/types';
+
+/**
+ * The languages the app has translations for, in the order they're listed
+ */
+export const GLOSS_LANGUAGES: GlossLanguage[] = ['es', 'en'];
+
+/**
+ * The language every word has (and the one used when there's no choice)
+ */
+export const DEFAULT_GLOSS_LANGUAGE: GlossLanguage = 'es';
+
+/**
+ * The fields a word needs to have glosses
+ * Nouns, adjectives, verbs and pronouns all have them; additionalMeanings
+ * is optional so the app's display types (WordCard) fit too
+ */
+export interface GlossedWord {
+  spanishTranslation: string;
+  additionalMeanings?: string[];
+  glosses?: GlossMap;
+}
+
+/**
+ * A word's translation in one language
+ */
+export interface WordGloss {
+  // The language the translation is actually in
+  // (Spanish when the requested one is missing)
+  language: GlossLanguage;
+  translation: string;
+  additionalMeanings: string[];
+}
+
+/**
+ * Check whether a value is a supported gloss language
+ * Useful for values read from settings or user profiles
+ * 
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if it's one of GLOSS_LANGUAGES
+ */
+export function isGlossLanguage(value: unknown): value is GlossLanguage {
+  return typeof value === 'string' && (GLOSS_LANGUAGES as string[]).includes(value);
+}
+
+/**
+ * Add the Spanish fields to a word's glosses map
+ * 
+ * Returns a NEW object with glosses.es filled in (other languages and an
+ * existing 'es' list are kept). Works for any word type thanks to the
+ * generic T, like applyMacrons.
+ * 
+ * @param {T} word - The word as loaded
+ * @returns {T} The word with a complete glosses map
+ */
+export function applyGlosses<T extends GlossedWord>(word: T): T {
+  const glosses: GlossMap = {
+    es: [word.spanishTranslation, ...(word.additionalMeanings ?? [])],
+    ...word.glosses,
+  };
+  return { ...word, glosses };
+}
+
+/**
+ * Get a word's translation in a language
+ * 
+ * EXAMPLE:
+ * getGloss(agricola, 'en') → { language: 'en', translation: 'Farmer', additionalMeanings: [] }
+ * getGloss(agricola, 'fr') is not possible: 'fr' is not a GlossLanguage
+ * 
+ * @param {GlossedWord} word - The word
+ * @param {GlossLanguage} language - The language the learner chose
+ * @returns {WordGloss} The translation (in Spanish if the word has none in that language)
+ */
+export function getGloss(word: GlossedWord, language: GlossLanguage): WordGloss {
+  const meanings = word.glosses?.[language];
+  if (meanings && meanings.length > 0) {
+    const [translation, ...additionalMeanings] = meanings;
+    return { language, translation, additionalMeanings };
+  }
+  return {
+    language: DEFAULT_GLOSS_LANGUAGE,
+    translation: word.spanishTranslation,
+    additionalMeanings: word.additionalMeanings ?? [],
+  };
+}
+
+/**
+ * Get just the main translation of a word
+ * 
+ * @param {GlossedWord} word - The word
+ * @param {GlossLanguage} language - The language the learner chose
+ * @returns {string} The main translation (see getGloss for the fallback)
+ */
+export function getTranslation(word: GlossedWord, language: GlossLanguage): string {
+  return getGloss(word, language).translation;
+}
@@ -10,22 +10,69 @@
 
 // Import our type definitions from the types package
 // The '@latin-app/types' is the package name we defined in package.json
-import type { NormalizedLatinWord, VocabularyFilter } from '@latin-app/types';
+import type {
+  AdjectiveParadigm,
+  FormAnalysis,
+  GlossLanguage,
+  LatinAdjective,
+  LatinPronoun,
+  LatinVerb,
+  NormalizedLatinWord,
+  NounParadigm,
+  VocabularyEntry,
+  VerbParadigm,
+  VocabularyFilter,
+  VocabularyPackInfo,
+  VocabularyTag,
+  WordSearchResult
+} from '@latin-app/types';
 
 // Import string normalization utilities for case/accent insensitive search
 // CRITICAL: All searches must be case and accent insensitive
 import { 
-  // normalizeForSearch, // Removed - not being used
-  stringIncludes, 
-  stringStartsWith,
-  compareStrings,
-  // fuzzySearchScore // Removed - not being used
+  normalizeForSearch,
+  createFuzzyMatcher
 } from '@latin-app/shared';
 
-// Import the normalized vocabulary JSON file
+// Nouns and adjectives come in packs that are loaded on demand (see packs.ts)
+import { DEFAULT_PACK_IDS, VOCABULARY_PACKS, getPackInfo, loadPackWords, normalizePackIds } from './packs';
+
+// Verbs live in their own file: they have principal parts, not nominative/genitive
 // In TypeScript/JavaScript, we can import JSON files directly
-// The '../../../' goes up 3 directories to reach the root
-import vocabularyData from '../../../vocabulary-normalized.json';
+import verbsData from '../../../verbs.json';
+
+// Import the paradigm generator (builds every form of a noun)
+import { generateNounParadigm } from './morphology';
+
+// Import the adjective paradigm generator (every form, in all three genders)
+import { generateAdjectiveParadigm } from './adjectives';
+
+// Import the verb conjugator (every indicative active form)
+import { conjugateVerb } from './conjugation';
+
+// Import the pronoun tables (written out in full, not generated)
+import { PRONOUNS } from './pronouns';
+
+// Import the noun / adjective type guards
+import { getPartOfSpeech, isAdjective, isNoun } from './partOfSpeech';
+
+// Import the exception table for irregular nouns
+import { applyNounExceptions } from './nounExceptions';
+
+// Import the vowel-length data (plain vs. macronized dictionary forms)
+import { applyMacrons } from './macrons';
+
+// Import the translations per language (Spanish, English)
+import { DEFAULT_GLOSS_LANGUAGE, applyGlosses } from './glosses';
+
+// Import the tag table (semantic categories: familia, militia, natura...)
+import { applyWordTags, hasAnyTag, normalizeTag } from './wordTags';
+
+// Import the reverse lookup (inflected form → word, case and number)
+import { buildFormIndex, lookupForm, type FormIndex } from './formAnalyzer';
+
+// Import the search index (every field normalized once, up front)
+import { buildSearchIndex, indexedIncludes, normalizeEnding, type SearchIndexEntry } from './searchIndex';
 
 /**
  * CLASS: VocabularyService
@@ -36,10 +83,40 @@ import vocabularyData from '../../../vocabulary-normalized.json';
  * 'export class' makes this available to other files (like 'public class' in Java)
  */
 export class VocabularyService {
-  // Private property to store all words
+  // Words of every pack loaded so far (nouns and adjectives): pack id → words
   // 'private' means only this class can access it (like Java)
   // 'readonly' means it can't be reassigned after initialization
-  private readonly words: NormalizedLatinWord[];
+  // (the Map itself can still change: packs are added as they load)
+  private readonly packWords = new Map<string, VocabularyEntry[]>();
+  
+  // The packs the learner studies, in manifest order; empty until loadPacks()
+  private enabledPackIds: string[] = [];
+  
+  // Number of the latest loadPacks() call, so an older call that
+  // finishes late doesn't overwrite a newer choice
+  private packRequest = 0;
+  
+  // Words the user imported (see vocabularyImport.ts); empty until the app loads them
+  private userWords: NormalizedLatinWord[] = [];
+  
+  // Every word: the enabled packs followed by the user's words
+  // Not readonly: it's rebuilt whenever the packs or the user words change
+  private words: VocabularyEntry[] = [];
+  
+  // Verbs are kept apart: searches, filters and noun drills don't see them
+  private readonly verbs: LatinVerb[];
+  
+  // Language of the translations the search looks at (see glosses.ts)
+  private glossLanguage: GlossLanguage = DEFAULT_GLOSS_LANGUAGE;
+  
+  // Reverse-lookup index of every inflected form
+  // Built the first time it's needed ("lazy initialization")
+  private formIndex: FormIndex | null = null;
+  
+  // Normalized text of every word, used by filterWords and searchWords
+  // Built again whenever the words change, so searches don't normalize
+  // on every keystroke
+  private searchIndex: SearchIndexEntry[] = [];
   
   /**
    * Constructor - runs when we create a new instance
@@ -49,16 +126,124 @@ export class VocabularyService {
    * - 'this' refers to the current instance (like Java)
    */
   constructor() {
-    // Load and validate the vocabulary data
+    // Verbs are small and always available, so they're loaded right away
     // 'as' is a type assertion - tells TypeScript what type this is
-    // Fix type issue: vocabularyData has null for exampleSentence, but our type expects string | undefined
-    this.words = vocabularyData.map(word => ({
-      ...word,
-      exampleSentence: word.exampleSentence ?? undefined // Convert null to undefined
-    })) as NormalizedLatinWord[];
+    // Fix type issue: verbsData has null for exampleSentence, but our type expects string | undefined
+    this.verbs = (verbsData.map(verb => ({
+      ...verb,
+      exampleSentence: verb.exampleSentence ?? undefined
+    })) as LatinVerb[]).map(applyGlosses);
+    
+    // Nouns and adjectives arrive later, with loadPacks()
+  }
+  
+  /**
+   * Enable a set of vocabulary packs, loading the ones not loaded yet
+   * 
+   * The app awaits this before showing any word. Packs already loaded
+   * are kept in memory, so switching back to one is instant. Unknown ids
+   * are ignored; if none is valid, the default packs are used.
+   * 
+   * EXAMPLE:
+   * await vocabularyService.loadPacks(['core', 'wheelock'])
+   * 
+   * @param {string[]} ids - The packs to enable (default: DEFAULT_PACK_IDS)
+   * @returns {Promise<string[]>} The ids actually enabled, in manifest order
+   */
+  async loadPacks(ids: string[] = DEFAULT_PACK_IDS): Promise<string[]> {
+    const request = ++this.packRequest;
+    const valid = normalizePackIds(ids);
+    const packIds = valid.length > 0 ? valid : normalizePackIds(DEFAULT_PACK_IDS);
+    
+    // Load the missing packs in parallel (Promise.all waits for all of them)
+    const missing = packIds.filter(id => !this.packWords.has(id));
+    const loaded = await Promise.all(missing.map(loadPackWords));
+    missing.forEach((id, index) => {
+      this.packWords.set(id, loaded[index]);
+      
+      const expected = getPackInfo(id)?.wordCount;
+      if (expected !== loaded[index].length) {
+        console.warn(`VocabularyService: pack "${id}" has ${loaded[index].length} words, the manifest says ${expected}`);
+      }
+    });
+    
+    // A newer call started while we were loading: that one decides
+    if (request !== this.packRequest) {
+      return this.enabledPackIds;
+    }
+    
+    this.enabledPackIds = packIds;
+    this.rebuildWords();
     
     // Log how many words we loaded (useful for debugging)
-    console.log(`VocabularyService: Loaded ${this.words.length} words`);
+    console.log(`VocabularyService: Loaded ${this.words.length} words (${packIds.join(', ')}) and ${this.verbs.length} verbs`);
+    return this.enabledPackIds;
+  }
+  
+  /**
+   * Get the pack manifest
+   * 
+   * @returns {VocabularyPackInfo[]} Every pack, loaded or not
+   */
+  getPacks(): VocabularyPackInfo[] {
+    return [...VOCABULARY_PACKS];
+  }
+  
+  /**
+   * Get the packs currently enabled
+   * 
+   * @returns {string[]} Pack ids, in manifest order
+   */
+  getEnabledPackIds(): string[] {
+    return [...this.enabledPackIds];
+  }
+  
+  /**
+   * Choose the language of the translations the search looks at
+   * 
+   * Only the search index depends on it: words keep every language in
+   * their glosses map, and the app picks one with getGloss().
+   * 
+   * @param {GlossLanguage} language - The learner's gloss language
+   */
+  setGlossLanguage(language: GlossLanguage): void {
+    if (language === this.glossLanguage) {
+      return;
+    }
+    this.glossLanguage = language;
+    this.searchIndex = buildSearchIndex(this.words, language);
+  }
+  
+  /**
+   * Get the language of the translations the search looks at
+   * 
+   * @returns {GlossLanguage} The current gloss language
+   */
+  getGlossLanguage(): GlossLanguage {
+    return this.glossLanguage;
+  }
+  
+  /**
+   * Merge the enabled packs and the user words, and reset the indexes
+   * 
+   * The same ID in two packs would make getWordById ambiguous, so only
+   * the first one is kept (with a warning: it's a mistake in the data).
+   */
+  private rebuildWords(): void {
+    const seen = new Set<string>();
+    const packWords = this.enabledPackIds.flatMap(id => this.packWords.get(id) ?? []);
+    
+    this.words = [...packWords, ...this.userWords].filter(word => {
+      if (seen.has(word.id)) {
+        console.warn(`VocabularyService: duplicate word id "${word.id}" ignored`);
+        return false;
+      }
+      seen.add(word.id);
+      return true;
+    });
+    this.searchIndex = buildSearchIndex(this.words, this.glossLanguage);
+    // Built again on first use
+    this.formIndex = null;
   }
   
   /**
@@ -67,21 +252,69 @@ export class VocabularyService {
    * Returns a copy of the array to prevent external modification
    * The spread operator [...] creates a shallow copy
    * 
-   * @returns {NormalizedLatinWord[]} Array of all words
+   * @returns {VocabularyEntry[]} Array of all words (nouns and adjectives)
    */
-  getAllWords(): NormalizedLatinWord[] {
+  getAllWords(): VocabularyEntry[] {
     // [...this.words] creates a new array with the same elements
     // This prevents external code from modifying our internal data
     return [...this.words];
   }
   
+  /**
+   * Get all the nouns
+   * 
+   * .filter() with a type guard returns a narrowed array type
+   * 
+   * @returns {NormalizedLatinWord[]} Every noun in the vocabulary
+   */
+  getNouns(): NormalizedLatinWord[] {
+    return this.words.filter(isNoun);
+  }
+  
+  /**
+   * Get all the adjectives
+   * 
+   * @returns {LatinAdjective[]} Every adjective in the vocabulary
+   */
+  getAdjectives(): LatinAdjective[] {
+    return this.words.filter(isAdjective);
+  }
+  
+  /**
+   * Get the words the user imported
+   * 
+   * @returns {NormalizedLatinWord[]} The user words, in the order they were added
+   */
+  getUserWords(): NormalizedLatinWord[] {
+    return [...this.userWords];
+  }
+  
+  /**
+   * Replace the user words and merge them with the enabled packs
+   * 
+   * The app calls this when it starts (with the words it saved) and
+   * after every import or deletion. User words get the same treatment
+   * as the JSON ones (macrons, irregular nouns, tags, glosses), and the search and form
+   * indexes are rebuilt so the new words show up everywhere.
+   * 
+   * @param {NormalizedLatinWord[]} words - Every user word (not just the new ones)
+   */
+  setUserWords(words: NormalizedLatinWord[]): void {
+    this.userWords = words
+      .map(applyMacrons)
+      .map(applyNounExceptions)
+      .map(applyWordTags)
+      .map(applyGlosses);
+    this.rebuildWords();
+  }
+  
   /**
    * Get a single word by ID
    * 
    * @param {string} id - The unique word ID
-   * @returns {NormalizedLatinWord | undefined} The word or undefined if not found
+   * @returns {VocabularyEntry | undefined} The word or undefined if not found
    */
-  getWordById(id: string): NormalizedLatinWord | undefined {
+  getWordById(id: string): VocabularyEntry | undefined {
     // .find() searches the array and returns the first match
     // It returns undefined if no match is found
     // The arrow function (word => ...) is the search condition
@@ -92,9 +325,9 @@ export class VocabularyService {
    * Get multiple words by their IDs
    * 
    * @param {string[]} ids - Array of word IDs
-   * @returns {NormalizedLatinWord[]} Array of matching words
+   * @returns {VocabularyEntry[]} Array of matching words
    */
-  getWordsByIds(ids: string[]): NormalizedLatinWord[] {
+  getWordsByIds(ids: string[]): VocabularyEntry[] {
     // Create a Set for O(1) lookup time (faster than array.includes())
     // Set is like Java's HashSet
     const idSet = new Set(ids);
@@ -107,11 +340,17 @@ export class VocabularyService {
    * Filter words based on criteria
    * 
    * @param {VocabularyFilter} filter - Filter criteria
-   * @returns {NormalizedLatinWord[]} Filtered words
+   * @returns {VocabularyEntry[]} Filtered words
    */
-  filterWords(filter: VocabularyFilter): NormalizedLatinWord[] {
-    // Start with all words
-    let filtered = [...this.words];
+  filterWords(filter: VocabularyFilter): VocabularyEntry[] {
+    // Start with all words (as index entries, so search text is already normalized)
+    let filtered = [...this.searchIndex];
+    
+    // Filter by part of speech if specified
+    if (filter.partsOfSpeech && filter.partsOfSpeech.length > 0) {
+      const partOfSpeechSet = new Set(filter.partsOfSpeech);
+      filtered = filtered.filter(({ word }) => partOfSpeechSet.has(getPartOfSpeech(word)));
+    }
     
     // Filter by declensions if specified
     if (filter.declensions && filter.declensions.length > 0) {
@@ -119,7 +358,9 @@ export class VocabularyService {
       const declensionSet = new Set(filter.declensions);
       
       // Keep only words with matching declension
-      filtered = filtered.filter(word => declensionSet.has(word.declension));
+      filtered = filtered.filter(({ word }) =>
+        this.getFilterDeclensions(word).some(declension => declensionSet.has(declension))
+      );
     }
     
     // Filter by genders if specified
@@ -127,7 +368,11 @@ export class VocabularyService {
       const genderSet = new Set(filter.genders);
       
       // Handle special cases where gender might not be standard
-      filtered = filtered.filter(word => {
+      // Adjectives have no gender of their own, so they never match
+      filtered = filtered.filter(({ word }) => {
+        if (!isNoun(word)) {
+          return false;
+        }
         // Check if the word's gender is in our filter
         // We need to handle non-standard genders in the data
         const normalizedGender = this.normalizeGender(word.gender);
@@ -135,102 +380,345 @@ export class VocabularyService {
       });
     }
     
+    // Filter by nominative ending if specified ("-us" and "us" both work)
+    if (filter.endings && filter.endings.length > 0) {
+      const endings = filter.endings.map(normalizeEnding);
+      filtered = filtered.filter(({ nominative }) =>
+        endings.some(ending => nominative.text.endsWith(ending))
+      );
+    }
+    
+    // Filter by tags if specified (any of them is enough)
+    if (filter.tags && filter.tags.length > 0) {
+      const tags = filter.tags;
+      filtered = filtered.filter(({ word }) => hasAnyTag(word, tags));
+    }
+    
+    // Negated filters: drop every word that matches any of them
+    if (filter.excludePartsOfSpeech && filter.excludePartsOfSpeech.length > 0) {
+      const excluded = new Set(filter.excludePartsOfSpeech);
+      filtered = filtered.filter(({ word }) => !excluded.has(getPartOfSpeech(word)));
+    }
+    
+    if (filter.excludeDeclensions && filter.excludeDeclensions.length > 0) {
+      const excluded = new Set(filter.excludeDeclensions);
+      filtered = filtered.filter(({ word }) =>
+        !this.getFilterDeclensions(word).some(declension => excluded.has(declension))
+      );
+    }
+    
+    if (filter.excludeGenders && filter.excludeGenders.length > 0) {
+      const excluded = new Set(filter.excludeGenders);
+      filtered = filtered.filter(({ word }) =>
+        !isNoun(word) || !excluded.has(this.normalizeGender(word.gender))
+      );
+    }
+    
+    if (filter.excludeTags && filter.excludeTags.length > 0) {
+      const excluded = filter.excludeTags;
+      filtered = filtered.filter(({ word }) => !hasAnyTag(word, excluded));
+    }
+    
+    if (filter.excludeEndings && filter.excludeEndings.length > 0) {
+      const excluded = filter.excludeEndings.map(normalizeEnding);
+      filtered = filtered.filter(({ nominative }) =>
+        !excluded.some(ending => nominative.text.endsWith(ending))
+      );
+    }
+    
     // Filter by search text if specified
     if (filter.searchText && filter.searchText.trim() !== '') {
       // IMPORTANT: Using normalized search for case and accent insensitive matching
       // This ensures "Maria" matches "María", "ROSA" matches "rosa", etc.
-      const searchTerm = filter.searchText.trim();
+      // The words are normalized in the index, so only the search text is normalized here
+      const searchTerm = normalizeForSearch(filter.searchText);
       
-      filtered = filtered.filter(word => {
+      filtered = filtered.filter(entry => {
         // Check if search text appears in nominative, genitive, or translation
-        // Using stringIncludes for accent/case insensitive comparison
         return (
-          stringIncludes(word.nominative, searchTerm) ||
-          stringIncludes(word.genitive, searchTerm) ||
-          stringIncludes(word.spanishTranslation, searchTerm) ||
+          indexedIncludes(entry.nominative, searchTerm) ||
+          indexedIncludes(entry.genitive, searchTerm) ||
+          indexedIncludes(entry.translation, searchTerm) ||
           // Also check additional meanings
-          word.additionalMeanings.some(meaning => 
-            stringIncludes(meaning, searchTerm)
-          )
+          entry.meanings.some(meaning => indexedIncludes(meaning, searchTerm))
         );
       });
     }
     
-    return filtered;
+    return filtered.map(entry => entry.word);
   }
   
   /**
    * Search for words by text
    * 
-   * More sophisticated than filter - ranks results by relevance
+   * More sophisticated than filter - ranks results by relevance.
+   * Tolerates typos: close matches are found, but always ranked
+   * below real (exact, prefix or contains) matches.
    * 
    * @param {string} searchText - Text to search for
-   * @returns {NormalizedLatinWord[]} Search results ranked by relevance
+   * @returns {VocabularyEntry[]} Search results ranked by relevance
    */
-  searchWords(searchText: string): NormalizedLatinWord[] {
+  searchWords(searchText: string): VocabularyEntry[] {
+    return this.searchWordsWithMatches(searchText).map(result => result.word);
+  }
+  
+  /**
+   * Search for words by text, explaining each match
+   * 
+   * Same ranking as searchWords, but each result also carries the
+   * inflected-form readings that matched. This lets the UI show
+   * "rosarum → Rosa (Gen. pl.)".
+   * 
+   * @param {string} searchText - Text to search for
+   * @returns {WordSearchResult[]} Search results ranked by relevance
+   */
+  searchWordsWithMatches(searchText: string): WordSearchResult[] {
     if (!searchText || searchText.trim() === '') {
       return [];
     }
     
     const searchTerm = searchText.trim();
     
+    // Normalize the search text once; the words are already normalized in the index
+    const normalizedTerm = normalizeForSearch(searchTerm);
+    const fuzzyScore = createFuzzyMatcher(searchTerm);
+    
+    // Look up the search text as an inflected form ("rosarum" → rosa)
+    // and group the readings by word ID for O(1) access below
+    const formMatches = new Map<string, FormAnalysis[]>();
+    this.analyzeForm(searchTerm).forEach(analysis => {
+      const analyses = formMatches.get(analysis.wordId) ?? [];
+      analyses.push(analysis);
+      formMatches.set(analysis.wordId, analyses);
+    });
+    
     // Create array of results with relevance scores
     // IMPORTANT: Using normalized comparison for case/accent insensitive search
-    const results = this.words
-      .map(word => {
+    const results = this.searchIndex
+      .map(({ word, nominative, genitive, translation, meanings }) => {
         let score = 0;
+        let matchedForms: FormAnalysis[] = [];
         
         // Exact match in nominative (highest score)
-        // compareStrings handles case and accent differences
-        if (compareStrings(word.nominative, searchTerm)) {
+        if (nominative.text === normalizedTerm) {
           score += 100;
         }
+        // Exact match with any inflected form of the word
+        else if (formMatches.has(word.id)) {
+          score += 60;
+          matchedForms = formMatches.get(word.id) ?? [];
+        }
         // Starts with search text in nominative
-        else if (stringStartsWith(word.nominative, searchTerm)) {
+        else if (normalizedTerm && nominative.text.startsWith(normalizedTerm)) {
           score += 50;
         }
         // Contains search text in nominative
-        else if (stringIncludes(word.nominative, searchTerm)) {
+        else if (indexedIncludes(nominative, normalizedTerm)) {
           score += 25;
         }
+        // Similar to the nominative, with typos ("agricla" → Agricola)
+        // fuzzySearchScore gives at most 0.4 here, so this adds up to 20
+        else {
+          score += Math.round(fuzzyScore(nominative.text, nominative.tokens) * 50);
+        }
         
         // Check Spanish translation
-        if (compareStrings(word.spanishTranslation, searchTerm)) {
+        if (translation.text === normalizedTerm) {
           score += 75;
-        } else if (stringIncludes(word.spanishTranslation, searchTerm)) {
+        } else if (indexedIncludes(translation, normalizedTerm)) {
           score += 20;
+        } else {
+          // Typos in the translation ("amistd" → Amistad): up to 16
+          score += Math.round(fuzzyScore(translation.text, translation.tokens) * 40);
         }
         
         // Check genitive
-        if (stringIncludes(word.genitive, searchTerm)) {
+        if (indexedIncludes(genitive, normalizedTerm)) {
           score += 15;
         }
         
         // Check additional meanings
-        if (word.additionalMeanings.some(m => stringIncludes(m, searchTerm))) {
+        if (meanings.some(m => indexedIncludes(m, normalizedTerm))) {
           score += 10;
+        } else if (meanings.length > 0) {
+          // Typos in the best additional meaning: up to 8
+          const bestMeaning = Math.max(
+            ...meanings.map(m => fuzzyScore(m.text, m.tokens))
+          );
+          score += Math.round(bestMeaning * 20);
         }
         
-        return { word, score };
+        return { word, score, matchedForms };
       })
       // Keep only words with a score > 0
       .filter(result => result.score > 0)
       // Sort by score (highest first)
-      .sort((a, b) => b.score - a.score)
-      // Extract just the words
-      .map(result => result.word);
+      .sort((a, b) => b.score - a.score);
     
     return results;
   }
   
+  /**
+   * Search with a full filter (e.g. one compiled by parseWordQuery)
+   * 
+   * - With searchText: ranked like searchWordsWithMatches (inflected
+   *   forms, typos...), keeping only words that pass the other filters
+   * - Without searchText: every word that passes the filters, score 0
+   * 
+   * @param {VocabularyFilter} filter - Filter criteria
+   * @returns {WordSearchResult[]} Matching words, best first
+   */
+  searchWordsWithFilter(filter: VocabularyFilter): WordSearchResult[] {
+    const { searchText, ...criteria } = filter;
+    const allowed = this.filterWords(criteria);
+    
+    if (!searchText || searchText.trim() === '') {
+      return allowed.map(word => ({ word, score: 0, matchedForms: [] }));
+    }
+    
+    const allowedIds = new Set(allowed.map(word => word.id));
+    return this.searchWordsWithMatches(searchText)
+      .filter(result => allowedIds.has(result.word.id));
+  }
+  
+  /**
+   * Get the full declension table of a noun
+   * 
+   * @param {string} id - Word ID
+   * @returns {NounParadigm | null} All the forms, or null if the word
+   *   doesn't exist, is not a noun, or its genitive doesn't match its declension
+   */
+  getParadigm(id: string): NounParadigm | null {
+    const word = this.getWordById(id);
+    return word && isNoun(word) ? generateNounParadigm(word) : null;
+  }
+  
+  /**
+   * Get the full declension table of an adjective (all three genders)
+   * 
+   * @param {string} id - Word ID
+   * @returns {AdjectiveParadigm | null} All the forms, or null if the word
+   *   doesn't exist, is not an adjective, or its genitive doesn't match its declension
+   */
+  getAdjectiveParadigm(id: string): AdjectiveParadigm | null {
+    const word = this.getWordById(id);
+    return word && isAdjective(word) ? generateAdjectiveParadigm(word) : null;
+  }
+  
+  /**
+   * Get all the verbs
+   * 
+   * @returns {LatinVerb[]} Every verb, with its principal parts
+   */
+  getVerbs(): LatinVerb[] {
+    return [...this.verbs];
+  }
+  
+  /**
+   * Get a verb by its ID
+   * 
+   * @param {string} id - Verb ID (e.g. "verb_amo_0001")
+   * @returns {LatinVerb | undefined} The verb, or undefined if not found
+   */
+  getVerbById(id: string): LatinVerb | undefined {
+    return this.verbs.find(verb => verb.id === id);
+  }
+  
+  /**
+   * Get the full conjugation table of a verb (indicative active)
+   * 
+   * @param {string} id - Verb ID
+   * @returns {VerbParadigm | null} All the forms, or null if the verb
+   *   doesn't exist or its principal parts don't match its conjugation
+   */
+  getVerbForms(id: string): VerbParadigm | null {
+    const verb = this.getVerbById(id);
+    return verb ? conjugateVerb(verb) : null;
+  }
+  
+  /**
+   * Get all the pronouns (ego, tū, is, hic, ille, quī)
+   * 
+   * @returns {LatinPronoun[]} Every pronoun, with its full tables
+   */
+  getPronouns(): LatinPronoun[] {
+    return [...PRONOUNS];
+  }
+  
+  /**
+   * Get a pronoun by its ID
+   * 
+   * @param {string} id - Pronoun ID (e.g. "pronoun_hic_0004")
+   * @returns {LatinPronoun | undefined} The pronoun, or undefined if not found
+   */
+  getPronounById(id: string): LatinPronoun | undefined {
+    return PRONOUNS.find(pronoun => pronoun.id === id);
+  }
+  
+  /**
+   * Get words and pronouns by their IDs, keeping the order of the IDs
+   * 
+   * Unlike getWordsByIds, pronouns are included and the result follows
+   * the list given (a deck, a review queue). IDs that no longer exist,
+   * like a user word that was deleted, are skipped.
+   * 
+   * @param {string[]} ids - Word and pronoun IDs
+   * @returns {(VocabularyEntry | LatinPronoun)[]} The ones found, in the order given
+   * 
+   * EXAMPLE:
+   * getWordsAndPronounsByIds(['pronoun_hic_0004', 'deleted_id', 'word_agricola_0001'])
+   * → [hic, agricola]
+   */
+  getWordsAndPronounsByIds(ids: string[]): (VocabularyEntry | LatinPronoun)[] {
+    return ids.flatMap(id => {
+      const word = this.getWordById(id) ?? this.getPronounById(id);
+      return word ? [word] : [];
+    });
+  }
+  
+  /**
+   * Analyze an inflected form
+   * 
+   * Finds every word, case and number that can produce the form.
+   * Latin forms are often ambiguous, so this returns a list:
+   * "rosae" → genitive singular, dative singular, nominative plural
+   * 
+   * @param {string} form - Any inflected form (case and accent insensitive)
+   * @returns {FormAnalysis[]} All the analyses (empty if the form is unknown)
+   */
+  analyzeForm(form: string): FormAnalysis[] {
+    return lookupForm(this.getFormIndex(), form);
+  }
+  
+  /**
+   * Get every tag in the vocabulary, with how many words have it
+   * 
+   * Tags that differ only in case or accents are counted together
+   * (the first spelling found is the one shown).
+   * 
+   * @returns {VocabularyTag[]} The tags, sorted alphabetically
+   */
+  getTags(): VocabularyTag[] {
+    const counts = new Map<string, VocabularyTag>();
+    for (const word of this.words) {
+      for (const tag of word.tags ?? []) {
+        const key = normalizeTag(tag);
+        const entry = counts.get(key) ?? { tag, count: 0 };
+        entry.count++;
+        counts.set(key, entry);
+      }
+    }
+    return [...counts.values()].sort((a, b) => a.tag.localeCompare(b.tag));
+  }
+  
   /**
    * Get random words for practice
    * 
    * @param {number} count - Number of words to get
    * @param {VocabularyFilter} filter - Optional filter
-   * @returns {NormalizedLatinWord[]} Random selection of words
+   * @returns {VocabularyEntry[]} Random selection of words
    */
-  getRandomWords(count: number, filter?: VocabularyFilter): NormalizedLatinWord[] {
+  getRandomWords(count: number, filter?: VocabularyFilter): VocabularyEntry[] {
     // Get filtered words or all words
     const pool = filter ? this.filterWords(filter) : [...this.words];
     
@@ -254,9 +742,9 @@ export class VocabularyService {
   }
   
   /**
-   * Get words grouped by declension
+   * Get nouns grouped by declension
    * 
-   * @returns {Map<string, NormalizedLatinWord[]>} Words grouped by declension
+   * @returns {Map<string, NormalizedLatinWord[]>} Nouns grouped by declension
    */
   getWordsByDeclension(): Map<string, NormalizedLatinWord[]> {
     // Map is like Java's HashMap
@@ -268,7 +756,7 @@ export class VocabularyService {
     });
     
     // Group words
-    this.words.forEach(word => {
+    this.getNouns().forEach(word => {
       const group = grouped.get(word.declension);
       if (group) {
         group.push(word);
@@ -286,20 +774,26 @@ export class VocabularyService {
   getStatistics() {
     const stats = {
       totalWords: this.words.length,
+      byPartOfSpeech: {} as Record<string, number>,
       byDeclension: {} as Record<string, number>,
       byGender: {} as Record<string, number>,
       withAdditionalMeanings: 0,
     };
     
-    // Count words by declension and gender
+    // Count words by part of speech, declension and gender
     this.words.forEach(word => {
-      // Count by declension
+      const partOfSpeech = getPartOfSpeech(word);
+      stats.byPartOfSpeech[partOfSpeech] = (stats.byPartOfSpeech[partOfSpeech] || 0) + 1;
+      
+      // Count by declension ('1st-2nd' and '3rd' for adjectives)
       stats.byDeclension[word.declension] = 
         (stats.byDeclension[word.declension] || 0) + 1;
       
-      // Count by gender (normalized)
-      const gender = this.normalizeGender(word.gender);
-      stats.byGender[gender] = (stats.byGender[gender] || 0) + 1;
+      // Count by gender (normalized) - only nouns have one
+      if (isNoun(word)) {
+        const gender = this.normalizeGender(word.gender);
+        stats.byGender[gender] = (stats.byGender[gender] || 0) + 1;
+      }
       
       // Count words with additional meanings
       if (word.additionalMeanings.length > 0) {
@@ -310,6 +804,39 @@ export class VocabularyService {
     return stats;
   }
   
+  /**
+   * Helper: Get the form index, building it on first use
+   * 
+   * Declining all the words takes a moment, so we only do it
+   * when somebody actually needs the index.
+   * 
+   * @private
+   * @returns {FormIndex} The reverse-lookup index
+   */
+  private getFormIndex(): FormIndex {
+    if (!this.formIndex) {
+      this.formIndex = buildFormIndex(this.words);
+    }
+    return this.formIndex;
+  }
+  
+  /**
+   * Helper: The noun declensions a word counts as when filtering
+   * 
+   * A '1st-2nd' adjective (bonus, bona, bonum) uses both the 1st and the
+   * 2nd declension endings, so it matches a filter for either of them.
+   * 
+   * @private
+   * @param {VocabularyEntry} word - Any vocabulary entry
+   * @returns {NormalizedLatinWord['declension'][]} The declensions
+   */
+  private getFilterDeclensions(word: VocabularyEntry): NormalizedLatinWord['declension'][] {
+    if (isAdjective(word)) {
+      return word.declension === '1st-2nd' ? ['1st', '2nd'] : ['3rd'];
+    }
+    return [word.declension];
+  }
+  
   /**
    * Helper: Normalize gender values
    * 
@@ -337,8 +864,8 @@ export class VocabularyService {
       return 'common';
     }
 
-    // Default for ambiguous cases (like "common", "adjective")
-    // You might want to handle these differently
+    // Default for unexpected values (the validator reports them)
+    // Adjectives never get here: they are LatinAdjective entries, without a gender
     return 'masculine';
   }
 }
@@ -368,7 +895,48 @@ export const getWordById = (id: string) => vocabularyService.getWordById(id);
 export const getWordsByIds = (ids: string[]) => vocabularyService.getWordsByIds(ids);
 export const filterWords = (filter: VocabularyFilter) => vocabularyService.filterWords(filter);
 export const searchWords = (searchText: string) => vocabularyService.searchWords(searchText);
+export const searchWordsWithMatches = (searchText: string) =>
+  vocabularyService.searchWordsWithMatches(searchText);
+export const searchWordsWithFilter = (filter: VocabularyFilter) =>
+  vocabularyService.searchWordsWithFilter(filter);
 export const getRandomWords = (count: number, filter?: VocabularyFilter) => 
   vocabularyService.getRandomWords(count, filter);
 export const getWordsByDeclension = () => vocabularyService.getWordsByDeclension();
-export const getVocabularyStatistics = () => vocabularyService.getStatistics();
\ No newline at end of file
+export const getVocabularyStatistics = () => vocabularyService.getStatistics();
+export const getParadigm = (id: string) => vocabularyService.getParadigm(id);
+export const getAdjectiveParadigm = (id: string) => vocabularyService.getAdjectiveParadigm(id);
+export const getNouns = () => vocabularyService.getNouns();
+export const getAdjectives = () => vocabularyService.getAdjectives();
+export const analyzeForm = (form: string) => vocabularyService.analyzeForm(form);
+export const getVerbs = () => vocabularyService.getVerbs();
+export const getVerbForms = (id: string) => vocabularyService.getVerbForms(id);
+export const getPronouns = () => vocabularyService.getPronouns();
+export const getWordsAndPronounsByIds = (ids: string[]) =>
+  vocabularyService.getWordsAndPronounsByIds(ids);
+export const getUserWords = () => vocabularyService.getUserWords();
+export const getTags = () => vocabularyService.getTags();
+export const getVocabularyPacks = () => vocabularyService.getPacks();
+export const loadVocabularyPacks = (ids?: string[]) => vocabularyService.loadPacks(ids);
+
+/**
+ * Re-export the morphology helpers
+ * 
+ * This way the app only needs to import from '@latin-app/data'
+ */
+export * from './morphology';
+export * from './nounExceptions';
+export * from './formAnalyzer';
+export * from './searchIndex';
+export * from './queryParser';
+export * from './macrons';
+export * from './vocabularyValidator';
+export * from './partOfSpeech';
+export * from './adjectives';
+export * from './agreement';
+export * from './conjugation';
+export * from './pronouns';
+export * from './vocabularyImport';
+export * from './decks';
+export * from './wordTags';
+export * from './packs';
+export * from './glosses';
\ No newline at end of file
@@ -0,0 +1,173 @@
+/**
+ * MACRONS - VOWEL LENGTH FOR DISPLAY AND STRICT GRADING
+ * 
+ * Latin vowels are long or short, and dictionaries mark the long ones
+ * with a macron: nātūra, nātūrae. Learners should SEE vowel length, but
+ * search and the IDs must not depend on it (nobody types "ā" in a
+ * search bar).
+ * 
+ * So every word ends up with two versions of its dictionary forms:
+ *   nominative: "Natura"              ← plain, used for search and logic
+ *   macronizedNominative: "Nātūra"    ← optional, used for display and
+ *                                       strict grading
+ * 
+ * Adjectives get the same split for their feminine and neuter
+ * (antīqua → feminine: "antiqua", macronizedFeminine: "antīqua"): the
+ * paradigm is built from the plain forms, so a macron left in one of
+ * them would mark a couple of cells and not the rest.
+ * 
+ * WHERE THE MACRONS COME FROM:
+ * 1. The vocabulary JSON: some entries are already written with macrons.
+ *    We move those into the macronized fields and strip the plain ones.
+ * 2. The correction table below: words the JSON has without macrons, or
+ *    with wrong ones (Pōēta should be poēta).
+ * 
+ * Like the noun exception table, this is applied by the VocabularyService
+ * when the data loads.
+ */
+
+import type { NormalizedLatinWord, VocabularyEntry } from '@latin-app/types';
+import { hasMacrons, normalizeForSearch, stripMacrons } from '@latin-app/shared';
+
+/**
+ * MacronForms Interface - One entry of the correction table
+ */
+export interface MacronForms {
+  // Dictionary forms with every long vowel marked (lowercase)
+  nominative: string;
+  genitive: string;
+}
+
+/**
+ * The correction table
+ * 
+ * Entries win over whatever the JSON says. The forms are matched with
+ * normalizeForSearch, so "Pōēta, pōētae" in the JSON finds poēta here.
+ */
+export const MACRON_CORRECTIONS: MacronForms[] = [
+  // 1st declension
+  { nominative: 'amīcitia', genitive: 'amīcitiae' },
+  { nominative: 'corōna', genitive: 'corōnae' },
+  { nominative: 'glōria', genitive: 'glōriae' },
+  { nominative: 'īnsula', genitive: 'īnsulae' },
+  { nominative: 'īra', genitive: 'īrae' },
+  { nominative: 'poēta', genitive: 'poētae' },
+  { nominative: 'vīta', genitive: 'vītae' },
+
+  // 2nd declension
+  { nominative: 'amīcus', genitive: 'amīcī' },
+  { nominative: 'fīlius', genitive: 'fīliī' },
+  { nominative: 'populus', genitive: 'populī' },
+
+  // 3rd declension
+  { nominative: 'amor', genitive: 'amōris' },
+  { nominative: 'auctor', genitive: 'auctōris' },
+  { nominative: 'color', genitive: 'colōris' },
+  { nominative: 'cōnsul', genitive: 'cōnsulis' },
+  { nominative: 'imperātor', genitive: 'imperātōris' },
+  { nominative: 'labor', genitive: 'labōris' },
+  { nominative: 'lēx', genitive: 'lēgis' },
+  { nominative: 'lībertās', genitive: 'lībertātis' },
+  { nominative: 'nōmen', genitive: 'nōminis' },
+  { nominative: 'uxor', genitive: 'uxōris' },
+  { nominative: 'vēritās', genitive: 'vēritātis' },
+  { nominative: 'vōx', genitive: 'vōcis' },
+];
+
+/**
+ * Find the correction table entry for a word
+ * 
+ * @param {Pick<NormalizedLatinWord, 'nominative' | 'genitive'>} word - The word
+ * @returns {MacronForms | undefined} The entry, or undefined if there is none
+ */
+export function findMacronCorrection(
+  word: Pick<NormalizedLatinWord, 'nominative' | 'genitive'>
+): MacronForms | undefined {
+  const nominative = normalizeForSearch(word.nominative);
+  const genitive = normalizeForSearch(word.genitive);
+
+  return MACRON_CORRECTIONS.find(entry =>
+    normalizeForSearch(entry.nominative) === nominative &&
+    normalizeForSearch(entry.genitive) === genitive
+  );
+}
+
+/**
+ * Give a form the same capitalization as the original
+ * ("nātūra" written like "Natura" → "Nātūra")
+ */
+function matchCapitalization(form: string, original: string): string {
+  const first = original.charAt(0);
+  return first !== first.toLowerCase()
+    ? form.charAt(0).toUpperCase() + form.slice(1)
+    : form;
+}
+
+/**
+ * Helper: The plain and macronized versions of an adjective's feminine
+ * or neuter (only from the JSON: the correction table has no such forms)
+ */
+function splitForm(
+  form: string | undefined,
+  macronized: string | undefined
+): { plain?: string; macronized?: string } {
+  if (form === undefined) {
+    return {};
+  }
+  return {
+    plain: stripMacrons(form),
+    macronized: macronized ?? (hasMacrons(form) ? form : undefined),
+  };
+}
+
+/**
+ * Split a word's dictionary forms into plain and macronized versions
+ * 
+ * Returns a NEW object (the original is not modified), with:
+ * - nominative / genitive: always without macrons
+ * - macronizedNominative / macronizedGenitive: only when the vowel
+ *   lengths are known (from the table or from the JSON)
+ * - for adjectives, feminine / neuter and macronizedFeminine /
+ *   macronizedNeuter the same way
+ * 
+ * Macronized values already present on the word are kept.
+ * Works for nouns and adjectives alike (the generic T keeps the type).
+ * 
+ * @param {T} word - The word as loaded from JSON
+ * @returns {T} The word with separate macronized forms
+ */
+export function applyMacrons<T extends VocabularyEntry>(word: T): T {
+  const correction = findMacronCorrection(word);
+  // If either form is written with macrons, the JSON entry has vowel lengths
+  const fromData = hasMacrons(word.nominative) || hasMacrons(word.genitive);
+
+  const macronizedNominative = word.macronizedNominative
+    ?? (correction ? matchCapitalization(correction.nominative, word.nominative) : undefined)
+    ?? (fromData ? word.nominative : undefined);
+  const macronizedGenitive = word.macronizedGenitive
+    ?? (correction ? matchCapitalization(correction.genitive, word.genitive) : undefined)
+    ?? (fromData ? word.genitive : undefined);
+
+  const result = {
+    ...word,
+    nominative: stripMacrons(word.nominative),
+    genitive: stripMacrons(word.genitive),
+    ...(macronizedNominative && { macronizedNominative }),
+    ...(macronizedGenitive && { macronizedGenitive }),
+  };
+
+  if (word.partOfSpeech !== 'adjective') {
+    return result;
+  }
+
+  const feminine = splitForm(word.feminine, word.macronizedFeminine);
+  const neuter = splitForm(word.neuter, word.macronizedNeuter);
+
+  return {
+    ...result,
+    ...(feminine.plain !== undefined && { feminine: feminine.plain }),
+    ...(neuter.plain !== undefined && { neuter: neuter.plain }),
+    ...(feminine.macronized && { macronizedFeminine: feminine.macronized }),
+    ...(neuter.macronized && { macronizedNeuter: neuter.macronized }),
+  };
+}
@@ -0,0 +1,576 @@
+/**
+ * MORPHOLOGY - NOUN PARADIGM GENERATOR
+ * 
+ * A Latin dictionary only gives you two forms of a noun: the nominative
+ * and the genitive (e.g., "rosa, rosae"). From those two forms, plus the
+ * declension and the gender, a student can build every other form.
+ * 
+ * This module does exactly what the student does on paper:
+ * 1. Take the genitive and remove its ending to find the STEM (ros-)
+ * 2. Add the endings of the declension to the stem (ros + am = rosam)
+ * 3. Apply the special rules (neuters, i-stems, vocatives in -e/-i...)
+ * 
+ * Think of this as a pure "calculator" - no state, just input → output.
+ */
+
+import type {
+  CaseForms,
+  GrammaticalNumber,
+  LatinCase,
+  NounLemma,
+  NounNumberRestriction,
+  NounParadigm,
+  ParadigmOverride,
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+/**
+ * The six cases every noun has, in the traditional order used in class
+ * (the order a student recites a paradigm: nominative, genitive, dative...)
+ * 
+ * The locative is not included because only a few nouns have it.
+ */
+export const DECLINED_CASES: Exclude<LatinCase, 'locative'>[] = [
+  'nominative',
+  'genitive',
+  'dative',
+  'accusative',
+  'ablative',
+  'vocative',
+];
+
+/**
+ * Options for the paradigm generator
+ */
+export interface ParadigmOptions {
+  // Force a locative form (for names of cities and small islands,
+  // e.g. Roma → Romae "in Rome"). Some common nouns get it automatically.
+  includeLocative?: boolean;
+}
+
+/**
+ * Genitive singular endings for each declension
+ * 
+ * We remove this ending from the genitive to get the stem.
+ * The [iī] character classes accept the vowel with or without macron,
+ * because our vocabulary mixes both spellings (dominī / amici).
+ */
+const GENITIVE_ENDINGS: Record<NounLemma['declension'], RegExp> = {
+  '1st': /ae$/,
+  '2nd': /[iī]$/,
+  '3rd': /[iī]s$/,
+  '4th': /[uū]s$/,
+  '5th': /[eē][iī]$/,
+};
+
+/**
+ * Genitive PLURAL endings for each declension
+ * 
+ * Pluralia tantum (nouns with no singular, like arma or tenebrae)
+ * are listed in the dictionary with their genitive plural.
+ */
+const GENITIVE_PLURAL_ENDINGS: Record<NounLemma['declension'], RegExp> = {
+  '1st': /[aā]rum$/,
+  '2nd': /[oō]rum$/,
+  '3rd': /i?um$/,
+  '4th': /[uū]um$/,
+  '5th': /[eē]rum$/,
+};
+
+/**
+ * Common nouns that have a locative case
+ * 
+ * domī (at home), rūrī (in the country), humī (on the ground),
+ * mīlitiae (on military service), bellī (at war)
+ */
+const LOCATIVE_NOUNS = new Set(['domus', 'rus', 'humus', 'militia', 'bellum']);
+
+/**
+ * 3rd declension nouns that look like i-stems but are not
+ * (genitive plural in -um instead of -ium): canum, iuvenum, vatum, panum
+ */
+const NON_I_STEMS = new Set(['canis', 'iuvenis', 'vates', 'panis']);
+
+/**
+ * Helper: Is this character a consonant?
+ * Works on normalized text (no macrons, lowercase)
+ */
+function isConsonant(char: string): boolean {
+  return /[bcdfghklmnpqrstvxz]/.test(char);
+}
+
+/**
+ * Helper: Count syllables in a word
+ * 
+ * Each vowel or diphthong (ae, au, oe) is one syllable.
+ * This is enough to tell "civis, civis" (same length = parisyllabic)
+ * from "rex, regis" (the genitive is longer).
+ */
+function countSyllables(word: string): number {
+  const matches = normalizeForSearch(word).match(/ae|au|oe|[aeiouy]/g);
+  return matches ? matches.length : 0;
+}
+
+/**
+ * Helper: Is this 3rd declension noun an i-stem?
+ * 
+ * i-stems have genitive plural -ium (civium, urbium, marium).
+ * The classic textbook rules:
+ * 1. Parisyllabic nouns in -is/-es (civis, civis; nubes, nubis)
+ * 2. Monosyllables in -s/-x whose stem ends in two consonants (urbs, urb-; nox, noct-)
+ * 3. Neuters in -e, -al, -ar (mare, animal, exemplar) - see isNeuterIStem
+ */
+function isIStem(nominative: string, genitive: string, stem: string): boolean {
+  const nom = normalizeForSearch(nominative);
+  const normalizedStem = normalizeForSearch(stem);
+
+  if (NON_I_STEMS.has(nom)) {
+    return false;
+  }
+
+  // Rule 1: parisyllabic -is / -es
+  if ((nom.endsWith('is') || nom.endsWith('es')) &&
+      countSyllables(nominative) === countSyllables(genitive)) {
+    return true;
+  }
+
+  // Rule 2: monosyllable in -s/-x with a double-consonant stem
+  if ((nom.endsWith('s') || nom.endsWith('x')) && countSyllables(nominative) === 1) {
+    const lastTwo = normalizedStem.slice(-2);
+    return lastTwo.length === 2 && isConsonant(lastTwo[0]) && isConsonant(lastTwo[1]);
+  }
+
+  return false;
+}
+
+/**
+ * Helper: Is this 3rd declension neuter an i-stem?
+ * 
+ * Neuters in -e, -al, -ar have ablative -i and plural -ia:
+ * mare → marī, maria, marium
+ * The -al/-ar rule only applies to words of more than one syllable
+ * (animal, exemplar), not to short words like "far, farris".
+ */
+function isNeuterIStem(nominative: string): boolean {
+  const nom = normalizeForSearch(nominative);
+  if (nom.endsWith('e')) {
+    return true;
+  }
+  return (nom.endsWith('al') || nom.endsWith('ar')) && countSyllables(nominative) > 1;
+}
+
+/**
+ * Helper: Build the CaseForms object from a stem and a list of endings
+ * 
+ * The endings are given in the traditional order:
+ * [nominative, genitive, dative, accusative, ablative, vocative]
+ */
+function buildForms(stem: string, endings: string[]): CaseForms {
+  return {
+    nominative: stem + endings[0],
+    genitive: stem + endings[1],
+    dative: stem + endings[2],
+    accusative: stem + endings[3],
+    ablative: stem + endings[4],
+    vocative: stem + endings[5],
+  };
+}
+
+/**
+ * 1st DECLENSION (rosa, rosae)
+ */
+function declineFirst(nominative: string, genitive: string, stem: string): NounParadigm {
+  const singular = buildForms(stem, ['a', 'ae', 'ae', 'am', 'a', 'a']);
+  // Keep the dictionary forms exactly as written
+  singular.nominative = nominative;
+  singular.genitive = genitive;
+  singular.vocative = nominative;
+
+  return {
+    singular,
+    plural: buildForms(stem, ['ae', 'arum', 'is', 'as', 'is', 'ae']),
+  };
+}
+
+/**
+ * 2nd DECLENSION (dominus, dominī / puer, puerī / bellum, bellī)
+ * 
+ * Special rules:
+ * - Neuters: nominative = accusative = vocative, plural in -a
+ * - Nouns in -er/-ir: the vocative is the same as the nominative (puer!)
+ * - Nouns in -ius: vocative in -ī (fīlius → fīlī)
+ * - Others in -us: vocative in -e (dominus → domine)
+ */
+function declineSecond(
+  nominative: string,
+  genitive: string,
+  stem: string,
+  isNeuter: boolean
+): NounParadigm {
+  const nom = normalizeForSearch(nominative);
+
+  // Contracted genitive (collegium, collegi): the stem still ends in -i
+  if ((nom.endsWith('ius') || nom.endsWith('ium')) && !normalizeForSearch(stem).endsWith('i')) {
+    stem = stem + 'i';
+  }
+
+  if (isNeuter) {
+    const singular = buildForms(stem, ['um', 'i', 'o', 'um', 'o', 'um']);
+    singular.nominative = nominative;
+    singular.genitive = genitive;
+    singular.accusative = nominative;
+    singular.vocative = nominative;
+
+    return {
+      singular,
+      plural: buildForms(stem, ['a', 'orum', 'is', 'a', 'is', 'a']),
+    };
+  }
+
+  const singular = buildForms(stem, ['us', 'i', 'o', 'um', 'o', 'e']);
+  singular.nominative = nominative;
+  singular.genitive = genitive;
+
+  if (nom.endsWith('ius')) {
+    // fīlius → fīlī: the stem (fili-) is already the vocative
+    singular.vocative = stem;
+  } else if (!nom.endsWith('us')) {
+    // puer, ager, vir: vocative = nominative
+    singular.vocative = nominative;
+  }
+
+  return {
+    singular,
+    plural: buildForms(stem, ['i', 'orum', 'is', 'os', 'is', 'i']),
+  };
+}
+
+/**
+ * 3rd DECLENSION (rex, regis / corpus, corporis / civis, civis)
+ * 
+ * The nominative singular can't be predicted from the stem, so we
+ * always take it from the dictionary. The rest follow the stem.
+ */
+function declineThird(
+  nominative: string,
+  genitive: string,
+  stem: string,
+  isNeuter: boolean
+): NounParadigm {
+  if (isNeuter) {
+    const iStem = isNeuterIStem(nominative);
+    const singular = buildForms(stem, ['', 'is', 'i', '', iStem ? 'i' : 'e', '']);
+    singular.nominative = nominative;
+    singular.genitive = genitive;
+    singular.accusative = nominative;
+    singular.vocative = nominative;
+
+    const plural = iStem
+      ? buildForms(stem, ['ia', 'ium', 'ibus', 'ia', 'ibus', 'ia'])
+      : buildForms(stem, ['a', 'um', 'ibus', 'a', 'ibus', 'a']);
+
+    return { singular, plural };
+  }
+
+  const iStem = isIStem(nominative, genitive, stem);
+  const singular = buildForms(stem, ['', 'is', 'i', 'em', 'e', '']);
+  singular.nominative = nominative;
+  singular.genitive = genitive;
+  singular.vocative = nominative;
+
+  return {
+    singular,
+    plural: buildForms(stem, ['es', iStem ? 'ium' : 'um', 'ibus', 'es', 'ibus', 'es']),
+  };
+}
+
+/**
+ * 4th DECLENSION (manus, manūs / cornū, cornūs)
+ */
+function declineFourth(
+  nominative: string,
+  genitive: string,
+  stem: string,
+  isNeuter: boolean
+): NounParadigm {
+  if (isNeuter) {
+    const singular = buildForms(stem, ['u', 'us', 'u', 'u', 'u', 'u']);
+    singular.nominative = nominative;
+    singular.genitive = genitive;
+    singular.accusative = nominative;
+    singular.vocative = nominative;
+
+    return {
+      singular,
+      plural: buildForms(stem, ['ua', 'uum', 'ibus', 'ua', 'ibus', 'ua']),
+    };
+  }
+
+  const singular = buildForms(stem, ['us', 'us', 'ui', 'um', 'u', 'us']);
+  singular.nominative = nominative;
+  singular.genitive = genitive;
+  singular.vocative = nominative;
+
+  return {
+    singular,
+    plural: buildForms(stem, ['us', 'uum', 'ibus', 'us', 'ibus', 'us']),
+  };
+}
+
+/**
+ * 5th DECLENSION (rēs, reī / diēs, diēī)
+ */
+function declineFifth(nominative: string, genitive: string, stem: string): NounParadigm {
+  const singular = buildForms(stem, ['es', 'ei', 'ei', 'em', 'e', 'es']);
+  singular.nominative = nominative;
+  singular.genitive = genitive;
+  singular.vocative = nominative;
+
+  return {
+    singular,
+    plural: buildForms(stem, ['es', 'erum', 'ebus', 'es', 'ebus', 'es']),
+  };
+}
+
+/**
+ * Helper: Add the locative forms to a paradigm
+ * 
+ * The locative looks like another case:
+ * - 1st/2nd declension singular: like the genitive (Romae, domi, belli)
+ * - 3rd declension singular: like the dative (ruri, Carthagini)
+ * - 4th/5th declension singular: like the ablative
+ * - Plural (all declensions): like the ablative (Athenis)
+ */
+function addLocative(paradigm: NounParadigm, declension: NounLemma['declension']): void {
+  const { singular, plural } = paradigm;
+
+  if (singular) {
+    if (declension === '1st' || declension === '2nd') {
+      singular.locative = singular.genitive;
+    } else if (declension === '3rd') {
+      singular.locative = singular.dative;
+    } else {
+      singular.locative = singular.ablative;
+    }
+  }
+
+  if (plural) {
+    plural.locative = plural.ablative;
+  }
+}
+
+/**
+ * Get the stem of a noun from its genitive
+ * 
+ * @param {NounLemma} word - The dictionary entry
+ * @returns {string | null} The stem, or null if the genitive doesn't match the declension
+ * 
+ * EXAMPLES:
+ * - rosa, rosae (1st) → "ros"
+ * - rex, regis (3rd) → "reg"
+ * - res, rei (5th) → "r"
+ */
+export function getNounStem(word: NounLemma): string | null {
+  const genitive = word.genitive.trim().toLowerCase();
+  const ending = GENITIVE_ENDINGS[word.declension];
+
+  if (!ending || !ending.test(genitive)) {
+    return null;
+  }
+
+  return genitive.replace(ending, '');
+}
+
+/**
+ * Detect whether a noun only exists in the plural or the singular
+ * 
+ * An explicit numberRestriction on the word always wins. Otherwise,
+ * a dictionary genitive that is a genitive PLURAL (tenebrae, tenebrārum;
+ * arma, armorum) tells us the noun is a plurale tantum.
+ * 
+ * @param {NounLemma} word - The dictionary entry
+ * @returns {NounNumberRestriction | undefined} The restriction, if any
+ */
+export function detectNumberRestriction(word: NounLemma): NounNumberRestriction | undefined {
+  if (word.numberRestriction) {
+    return word.numberRestriction;
+  }
+
+  const genitive = word.genitive.trim().toLowerCase();
+  const singularEnding = GENITIVE_ENDINGS[word.declension];
+  const pluralEnding = GENITIVE_PLURAL_ENDINGS[word.declension];
+
+  if (singularEnding && !singularEnding.test(genitive) && pluralEnding?.test(genitive)) {
+    return 'plural-only';
+  }
+
+  return undefined;
+}
+
+/**
+ * Helper: Decline a regular noun (no overrides)
+ * 
+ * @param {NounLemma} word - The dictionary entry
+ * @param {NounNumberRestriction | undefined} restriction - Plural-only or singular-only
+ * @returns {NounParadigm | null} The regular paradigm, or null for bad data
+ */
+function declineRegular(
+  word: NounLemma,
+  restriction: NounNumberRestriction | undefined
+): NounParadigm | null {
+  const nominative = word.nominative.trim().toLowerCase();
+  const genitive = word.genitive.trim().toLowerCase();
+  const isNeuter = word.gender === 'neuter';
+
+  // Pluralia tantum: the dictionary gives the genitive PLURAL,
+  // so we take the stem from it instead (tenebrārum → tenebr-)
+  let stem: string | null;
+  if (restriction === 'plural-only') {
+    const pluralEnding = GENITIVE_PLURAL_ENDINGS[word.declension];
+    stem = pluralEnding.test(genitive) ? genitive.replace(pluralEnding, '') : null;
+  } else {
+    stem = getNounStem(word);
+  }
+
+  if (stem === null) {
+    return null;
+  }
+
+  let paradigm: NounParadigm;
+
+  // Choose the pattern according to the declension
+  switch (word.declension) {
+    case '1st':
+      paradigm = declineFirst(nominative, genitive, stem);
+      break;
+    case '2nd':
+      paradigm = declineSecond(nominative, genitive, stem, isNeuter);
+      break;
+    case '3rd':
+      paradigm = declineThird(nominative, genitive, stem, isNeuter);
+      break;
+    case '4th':
+      // cornū, genū: neuters in -u even if the gender is missing
+      paradigm = declineFourth(
+        nominative,
+        genitive,
+        stem,
+        isNeuter || normalizeForSearch(nominative).endsWith('u')
+      );
+      break;
+    case '5th':
+      paradigm = declineFifth(nominative, genitive, stem);
+      break;
+  }
+
+  if (restriction === 'plural-only' && paradigm.plural) {
+    // The dictionary forms ARE the plural forms (arma, armorum)
+    const plural = paradigm.plural;
+    plural.nominative = nominative;
+    plural.genitive = genitive;
+    plural.vocative = nominative;
+    if (isNeuter || (word.declension !== '1st' && word.declension !== '2nd')) {
+      // Neuters and the 3rd/4th/5th declensions: accusative = nominative
+      plural.accusative = nominative;
+    }
+    return { plural };
+  }
+
+  if (restriction === 'singular-only') {
+    return { singular: paradigm.singular };
+  }
+
+  return paradigm;
+}
+
+/**
+ * Helper: Merge a paradigm override on top of a generated paradigm
+ * 
+ * - override.replace = true: the override IS the paradigm (vis, Iuppiter)
+ * - otherwise: only the listed cells change (deus → vocative deus, plural di, dis)
+ * 
+ * The spread operator (...) copies all properties of an object,
+ * and later properties win - like putAll() on a Java Map.
+ */
+function mergeOverride(
+  paradigm: NounParadigm | null,
+  override: ParadigmOverride
+): NounParadigm | null {
+  if (override.replace) {
+    return {
+      singular: override.singular as CaseForms | undefined,
+      plural: override.plural as CaseForms | undefined,
+    };
+  }
+
+  if (!paradigm) {
+    return null;
+  }
+
+  return {
+    singular: paradigm.singular && { ...paradigm.singular, ...override.singular },
+    plural: paradigm.plural && { ...paradigm.plural, ...override.plural },
+  };
+}
+
+/**
+ * Generate the full paradigm of a noun
+ * 
+ * Takes the dictionary entry (nominative, genitive, declension, gender)
+ * and produces all six cases in singular and plural, plus the locative
+ * for the nouns that have one.
+ * 
+ * Irregular nouns are handled in three steps:
+ * 1. Pluralia tantum / singular-only nouns only get one number
+ * 2. The regular rules build the table
+ * 3. The word's paradigmOverride (see nounExceptions.ts) corrects the irregular cells
+ * 
+ * All forms are returned in lowercase, as they appear in a grammar table.
+ * 
+ * @param {NounLemma} word - The dictionary entry (a NormalizedLatinWord works too)
+ * @param {ParadigmOptions} options - Optional settings
+ * @returns {NounParadigm | null} The paradigm, or null if the genitive
+ *   doesn't match the declension (bad data)
+ * 
+ * EXAMPLE:
+ * generateNounParadigm({ nominative: 'Rosa', genitive: 'rosae', declension: '1st', gender: 'feminine' })
+ * → { singular: { nominative: 'rosa', genitive: 'rosae', dative: 'rosae', accusative: 'rosam', ... },
+ *     plural: { nominative: 'rosae', genitive: 'rosarum', ... } }
+ */
+export function generateNounParadigm(
+  word: NounLemma,
+  options: ParadigmOptions = {}
+): NounParadigm | null {
+  const restriction = detectNumberRestriction(word);
+
+  // A full override doesn't need the regular rules at all
+  let paradigm = word.paradigmOverride?.replace ? null : declineRegular(word, restriction);
+
+  if (paradigm &&
+      (options.includeLocative || LOCATIVE_NOUNS.has(normalizeForSearch(word.nominative)))) {
+    addLocative(paradigm, word.declension);
+  }
+
+  if (word.paradigmOverride) {
+    paradigm = mergeOverride(paradigm, word.paradigmOverride);
+  }
+
+  return paradigm;
+}
+
+/**
+ * Get a single form from a paradigm
+ * 
+ * @param {NounParadigm} paradigm - The paradigm
+ * @param {GrammaticalNumber} number - Singular or plural
+ * @param {LatinCase} grammaticalCase - The case ('case' is a reserved word in JS)
+ * @returns {string | undefined} The form, or undefined (a missing locative,
+ *   or the singular of a plurale tantum)
+ */
+export function getNounForm(
+  paradigm: NounParadigm,
+  number: GrammaticalNumber,
+  grammaticalCase: LatinCase
+): string | undefined {
+  return paradigm[number]?.[grammaticalCase];
+}
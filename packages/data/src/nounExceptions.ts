@@ -0,0 +1,232 @@
+/**
+ * NOUN EXCEPTIONS - IRREGULAR AND DEFECTIVE NOUNS
+ * 
+ * Most Latin nouns follow the five declension patterns, but some of the
+ * most common ones don't: domus mixes the 2nd and 4th declensions,
+ * deus has a plural "di", vis has almost nothing in common with its plural.
+ * 
+ * The vocabulary JSON has no room for that information, so we keep it
+ * here, in a separate "exception table". The VocabularyService applies it
+ * to every word when it loads the data, so the rest of the app just sees
+ * words with the correct numberRestriction / paradigmOverride fields.
+ * 
+ * Think of this as a configuration file that patches the data.
+ */
+
+import type {
+  NormalizedLatinWord,
+  NounNumberRestriction,
+  ParadigmOverride,
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+import { detectNumberRestriction } from './morphology';
+
+/**
+ * NounException Interface - One entry of the exception table
+ */
+export interface NounException {
+  // The dictionary form to match (macrons and case are ignored)
+  nominative: string;
+
+  // Optional genitive to tell apart homographs:
+  // ōs, ōris (mouth) vs. os, ossis (bone)
+  genitive?: string;
+
+  // Plural-only or singular-only
+  numberRestriction?: NounNumberRestriction;
+
+  // Irregular forms
+  paradigmOverride?: ParadigmOverride;
+}
+
+/**
+ * The exception table
+ * 
+ * Some of these nouns are not in the built-in vocabulary yet, but
+ * they will be corrected automatically as soon as they are added.
+ */
+export const NOUN_EXCEPTIONS: NounException[] = [
+  // domus, domūs (f.) - 4th declension with some 2nd declension forms
+  {
+    nominative: 'domus',
+    paradigmOverride: {
+      singular: { ablative: 'domo', locative: 'domi' },
+      plural: { accusative: 'domos', locative: 'domibus' },
+    },
+  },
+
+  // deus, deī (m.) - vocative = nominative, contracted plural di / dis
+  {
+    nominative: 'deus',
+    paradigmOverride: {
+      singular: { vocative: 'deus' },
+      plural: { nominative: 'di', dative: 'dis', ablative: 'dis', vocative: 'di' },
+    },
+  },
+
+  // bōs, bovis (m./f.) - genitive plural boum, dative/ablative bobus
+  {
+    nominative: 'bos',
+    paradigmOverride: {
+      plural: { genitive: 'boum', dative: 'bobus', ablative: 'bobus' },
+    },
+  },
+
+  // locus, locī (m.) - the plural is usually neuter: loca, "places"
+  // (the masculine plural locī means "passages" in a book)
+  {
+    nominative: 'locus',
+    paradigmOverride: {
+      plural: { nominative: 'loca', accusative: 'loca', vocative: 'loca' },
+    },
+  },
+
+  // os, ossis (n.) - i-stem: genitive plural ossium
+  {
+    nominative: 'os',
+    genitive: 'ossis',
+    paradigmOverride: {
+      plural: { genitive: 'ossium' },
+    },
+  },
+
+  // vās, vāsis (n.) - the plural follows the 2nd declension
+  {
+    nominative: 'vas',
+    genitive: 'vasis',
+    paradigmOverride: {
+      plural: {
+        nominative: 'vasa',
+        genitive: 'vasorum',
+        dative: 'vasis',
+        accusative: 'vasa',
+        ablative: 'vasis',
+        vocative: 'vasa',
+      },
+    },
+  },
+
+  // vīs (f.) - irregular singular, plural vīrēs, vīrium
+  {
+    nominative: 'vis',
+    paradigmOverride: {
+      replace: true,
+      singular: {
+        nominative: 'vis',
+        genitive: 'vis',
+        dative: 'vi',
+        accusative: 'vim',
+        ablative: 'vi',
+        vocative: 'vis',
+      },
+      plural: {
+        nominative: 'vires',
+        genitive: 'virium',
+        dative: 'viribus',
+        accusative: 'vires',
+        ablative: 'viribus',
+        vocative: 'vires',
+      },
+    },
+  },
+
+  // Iuppiter, Iovis (m.) - the stem changes completely; no plural
+  {
+    nominative: 'iuppiter',
+    numberRestriction: 'singular-only',
+    paradigmOverride: {
+      replace: true,
+      singular: {
+        nominative: 'iuppiter',
+        genitive: 'iovis',
+        dative: 'iovi',
+        accusative: 'iovem',
+        ablative: 'iove',
+        vocative: 'iuppiter',
+      },
+    },
+  },
+
+  // moenia, moenium (n. pl.) - 3rd declension i-stem plural
+  {
+    nominative: 'moenia',
+    numberRestriction: 'plural-only',
+    paradigmOverride: {
+      replace: true,
+      plural: {
+        nominative: 'moenia',
+        genitive: 'moenium',
+        dative: 'moenibus',
+        accusative: 'moenia',
+        ablative: 'moenibus',
+        vocative: 'moenia',
+      },
+    },
+  },
+
+  // Pluralia tantum - regular forms, but no singular
+  { nominative: 'arma', numberRestriction: 'plural-only' },
+  { nominative: 'castra', numberRestriction: 'plural-only' },
+  { nominative: 'divitiae', numberRestriction: 'plural-only' },
+  { nominative: 'insidiae', numberRestriction: 'plural-only' },
+  { nominative: 'nuptiae', numberRestriction: 'plural-only' },
+  { nominative: 'primitiae', numberRestriction: 'plural-only' },
+  { nominative: 'reliquiae', numberRestriction: 'plural-only' },
+  { nominative: 'tenebrae', numberRestriction: 'plural-only' },
+
+  // Singularia tantum - no plural
+  { nominative: 'vulgus', numberRestriction: 'singular-only' },
+  { nominative: 'humus', numberRestriction: 'singular-only' },
+];
+
+/**
+ * Find the exception entry for a word
+ * 
+ * @param {Pick<NormalizedLatinWord, 'nominative' | 'genitive'>} word - The word to look up
+ * @returns {NounException | undefined} The entry, or undefined for regular nouns
+ */
+export function findNounException(
+  word: Pick<NormalizedLatinWord, 'nominative' | 'genitive'>
+): NounException | undefined {
+  const nominative = normalizeForSearch(word.nominative);
+  const genitive = normalizeForSearch(word.genitive);
+
+  return NOUN_EXCEPTIONS.find(exception =>
+    normalizeForSearch(exception.nominative) === nominative &&
+    (!exception.genitive || normalizeForSearch(exception.genitive) === genitive)
+  );
+}
+
+/**
+ * Apply the exception table to a word
+ * 
+ * Returns a NEW object (the original is not modified), with:
+ * - numberRestriction: from the table, or detected from the genitive
+ *   for words that are not in the table
+ * - paradigmOverride: from the table
+ * 
+ * Values already present on the word are kept - the data wins over the table.
+ * 
+ * @param {NormalizedLatinWord} word - The word as loaded from JSON
+ * @returns {NormalizedLatinWord} The corrected word
+ */
+export function applyNounExceptions(word: NormalizedLatinWord): NormalizedLatinWord {
+  const exception = findNounException(word);
+  // Only guess from the genitive when the table doesn't know the word
+  // (vīs is listed with its genitive plural vīrium, but has a singular)
+  const numberRestriction = word.numberRestriction
+    ?? (exception ? exception.numberRestriction : detectNumberRestriction(word));
+  const paradigmOverride = word.paradigmOverride ?? exception?.paradigmOverride;
+
+  // Regular noun: nothing to add
+  if (!numberRestriction && !paradigmOverride) {
+    return word;
+  }
+
+  return {
+    ...word,
+    ...(numberRestriction && { numberRestriction }),
+    ...(paradigmOverride && { paradigmOverride }),
+  };
+}
@@ -0,0 +1,142 @@
+/**
+ * VOCABULARY PACKS - THE MANIFEST AND THE LOADERS
+ * 
+ * The vocabulary comes in "packs": one word list per source. The app's
+ * own list is the 'core' pack; textbook packs (Wheelock...) follow the
+ * chapters of a book, so a learner can study exactly the words of the
+ * course they are taking.
+ * 
+ * The manifest below describes every pack without loading it. The words
+ * themselves are only imported when a pack is enabled: each loader uses
+ * a dynamic import(), which bundlers like Vite turn into a separate file
+ * that is downloaded on demand. A learner who only uses one textbook
+ * never downloads the others.
+ * 
+ * Word IDs belong to their pack and never change: the 'core' pack keeps
+ * its historic word_agricola_0001 IDs, and every other pack prefixes its
+ * IDs with the pack id (wheelock_porta_0011). Saved decks and progress
+ * keep working when packs are switched on and off.
+ */
+
+import type { VocabularyEntry, VocabularyPackInfo } from '@latin-app/types';
+
+import { applyGlosses } from './glosses';
+import { applyMacrons } from './macrons';
+import { applyNounExceptions } from './nounExceptions';
+import { isNoun } from './partOfSpeech';
+import type { RawVocabularyEntry } from './vocabularyValidator';
+import { applyWordTags } from './wordTags';
+
+/**
+ * The pack manifest, in the order the packs are listed (and merged)
+ * 
+ * wordCount must match the JSON file; the VocabularyService warns when
+ * a loaded pack has a different number of words.
+ */
+export const VOCABULARY_PACKS: VocabularyPackInfo[] = [
+  {
+    id: 'core',
+    title: 'Vocabulario general',
+    source: 'Lista propia de la aplicación',
+    glossLanguages: ['es', 'en'],
+    wordCount: 709,
+    description: 'Sustantivos de las cinco declinaciones y los adjetivos más frecuentes',
+  },
+  {
+    id: 'wheelock',
+    title: 'Wheelock, capítulos 2-10',
+    source: "Wheelock's Latin (7.ª ed.), caps. 2-10",
+    glossLanguages: ['es', 'en'],
+    wordCount: 95,
+    description: 'Sustantivos y adjetivos de los primeros capítulos, etiquetados por capítulo',
+  },
+];
+
+/**
+ * The packs enabled when the learner hasn't chosen any
+ */
+export const DEFAULT_PACK_IDS: string[] = ['core'];
+
+/**
+ * A word as written in a pack file
+ * JSON has no undefined, so a missing example sentence is stored as null
+ */
+type PackFileWord = RawVocabularyEntry & {
+  exampleSentence?: string | null;
+  tags?: string[];
+};
+
+/**
+ * One loader per pack: pack id → function that imports the JSON file
+ * 
+ * The import() calls must be written out with a literal path, so the
+ * bundler can find each file and split it into its own chunk.
+ * The '../../../' goes up 3 directories to reach the root.
+ */
+const PACK_LOADERS: Record<string, () => Promise<PackFileWord[]>> = {
+  core: () => import('../../../vocabulary-normalized.json')
+    .then(module => module.default as PackFileWord[]),
+  wheelock: () => import('../../../vocabulary-wheelock.json')
+    .then(module => module.default as PackFileWord[]),
+};
+
+/**
+ * Find a pack in the manifest
+ * 
+ * @param {string} id - The pack id
+ * @returns {VocabularyPackInfo | undefined} The pack, or undefined if there is no such pack
+ */
+export function getPackInfo(id: string): VocabularyPackInfo | undefined {
+  return VOCABULARY_PACKS.find(pack => pack.id === id);
+}
+
+/**
+ * Keep only the ids of packs that exist, in manifest order, without repeats
+ * 
+ * Saved settings may mention packs that were renamed or removed.
+ * 
+ * EXAMPLE:
+ * normalizePackIds(['wheelock', 'old-pack', 'core']) → ['core', 'wheelock']
+ * 
+ * @param {string[]} ids - Pack ids, in any order
+ * @returns {string[]} The valid ids, in the order of VOCABULARY_PACKS
+ */
+export function normalizePackIds(ids: string[]): string[] {
+  const wanted = new Set(ids);
+  return VOCABULARY_PACKS.filter(pack => wanted.has(pack.id)).map(pack => pack.id);
+}
+
+/**
+ * Load the words of a pack
+ * 
+ * Imports the pack file and gives every word the same treatment:
+ * null example sentences become undefined, macrons move to the
+ * macronized fields, irregular nouns are patched, the semantic
+ * tags are added and the glosses map gets the Spanish translation.
+ * 
+ * 'async' functions always return a Promise (like CompletableFuture in Java)
+ * 
+ * @param {string} id - The pack id
+ * @returns {Promise<VocabularyEntry[]>} The words, ready to be used
+ * @throws {Error} If the pack is not in the manifest
+ */
+export async function loadPackWords(id: string): Promise<VocabularyEntry[]> {
+  const loader = PACK_LOADERS[id];
+  if (!loader) {
+    throw new Error(`Unknown vocabulary pack: ${id}`);
+  }
+
+  const data = await loader();
+  return (data.map(word => ({
+    ...word,
+    exampleSentence: word.exampleSentence ?? undefined // Convert null to undefined
+  })) as VocabularyEntry[])
+    // Keep macrons only in the macronized fields (Nātūra → Natura + Nātūra)
+    .map(applyMacrons)
+    // Patch irregular and defective nouns (domus, vis, arma...)
+    .map(word => (isNoun(word) ? applyNounExceptions(word) : word))
+    // Add the semantic tags (familia, militia, natura...)
+    .map(applyWordTags)
+    // Copy the Spanish translation into the glosses map
+    .map(applyGlosses);
+}
@@ -0,0 +1,73 @@
+/**
+ * PART OF SPEECH HELPERS
+ * 
+ * Vocabulary entries are a discriminated union (see VocabularyEntry in
+ * @latin-app/types): nouns and adjectives, told apart by partOfSpeech.
+ * 
+ * These type guards narrow an entry to one of them. A function with
+ * the return type "entry is X" tells TypeScript that, inside an
+ * if (isAdjective(entry)) { ... } block, entry has type X.
+ * 
+ * They are generic so they also work with the app's own word types
+ * (anything with an optional partOfSpeech field), including a word
+ * selection that mixes vocabulary entries with pronouns (LatinPronoun).
+ */
+
+import type { LatinPronoun, PartOfSpeech } from '@latin-app/types';
+
+/**
+ * Anything that can carry a part of speech
+ * (nouns from the JSON don't have the field at all)
+ */
+type WithPartOfSpeech = { partOfSpeech?: PartOfSpeech };
+
+/**
+ * Anything the guards can narrow: vocabulary entries or pronouns
+ */
+type Narrowable = { partOfSpeech?: PartOfSpeech | LatinPronoun['partOfSpeech'] };
+
+/**
+ * Get the part of speech of an entry ('noun' when it's missing)
+ * 
+ * @param {WithPartOfSpeech} entry - Any vocabulary entry
+ * @returns {PartOfSpeech} The part of speech
+ */
+export function getPartOfSpeech(entry: WithPartOfSpeech): PartOfSpeech {
+  return entry.partOfSpeech ?? 'noun';
+}
+
+/**
+ * Is this entry a noun?
+ * 
+ * @param {T} entry - Any vocabulary entry
+ * @returns {boolean} true for nouns (narrows the type)
+ */
+export function isNoun<T extends Narrowable>(
+  entry: T
+): entry is Extract<T, { partOfSpeech?: 'noun' }> {
+  return (entry.partOfSpeech ?? 'noun') === 'noun';
+}
+
+/**
+ * Is this entry an adjective?
+ * 
+ * @param {T} entry - Any vocabulary entry
+ * @returns {boolean} true for adjectives (narrows the type)
+ */
+export function isAdjective<T extends Narrowable>(
+  entry: T
+): entry is Extract<T, { partOfSpeech: 'adjective' }> {
+  return entry.partOfSpeech === 'adjective';
+}
+
+/**
+ * Is this a pronoun?
+ * 
+ * @param {T} entry - A vocabulary entry or a pronoun
+ * @returns {boolean} true for pronouns (narrows the type)
+ */
+export function isPronoun<T extends Narrowable>(
+  entry: T
+): entry is Extract<T, { partOfSpeech: 'pronoun' }> {
+  return entry.partOfSpeech === 'pronoun';
+}
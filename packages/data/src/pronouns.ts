@@ -0,0 +1,246 @@
+/**
+ * PRONOUNS - STATIC PARADIGMS
+ * 
+ * Unlike nouns and adjectives, pronouns can't be generated from a
+ * dictionary line: eius, huius, illīus, cuius all share a genitive in
+ * -ius, but their other forms have little in common. Students learn
+ * these tables by heart, so we write them out in full here.
+ * 
+ * Forms are stored WITH macrons (the drills compare with
+ * normalizeForSearch, so typing them without macrons is fine).
+ * When a case has two accepted forms, both are listed:
+ *   nostrī / nostrum (genitive plural of ego)
+ *   eīs / iīs (dative and ablative plural of is)
+ */
+
+import type {
+  AdjectiveGender,
+  GrammaticalNumber,
+  LatinPronoun,
+  PronounCase,
+  PronounCaseForms,
+  PronounTable,
+} from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+/**
+ * The cases of a pronoun table, in the order they are recited
+ * (no vocative and no locative, see PronounCase)
+ */
+export const PRONOUN_CASES: PronounCase[] = [
+  'nominative',
+  'genitive',
+  'dative',
+  'accusative',
+  'ablative',
+];
+
+/**
+ * Helper: Build one number of a table from the five forms in order
+ * (nominative, genitive, dative, accusative, ablative).
+ * Alternatives are written with a slash: 'nostrī/nostrum'.
+ */
+function forms(...cases: string[]): PronounCaseForms {
+  const [nominative, genitive, dative, accusative, ablative] = cases.map(form => form.split('/'));
+  return { nominative, genitive, dative, accusative, ablative };
+}
+
+/**
+ * The pronoun table
+ */
+export const PRONOUNS: LatinPronoun[] = [
+  // ego - "yo" (plural nōs, "nosotros")
+  {
+    id: 'pronoun_ego_0001',
+    partOfSpeech: 'pronoun',
+    category: 'personal',
+    lemma: 'ego',
+    tables: [
+      {
+        singular: forms('ego', 'meī', 'mihi', 'mē', 'mē'),
+        plural: forms('nōs', 'nostrī/nostrum', 'nōbīs', 'nōs', 'nōbīs'),
+      },
+    ],
+    spanishTranslation: 'yo',
+    additionalMeanings: ['nosotros'],
+    glosses: { en: ['I', 'we'] },
+  },
+
+  // tū - "tú" (plural vōs, "vosotros")
+  {
+    id: 'pronoun_tu_0002',
+    partOfSpeech: 'pronoun',
+    category: 'personal',
+    lemma: 'tū',
+    tables: [
+      {
+        singular: forms('tū', 'tuī', 'tibi', 'tē', 'tē'),
+        plural: forms('vōs', 'vestrī/vestrum', 'vōbīs', 'vōs', 'vōbīs'),
+      },
+    ],
+    spanishTranslation: 'tú',
+    additionalMeanings: ['vosotros'],
+    glosses: { en: ['you', 'you (pl.)'] },
+  },
+
+  // is, ea, id - "este, ese" (also the 3rd person pronoun: "él, ella, ello")
+  {
+    id: 'pronoun_is_0003',
+    partOfSpeech: 'pronoun',
+    category: 'demonstrative',
+    lemma: 'is, ea, id',
+    tables: [
+      {
+        gender: 'masculine',
+        singular: forms('is', 'eius', 'eī', 'eum', 'eō'),
+        plural: forms('eī/iī', 'eōrum', 'eīs/iīs', 'eōs', 'eīs/iīs'),
+      },
+      {
+        gender: 'feminine',
+        singular: forms('ea', 'eius', 'eī', 'eam', 'eā'),
+        plural: forms('eae', 'eārum', 'eīs/iīs', 'eās', 'eīs/iīs'),
+      },
+      {
+        gender: 'neuter',
+        singular: forms('id', 'eius', 'eī', 'id', 'eō'),
+        plural: forms('ea', 'eōrum', 'eīs/iīs', 'ea', 'eīs/iīs'),
+      },
+    ],
+    spanishTranslation: 'él, ella, ello',
+    additionalMeanings: ['este', 'ese'],
+    glosses: { en: ['he, she, it', 'this', 'that'] },
+  },
+
+  // hic, haec, hoc - "este" (near the speaker)
+  {
+    id: 'pronoun_hic_0004',
+    partOfSpeech: 'pronoun',
+    category: 'demonstrative',
+    lemma: 'hic, haec, hoc',
+    tables: [
+      {
+        gender: 'masculine',
+        singular: forms('hic', 'huius', 'huic', 'hunc', 'hōc'),
+        plural: forms('hī', 'hōrum', 'hīs', 'hōs', 'hīs'),
+      },
+      {
+        gender: 'feminine',
+        singular: forms('haec', 'huius', 'huic', 'hanc', 'hāc'),
+        plural: forms('hae', 'hārum', 'hīs', 'hās', 'hīs'),
+      },
+      {
+        gender: 'neuter',
+        singular: forms('hoc', 'huius', 'huic', 'hoc', 'hōc'),
+        plural: forms('haec', 'hōrum', 'hīs', 'haec', 'hīs'),
+      },
+    ],
+    spanishTranslation: 'este',
+    additionalMeanings: ['esta', 'esto'],
+    glosses: { en: ['this'] },
+  },
+
+  // ille, illa, illud - "aquel" (far from the speaker)
+  {
+    id: 'pronoun_ille_0005',
+    partOfSpeech: 'pronoun',
+    category: 'demonstrative',
+    lemma: 'ille, illa, illud',
+    tables: [
+      {
+        gender: 'masculine',
+        singular: forms('ille', 'illīus', 'illī', 'illum', 'illō'),
+        plural: forms('illī', 'illōrum', 'illīs', 'illōs', 'illīs'),
+      },
+      {
+        gender: 'feminine',
+        singular: forms('illa', 'illīus', 'illī', 'illam', 'illā'),
+        plural: forms('illae', 'illārum', 'illīs', 'illās', 'illīs'),
+      },
+      {
+        gender: 'neuter',
+        singular: forms('illud', 'illīus', 'illī', 'illud', 'illō'),
+        plural: forms('illa', 'illōrum', 'illīs', 'illa', 'illīs'),
+      },
+    ],
+    spanishTranslation: 'aquel',
+    additionalMeanings: ['aquella', 'aquello'],
+    glosses: { en: ['that'] },
+  },
+
+  // quī, quae, quod - relative "que, el cual"
+  {
+    id: 'pronoun_qui_0006',
+    partOfSpeech: 'pronoun',
+    category: 'relative',
+    lemma: 'quī, quae, quod',
+    tables: [
+      {
+        gender: 'masculine',
+        singular: forms('quī', 'cuius', 'cui', 'quem', 'quō'),
+        plural: forms('quī', 'quōrum', 'quibus', 'quōs', 'quibus'),
+      },
+      {
+        gender: 'feminine',
+        singular: forms('quae', 'cuius', 'cui', 'quam', 'quā'),
+        plural: forms('quae', 'quārum', 'quibus', 'quās', 'quibus'),
+      },
+      {
+        gender: 'neuter',
+        singular: forms('quod', 'cuius', 'cui', 'quod', 'quō'),
+        plural: forms('quae', 'quōrum', 'quibus', 'quae', 'quibus'),
+      },
+    ],
+    spanishTranslation: 'que',
+    additionalMeanings: ['el cual', 'quien'],
+    glosses: { en: ['who', 'which', 'that'] },
+  },
+];
+
+/**
+ * Get the table of one gender of a pronoun
+ * 
+ * @param {LatinPronoun} pronoun - The pronoun
+ * @param {AdjectiveGender} gender - The gender (ignored by personal pronouns)
+ * @returns {PronounTable | undefined} The table
+ */
+export function getPronounTable(
+  pronoun: LatinPronoun,
+  gender?: AdjectiveGender
+): PronounTable | undefined {
+  return pronoun.tables.find(table => !table.gender || table.gender === gender);
+}
+
+/**
+ * Get the accepted forms of one case of a pronoun
+ * 
+ * @param {LatinPronoun} pronoun - The pronoun
+ * @param {GrammaticalNumber} number - Singular or plural
+ * @param {PronounCase} grammaticalCase - The case
+ * @param {AdjectiveGender} gender - The gender (ignored by personal pronouns)
+ * @returns {string[]} Every accepted form (the first one is the usual one),
+ *   or [] if the pronoun has no table for that gender
+ * 
+ * EXAMPLE:
+ * getPronounForms(is, 'plural', 'dative', 'feminine') → ['eīs', 'iīs']
+ */
+export function getPronounForms(
+  pronoun: LatinPronoun,
+  number: GrammaticalNumber,
+  grammaticalCase: PronounCase,
+  gender?: AdjectiveGender
+): string[] {
+  return getPronounTable(pronoun, gender)?.[number][grammaticalCase] ?? [];
+}
+
+/**
+ * Check an answer against the accepted forms of a case
+ * (macrons and capitals are ignored: "nobis" = "nōbīs")
+ * 
+ * @param {string} answer - What the learner typed
+ * @param {string[]} accepted - The forms from getPronounForms
+ * @returns {boolean} true if the answer is one of them
+ */
+export function checkPronounForm(answer: string, accepted: string[]): boolean {
+  const normalized = normalizeForSearch(answer);
+  return normalized !== '' && accepted.some(form => normalizeForSearch(form) === normalized);
+}
@@ -0,0 +1,343 @@
+/**
+ * QUERY PARSER - STRUCTURED SEARCH SYNTAX
+ * 
+ * Lets power users type filters straight into the search bar instead of
+ * clicking through the declension and gender filters:
+ * 
+ *   decl:3 gender:n "tiempo"    → 3rd declension, neuter, text "tiempo"
+ *   -gen:masc ends:-us          → NOT masculine, nominative ending in -us
+ *   decl:1,2 rosa               → 1st OR 2nd declension, text "rosa"
+ *   pos:adj decl:3              → 3rd declension adjectives
+ *   tag:militia -decl:2         → army words, except the 2nd declension
+ * 
+ * SYNTAX:
+ * - key:value       A filter (see QUERY_KEYS for the keys and their aliases)
+ * - key:a,b         Several values (any of them matches)
+ * - -key:value      A negated filter (words matching it are left out)
+ * - word            Free text, searched like the normal search bar
+ * - "some words"    Quoted free text (may contain spaces)
+ * 
+ * The parser compiles the query into a VocabularyFilter, so the result
+ * can be passed straight to filterWords().
+ * 
+ * Invalid tokens don't stop the parse: they are skipped and reported in
+ * the errors list (with their position), so the UI can show inline hints
+ * while the rest of the query still works.
+ */
+
+import type { VocabularyFilter } from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+import { normalizeEnding } from './searchIndex';
+import { normalizeTag } from './wordTags';
+
+type DeclensionValue = NonNullable<VocabularyFilter['declensions']>[number];
+type GenderValue = NonNullable<VocabularyFilter['genders']>[number];
+type PartOfSpeechValue = NonNullable<VocabularyFilter['partsOfSpeech']>[number];
+
+/**
+ * The filter keys the parser understands
+ */
+export type QueryKey = 'declension' | 'gender' | 'ending' | 'partOfSpeech' | 'tag';
+
+/**
+ * Every accepted spelling of each key (English and Spanish)
+ */
+export const QUERY_KEYS: Record<QueryKey, string[]> = {
+  declension: ['decl', 'declension', 'declinacion'],
+  gender: ['gender', 'gen', 'genero'],
+  ending: ['ends', 'ending', 'termina', 'terminacion'],
+  partOfSpeech: ['pos', 'type', 'tipo'],
+  tag: ['tag', 'tema', 'etiqueta'],
+};
+
+/**
+ * Accepted values for declension → the value used in VocabularyFilter
+ */
+const DECLENSION_VALUES: Record<string, DeclensionValue> = {
+  '1': '1st', '1st': '1st', '1a': '1st',
+  '2': '2nd', '2nd': '2nd', '2a': '2nd',
+  '3': '3rd', '3rd': '3rd', '3a': '3rd',
+  '4': '4th', '4th': '4th', '4a': '4th',
+  '5': '5th', '5th': '5th', '5a': '5th',
+};
+
+/**
+ * Accepted values for gender → the value used in VocabularyFilter
+ */
+const GENDER_VALUES: Record<string, GenderValue> = {
+  m: 'masculine', masc: 'masculine', masculine: 'masculine', masculino: 'masculine',
+  f: 'feminine', fem: 'feminine', feminine: 'feminine', femenino: 'feminine',
+  n: 'neuter', neut: 'neuter', neuter: 'neuter', neutro: 'neuter',
+  c: 'common', com: 'common', common: 'common', comun: 'common',
+};
+
+/**
+ * Accepted values for part of speech → the value used in VocabularyFilter
+ */
+const PART_OF_SPEECH_VALUES: Record<string, PartOfSpeechValue> = {
+  noun: 'noun', sust: 'noun', sustantivo: 'noun', nombre: 'noun',
+  adj: 'adjective', adjective: 'adjective', adjetivo: 'adjective',
+};
+
+/**
+ * Why a token couldn't be used
+ * 
+ * - unknown-key: "foo:bar" - foo is not a filter key
+ * - missing-value: "decl:" - nothing after the colon
+ * - invalid-value: "decl:7" - the key exists but the value doesn't
+ * - negated-text: "-rosa" - only filters can be negated
+ */
+export type QueryErrorCode = 'unknown-key' | 'missing-value' | 'invalid-value' | 'negated-text';
+
+/**
+ * A token the parser had to skip
+ */
+export interface QueryError {
+  code: QueryErrorCode;
+  // The token exactly as typed (e.g. "-decl:7")
+  token: string;
+  // Position of the token in the query (end is exclusive, like substring)
+  start: number;
+  end: number;
+  // The key, when it was recognized (for invalid-value and missing-value)
+  key?: QueryKey;
+}
+
+/**
+ * The result of parsing a query
+ */
+export interface ParsedQuery {
+  // The compiled filter (only contains the fields the query used)
+  filter: VocabularyFilter;
+  // Tokens that were skipped, in order of appearance
+  errors: QueryError[];
+  // true if the query used at least one key:value filter
+  hasFilters: boolean;
+}
+
+/**
+ * A raw token with its position in the query
+ */
+interface QueryToken {
+  text: string;
+  start: number;
+  end: number;
+  quoted: boolean;
+}
+
+/**
+ * Split a query into tokens
+ * 
+ * Whitespace separates tokens, except inside double quotes.
+ * An unclosed quote runs to the end of the query (the user is still typing).
+ * 
+ * @param {string} query - The raw query
+ * @returns {QueryToken[]} The tokens with their positions
+ */
+function tokenize(query: string): QueryToken[] {
+  const tokens: QueryToken[] = [];
+  let i = 0;
+
+  while (i < query.length) {
+    if (/\s/.test(query[i])) {
+      i++;
+      continue;
+    }
+
+    const start = i;
+    if (query[i] === '"') {
+      const closing = query.indexOf('"', i + 1);
+      const end = closing === -1 ? query.length : closing + 1;
+      const text = query.substring(i + 1, closing === -1 ? query.length : closing);
+      tokens.push({ text, start, end, quoted: true });
+      i = end;
+      continue;
+    }
+
+    while (i < query.length && !/\s/.test(query[i])) {
+      i++;
+    }
+    tokens.push({ text: query.substring(start, i), start, end: i, quoted: false });
+  }
+
+  return tokens;
+}
+
+/**
+ * Find which key a spelling belongs to ("gen" → 'gender')
+ * 
+ * @param {string} name - The key as typed
+ * @returns {QueryKey | undefined} The key, or undefined if unknown
+ */
+function resolveKey(name: string): QueryKey | undefined {
+  const normalized = normalizeForSearch(name);
+  return (Object.keys(QUERY_KEYS) as QueryKey[])
+    .find(key => QUERY_KEYS[key].includes(normalized));
+}
+
+/**
+ * Add values to an optional array field without duplicates
+ * (like a Set, but VocabularyFilter uses arrays)
+ */
+function addValues<T>(current: T[] | undefined, values: T[]): T[] {
+  const result = current ? [...current] : [];
+  values.forEach(value => {
+    if (!result.includes(value)) {
+      result.push(value);
+    }
+  });
+  return result;
+}
+
+/**
+ * Parse a structured search query
+ * 
+ * @param {string} query - What the user typed
+ * @returns {ParsedQuery} The compiled filter and any errors
+ * 
+ * @example
+ * parseWordQuery('decl:3 gender:n "tiempo"')
+ * // → { filter: { declensions: ['3rd'], genders: ['neuter'], searchText: 'tiempo' }, errors: [], hasFilters: true }
+ */
+export function parseWordQuery(query: string): ParsedQuery {
+  const filter: VocabularyFilter = {};
+  const errors: QueryError[] = [];
+  const textParts: string[] = [];
+  let hasFilters = false;
+
+  tokenize(query).forEach(token => {
+    const fail = (code: QueryErrorCode, key?: QueryKey) => {
+      errors.push({
+        code,
+        token: query.substring(token.start, token.end),
+        start: token.start,
+        end: token.end,
+        ...(key ? { key } : {}),
+      });
+    };
+
+    // Quoted text is always free text, even if it contains a colon
+    if (token.quoted) {
+      if (token.text.trim() !== '') {
+        textParts.push(token.text.trim());
+      }
+      return;
+    }
+
+    // A leading hyphen negates the token
+    // (a lone "-" is ignored: the user is about to type a filter)
+    const negated = token.text.startsWith('-');
+    const body = negated ? token.text.slice(1) : token.text;
+    if (body === '') {
+      return;
+    }
+
+    const colon = body.indexOf(':');
+
+    // Plain word: free text
+    if (colon === -1) {
+      if (negated) {
+        fail('negated-text');
+      } else {
+        textParts.push(body);
+      }
+      return;
+    }
+
+    const key = resolveKey(body.substring(0, colon));
+    if (!key) {
+      fail('unknown-key');
+      return;
+    }
+
+    const rawValues = body.substring(colon + 1).split(',').filter(value => value !== '');
+    if (rawValues.length === 0) {
+      fail('missing-value', key);
+      return;
+    }
+
+    switch (key) {
+      case 'declension': {
+        const values = rawValues.map(value => DECLENSION_VALUES[normalizeForSearch(value)]);
+        if (values.some(value => !value)) {
+          fail('invalid-value', key);
+          return;
+        }
+        if (negated) {
+          filter.excludeDeclensions = addValues(filter.excludeDeclensions, values);
+        } else {
+          filter.declensions = addValues(filter.declensions, values);
+        }
+        break;
+      }
+
+      case 'gender': {
+        const values = rawValues.map(value => GENDER_VALUES[normalizeForSearch(value)]);
+        if (values.some(value => !value)) {
+          fail('invalid-value', key);
+          return;
+        }
+        if (negated) {
+          filter.excludeGenders = addValues(filter.excludeGenders, values);
+        } else {
+          filter.genders = addValues(filter.genders, values);
+        }
+        break;
+      }
+
+      case 'ending': {
+        const values = rawValues.map(normalizeEnding);
+        // "ends:-" has no letters left after removing the hyphen
+        if (values.some(value => !/^[a-z]+$/.test(value))) {
+          fail('invalid-value', key);
+          return;
+        }
+        if (negated) {
+          filter.excludeEndings = addValues(filter.excludeEndings, values);
+        } else {
+          filter.endings = addValues(filter.endings, values);
+        }
+        break;
+      }
+
+      case 'partOfSpeech': {
+        const values = rawValues.map(value => PART_OF_SPEECH_VALUES[normalizeForSearch(value)]);
+        if (values.some(value => !value)) {
+          fail('invalid-value', key);
+          return;
+        }
+        if (negated) {
+          filter.excludePartsOfSpeech = addValues(filter.excludePartsOfSpeech, values);
+        } else {
+          filter.partsOfSpeech = addValues(filter.partsOfSpeech, values);
+        }
+        break;
+      }
+
+      case 'tag': {
+        // Any tag is accepted: an unknown one simply matches no word
+        // ("_" and "-" stand for spaces, see normalizeTag)
+        const values = rawValues.map(normalizeTag);
+        if (values.some(value => value === '')) {
+          fail('invalid-value', key);
+          return;
+        }
+        if (negated) {
+          filter.excludeTags = addValues(filter.excludeTags, values);
+        } else {
+          filter.tags = addValues(filter.tags, values);
+        }
+        break;
+      }
+    }
+
+    hasFilters = true;
+  });
+
+  if (textParts.length > 0) {
+    filter.searchText = textParts.join(' ');
+  }
+
+  return { filter, errors, hasFilters };
+}
@@ -0,0 +1,110 @@
+/**
+ * SEARCH INDEX - PRECOMPUTED NORMALIZED TEXT
+ * 
+ * Every search compares the search text with the nominative, genitive,
+ * translation and meanings of EVERY word. Those comparisons must ignore
+ * case and accents, so each field has to go through normalizeForSearch
+ * (lowercase + NFD + regex) first.
+ * 
+ * Doing that on each keystroke means normalizing thousands of strings
+ * again and again, even though the vocabulary never changes. So we do it
+ * ONCE, when the service is created, and keep the results here:
+ * 
+ *   "Amistad"              → text: "amistad",        tokens: ["amistad"]
+ *   "Ola (del mar)"        → text: "ola (del mar)",  tokens: ["ola", "del", "mar"]
+ * 
+ * It's the same idea as a database index: pay a small cost up front so
+ * every later query is cheaper.
+ */
+
+import type { GlossLanguage, VocabularyEntry } from '@latin-app/types';
+import { normalizeForSearch, tokenizeForSearch } from '@latin-app/shared';
+
+import { DEFAULT_GLOSS_LANGUAGE, getGloss } from './glosses';
+
+/**
+ * A normalized field: the whole text plus its individual words
+ * 
+ * The tokens are what typo-tolerant search compares against
+ * ("amistd" is compared with "amistad", not with the whole translation).
+ */
+export interface IndexedText {
+  text: string;
+  tokens: string[];
+}
+
+/**
+ * The precomputed search data of one word
+ */
+export interface SearchIndexEntry {
+  word: VocabularyEntry;
+  nominative: IndexedText;
+  genitive: IndexedText;
+  translation: IndexedText;
+  meanings: IndexedText[];
+}
+
+/**
+ * Normalize a single field and split it into tokens
+ * 
+ * @param {string} value - The raw field
+ * @returns {IndexedText} The normalized text and its tokens
+ */
+export function indexText(value: string): IndexedText {
+  const text = normalizeForSearch(value);
+  return { text, tokens: tokenizeForSearch(text) };
+}
+
+/**
+ * Build the search index for a list of words
+ * 
+ * The entries keep the same order as the words, so iterating the index
+ * gives the same result order as iterating the word list.
+ * Only the translations in the chosen language are indexed: a learner
+ * who studies with English glosses searches in English.
+ * 
+ * @param {VocabularyEntry[]} words - The vocabulary (nouns and adjectives)
+ * @param {GlossLanguage} language - The language of the translations (default: Spanish)
+ * @returns {SearchIndexEntry[]} One entry per word
+ */
+export function buildSearchIndex(
+  words: VocabularyEntry[],
+  language: GlossLanguage = DEFAULT_GLOSS_LANGUAGE
+): SearchIndexEntry[] {
+  return words.map(word => {
+    const gloss = getGloss(word, language);
+    return {
+      word,
+      nominative: indexText(word.nominative),
+      genitive: indexText(word.genitive),
+      translation: indexText(gloss.translation),
+      meanings: gloss.additionalMeanings.map(indexText),
+    };
+  });
+}
+
+/**
+ * Check whether an indexed field contains an already normalized term
+ * 
+ * Equivalent to stringIncludes(field, term), without normalizing again.
+ * 
+ * @param {IndexedText} field - An indexed field
+ * @param {string} normalizedTerm - Term normalized with normalizeForSearch
+ * @returns {boolean} true if the field contains the term
+ */
+export function indexedIncludes(field: IndexedText, normalizedTerm: string): boolean {
+  return field.text.length > 0 && normalizedTerm.length > 0 && field.text.includes(normalizedTerm);
+}
+
+/**
+ * Normalize a nominative ending for comparison
+ * 
+ * Endings are usually written with a hyphen ("-us"), so it's removed:
+ *   "-us" → "us", "-UM" → "um", "ā" → "a"
+ * 
+ * @param {string} ending - The ending as typed
+ * @returns {string} The normalized ending
+ */
+export function normalizeEnding(ending: string): string {
+  return normalizeForSearch(ending).replace(/^-+/, '');
+}
@@ -0,0 +1,391 @@
+/**
+ * VOCABULARY IMPORT - DICTIONARY LINES AND CSV
+ * 
+ * Lets learners and teachers add their own words without touching
+ * vocabulary.json. Two input formats are accepted:
+ * 
+ * 1. Pasted lines, one word per line, dictionary entry and translation
+ *    separated by a spaced dash (or a tab):
+ *      nauta, -ae, m. – marinero
+ *      corpus, corporis, n. – cuerpo; cadáver
+ * 
+ * 2. CSV, one word per row (the header row is optional):
+ *      nominative,genitive,gender,translation,meanings
+ *      nauta,-ae,m,marinero,
+ *      corpus,corporis,n,cuerpo,cadáver
+ *    A row with only two cells is read as "dictionary line, translation"
+ *    (the dictionary line has commas, so it must be quoted in the CSV).
+ * 
+ * In both formats extra meanings go after the translation, separated
+ * by semicolons ("cuerpo; cadáver").
+ * 
+ * Every row is parsed with parseDictionaryEntry and then checked with
+ * the same rules as the vocabulary validator, so an imported word can
+ * be declined just like a built-in one. Nothing is saved here: the
+ * preview tells the UI which rows are valid and what's wrong with the
+ * rest, and the app decides what to keep.
+ */
+
+import type { NormalizedLatinWord, VocabularyEntry } from '@latin-app/types';
+import {
+  genitiveFitsNominative,
+  normalizeForSearch,
+  parseDictionaryEntry,
+  stripMacrons,
+  type DictionaryEntryErrorCode,
+} from '@latin-app/shared';
+
+import { validateVocabulary, type ValidationCode, type ValidationSeverity } from './vocabularyValidator';
+
+/**
+ * The two input formats
+ */
+export type ImportFormat = 'lines' | 'csv';
+
+/**
+ * The kinds of problem an import row can have:
+ * - the dictionary entry couldn't be read (DictionaryEntryErrorCode)
+ * - it breaks a grammar rule (ValidationCode, from the validator)
+ * - or one of the import-specific problems below
+ */
+export type ImportIssueCode =
+  | DictionaryEntryErrorCode
+  | ValidationCode
+  | 'missing-translation'
+  | 'duplicate-in-vocabulary'
+  | 'duplicate-in-import';
+
+/**
+ * ImportIssue - One problem in one row
+ */
+export interface ImportIssue {
+  code: ImportIssueCode;
+  // Errors keep the row out of the import; warnings don't
+  severity: ValidationSeverity;
+  // Which part of the row is wrong: "entry", "translation", "genitive"...
+  field: string;
+  // Human-readable explanation
+  message: string;
+}
+
+/**
+ * ImportRow - One line of the input and what it became
+ */
+export interface ImportRow {
+  // 1-based, as shown in a text editor
+  lineNumber: number;
+  // The line as written, for the preview
+  source: string;
+  // The word to add, or null if the line couldn't be read at all
+  word: NormalizedLatinWord | null;
+  issues: ImportIssue[];
+}
+
+/**
+ * ImportPreview - Everything the importer found
+ */
+export interface ImportPreview {
+  rows: ImportRow[];
+  // Rows with a word and no errors (these are the ones to import)
+  validCount: number;
+  errorCount: number;
+  warningCount: number;
+}
+
+/**
+ * ImportOptions - Context the importer needs to check and name the rows
+ */
+export interface ImportOptions {
+  // Words already in the vocabulary, to warn about duplicates
+  existingWords?: VocabularyEntry[];
+  // Sequence number of the first new id (see nextUserWordSequence)
+  firstSequence?: number;
+}
+
+// Prefix of every user word id (built-in words use "word_")
+export const USER_WORD_ID_PREFIX = 'user_';
+
+// Spaced dash, en dash, em dash or equals sign, or a tab
+// (the "-" in "-ae" has no space after it, so it never matches)
+const LINE_SEPARATOR = /\t|\s[-–—=]\s/;
+
+// First cell of a CSV header row
+const CSV_HEADER_CELLS = new Set(['nominative', 'nominativo', 'entry', 'entrada']);
+
+/**
+ * Build the id of a user word
+ * Same shape as the built-in ids (word_rosa_0001), with its own prefix
+ * 
+ * @param {string} nominative - The nominative (macrons are dropped)
+ * @param {number} sequence - The sequence number
+ * @returns {string} The id, e.g. "user_nauta_0003"
+ */
+export function buildUserWordId(nominative: string, sequence: number): string {
+  const cleanNominative = normalizeForSearch(nominative).replace(/[^a-z0-9]/g, '');
+  return `${USER_WORD_ID_PREFIX}${cleanNominative}_${String(sequence).padStart(4, '0')}`;
+}
+
+/**
+ * The sequence number that comes after every existing user word id
+ * (so deleting a word never makes an id repeat)
+ * 
+ * @param {Array<{ id: string }>} words - The user words saved so far
+ * @returns {number} The next free sequence number
+ */
+export function nextUserWordSequence(words: { id: string }[]): number {
+  return words.reduce((max, word) => {
+    const sequence = Number(word.id.match(/_(\d+)$/)?.[1] ?? 0);
+    return word.id.startsWith(USER_WORD_ID_PREFIX) && sequence > max ? sequence : max;
+  }, 0) + 1;
+}
+
+/**
+ * Split a CSV line into cells
+ * Handles quoted cells ("rosa, -ae, f.") and escaped quotes ("")
+ * 
+ * @param {string} line - One line of the CSV
+ * @returns {string[]} The cells, trimmed
+ */
+export function splitCsvLine(line: string): string[] {
+  const cells: string[] = [];
+  let current = '';
+  let quoted = false;
+
+  for (let i = 0; i < line.length; i++) {
+    const char = line[i];
+    if (char === '"') {
+      if (quoted && line[i + 1] === '"') {
+        current += '"';
+        i++;
+      } else {
+        quoted = !quoted;
+      }
+    } else if (char === ',' && !quoted) {
+      cells.push(current.trim());
+      current = '';
+    } else {
+      current += char;
+    }
+  }
+  cells.push(current.trim());
+
+  return cells;
+}
+
+/**
+ * Helper: Split "translation; meaning; meaning" into its parts
+ */
+function splitMeanings(text: string): string[] {
+  return text
+    .split(';')
+    .map(meaning => meaning.trim())
+    .filter(meaning => meaning !== '');
+}
+
+/**
+ * Helper: Turn one input line into a dictionary line and its meanings
+ * 
+ * @returns {{ entry: string; meanings: string[] } | null} null for lines to skip
+ *   (empty lines, comments starting with #, the CSV header)
+ */
+function readLine(line: string, format: ImportFormat): { entry: string; meanings: string[] } | null {
+  const trimmed = line.trim();
+  if (trimmed === '' || trimmed.startsWith('#')) {
+    return null;
+  }
+
+  if (format === 'lines') {
+    const separator = trimmed.match(LINE_SEPARATOR);
+    if (!separator || separator.index === undefined) {
+      return { entry: trimmed, meanings: [] };
+    }
+    return {
+      entry: trimmed.slice(0, separator.index),
+      meanings: splitMeanings(trimmed.slice(separator.index + separator[0].length)),
+    };
+  }
+
+  const cells = splitCsvLine(trimmed);
+  if (CSV_HEADER_CELLS.has(normalizeForSearch(cells[0]))) {
+    return null;
+  }
+  // "rosa, -ae, f.",rosa
+  if (cells.length <= 2) {
+    return { entry: cells[0], meanings: splitMeanings(cells[1] ?? '') };
+  }
+  // rosa,-ae,f,rosa,flor
+  const [nominative, genitive, gender, translation = '', meanings = ''] = cells;
+  return {
+    entry: `${nominative}, ${genitive}, ${gender}`,
+    meanings: [...splitMeanings(translation), ...splitMeanings(meanings)],
+  };
+}
+
+/**
+ * Helper: The genitive as the user wrote it ("-ae", "corporis")
+ * Split like parseDictionaryEntry does: the second non-empty part
+ */
+function writtenGenitive(entry: string): string {
+  const parts = entry
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '');
+  return parts[1] ?? '';
+}
+
+/**
+ * Helper: Key that identifies a noun regardless of case and macrons
+ */
+function duplicateKey(word: { nominative: string; genitive: string }): string {
+  return `${normalizeForSearch(word.nominative)}|${normalizeForSearch(word.genitive)}`;
+}
+
+/**
+ * Parse and check a whole import
+ * 
+ * Steps for every line:
+ * 1. Split it into dictionary entry and meanings (skipping blank lines,
+ *    # comments and the CSV header)
+ * 2. Read the entry with parseDictionaryEntry (rosa, -ae, f.) and check
+ *    that the genitive, as written, fits the nominative ("rosa, rosī" doesn't)
+ * 3. Check the resulting word with validateVocabulary (gender possible
+ *    for the declension, genitive with a real ending, no repeated meanings)
+ * 4. Warn about words already in the vocabulary or earlier in the import
+ * 
+ * @param {string} text - The pasted text or the contents of the CSV file
+ * @param {ImportFormat} format - 'lines' or 'csv'
+ * @param {ImportOptions} options - Existing words and the first id number
+ * @returns {ImportPreview} One row per line read, with its issues
+ * 
+ * EXAMPLE:
+ * previewImport('nauta, -ae, m. – marinero\nrosa, -ae', 'lines')
+ * → row 1: word nauta (1st, masculine), no issues
+ * → row 2: no word, 'missing-gender' error
+ * 
+ * previewImport('rosa, -ī, f. – rosa', 'lines')
+ * → row 1: no word, 'ending-mismatch' error (not "rosai" of the 2nd)
+ */
+export function previewImport(
+  text: string,
+  format: ImportFormat,
+  options: ImportOptions = {}
+): ImportPreview {
+  const existingKeys = new Set((options.existingWords ?? []).map(duplicateKey));
+  const importedKeys = new Set<string>();
+  let sequence = options.firstSequence ?? 1;
+  const rows: ImportRow[] = [];
+
+  text.split(/\r?\n/).forEach((line, index) => {
+    const read = readLine(line, format);
+    if (!read) return;
+
+    const row: ImportRow = { lineNumber: index + 1, source: line.trim(), word: null, issues: [] };
+    rows.push(row);
+
+    // 2. The dictionary entry
+    const { entry, error } = parseDictionaryEntry(read.entry);
+    if (!entry) {
+      row.issues.push({
+        code: error ?? 'empty',
+        severity: 'error',
+        field: error === 'ending-mismatch' ? 'genitive' : 'entry',
+        message: `Can't read "${read.entry}" as a dictionary entry (${error})`,
+      });
+      return;
+    }
+
+    const [spanishTranslation = '', ...additionalMeanings] = read.meanings;
+    const word: NormalizedLatinWord = {
+      id: buildUserWordId(entry.nominative, sequence++),
+      nominative: entry.nominative,
+      genitive: entry.genitive,
+      declension: entry.declension,
+      gender: entry.gender,
+      spanishTranslation,
+      additionalMeanings,
+    };
+    if (entry.numberRestriction) {
+      word.numberRestriction = entry.numberRestriction;
+    }
+    row.word = word;
+
+    // The validator only sees the genitive we built, so the check against
+    // the nominative uses the text as written (abbreviations are already
+    // checked by parseDictionaryEntry; this catches "rosa, rosī, f.")
+    const genitiveText = writtenGenitive(read.entry);
+    if (!genitiveFitsNominative(entry.nominative, genitiveText)) {
+      row.issues.push({
+        code: 'ending-mismatch',
+        severity: 'error',
+        field: 'genitive',
+        message: `"${genitiveText}" can't be the genitive of "${entry.nominative}"`,
+      });
+    }
+
+    if (spanishTranslation === '') {
+      row.issues.push({
+        code: 'missing-translation',
+        severity: 'error',
+        field: 'translation',
+        message: 'The word needs a translation',
+      });
+    }
+
+    // 3. The validator's grammar rules (without macrons, like the JSON)
+    const report = validateVocabulary([{
+      ...word,
+      nominative: stripMacrons(word.nominative),
+      genitive: stripMacrons(word.genitive),
+    }]);
+    report.issues
+      // The translation is already checked above
+      .filter(issue => issue.code !== 'empty-translation')
+      .forEach(issue => row.issues.push({
+        code: issue.code,
+        severity: issue.severity,
+        field: issue.field,
+        message: issue.message,
+      }));
+
+    // 4. Duplicates
+    const key = duplicateKey(word);
+    if (existingKeys.has(key)) {
+      row.issues.push({
+        code: 'duplicate-in-vocabulary',
+        severity: 'warning',
+        field: 'entry',
+        message: `${word.nominative}, ${word.genitive} is already in the vocabulary`,
+      });
+    } else if (importedKeys.has(key)) {
+      row.issues.push({
+        code: 'duplicate-in-import',
+        severity: 'warning',
+        field: 'entry',
+        message: `${word.nominative}, ${word.genitive} appears earlier in the import`,
+      });
+    }
+    importedKeys.add(key);
+  });
+
+  const hasError = (row: ImportRow) => row.issues.some(issue => issue.severity === 'error');
+  const allIssues = rows.flatMap(row => row.issues);
+
+  return {
+    rows,
+    validCount: rows.filter(row => row.word && !hasError(row)).length,
+    errorCount: allIssues.filter(issue => issue.severity === 'error').length,
+    warningCount: allIssues.filter(issue => issue.severity === 'warning').length,
+  };
+}
+
+/**
+ * The words of a preview that can be imported (read, and without errors)
+ * 
+ * @param {ImportPreview} preview - The result of previewImport
+ * @returns {NormalizedLatinWord[]} The words, in input order
+ */
+export function getImportableWords(preview: ImportPreview): NormalizedLatinWord[] {
+  return preview.rows
+    .filter(row => row.word && !row.issues.some(issue => issue.severity === 'error'))
+    .map(row => row.word as NormalizedLatinWord);
+}
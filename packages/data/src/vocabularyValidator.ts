@@ -0,0 +1,395 @@
+/**
+ * VOCABULARY VALIDATOR - GRAMMATICAL CONSISTENCY CHECKS
+ * 
+ * The vocabulary JSON is edited by hand, so mistakes slip in: a 1st
+ * declension noun whose genitive doesn't end in -ae, a neuter tagged as
+ * 1st declension, the same meaning listed twice...
+ * 
+ * validateVocabulary() checks every entry and returns a report with one
+ * issue per problem found. It doesn't modify anything.
+ * 
+ * Nouns and adjectives (partOfSpeech: 'adjective') get different
+ * grammar checks: adjectives have no gender, but need a valid class
+ * (1st-2nd or 3rd) and number of terminations.
+ * 
+ * SEVERITY:
+ * - error:   the entry is wrong and the app will misbehave
+ *            (no paradigm can be generated, search finds the wrong word...)
+ * - warning: the entry is probably wrong, but still usable
+ * 
+ * Run it from the repository root with:
+ *   npm run validate:vocabulary --workspace=@latin-app/data
+ */
+
+import type { AdjectiveLemma, NounLemma } from '@latin-app/types';
+import { hasMacrons, normalizeForSearch } from '@latin-app/shared';
+
+import { detectNumberRestriction, getNounStem } from './morphology';
+import { getAdjectiveStem } from './adjectives';
+
+/**
+ * RawVocabularyEntry - One entry as written in the JSON file
+ * 
+ * Declension and gender are plain strings here: checking that they hold
+ * a valid value is part of the validator's job.
+ */
+export interface RawVocabularyEntry {
+  id: string;
+  partOfSpeech?: string;
+  nominative: string;
+  genitive: string;
+  declension: string;
+  // Nouns only
+  gender?: string;
+  // Adjectives only
+  feminine?: string;
+  neuter?: string;
+  macronizedFeminine?: string;
+  macronizedNeuter?: string;
+  terminations?: number;
+  spanishTranslation: string;
+  additionalMeanings: string[];
+}
+
+/**
+ * The kinds of problem the validator reports
+ */
+export type ValidationCode =
+  | 'duplicate-id'
+  | 'unknown-part-of-speech'
+  | 'unknown-declension'
+  | 'invalid-terminations'
+  | 'unexpected-macrons'
+  | 'genitive-declension-mismatch'
+  | 'unexpected-gender'
+  | 'empty-translation'
+  | 'duplicated-meaning';
+
+export type ValidationSeverity = 'error' | 'warning';
+
+/**
+ * ValidationIssue - One problem in one entry
+ */
+export interface ValidationIssue {
+  code: ValidationCode;
+  severity: ValidationSeverity;
+  // Which entry (the id, plus its position in the file for duplicate ids)
+  wordId: string;
+  index: number;
+  // Which field is wrong, e.g. "genitive" or "additionalMeanings[2]"
+  field: string;
+  // The offending value, as written in the file
+  value: string;
+  // Human-readable explanation
+  message: string;
+}
+
+/**
+ * VocabularyReport - The validator's machine-readable output
+ */
+export interface VocabularyReport {
+  // true when there are no errors (warnings are allowed)
+  valid: boolean;
+  totalWords: number;
+  errorCount: number;
+  warningCount: number;
+  // How many issues of each kind, to spot trends at a glance
+  countsByCode: Record<ValidationCode, number>;
+  issues: ValidationIssue[];
+}
+
+const VALID_DECLENSIONS = ['1st', '2nd', '3rd', '4th', '5th'] as const;
+const VALID_ADJECTIVE_DECLENSIONS = ['1st-2nd', '3rd'] as const;
+const VALID_GENDERS = ['masculine', 'feminine', 'neuter', 'common'] as const;
+
+// Declensions that have no neuter nouns at all
+const DECLENSIONS_WITHOUT_NEUTERS = new Set(['1st', '5th']);
+
+/**
+ * Helper: Type guard for the declension strings the app understands
+ */
+function isValidDeclension(value: string): value is NounLemma['declension'] {
+  return (VALID_DECLENSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Helper: Type guard for the adjective classes the app understands
+ */
+function isValidAdjectiveDeclension(value: string): value is AdjectiveLemma['declension'] {
+  return (VALID_ADJECTIVE_DECLENSIONS as readonly string[]).includes(value);
+}
+
+/**
+ * Helper: Type guard for the gender strings the app understands
+ */
+function isValidGender(value: string | undefined): value is NounLemma['gender'] {
+  return (VALID_GENDERS as readonly string[]).includes(value ?? '');
+}
+
+/**
+ * Helper: Check the number of terminations of an adjective
+ * 
+ * 1st-2nd adjectives always have three (bonus, bona, bonum); 3rd
+ * declension ones have one, two or three, and the dictionary must list
+ * the matching nominatives (feminine only with three, neuter with two or three).
+ * 
+ * @returns {string | null} The problem, or null if the terminations are fine
+ */
+function checkTerminations(entry: RawVocabularyEntry): string | null {
+  const { terminations } = entry;
+
+  if (terminations !== 1 && terminations !== 2 && terminations !== 3) {
+    return 'Terminations must be 1, 2 or 3';
+  }
+  if (entry.declension === '1st-2nd' && terminations !== 3) {
+    return '1st-2nd declension adjectives have three terminations';
+  }
+  if (entry.declension === '3rd') {
+    if (terminations === 3 && !entry.feminine?.trim()) {
+      return 'Three-termination adjectives need a feminine form';
+    }
+    if (terminations >= 2 && !entry.neuter?.trim()) {
+      return `${terminations}-termination adjectives need a neuter form`;
+    }
+    if (terminations < 3 && entry.feminine) {
+      return `${terminations}-termination adjectives have no separate feminine form`;
+    }
+  }
+
+  return null;
+}
+
+/**
+ * Helper: Check the gender of one entry
+ * 
+ * @returns {Pick<ValidationIssue, 'severity' | 'message'> | null} The problem, or null if the gender is fine
+ */
+function checkGender(
+  entry: RawVocabularyEntry
+): Pick<ValidationIssue, 'severity' | 'message'> | null {
+  if (entry.partOfSpeech === 'adjective') {
+    // Adjectives take the gender of their noun, they don't have one
+    return entry.gender === undefined
+      ? null
+      : { severity: 'warning', message: 'Adjectives have no gender of their own' };
+  }
+
+  if (!isValidGender(entry.gender)) {
+    return {
+      severity: 'error',
+      message: `Gender must be one of ${VALID_GENDERS.join(', ')}`,
+    };
+  }
+
+  if (entry.gender === 'neuter' && DECLENSIONS_WITHOUT_NEUTERS.has(entry.declension)) {
+    return {
+      severity: 'error',
+      message: `The ${entry.declension} declension has no neuter nouns`,
+    };
+  }
+
+  // 2nd declension nominatives in -um are neuter (bellum, templum)
+  if (
+    entry.declension === '2nd' &&
+    entry.gender !== 'neuter' &&
+    normalizeForSearch(entry.nominative).endsWith('um')
+  ) {
+    return {
+      severity: 'warning',
+      message: '2nd declension nouns in -um are usually neuter',
+    };
+  }
+
+  return null;
+}
+
+/**
+ * Validate a list of vocabulary entries
+ * 
+ * Checks, for every entry:
+ * 1. The id is unique (and the part of speech is known)
+ * 2. The declension is 1st-5th, and the genitive has that declension's
+ *    ending (singular, or plural for pluralia tantum like arma, armorum).
+ *    For adjectives: 1st-2nd or 3rd, genitive in -ī / -is, the
+ *    terminations match the forms listed, and the feminine and neuter
+ *    have no macrons (those go in macronizedFeminine / macronizedNeuter)
+ * 3. The gender is valid and possible for the declension (nouns only)
+ * 4. The translation and every additional meaning are not empty
+ * 5. No meaning is repeated (ignoring case and accents), including a
+ *    meaning that repeats the main translation
+ * 
+ * @param {RawVocabularyEntry[]} entries - The entries as read from the JSON
+ * @returns {VocabularyReport} Every issue found, in file order
+ * 
+ * EXAMPLE:
+ * validateVocabulary([{ id: 'x', nominative: 'Rosa', genitive: 'rosi', declension: '1st', ... }])
+ * → one 'genitive-declension-mismatch' error for "rosi"
+ */
+export function validateVocabulary(entries: RawVocabularyEntry[]): VocabularyReport {
+  const issues: ValidationIssue[] = [];
+  // id → index of its first occurrence
+  const seenIds = new Map<string, number>();
+
+  entries.forEach((entry, index) => {
+    const wordId = entry.id;
+    const report = (
+      code: ValidationCode,
+      severity: ValidationSeverity,
+      field: string,
+      value: string,
+      message: string
+    ) => issues.push({ code, severity, wordId, index, field, value, message });
+
+    // 1. Duplicate ids
+    const firstIndex = seenIds.get(wordId);
+    if (firstIndex !== undefined) {
+      report('duplicate-id', 'error', 'id', wordId, `Same id as the entry at index ${firstIndex}`);
+    } else {
+      seenIds.set(wordId, index);
+    }
+
+    const partOfSpeech = entry.partOfSpeech ?? 'noun';
+    if (partOfSpeech !== 'noun' && partOfSpeech !== 'adjective') {
+      report(
+        'unknown-part-of-speech',
+        'error',
+        'partOfSpeech',
+        partOfSpeech,
+        'Part of speech must be noun or adjective'
+      );
+    }
+
+    // 2. Declension and genitive
+    if (partOfSpeech === 'adjective') {
+      if (!isValidAdjectiveDeclension(entry.declension)) {
+        report(
+          'unknown-declension',
+          'error',
+          'declension',
+          entry.declension,
+          `Adjective declension must be one of ${VALID_ADJECTIVE_DECLENSIONS.join(', ')}`
+        );
+      } else {
+        const lemma: AdjectiveLemma = {
+          nominative: entry.nominative,
+          genitive: normalizeForSearch(entry.genitive),
+          declension: entry.declension,
+          // Only the genitive matters for the stem; terminations are checked below
+          terminations: 3,
+        };
+
+        if (getAdjectiveStem(lemma) === null) {
+          report(
+            'genitive-declension-mismatch',
+            'error',
+            'genitive',
+            entry.genitive,
+            `Genitive "${entry.genitive}" doesn't have a ${entry.declension} adjective ending`
+          );
+        }
+
+        const terminationsProblem = checkTerminations(entry);
+        if (terminationsProblem) {
+          report(
+            'invalid-terminations',
+            'error',
+            'terminations',
+            String(entry.terminations ?? ''),
+            terminationsProblem
+          );
+        }
+
+        // The paradigm is built from the feminine and neuter as written
+        (['feminine', 'neuter'] as const).forEach(field => {
+          const form = entry[field];
+          if (form && hasMacrons(form)) {
+            const macronizedField = field === 'feminine' ? 'macronizedFeminine' : 'macronizedNeuter';
+            report(
+              'unexpected-macrons',
+              'error',
+              field,
+              form,
+              `Write "${form}" without macrons and put it in ${macronizedField}`
+            );
+          }
+        });
+      }
+    } else if (!isValidDeclension(entry.declension)) {
+      report(
+        'unknown-declension',
+        'error',
+        'declension',
+        entry.declension,
+        `Declension must be one of ${VALID_DECLENSIONS.join(', ')}`
+      );
+    } else {
+      const lemma: NounLemma = {
+        nominative: entry.nominative,
+        // Strip macrons and accents, so the ending check only looks at letters
+        genitive: normalizeForSearch(entry.genitive),
+        declension: entry.declension,
+        gender: isValidGender(entry.gender) ? entry.gender : 'masculine',
+      };
+
+      if (getNounStem(lemma) === null && detectNumberRestriction(lemma) !== 'plural-only') {
+        report(
+          'genitive-declension-mismatch',
+          'error',
+          'genitive',
+          entry.genitive,
+          `Genitive "${entry.genitive}" doesn't have a ${entry.declension} declension ending`
+        );
+      }
+    }
+
+    // 3. Gender
+    const genderProblem = checkGender(entry);
+    if (genderProblem) {
+      report('unexpected-gender', genderProblem.severity, 'gender', entry.gender ?? '', genderProblem.message);
+    }
+
+    // 4. Empty translation and meanings
+    if (!entry.spanishTranslation?.trim()) {
+      report('empty-translation', 'error', 'spanishTranslation', entry.spanishTranslation ?? '', 'Translation is empty');
+    }
+
+    // 5. Duplicated meanings (the main translation counts as the first meaning)
+    const seenMeanings = new Set([normalizeForSearch(entry.spanishTranslation ?? '')]);
+    (entry.additionalMeanings ?? []).forEach((meaning, meaningIndex) => {
+      const field = `additionalMeanings[${meaningIndex}]`;
+      const normalized = normalizeForSearch(meaning);
+
+      if (!normalized) {
+        report('empty-translation', 'error', field, meaning, 'Additional meaning is empty');
+      } else if (seenMeanings.has(normalized)) {
+        report('duplicated-meaning', 'warning', field, meaning, `Meaning "${meaning}" is listed twice`);
+      } else {
+        seenMeanings.add(normalized);
+      }
+    });
+  });
+
+  const countsByCode: Record<ValidationCode, number> = {
+    'duplicate-id': 0,
+    'unknown-part-of-speech': 0,
+    'unknown-declension': 0,
+    'invalid-terminations': 0,
+    'unexpected-macrons': 0,
+    'genitive-declension-mismatch': 0,
+    'unexpected-gender': 0,
+    'empty-translation': 0,
+    'duplicated-meaning': 0,
+  };
+  issues.forEach(issue => countsByCode[issue.code]++);
+
+  const errorCount = issues.filter(issue => issue.severity === 'error').length;
+
+  return {
+    valid: errorCount === 0,
+    totalWords: entries.length,
+    errorCount,
+    warningCount: issues.length - errorCount,
+    countsByCode,
+    issues,
+  };
+}
@@ -0,0 +1,238 @@
+/**
+ * WORD TAGS - SEMANTIC CATEGORIES
+ * 
+ * Tags group words by meaning ("familia", "militia", "natura") or by
+ * where they come from ("Wheelock cap. 3"). They make themed study
+ * sessions possible (every word about the army) and give the multiple
+ * choice drills better wrong answers: "hija" is a harder distractor for
+ * "filius" than "ventana".
+ * 
+ * Like the noun exceptions, the built-in tags live in a table instead
+ * of the vocabulary JSON: one list of words per tag is much easier to
+ * review than 700 scattered "tags" fields. The VocabularyService applies
+ * the table to every word when it loads the data. Words can also bring
+ * their own tags (e.g. user words), and both are kept.
+ * 
+ * Tags are compared ignoring case, accents and spacing, so "Natura",
+ * "natura" and "nātūra" are the same tag.
+ */
+
+import type { VocabularyEntry } from '@latin-app/types';
+import { normalizeForSearch } from '@latin-app/shared';
+
+/**
+ * The tag table: tag → nominatives of the words that have it
+ * 
+ * Nominatives are matched ignoring macrons and case. A word may be in
+ * several lists (lacrima is both "corpus" and "animus").
+ * Homographs with different meanings (liber "book" / liber "free")
+ * are left out, because the table can't tell them apart.
+ */
+export const WORD_TAGS: Record<string, string[]> = {
+  // Family and household people
+  familia: [
+    'familia', 'pater', 'mater', 'filius', 'filia', 'frater', 'soror',
+    'uxor', 'coniunx', 'parens', 'infans', 'nepos', 'puer', 'puella',
+    'femina', 'vir', 'mulier', 'cognatio', 'generatio', 'nuptiae',
+    'ancilla', 'famulus', 'servus', 'gens',
+  ],
+
+  // War and the army
+  militia: [
+    'militia', 'bellum', 'arma', 'gladius', 'hasta', 'sagitta', 'telum',
+    'castrum', 'castellum', 'proelium', 'pugna', 'exercitus', 'legio',
+    'cohors', 'miles', 'dux', 'imperator', 'hostis', 'victoria', 'victor',
+    'praeda', 'insidiae', 'agmen', 'acies', 'arcus', 'copia', 'tuba',
+    'pedes', 'praesidium', 'arx', 'murus', 'moenia', 'turris', 'fuga',
+    'vulnus', 'certamen', 'captivitas', 'impetus', 'caedes',
+  ],
+
+  // Nature, landscape and the sky
+  natura: [
+    'natura', 'aqua', 'terra', 'silva', 'stella', 'luna', 'sol', 'unda',
+    'herba', 'insula', 'petra', 'flamma', 'umbra', 'tenebrae', 'ager',
+    'campus', 'caelum', 'fluvius', 'oceanus', 'pontus', 'ventus', 'astrum',
+    'humus', 'pratum', 'lignum', 'aer', 'aether', 'aequor', 'arbor',
+    'collis', 'flos', 'flumen', 'fons', 'ignis', 'lapis', 'litus', 'lumen',
+    'lux', 'mare', 'mons', 'nemus', 'nubes', 'radix', 'semen', 'sidus',
+    'valles', 'fluctus', 'fructus', 'pulvis', 'rus',
+  ],
+
+  // Parts of the body
+  corpus: [
+    'corpus', 'lingua', 'palma', 'lacrima', 'brachium', 'capillus',
+    'digitus', 'dorsum', 'oculus', 'membrum', 'auris', 'caput', 'cor',
+    'dens', 'frons', 'os', 'pectus', 'pes', 'sanguis', 'venter', 'vultus',
+    'manus', 'genu', 'caro', 'cadaver', 'facies',
+  ],
+
+  // Animals
+  animalia: [
+    'animal', 'bestia', 'agnus', 'aper', 'asinus', 'equus', 'lupus',
+    'aries', 'avis', 'bos', 'canis', 'felis', 'grex', 'leo', 'mus', 'ovis',
+    'pecus', 'piscis', 'serpens', 'vulpes', 'iumentum',
+  ],
+
+  // Religion and the Church
+  religio: [
+    'religio', 'ara', 'altar', 'dea', 'deus', 'templum', 'hostia',
+    'victima', 'sacrificium', 'holocaustum', 'votum', 'prex', 'numen',
+    'pontifex', 'ecclesia', 'missa', 'pascha', 'propheta', 'angelus',
+    'apostolus', 'baptismus', 'christus', 'clericus', 'coenobium',
+    'diabolus', 'diaconus', 'episcopus', 'evangelium', 'ieiunium',
+    'monachus', 'monasterium', 'oratorium', 'psalmus', 'sabbatum',
+    'sacerdotium', 'sacramentum', 'crux', 'daemon', 'dioecesis',
+    'resurrectio', 'redemptio', 'passio', 'confessio', 'peccator',
+    'sanctitas', 'fides', 'heresia',
+  ],
+
+  // The house and daily life: rooms, furniture, food and clothes
+  domus: [
+    'aula', 'atrium', 'cella', 'coquina', 'fenestra', 'ianua', 'porta',
+    'ostium', 'limen', 'tectum', 'cubile', 'lucerna', 'mensa', 'arca',
+    'villa', 'habitaculum', 'cibus', 'panis', 'vinum', 'oleum', 'mel',
+    'calix', 'vas', 'saccus', 'convivium', 'toga', 'tunica', 'vestis',
+    'vestimentum', 'pallium', 'anulus',
+  ],
+
+  // Time: hours, days, seasons and ages
+  tempus: [
+    'tempus', 'hora', 'dies', 'meridies', 'nox', 'vesper', 'hebdomada',
+    'mensis', 'annus', 'saeculum', 'aevum', 'aetas', 'aeternitas',
+    'aestas', 'hiems', 'ver', 'iuventus', 'senectus', 'initium',
+    'principium', 'finis', 'mora', 'vigilia',
+  ],
+
+  // Feelings and the mind
+  animus: [
+    'animus', 'anima', 'mens', 'amor', 'ira', 'furor', 'odium', 'invidia',
+    'laetitia', 'gaudium', 'voluptas', 'timor', 'metus', 'dolor',
+    'lacrima', 'gemitus', 'spes', 'cura', 'sollicitudo', 'cupido',
+    'desiderium', 'libido', 'pudor', 'misericordia', 'avaritia',
+    'indignatio', 'affectus', 'solacium',
+  ],
+
+  // The state, the law and money
+  civitas: [
+    'civitas', 'civis', 'urbs', 'oppidum', 'patria', 'provincia',
+    'populus', 'plebs', 'vulgus', 'societas', 'rex', 'regina', 'regnum',
+    'imperium', 'princeps', 'consul', 'praetor', 'tribunus', 'senatus',
+    'curia', 'forum', 'lex', 'ius', 'iudex', 'iudicium', 'iustitia',
+    'iniuria', 'crimen', 'scelus', 'poena', 'supplicium', 'carcer',
+    'custodia', 'testis', 'testimonium', 'fur', 'latro', 'foedus',
+    'libertas', 'potestas', 'auctoritas', 'dignitas', 'nobilitas',
+    'pecunia', 'nummus', 'pretium', 'merces', 'merx', 'negotium',
+    'talentum',
+  ],
+
+  // Language, letters and grammar
+  grammatica: [
+    'lingua', 'littera', 'verbum', 'vocabulum', 'nomen', 'vox', 'sermo',
+    'oratio', 'locutio', 'dictio', 'accentus', 'declinatio', 'syntax',
+    'praedicatum', 'significatio', 'metaphora', 'morphologia',
+    'orthographia', 'phonologia', 'semantica', 'rhetorica', 'epistula',
+    'pagina', 'codex', 'volumen', 'scriptura', 'lectura', 'lector',
+    'scriptor', 'scriba', 'fabula', 'narratio', 'carmen', 'versus',
+    'poesia', 'poeta', 'prosa', 'prosodia', 'satura', 'tragoedia',
+    'editio', 'interpretatio',
+  ],
+
+  // School subjects and learning
+  scientia: [
+    'scientia', 'disciplina', 'doctrina', 'studium', 'theoria',
+    'methodologia', 'magister', 'discipulus', 'doctor', 'collegium',
+    'astronomia', 'biologia', 'botanica', 'chimia', 'dialectica',
+    'ecologia', 'economia', 'geographia', 'geologia', 'historia',
+    'mathematica', 'medicina', 'musica', 'philosophia', 'physica',
+    'psychologia', 'sociologia', 'sophistica', 'theologia', 'zoologia',
+    'silogismus',
+  ],
+};
+
+/**
+ * Normalize a tag for comparison
+ * Case, accents and repeated spaces are ignored; hyphens and underscores
+ * count as spaces, so a tag with spaces can be typed in the search
+ * syntax ("tag:wheelock_cap._3")
+ * 
+ * @param {string} tag - The tag as written
+ * @returns {string} The comparison key ("Wheelock cap. 3" → "wheelock cap. 3")
+ */
+export function normalizeTag(tag: string): string {
+  return normalizeForSearch(tag).replace(/[\s_-]+/g, ' ').trim();
+}
+
+/**
+ * Merge tag lists, dropping repeats (compared with normalizeTag)
+ * The first spelling of each tag is kept
+ * 
+ * @param {...string[][]} lists - Tag lists
+ * @returns {string[]} The merged list
+ */
+export function mergeTags(...lists: string[][]): string[] {
+  const seen = new Set<string>();
+  const merged: string[] = [];
+  for (const tag of lists.flat()) {
+    const key = normalizeTag(tag);
+    if (key && !seen.has(key)) {
+      seen.add(key);
+      merged.push(tag.trim());
+    }
+  }
+  return merged;
+}
+
+// Reverse table: normalized nominative → tags
+// Built the first time it's needed
+let tagsByNominative: Map<string, string[]> | null = null;
+
+/**
+ * Get the built-in tags of a word
+ * 
+ * @param {Pick<VocabularyEntry, 'nominative'>} word - The word to look up
+ * @returns {string[]} Its tags from WORD_TAGS (empty if it has none)
+ */
+export function findWordTags(word: Pick<VocabularyEntry, 'nominative'>): string[] {
+  if (!tagsByNominative) {
+    tagsByNominative = new Map();
+    for (const [tag, nominatives] of Object.entries(WORD_TAGS)) {
+      for (const nominative of nominatives) {
+        const key = normalizeForSearch(nominative);
+        tagsByNominative.set(key, [...(tagsByNominative.get(key) ?? []), tag]);
+      }
+    }
+  }
+  return tagsByNominative.get(normalizeForSearch(word.nominative)) ?? [];
+}
+
+/**
+ * Apply the tag table to a word
+ * 
+ * Returns a NEW object with the built-in tags added after the word's
+ * own tags, or the same object when there is nothing to add.
+ * 
+ * @param {VocabularyEntry} word - The word as loaded
+ * @returns {VocabularyEntry} The word with its tags
+ */
+export function applyWordTags<T extends VocabularyEntry>(word: T): T {
+  const builtIn = findWordTags(word);
+  if (builtIn.length === 0) {
+    return word;
+  }
+  return { ...word, tags: mergeTags(word.tags ?? [], builtIn) };
+}
+
+/**
+ * Check whether a word has any of the given tags
+ * 
+ * @param {Pick<VocabularyEntry, 'tags'>} word - The word
+ * @param {string[]} tags - Tags to look for (any of them is enough)
+ * @returns {boolean} True if the word has at least one of them
+ */
+export function hasAnyTag(word: Pick<VocabularyEntry, 'tags'>, tags: string[]): boolean {
+  if (!word.tags || word.tags.length === 0) {
+    return false;
+  }
+  const wanted = new Set(tags.map(normalizeTag));
+  return word.tags.some(tag => wanted.has(normalizeTag(tag)));
+}
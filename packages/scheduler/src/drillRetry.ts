@@ -0,0 +1,82 @@
+/**
+ * DRILL RETRIES - BRINGING MISSED DRILLS BACK IN A SESSION
+ * 
+ * A drill answered wrong comes back a few drills later, so the learner
+ * sees the right answer again while it is still fresh. Every correct
+ * answer to a retry pushes the next one further away, and after a few
+ * correct answers in a row the drill stops coming back:
+ * 
+ *   miss → 3 drills later → 6 drills later → 12 drills later → done
+ * 
+ * A new miss starts again from the first gap.
+ * 
+ * This is the short-term counterpart of the scheduler: the scheduler
+ * decides which day a word comes back, this file decides which drill of
+ * the current session.
+ */
+
+/**
+ * Settings of the retries
+ */
+export interface DrillRetryOptions {
+  // How many drills after a miss the drill comes back (1 = right after)
+  initialGap: number;
+
+  // Each correct retry multiplies the gap by this
+  gapGrowth: number;
+
+  // Correct retries in a row after which the drill stops coming back
+  maxSuccesses: number;
+}
+
+/**
+ * The settings used when none are given
+ */
+export const DEFAULT_DRILL_RETRY_OPTIONS: DrillRetryOptions = {
+  initialGap: 3,
+  gapGrowth: 2,
+  maxSuccesses: 3,
+};
+
+/**
+ * How many drills later a missed drill comes back
+ * 
+ * EXAMPLE (default settings):
+ * getRetryGap(0) → 3   (just missed)
+ * getRetryGap(1) → 6   (one correct retry)
+ * getRetryGap(2) → 12  (two correct retries)
+ * getRetryGap(3) → null (three correct retries: learned)
+ * 
+ * @param {number} successes - Correct retries since the last miss
+ * @param {DrillRetryOptions} options - Retry settings
+ * @returns {number | null} The gap in drills, or null if it shouldn't come back
+ */
+export function getRetryGap(
+  successes: number,
+  options: DrillRetryOptions = DEFAULT_DRILL_RETRY_OPTIONS
+): number | null {
+  if (successes >= options.maxSuccesses) {
+    return null;
+  }
+  return Math.max(1, Math.round(options.initialGap * Math.pow(options.gapGrowth, successes)));
+}
+
+/**
+ * Put a drill in a queue so that it comes up `gap` drills from now
+ * 
+ * queue[0] is the next drill, so a gap of 1 puts it first. If the queue
+ * is shorter than the gap, the drill goes at the end (the caller can
+ * fill the queue first to keep the exact gap).
+ * 
+ * EXAMPLE:
+ * insertAtGap(['a', 'b', 'c'], 'x', 2) → ['a', 'x', 'b', 'c']
+ * 
+ * @param {T[]} queue - The drills waiting, next first
+ * @param {T} drill - The drill to put back
+ * @param {number} gap - How many drills from now
+ * @returns {T[]} A new queue (the given one is not changed)
+ */
+export function insertAtGap<T>(queue: T[], drill: T, gap: number): T[] {
+  const index = Math.min(Math.max(0, gap - 1), queue.length);
+  return [...queue.slice(0, index), drill, ...queue.slice(index)];
+}
@@ -0,0 +1,298 @@
+/**
+ * DRILL SELECTION - WHICH DRILL COMES NEXT IN A SESSION
+ * 
+ * Picks the word and the kind of drill for the next exercise. Instead of
+ * a uniform draw, every word and every drill kind gets a weight from how
+ * often the learner gets it wrong:
+ * 
+ * - In this session: the wrong answers so far
+ * - Before this session (when available): the word's memory state
+ *   (difficulty and chance of forgetting it now) and the past results
+ *   of each drill kind
+ * 
+ * Weak words and kinds come up more often, but known ones still appear
+ * (every weight is at least 1), and every selected word comes up at
+ * least once before any word is repeated by weight.
+ * 
+ * A "drill kind" is a drill type plus an optional variant, e.g.
+ * 'multipleChoice/latinToSpanish' and 'multipleChoice/spanishToLatin'
+ * (see getDrillKind). The app decides what the kinds are; this file only
+ * needs their names and the words each kind can use.
+ * 
+ * All functions are pure: randomness comes from options.random, so the
+ * same input and random sequence always give the same drill.
+ */
+
+import type { WordMemory } from '@latin-app/types';
+
+import { getCurrentRetrievability } from './queues';
+import type { WordMemoryMap } from './scheduler';
+
+/**
+ * A drill answered (or skipped) in the session
+ */
+export interface DrillAttempt {
+  wordId: string;
+  drillKind: string;
+  isCorrect: boolean;
+  wasSkipped?: boolean;
+}
+
+/**
+ * A drill already chosen but not shown yet
+ */
+export interface PlannedDrill {
+  wordId: string;
+  drillKind: string;
+}
+
+/**
+ * Past results of one drill kind
+ */
+export interface DrillKindStats {
+  attempts: number;     // Answered drills (skipped ones don't count)
+  incorrect: number;
+}
+
+/**
+ * Everything the selector looks at
+ */
+export interface DrillSelectionInput {
+  // The words each enabled drill kind can use
+  // e.g. { 'declensionTable': ['word_rosa_0001', ...], 'pronounDeclension': ['pron_ego'] }
+  wordsByKind: Record<string, string[]>;
+
+  // Words that must all come up at least once (the learner's selection)
+  requiredWordIds: string[];
+
+  // Drills answered or skipped so far, oldest first
+  attempts: DrillAttempt[];
+
+  // Drills already waiting in the queue
+  planned: PlannedDrill[];
+
+  // Stored history, when the app has it
+  memories?: WordMemoryMap;
+  kindHistory?: Record<string, DrillKindStats>;
+
+  // The current time (for the chance of forgetting)
+  now?: Date;
+}
+
+/**
+ * Settings of the selector
+ */
+export interface DrillSelectionOptions {
+  // How much more often the weakest word/kind comes up than a known one:
+  // weight = 1 + weaknessBoost × weakness (weakness goes from 0 to 1)
+  weaknessBoost: number;
+
+  // How many answers the stored history is worth: with 2, a word's
+  // history counts as much as two answers in this session
+  priorStrength: number;
+
+  // Weight multiplier for the word of the last drill (0.1 = 10 times
+  // less likely), so the same word doesn't come up twice in a row
+  repeatPenalty: number;
+
+  // Random number generator from 0 (included) to 1 (excluded)
+  random: () => number;
+}
+
+/**
+ * The settings used when none are given
+ */
+export const DEFAULT_DRILL_SELECTION_OPTIONS: DrillSelectionOptions = {
+  weaknessBoost: 4,
+  priorStrength: 2,
+  repeatPenalty: 0.1,
+  random: Math.random,
+};
+
+/**
+ * Weakness of a word or kind nobody knows anything about yet
+ */
+const UNKNOWN_WEAKNESS = 0.5;
+
+/**
+ * Build the name of a drill kind
+ * 
+ * EXAMPLE:
+ * getDrillKind('multipleChoice', 'spanishToLatin') → 'multipleChoice/spanishToLatin'
+ * getDrillKind('declensionTable') → 'declensionTable'
+ * 
+ * @param {string} drillType - The drill type
+ * @param {string} variant - The variant (e.g. the question direction), if any
+ * @returns {string} The drill kind
+ */
+export function getDrillKind(drillType: string, variant?: string): string {
+  return variant ? `${drillType}/${variant}` : drillType;
+}
+
+/**
+ * Count the answered and wrong drills of each kind
+ * Skipped drills are left out: they say nothing about the learner
+ * 
+ * @param {DrillAttempt[]} attempts - Drill results (e.g. from past sessions)
+ * @returns {Record<string, DrillKindStats>} The counts by drill kind
+ */
+export function getDrillKindStats(attempts: DrillAttempt[]): Record<string, DrillKindStats> {
+  const stats: Record<string, DrillKindStats> = {};
+  attempts.forEach(attempt => {
+    if (attempt.wasSkipped) {
+      return;
+    }
+    const kindStats = stats[attempt.drillKind] ?? { attempts: 0, incorrect: 0 };
+    stats[attempt.drillKind] = {
+      attempts: kindStats.attempts + 1,
+      incorrect: kindStats.incorrect + (attempt.isCorrect ? 0 : 1),
+    };
+  });
+  return stats;
+}
+
+/**
+ * How weak something is, from 0 (always right) to 1 (always wrong)
+ * 
+ * The session's error rate, pulled towards the prior (what was known
+ * before the session) when there are few answers yet.
+ * 
+ * EXAMPLE (prior 0.5, priorStrength 2):
+ * no answers → 0.5; one wrong → 0.67; three right → 0.2
+ * 
+ * @param {number} incorrect - Wrong answers in the session
+ * @param {number} attempts - Answers in the session
+ * @param {number} prior - Weakness known before the session (0-1)
+ * @param {number} priorStrength - How many answers the prior is worth
+ * @returns {number} The weakness (0-1)
+ */
+export function getWeakness(
+  incorrect: number,
+  attempts: number,
+  prior: number,
+  priorStrength: number
+): number {
+  return (incorrect + prior * priorStrength) / (attempts + priorStrength);
+}
+
+/**
+ * What the stored memory state says about a word before the session
+ * 
+ * Half the difficulty (1-10, scaled to 0-1) and half the chance of
+ * having forgotten it by now.
+ * 
+ * @param {WordMemory | undefined} memory - The word's state (undefined = never practised)
+ * @param {Date} now - The current time
+ * @returns {number} The weakness (0-1)
+ */
+export function getWordPrior(memory: WordMemory | undefined, now: Date): number {
+  if (!memory || memory.phase === 'new') {
+    return UNKNOWN_WEAKNESS;
+  }
+  const difficulty = Math.min(1, Math.max(0, (memory.difficulty - 1) / 9));
+  const forgetting = 1 - getCurrentRetrievability(memory, now);
+  return (difficulty + forgetting) / 2;
+}
+
+/**
+ * FUNCTION HELPER: Pick an item with probability proportional to its weight
+ */
+function pickWeighted<T>(items: T[], weights: number[], random: () => number): T {
+  const total = weights.reduce((sum, weight) => sum + weight, 0);
+  let target = random() * total;
+  for (let index = 0; index < items.length; index++) {
+    target -= weights[index];
+    if (target < 0) {
+      return items[index];
+    }
+  }
+  return items[items.length - 1];
+}
+
+/**
+ * Choose the next drill of a session
+ * 
+ * 1. Words of the selection that haven't come up yet (neither answered
+ *    nor waiting in the queue) go first, the weakest more likely.
+ * 2. After that, any word can come up, weighted by its weakness.
+ * 3. The drill kind is chosen among the kinds that can use that word,
+ *    weighted by the weakness of each kind.
+ * 
+ * EXAMPLE:
+ * rosa answered wrong twice, lupus right twice, both already seen
+ * → rosa (weight 4) is twice as likely as lupus (weight 2)
+ * 
+ * @param {DrillSelectionInput} input - Words, kinds and results
+ * @param {DrillSelectionOptions} options - Selector settings
+ * @returns {PlannedDrill | null} The next drill, or null if no kind has any word
+ */
+export function selectNextDrill(
+  input: DrillSelectionInput,
+  options: DrillSelectionOptions = DEFAULT_DRILL_SELECTION_OPTIONS
+): PlannedDrill | null {
+  const { wordsByKind, attempts, planned, memories = {}, kindHistory = {} } = input;
+  const now = input.now ?? new Date();
+
+  // Kinds that can use each word
+  const kindsByWord = new Map<string, string[]>();
+  Object.entries(wordsByKind).forEach(([drillKind, wordIds]) => {
+    new Set(wordIds).forEach(wordId => {
+      kindsByWord.set(wordId, [...(kindsByWord.get(wordId) ?? []), drillKind]);
+    });
+  });
+  if (kindsByWord.size === 0) {
+    return null;
+  }
+
+  // In-session counts by word and by kind (skipped drills don't count)
+  const wordCounts = new Map<string, DrillKindStats>();
+  attempts.forEach(attempt => {
+    if (attempt.wasSkipped) {
+      return;
+    }
+    const counts = wordCounts.get(attempt.wordId) ?? { attempts: 0, incorrect: 0 };
+    wordCounts.set(attempt.wordId, {
+      attempts: counts.attempts + 1,
+      incorrect: counts.incorrect + (attempt.isCorrect ? 0 : 1),
+    });
+  });
+  const kindCounts = getDrillKindStats(attempts);
+
+  const getWordWeight = (wordId: string) => {
+    const counts = wordCounts.get(wordId) ?? { attempts: 0, incorrect: 0 };
+    const prior = getWordPrior(memories[wordId], now);
+    return 1 + options.weaknessBoost
+      * getWeakness(counts.incorrect, counts.attempts, prior, options.priorStrength);
+  };
+
+  const getKindWeight = (drillKind: string) => {
+    const counts = kindCounts[drillKind] ?? { attempts: 0, incorrect: 0 };
+    const history = kindHistory[drillKind];
+    const prior = history && history.attempts > 0
+      ? getWeakness(history.incorrect, history.attempts, UNKNOWN_WEAKNESS, 1)
+      : UNKNOWN_WEAKNESS;
+    return 1 + options.weaknessBoost
+      * getWeakness(counts.incorrect, counts.attempts, prior, options.priorStrength);
+  };
+
+  // 1. Coverage: selected words that haven't come up yet
+  const seen = new Set([...attempts, ...planned].map(drill => drill.wordId));
+  const unseen = [...new Set(input.requiredWordIds)]
+    .filter(wordId => kindsByWord.has(wordId) && !seen.has(wordId));
+
+  // 2. Otherwise, every word that some kind can use
+  const candidates = unseen.length > 0 ? unseen : [...kindsByWord.keys()];
+
+  // The word of the previous drill is much less likely to come up again
+  const lastDrill = planned.length > 0 ? planned[planned.length - 1] : attempts[attempts.length - 1];
+  const wordWeights = candidates.map(wordId =>
+    getWordWeight(wordId) * (candidates.length > 1 && wordId === lastDrill?.wordId ? options.repeatPenalty : 1)
+  );
+  const wordId = pickWeighted(candidates, wordWeights, options.random);
+
+  // 3. The kind, among the ones that can use the word
+  const kinds = kindsByWord.get(wordId) ?? [];
+  const drillKind = pickWeighted(kinds, kinds.map(getKindWeight), options.random);
+
+  return { wordId, drillKind };
+}
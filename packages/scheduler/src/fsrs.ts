@@ -0,0 +1,192 @@
+/**
+ * FSRS - THE MEMORY MODEL
+ * 
+ * FSRS ("Free Spaced Repetition Scheduler") describes how well a learner
+ * knows a word with two numbers:
+ * 
+ * - Stability (S): how many days it takes for the chance of remembering
+ *   the word to drop to 90%. A word with S = 10 is still remembered 9
+ *   times out of 10 after 10 days.
+ * - Difficulty (D): from 1 to 10, how hard the word is for this learner.
+ *   Hard words gain stability more slowly.
+ * 
+ * Every review updates both numbers. Remembering a word when it was
+ * about to be forgotten raises its stability the most (that's why
+ * spacing works); forgetting it brings the stability back down.
+ * 
+ * The formulas and default weights are those of FSRS-4.5, the version
+ * used by Anki. The weights were fitted to millions of real reviews;
+ * a learner's own history could refine them, but the defaults work
+ * well from the first review.
+ * 
+ * This file only does the math. scheduler.ts decides what a drill
+ * result means and when the word comes back.
+ */
+
+import type { ReviewGrade } from '@latin-app/types';
+
+/**
+ * The FSRS-4.5 default weights (w0 ... w16)
+ * 
+ * w0-w3:   stability after the first review, per grade
+ * w4-w5:   difficulty after the first review
+ * w6-w7:   how difficulty changes (and drifts back to the default)
+ * w8-w10:  stability gained when a word is remembered
+ * w11-w14: stability left when a word is forgotten
+ * w15-w16: penalty for 'hard', bonus for 'easy'
+ */
+export const FSRS_WEIGHTS: readonly number[] = [
+  0.4872, 1.4003, 3.7145, 13.8206, 5.1618, 1.2298, 0.8975, 0.031,
+  1.6474, 0.1367, 1.0461, 2.1072, 0.0793, 0.3246, 1.587, 0.2272, 2.8755,
+];
+
+/**
+ * The shape of the forgetting curve
+ * With these values, the chance of remembering after S days is exactly 90%
+ */
+const DECAY = -0.5;
+const FACTOR = 19 / 81;
+
+/**
+ * Difficulty limits
+ */
+export const MIN_DIFFICULTY = 1;
+export const MAX_DIFFICULTY = 10;
+
+/**
+ * The lowest stability a word can have (about 2 hours)
+ * Keeps the formulas away from division by zero
+ */
+export const MIN_STABILITY = 0.1;
+
+/**
+ * Each grade as a number: again = 1 ... easy = 4
+ * The FSRS formulas work with these numbers
+ */
+const GRADE_VALUES: Record<ReviewGrade, number> = {
+  again: 1,
+  hard: 2,
+  good: 3,
+  easy: 4,
+};
+
+/**
+ * Keep a number between two limits
+ */
+function clamp(value: number, min: number, max: number): number {
+  return Math.min(max, Math.max(min, value));
+}
+
+/**
+ * The chance (0 to 1) of remembering a word after some days
+ * 
+ * EXAMPLE:
+ * getRetrievability(0, 10)  → 1     (just reviewed)
+ * getRetrievability(10, 10) → 0.9   (S days later: 90%, by definition)
+ * getRetrievability(30, 10) → ~0.77
+ * 
+ * @param {number} elapsedDays - Days since the last review
+ * @param {number} stability - The word's stability
+ * @returns {number} The probability of remembering the word
+ */
+export function getRetrievability(elapsedDays: number, stability: number): number {
+  return Math.pow(1 + FACTOR * Math.max(0, elapsedDays) / stability, DECAY);
+}
+
+/**
+ * How many days to wait so the chance of remembering drops to a target
+ * 
+ * With the usual target of 0.9 the interval equals the stability.
+ * A higher target means shorter intervals (more reviews, fewer lapses).
+ * 
+ * @param {number} stability - The word's stability
+ * @param {number} desiredRetention - Target probability, e.g. 0.9
+ * @returns {number} The interval in days (not rounded)
+ */
+export function getIntervalDays(stability: number, desiredRetention: number): number {
+  return (stability / FACTOR) * (Math.pow(desiredRetention, 1 / DECAY) - 1);
+}
+
+/**
+ * Stability after the first review of a word
+ * 
+ * @param {ReviewGrade} grade - The grade of the first review
+ * @returns {number} The initial stability in days
+ */
+export function getInitialStability(grade: ReviewGrade): number {
+  return Math.max(MIN_STABILITY, FSRS_WEIGHTS[GRADE_VALUES[grade] - 1]);
+}
+
+/**
+ * Difficulty after the first review of a word
+ * 
+ * @param {ReviewGrade} grade - The grade of the first review
+ * @returns {number} The initial difficulty, from 1 to 10
+ */
+export function getInitialDifficulty(grade: ReviewGrade): number {
+  const w = FSRS_WEIGHTS;
+  const value = w[4] - (GRADE_VALUES[grade] - 3) * w[5];
+  return clamp(value, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/**
+ * Difficulty after another review
+ * 
+ * 'again' and 'hard' make the word harder, 'easy' makes it easier.
+ * The result drifts a little toward the default difficulty, so a
+ * word is never stuck at 10 forever.
+ * 
+ * @param {number} difficulty - The current difficulty
+ * @param {ReviewGrade} grade - The grade of the review
+ * @returns {number} The new difficulty, from 1 to 10
+ */
+export function getNextDifficulty(difficulty: number, grade: ReviewGrade): number {
+  const w = FSRS_WEIGHTS;
+  const changed = difficulty - w[6] * (GRADE_VALUES[grade] - 3);
+  const reverted = w[7] * getInitialDifficulty('good') + (1 - w[7]) * changed;
+  return clamp(reverted, MIN_DIFFICULTY, MAX_DIFFICULTY);
+}
+
+/**
+ * Stability after a review
+ * 
+ * Remembered (hard, good, easy): the stability grows, more when the
+ * word is easy, when its stability is still small and when it was
+ * close to being forgotten (low retrievability).
+ * 
+ * Forgotten (again): the stability drops to a value that depends on
+ * how well the word was known before. It never grows.
+ * 
+ * @param {number} stability - The current stability
+ * @param {number} difficulty - The current difficulty (before this review)
+ * @param {number} retrievability - Chance of remembering at the time of the review
+ * @param {ReviewGrade} grade - The grade of the review
+ * @returns {number} The new stability in days
+ */
+export function getNextStability(
+  stability: number,
+  difficulty: number,
+  retrievability: number,
+  grade: ReviewGrade
+): number {
+  const w = FSRS_WEIGHTS;
+
+  if (grade === 'again') {
+    const forgotten = w[11]
+      * Math.pow(difficulty, -w[12])
+      * (Math.pow(stability + 1, w[13]) - 1)
+      * Math.exp(w[14] * (1 - retrievability));
+    return Math.max(MIN_STABILITY, Math.min(forgotten, stability));
+  }
+
+  const hardPenalty = grade === 'hard' ? w[15] : 1;
+  const easyBonus = grade === 'easy' ? w[16] : 1;
+  const growth = Math.exp(w[8])
+    * (11 - difficulty)
+    * Math.pow(stability, -w[9])
+    * (Math.exp(w[10] * (1 - retrievability)) - 1)
+    * hardPenalty
+    * easyBonus;
+
+  return Math.max(MIN_STABILITY, stability * (1 + growth));
+}
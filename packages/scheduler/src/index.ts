@@ -0,0 +1,29 @@
+/**
+ * SCHEDULER PACKAGE - SPACED REPETITION
+ * 
+ * Remembers how well the learner knows each word and decides when each
+ * word should be practised again, so sessions focus on the words that
+ * are about to be forgotten instead of picking words at random.
+ * 
+ * HOW IT'S USED:
+ * 1. After each drill, applyReviewResult() updates the word's WordMemory
+ * 2. The app saves the WordMemoryMap (it's plain JSON)
+ * 3. Before a session, getReviewQueues() says which words are due,
+ *    which are still being learned and which are new
+ * 4. During a session, selectNextDrill() picks each drill, favouring
+ *    the words and drill kinds the learner gets wrong
+ * 5. After a miss, getRetryGap() says how many drills later it comes back
+ * 
+ * FILES:
+ * - fsrs.ts:      the memory model (stability, difficulty, forgetting curve)
+ * - scheduler.ts: from drill results to memory states and due dates
+ * - queues.ts:    the due, learning and new queues
+ * - drillSelection.ts: the weighted choice of the next drill in a session
+ * - drillRetry.ts: bringing missed drills back later in the session
+ */
+
+export * from './fsrs';
+export * from './scheduler';
+export * from './queues';
+export * from './drillSelection';
+export * from './drillRetry';
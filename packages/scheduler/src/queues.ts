@@ -0,0 +1,98 @@
+/**
+ * REVIEW QUEUES - WHAT TO PRACTISE NEXT
+ * 
+ * Splits a list of words into the three queues of a spaced-repetition
+ * session:
+ * 
+ * - due:      learned words whose review date has passed
+ * - learning: words that were answered wrong recently (or just met)
+ *             and need more practice before they're learned
+ * - new:      words the learner has never practised
+ * 
+ * Learned words that are not due yet are in no queue: practising them
+ * early doesn't help much (see getNextStability in fsrs.ts).
+ * 
+ * The session config can offer the queues as ready-made selections
+ * ("12 words to review") and the drill engine can use them to pick
+ * which word comes next.
+ */
+
+import type { ReviewQueues, WordMemory } from '@latin-app/types';
+
+import { getRetrievability } from './fsrs';
+import type { WordMemoryMap } from './scheduler';
+
+/**
+ * Milliseconds in a day
+ */
+const DAY_MS = 24 * 60 * 60 * 1000;
+
+/**
+ * Check whether a word should be practised now
+ * 
+ * @param {WordMemory} memory - The word's state
+ * @param {Date} now - The current time
+ * @returns {boolean} True if the due date has passed
+ */
+export function isDue(memory: WordMemory, now: Date): boolean {
+  return Date.parse(memory.due) <= now.getTime();
+}
+
+/**
+ * The chance of remembering a word right now
+ * 
+ * @param {WordMemory} memory - The word's state
+ * @param {Date} now - The current time
+ * @returns {number} A probability from 0 to 1
+ */
+export function getCurrentRetrievability(memory: WordMemory, now: Date): number {
+  const elapsedDays = (now.getTime() - Date.parse(memory.lastReview)) / DAY_MS;
+  return getRetrievability(elapsedDays, memory.stability);
+}
+
+/**
+ * Split words into the due, learning and new queues
+ * 
+ * Repeated IDs are counted once.
+ * 
+ * EXAMPLE:
+ * getReviewQueues(['rosa', 'lupus', 'rex'], memories, now)
+ * → { due: ['lupus'], learning: [], new: ['rosa', 'rex'] }
+ * 
+ * @param {string[]} wordIds - The words to sort out (e.g. every word in the enabled packs)
+ * @param {WordMemoryMap} memories - The saved memory states
+ * @param {Date} now - The current time
+ * @returns {ReviewQueues} The three queues
+ */
+export function getReviewQueues(
+  wordIds: string[],
+  memories: WordMemoryMap,
+  now: Date = new Date()
+): ReviewQueues {
+  const due: WordMemory[] = [];
+  const learning: WordMemory[] = [];
+  const newIds: string[] = [];
+
+  new Set(wordIds).forEach(wordId => {
+    const memory = memories[wordId];
+    if (!memory || memory.phase === 'new') {
+      newIds.push(wordId);
+    } else if (memory.phase === 'learning') {
+      learning.push(memory);
+    } else if (isDue(memory, now)) {
+      due.push(memory);
+    }
+  });
+
+  // Due words: the ones most likely to be forgotten first
+  due.sort((a, b) => getCurrentRetrievability(a, now) - getCurrentRetrievability(b, now));
+
+  // Learning words: the ones whose next step comes first
+  learning.sort((a, b) => Date.parse(a.due) - Date.parse(b.due));
+
+  return {
+    due: due.map(memory => memory.wordId),
+    learning: learning.map(memory => memory.wordId),
+    new: newIds,
+  };
+}
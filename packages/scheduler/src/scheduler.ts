@@ -0,0 +1,197 @@
+/**
+ * SCHEDULER - FROM DRILL RESULTS TO REVIEW DATES
+ * 
+ * After each drill, the word's memory state (WordMemory) is updated with
+ * the FSRS formulas and the word gets a new due date:
+ * 
+ * - Forgotten words go (back) to the 'learning' phase and are due again
+ *   a few minutes later, so they come back in the same session.
+ * - Remembered words are in the 'review' phase and are due when the
+ *   chance of remembering them drops to the desired retention (90%).
+ *   That is one to a few days at first, then weeks, then months.
+ * 
+ * All functions are pure: they return new objects and never change the
+ * ones they receive. Saving the states is up to the app.
+ */
+
+import type { ReviewGrade, ReviewResult, WordMemory } from '@latin-app/types';
+
+import {
+  getInitialDifficulty,
+  getInitialStability,
+  getIntervalDays,
+  getNextDifficulty,
+  getNextStability,
+  getRetrievability,
+} from './fsrs';
+
+/**
+ * Milliseconds in a minute and in a day
+ */
+const MINUTE_MS = 60 * 1000;
+const DAY_MS = 24 * 60 * MINUTE_MS;
+
+/**
+ * Settings of the scheduler
+ */
+export interface SchedulerOptions {
+  // Chance of remembering a word when it comes back (0.9 = 90%)
+  desiredRetention: number;
+
+  // Longest wait between two reviews, in days
+  maximumIntervalDays: number;
+
+  // How long a word being learned waits before it comes back, in minutes
+  learningStepMinutes: number;
+}
+
+/**
+ * The settings used when none are given
+ */
+export const DEFAULT_SCHEDULER_OPTIONS: SchedulerOptions = {
+  desiredRetention: 0.9,
+  maximumIntervalDays: 365,
+  learningStepMinutes: 10,
+};
+
+/**
+ * The memory states of several words: word ID → state
+ * A plain object, so it can be saved as JSON as it is
+ */
+export type WordMemoryMap = Record<string, WordMemory>;
+
+/**
+ * Turn a drill result into a review grade
+ * 
+ * Drills only say whether the answer was right, so they give 'good' or
+ * 'again'; 'hard' and 'easy' are for reviews the learner grades
+ * (e.g. flash cards). Skipped drills say nothing about the word.
+ * 
+ * @param {ReviewResult} result - The drill result
+ * @returns {ReviewGrade | null} The grade, or null for a skipped drill
+ */
+export function gradeReviewResult(result: ReviewResult): ReviewGrade | null {
+  if (result.wasSkipped) {
+    return null;
+  }
+  return result.isCorrect ? 'good' : 'again';
+}
+
+/**
+ * Update a word's memory state after a review
+ * 
+ * EXAMPLE (a new word, answered right):
+ * reviewWord(undefined, 'word_rosa_0001', 'good', now)
+ * → { phase: 'review', stability: 3.7, difficulty: 5.2, due: now + 4 days, ... }
+ * 
+ * @param {WordMemory | undefined} memory - The current state (undefined for a new word)
+ * @param {string} wordId - The word's ID
+ * @param {ReviewGrade} grade - How well it was remembered
+ * @param {Date} now - When the review happened
+ * @param {SchedulerOptions} options - Scheduler settings
+ * @returns {WordMemory} The new state (a NEW object)
+ */
+export function reviewWord(
+  memory: WordMemory | undefined,
+  wordId: string,
+  grade: ReviewGrade,
+  now: Date,
+  options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS
+): WordMemory {
+  let stability: number;
+  let difficulty: number;
+  let lapses = memory?.lapses ?? 0;
+
+  if (!memory || memory.phase === 'new') {
+    // First review: the grade alone sets both numbers
+    stability = getInitialStability(grade);
+    difficulty = getInitialDifficulty(grade);
+  } else {
+    // The chance of remembering depends on how long ago the last review was
+    const elapsedDays = (now.getTime() - Date.parse(memory.lastReview)) / DAY_MS;
+    const retrievability = getRetrievability(elapsedDays, memory.stability);
+
+    stability = getNextStability(memory.stability, memory.difficulty, retrievability, grade);
+    difficulty = getNextDifficulty(memory.difficulty, grade);
+
+    // A lapse is forgetting a word that had been learned
+    if (grade === 'again' && memory.phase === 'review') {
+      lapses += 1;
+    }
+  }
+
+  // Forgotten words (and 'hard' answers while learning) stay in learning
+  const stillLearning = grade === 'again'
+    || (grade === 'hard' && memory?.phase !== 'review');
+
+  const waitMs = stillLearning
+    ? options.learningStepMinutes * MINUTE_MS
+    : Math.min(
+      options.maximumIntervalDays,
+      Math.max(1, Math.round(getIntervalDays(stability, options.desiredRetention)))
+    ) * DAY_MS;
+
+  return {
+    wordId,
+    phase: stillLearning ? 'learning' : 'review',
+    stability,
+    difficulty,
+    due: new Date(now.getTime() + waitMs).toISOString(),
+    lastReview: now.toISOString(),
+    reviews: (memory?.reviews ?? 0) + 1,
+    lapses,
+  };
+}
+
+/**
+ * Apply a drill result to a set of memory states
+ * 
+ * Skipped drills leave the states as they are (the same object is
+ * returned, so React can tell nothing changed).
+ * 
+ * @param {WordMemoryMap} memories - The current states
+ * @param {ReviewResult} result - The drill result
+ * @param {SchedulerOptions} options - Scheduler settings
+ * @returns {WordMemoryMap} The states with the word updated
+ */
+export function applyReviewResult(
+  memories: WordMemoryMap,
+  result: ReviewResult,
+  options: SchedulerOptions = DEFAULT_SCHEDULER_OPTIONS
+): WordMemoryMap {
+  const grade = gradeReviewResult(result);
+  if (!grade) {
+    return memories;
+  }
+
+  const updated = reviewWord(
+    memories[result.wordId],
+    result.wordId,
+    grade,
+    new Date(result.timestamp),
+    options
+  );
+  return { ...memories, [result.wordId]: updated };
+}
+
+/**
+ * Check whether a value has the shape of a WordMemory
+ * Useful for states read from localStorage
+ * 
+ * @param {unknown} value - The value to check
+ * @returns {boolean} True if it can be used as a WordMemory
+ */
+export function isWordMemory(value: unknown): value is WordMemory {
+  if (typeof value !== 'object' || value === null) {
+    return false;
+  }
+  const memory = value as Partial<WordMemory>;
+  return typeof memory.wordId === 'string'
+    && (memory.phase === 'new' || memory.phase === 'learning' || memory.phase === 'review')
+    && typeof memory.stability === 'number' && memory.stability > 0
+    && typeof memory.difficulty === 'number'
+    && typeof memory.due === 'string' && !Number.isNaN(Date.parse(memory.due))
+    && typeof memory.lastReview === 'string' && !Number.isNaN(Date.parse(memory.lastReview))
+    && typeof memory.reviews === 'number'
+    && typeof memory.lapses === 'number';
+}
@@ -0,0 +1,427 @@
+/**
+ * DICTIONARY ENTRY UTILITIES - ENUNCIADO DE DICCIONARIO
+ * 
+ * Los diccionarios y las gramáticas escriben cada sustantivo en una sola
+ * línea: nominativo, genitivo (abreviado si es regular) y género.
+ * 
+ * - rosa, -ae, f.
+ * - dominus, -ī, m.
+ * - corpus, corporis, n.  (el tema cambia: el genitivo va completo)
+ * - arma, -ōrum, n. pl.   (solo plural)
+ * 
+ * Alumnos y profesores escriben así las palabras, por eso este módulo
+ * sabe hacer las dos cosas:
+ * - formatDictionaryEntry: palabra del vocabulario → línea de diccionario
+ * - parseDictionaryEntry: línea de diccionario → datos estructurados
+ */
+
+import { getDisplayForms, stripMacrons } from './macronUtils';
+
+/**
+ * TIPOS
+ * 
+ * Coinciden con los campos de NormalizedLatinWord, así que una entrada
+ * leída se puede convertir en palabra del vocabulario directamente.
+ */
+export type DictionaryDeclension = '1st' | '2nd' | '3rd' | '4th' | '5th';
+export type DictionaryGender = 'masculine' | 'feminine' | 'neuter' | 'common';
+
+export interface DictionaryEntry {
+  nominative: string;                  // Tal como se escribió (con macrones si los tiene)
+  genitive: string;                    // Siempre completo y en minúsculas ("-ae" → "rosae")
+  declension: DictionaryDeclension;    // Deducida de la terminación del genitivo
+  gender: DictionaryGender;
+  numberRestriction?: 'plural-only';   // Genitivo plural (-ōrum, -ārum...) o "pl."
+}
+
+/**
+ * Por qué no se pudo leer una línea
+ * - 'empty': la línea está vacía
+ * - 'missing-genitive': solo hay nominativo ("rosa")
+ * - 'missing-gender': falta el género ("rosa, -ae")
+ * - 'invalid-gender': el género no es m., f., n. ni común
+ * - 'invalid-genitive': la abreviatura no encaja con el nominativo ("rēx, -gis")
+ * - 'ending-mismatch': esa terminación no va con ese nominativo ("rosa, -ī")
+ * - 'unknown-declension': el genitivo no tiene ninguna terminación conocida
+ */
+export type DictionaryEntryErrorCode =
+  | 'empty'
+  | 'missing-genitive'
+  | 'missing-gender'
+  | 'invalid-gender'
+  | 'invalid-genitive'
+  | 'ending-mismatch'
+  | 'unknown-declension';
+
+export interface DictionaryEntryParseResult {
+  entry: DictionaryEntry | null;       // null si la línea no se pudo leer
+  error?: DictionaryEntryErrorCode;    // El motivo, para mostrarlo en la interfaz
+}
+
+/**
+ * ABREVIATURAS DE GÉNERO
+ * 'common' (civis, -is, m./f.) puede ser masculino o femenino
+ */
+export const GENDER_ABBREVIATIONS: Record<DictionaryGender, string> = {
+  masculine: 'm.',
+  feminine: 'f.',
+  neuter: 'n.',
+  common: 'm./f.',
+};
+
+// Todas las formas aceptadas al leer el género (sin puntos ni espacios)
+const GENDER_VALUES: Record<string, DictionaryGender> = {
+  m: 'masculine', masc: 'masculine',
+  f: 'feminine', fem: 'feminine',
+  n: 'neuter', neut: 'neuter',
+  c: 'common', com: 'common', 'm/f': 'common', 'f/m': 'common', mf: 'common', myf: 'common',
+};
+
+/**
+ * GENITIVOS REGULARES
+ * 
+ * Pares [terminación del nominativo, terminación del genitivo] (sin
+ * macrones). Si el genitivo es "tema del nominativo + terminación", es
+ * regular y se abrevia: rosa → ros- + ae → "-ae".
+ * 
+ * El orden importa: se prueban de arriba abajo.
+ */
+const REGULAR_GENITIVES: Record<string, [string, string][]> = {
+  '1st': [['a', 'ae'], ['ae', 'arum']],
+  '2nd': [['us', 'i'], ['um', 'i'], ['', 'i'], ['i', 'orum'], ['a', 'orum']],
+  '3rd': [['is', 'is'], ['es', 'is'], ['e', 'is'], ['', 'is'], ['ia', 'ium'], ['es', 'um'], ['es', 'ium']],
+  '4th': [['us', 'us'], ['u', 'us']],
+  '5th': [['es', 'ei']],
+};
+
+/**
+ * NOMINATIVOS DE CADA TERMINACIÓN DEL GENITIVO
+ * 
+ * [terminación del genitivo, terminaciones del nominativo que la admiten]
+ * (sin macrones). Sirve para no inventar genitivos: "rosa, -ī" no es
+ * "rosī" de la 2ª, es un error.
+ * 
+ * El orden importa: "-ārum" antes que "-um", "-eī" antes que "-ī".
+ */
+const GENITIVE_NOMINATIVES: [string, RegExp][] = [
+  ['arum', /ae$/],                                 // tenebrae, -ārum
+  ['orum', /[ia]$/],                               // līberī, -ōrum / arma, -ōrum
+  ['erum', /es$/],                                 // rēs, -ērum
+  ['uum', /(us|ua)$/],                             // manus, -uum / cornua, -uum
+  ['ium', /(es|ia)$/],                             // fīnēs, -ium / moenia, -ium
+  ['um', /(es|a)$/],                               // maiōrēs, -um
+  ['ae', /a$/],                                    // rosa, -ae
+  ['ei', /es$/],                                   // rēs, -eī
+  ['us', /us?$/],                                  // manus, -ūs / cornū, -ūs
+  ['is', /(is|es|e)$|[^aeiouys]$|[^aeiouy]s$/],    // nāvis, nūbēs, mare, cōnsul, urbs
+  ['i', /(us|um|os|on|r)$/],                       // dominus, bellum, Dēlos, puer
+];
+
+// Terminaciones de la 3ª: con el tema escrito delante ("-oris", "-itis")
+// el genitivo vale para cualquier nominativo (corpus, -oris)
+const THIRD_DECLENSION_ENDINGS = new Set(['is', 'ium', 'um']);
+
+/**
+ * Helper: Forma sin macrones y en minúsculas, para comparar terminaciones
+ * (conserva la longitud, así los índices valen para la forma original)
+ */
+function plain(str: string): string {
+  return stripMacrons(str.normalize('NFC')).toLowerCase();
+}
+
+/**
+ * ABBREVIATE GENITIVE
+ * 
+ * @param nominative - Nominativo (con o sin macrones)
+ * @param genitive - Genitivo completo (con o sin macrones)
+ * @param declension - Declinación de la palabra ('1st'...'5th')
+ * @returns La terminación ("-ae") si el genitivo es regular; si no, el genitivo completo
+ *   (la abreviatura siempre se puede volver a leer con expandGenitive)
+ * 
+ * EJEMPLOS:
+ * - abbreviateGenitive("rosa", "rosae", "1st") → "-ae"
+ * - abbreviateGenitive("rēs", "reī", "5th") → "-eī"
+ * - abbreviateGenitive("corpus", "corporis", "3rd") → "corporis"
+ */
+export function abbreviateGenitive(nominative: string, genitive: string, declension: string): string {
+  const nom = plain(nominative);
+  const gen = plain(genitive);
+
+  for (const [nomEnding, genEnding] of REGULAR_GENITIVES[declension] ?? []) {
+    if (!nom.endsWith(nomEnding)) continue;
+    const stemLength = nom.length - nomEnding.length;
+    if (stemLength > 0 && gen === nom.slice(0, stemLength) + genEnding) {
+      // Solo si al leerla se recupera el mismo genitivo (vās, vāsis no es "-is")
+      const ending = genitive.normalize('NFC').slice(stemLength);
+      if (plain(expandGenitive(nominative, ending) ?? '') === gen) {
+        return `-${ending}`;
+      }
+    }
+  }
+
+  return genitive;
+}
+
+/**
+ * FORMAT DICTIONARY ENTRY
+ * 
+ * Devuelve la línea de diccionario de una palabra, con macrones si los tiene.
+ * 
+ * - Sustantivos: nominativo, genitivo y género ("rosa, -ae, f.")
+ * - Adjetivos: sus nominativos, abreviados si son regulares
+ *   ("bonus, -a, -um", "fortis, -e", "fēlīx, fēlīcis")
+ * 
+ * @param word - Cualquier sustantivo o adjetivo del vocabulario
+ * @returns La línea lista para mostrar
+ */
+export function formatDictionaryEntry(word: {
+  nominative: string;
+  genitive: string;
+  macronizedNominative?: string;
+  macronizedGenitive?: string;
+  declension: string;
+  gender?: string;
+  numberRestriction?: string;
+  partOfSpeech?: string;
+  feminine?: string;
+  neuter?: string;
+  macronizedFeminine?: string;
+  macronizedNeuter?: string;
+  terminations?: number;
+}): string {
+  const forms = getDisplayForms(word);
+  const nom = plain(forms.nominative);
+  const feminine = word.macronizedFeminine ?? word.feminine;
+  const neuter = word.macronizedNeuter ?? word.neuter;
+
+  if (word.partOfSpeech === 'adjective') {
+    // bonus, bona, bonum → "bonus, -a, -um"
+    if (word.terminations === 3 && feminine && neuter) {
+      const stem = nom.slice(0, -2);
+      if (nom.endsWith('us') && plain(feminine) === `${stem}a` && plain(neuter) === `${stem}um`) {
+        return `${forms.nominative}, -a, -um`;
+      }
+      return `${forms.nominative}, ${feminine}, ${neuter}`;
+    }
+    // fortis, forte → "fortis, -e"
+    if (word.terminations === 2 && neuter) {
+      if (nom.endsWith('is') && plain(neuter) === `${nom.slice(0, -2)}e`) {
+        return `${forms.nominative}, -e`;
+      }
+      return `${forms.nominative}, ${neuter}`;
+    }
+    // Una terminación: como un sustantivo de la 3ª, pero sin género
+    return `${forms.nominative}, ${abbreviateGenitive(forms.nominative, forms.genitive, '3rd')}`;
+  }
+
+  const parts = [forms.nominative, abbreviateGenitive(forms.nominative, forms.genitive, word.declension)];
+  const gender = GENDER_ABBREVIATIONS[word.gender as DictionaryGender];
+  if (gender) {
+    parts.push(word.numberRestriction === 'plural-only' ? `${gender} pl.` : gender);
+  }
+  return parts.join(', ');
+}
+
+/**
+ * Helper: Índice donde empieza la última vocal (o diptongo) de una palabra
+ * tenebrae → 6 ("ae"), corpus → 4 ("u")
+ */
+function lastVowelIndex(word: string): number {
+  const index = word.search(/[aeiouy][^aeiouy]*$/);
+  if (index > 0 && ['ae', 'oe', 'au'].includes(word.slice(index - 1, index + 1))) {
+    return index - 1;
+  }
+  return index;
+}
+
+/**
+ * GENITIVE FITS NOMINATIVE
+ * 
+ * Comprueba que la terminación del genitivo, tal como se escribió, es
+ * posible para ese nominativo: -a/-ae, -us/-ī, -um/-ī, -us/-ūs, -ēs/-eī...
+ * En la 3ª declinación, un genitivo con el tema escrito ("-oris",
+ * "corporis") vale para cualquier nominativo.
+ * 
+ * @param nominative - Nominativo (con o sin macrones)
+ * @param genitive - Genitivo completo ("rosae") o abreviado ("-ae")
+ * @returns false si no encajan; true si encajan o si la terminación no
+ *   es de ninguna declinación (eso es 'unknown-declension')
+ * 
+ * EJEMPLOS:
+ * - genitiveFitsNominative("rosa", "-ae") → true
+ * - genitiveFitsNominative("rosa", "-ī") → false
+ * - genitiveFitsNominative("rosa", "rosī") → false
+ * - genitiveFitsNominative("corpus", "-oris") → true
+ */
+export function genitiveFitsNominative(nominative: string, genitive: string): boolean {
+  const nom = plain(nominative.trim());
+  const written = genitive.trim();
+  const abbreviation = written.match(/^[-–—]\s*(.+)$/);
+  const gen = plain(abbreviation ? abbreviation[1] : written);
+
+  // "-eī" es de la 5ª solo con nominativo en -ēs (deus, deī es de la 2ª)
+  const match = GENITIVE_NOMINATIVES.find(([genEnding]) =>
+    gen.endsWith(genEnding) && (genEnding !== 'ei' || nom.endsWith('es'))
+  );
+  if (!match) return true;
+
+  const [genEnding, nominatives] = match;
+  if (THIRD_DECLENSION_ENDINGS.has(genEnding) && gen.length > genEnding.length) {
+    return true;
+  }
+  return nominatives.test(nom);
+}
+
+/**
+ * EXPAND GENITIVE
+ * 
+ * Completa un genitivo abreviado a partir del nominativo, como haría un
+ * lector de diccionario: la terminación sustituye a la última sílaba.
+ * 
+ * - Si empieza por vocal, sustituye desde la última vocal: corpus, -oris → corporis
+ * - Si empieza por consonante, desde esa consonante: pars, -rtis → partis
+ * - Casos especiales: puer, -ī → puerī; cōnsul, -is → cōnsulis (se añade)
+ * 
+ * @param nominative - Nominativo (con o sin macrones)
+ * @param ending - La terminación escrita, sin el guion ("ae", "ōris")
+ * @returns El genitivo completo en minúsculas, o null si no encaja
+ *   (tampoco se completa una terminación que no va con el nominativo)
+ * 
+ * EJEMPLOS:
+ * - expandGenitive("rosa", "ae") → "rosae"
+ * - expandGenitive("tempus", "oris") → "temporis"
+ * - expandGenitive("rēx", "gis") → null (no hay "g" en rēx)
+ * - expandGenitive("rosa", "ī") → null (-a no tiene genitivo en -ī)
+ */
+export function expandGenitive(nominative: string, ending: string): string | null {
+  const nomOriginal = nominative.normalize('NFC');
+  const endingOriginal = ending.normalize('NFC');
+  const nom = plain(nomOriginal);
+  const end = plain(endingOriginal);
+  if (!nom || !end) return null;
+  if (!genitiveFitsNominative(nomOriginal, `-${endingOriginal}`)) return null;
+
+  let stemLength: number;
+  if (end === 'i' && !/(us|um|os|on)$/.test(nom)) {
+    // puer, -ī / vir, -ī: el genitivo se forma sobre el nominativo entero
+    stemLength = nom.length;
+  } else if (end === 'is' && !/[aeiouy]s?$/.test(nom)) {
+    // cōnsul, -is / sōl, -is: igual
+    stemLength = nom.length;
+  } else if (/^[aeiouy]/.test(end)) {
+    stemLength = lastVowelIndex(nom);
+    // Solapamiento: moenia, -ium → moen + ium (no moeni + ium)
+    if (end.length > 1 && stemLength > 0 && nom[stemLength - 1] === end[0]) {
+      stemLength--;
+    }
+  } else {
+    stemLength = nom.lastIndexOf(end[0]);
+  }
+
+  if (stemLength <= 0) return null;
+  return (nomOriginal.slice(0, stemLength) + endingOriginal).toLowerCase();
+}
+
+/**
+ * Helper: Declinación (y si es solo plural) según la terminación del genitivo
+ * El nominativo solo hace falta para distinguir diēs, diēī (5ª) de deus, deī (2ª)
+ */
+function inferDeclension(
+  nominative: string,
+  genitive: string
+): { declension: DictionaryDeclension; plural: boolean } | null {
+  const nom = plain(nominative);
+  const gen = plain(genitive);
+
+  // Genitivos plurales (pluralia tantum): comprobar "-rum" antes que "-um"
+  if (gen.endsWith('arum')) return { declension: '1st', plural: true };
+  if (gen.endsWith('orum')) return { declension: '2nd', plural: true };
+  if (gen.endsWith('erum')) return { declension: '5th', plural: true };
+  if (gen.endsWith('uum')) return { declension: '4th', plural: true };
+  if (gen.endsWith('um')) return { declension: '3rd', plural: true };
+
+  if (gen.endsWith('ae')) return { declension: '1st', plural: false };
+  if (gen.endsWith('ei') && nom.endsWith('es')) return { declension: '5th', plural: false };
+  if (gen.endsWith('i')) return { declension: '2nd', plural: false };
+  if (gen.endsWith('us')) return { declension: '4th', plural: false };
+  if (gen.endsWith('is')) return { declension: '3rd', plural: false };
+
+  return null;
+}
+
+/**
+ * PARSE DICTIONARY ENTRY
+ * 
+ * Lee una línea de diccionario y la convierte en datos estructurados.
+ * Acepta el genitivo completo o abreviado, con o sin macrones, y el
+ * género como m., f., n., c. o m./f. (seguido de "pl." si es solo plural).
+ * 
+ * @param text - La línea escrita por el usuario
+ * @returns La entrada leída, o null y el motivo del error
+ * 
+ * EJEMPLOS:
+ * - "rosa, -ae, f." → { nominative: "rosa", genitive: "rosae", declension: "1st", gender: "feminine" }
+ * - "corpus, corporis, n." → { ..., declension: "3rd", gender: "neuter" }
+ * - "arma, -ōrum, n. pl." → { ..., numberRestriction: "plural-only" }
+ * - "rosa, -ae" → { entry: null, error: "missing-gender" }
+ * - "rosa, -ī, f." → { entry: null, error: "ending-mismatch" }
+ */
+export function parseDictionaryEntry(text: string): DictionaryEntryParseResult {
+  const parts = (text ?? '')
+    .normalize('NFC')
+    .split(',')
+    .map(part => part.trim())
+    .filter(part => part !== '');
+
+  if (parts.length === 0) return { entry: null, error: 'empty' };
+  if (parts.length === 1) return { entry: null, error: 'missing-genitive' };
+  if (parts.length === 2) return { entry: null, error: 'missing-gender' };
+
+  const [nominative, writtenGenitive, ...rest] = parts;
+
+  // Genitivo abreviado ("-ae", también con raya: "–ae") o completo.
+  // Una abreviatura solo se completa si va con el nominativo: "rosa, -ī"
+  // es un error, no "rosai" de la 2ª
+  const abbreviation = writtenGenitive.match(/^[-–—]\s*(.+)$/);
+  if (abbreviation && !genitiveFitsNominative(nominative, writtenGenitive)) {
+    return { entry: null, error: 'ending-mismatch' };
+  }
+  const genitive = abbreviation
+    ? expandGenitive(nominative, abbreviation[1])
+    : writtenGenitive.toLowerCase();
+  if (!genitive) return { entry: null, error: 'invalid-genitive' };
+
+  // Género, con "pl." opcional al final ("n. pl.")
+  let genderText = plain(rest.join(' '));
+  const pluralMark = /\bpl\.?$/.test(genderText);
+  if (pluralMark) {
+    genderText = genderText.replace(/\bpl\.?$/, '');
+  }
+  const gender = GENDER_VALUES[genderText.replace(/[\s.]/g, '')];
+  if (!gender) return { entry: null, error: 'invalid-gender' };
+
+  const inferred = inferDeclension(nominative, genitive);
+  if (!inferred) return { entry: null, error: 'unknown-declension' };
+
+  const entry: DictionaryEntry = {
+    nominative,
+    genitive,
+    declension: inferred.declension,
+    gender,
+  };
+  if (inferred.plural || pluralMark) {
+    entry.numberRestriction = 'plural-only';
+  }
+
+  return { entry };
+}
+
+// Exportar todas las funciones como default también
+export default {
+  GENDER_ABBREVIATIONS,
+  abbreviateGenitive,
+  formatDictionaryEntry,
+  genitiveFitsNominative,
+  expandGenitive,
+  parseDictionaryEntry
+};
@@ -8,6 +8,12 @@
 // Exportar utilidades de strings
 export * from './stringUtils';
 
+// Exportar utilidades de macrones (cantidad vocálica)
+export * from './macronUtils';
+
+// Exportar el enunciado de diccionario (rosa, -ae, f.)
+export * from './dictionaryEntry';
+
 // Aquí se pueden agregar más utilidades en el futuro
 // export * from './dateUtils';
 // export * from './numberUtils';
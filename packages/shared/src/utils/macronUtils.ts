@@ -0,0 +1,160 @@
+/**
+ * MACRON UTILITIES - CANTIDAD VOCÁLICA
+ * 
+ * En latín las vocales pueden ser largas o breves, y eso cambia la palabra:
+ * - mālum (manzana) / malum (mal)
+ * - rosa (nominativo) / rosā (ablativo)
+ * 
+ * Los diccionarios marcan las vocales largas con un macrón: ā ē ī ō ū ȳ.
+ * 
+ * IMPORTANTE: La búsqueda sigue ignorando los macrones (normalizeForSearch
+ * los elimina). Estas funciones son para MOSTRARLOS y para la corrección
+ * estricta, donde sí importan.
+ */
+
+/**
+ * VOCALES CON MACRÓN
+ * Útiles para botones de inserción (los teclados normales no las tienen)
+ */
+export const MACRON_VOWELS = ['ā', 'ē', 'ī', 'ō', 'ū', 'ȳ'] as const;
+
+// El macrón como marca combinable (U+0304), tras descomponer con NFD
+const COMBINING_MACRON = /\u0304/g;
+
+/**
+ * HAS MACRONS
+ * 
+ * @param str - Texto a revisar
+ * @returns true si el texto tiene al menos una vocal con macrón
+ * 
+ * EJEMPLOS:
+ * - hasMacrons("nātūra") → true
+ * - hasMacrons("rosa") → false
+ */
+export function hasMacrons(str: string): boolean {
+  if (!str) return false;
+  return /\u0304/.test(str.normalize('NFD'));
+}
+
+/**
+ * STRIP MACRONS
+ * 
+ * Elimina SOLO los macrones, conservando mayúsculas y cualquier otro signo.
+ * 
+ * @param str - Texto con macrones
+ * @returns El mismo texto sin macrones
+ * 
+ * EJEMPLOS:
+ * - stripMacrons("Nātūra") → "Natura"
+ * - stripMacrons("rēgīnae") → "reginae"
+ */
+export function stripMacrons(str: string): string {
+  if (!str) return '';
+  return str.normalize('NFD').replace(COMBINING_MACRON, '').normalize('NFC');
+}
+
+/**
+ * COMPARE WITH MACRONS (CORRECCIÓN ESTRICTA)
+ * 
+ * Como compareStrings, ignora mayúsculas, espacios extra y acentos,
+ * pero los macrones SÍ cuentan: "natura" no es igual a "nātūra".
+ * 
+ * @param answer - Lo que escribió el estudiante
+ * @param expected - La forma correcta (con macrones)
+ * @returns true si coinciden incluyendo la cantidad vocálica
+ * 
+ * EJEMPLOS:
+ * - compareWithMacrons("Nātūra", "nātūra") → true
+ * - compareWithMacrons("natura", "nātūra") → false
+ * - compareWithMacrons("nātura", "nātūra") → false
+ */
+export function compareWithMacrons(answer: string, expected: string): boolean {
+  const normalize = (str: string) =>
+    (str || '')
+      .toLowerCase()
+      .normalize('NFD')
+      // Eliminar todas las marcas diacríticas EXCEPTO el macrón (U+0304)
+      .replace(/[\u0300-\u0303\u0305-\u036f]/g, '')
+      .normalize('NFC')
+      .trim();
+
+  return normalize(answer) === normalize(expected);
+}
+
+/**
+ * GET DISPLAY FORMS
+ * 
+ * Devuelve el nominativo y genitivo que se deben MOSTRAR: los
+ * macronizados si la palabra los tiene, si no los normales.
+ * 
+ * @param word - Cualquier palabra con nominativo y genitivo
+ * @returns Las formas a mostrar
+ * 
+ * EJEMPLO:
+ * - { nominative: "Natura", macronizedNominative: "Nātūra", ... } → "Nātūra"
+ */
+export function getDisplayForms(word: {
+  nominative: string;
+  genitive: string;
+  macronizedNominative?: string;
+  macronizedGenitive?: string;
+}): { nominative: string; genitive: string } {
+  return {
+    nominative: word.macronizedNominative ?? word.nominative,
+    genitive: word.macronizedGenitive ?? word.genitive,
+  };
+}
+
+/**
+ * GET ENUNCIATION
+ * 
+ * Devuelve el enunciado de una palabra tal como aparece en el diccionario,
+ * usando las formas con macrones si las tiene.
+ * 
+ * - Sustantivos: nominativo y genitivo ("rosa, rosae")
+ * - Adjetivos de tres terminaciones: los tres nominativos ("bonus, bona, bonum")
+ * - Adjetivos de dos terminaciones: masculino/femenino y neutro ("fortis, forte")
+ * - Adjetivos de una terminación: nominativo y genitivo ("fēlīx, fēlīcis")
+ * 
+ * El femenino y el neutro también se muestran con macrones si los tienen.
+ * 
+ * @param word - Cualquier palabra del vocabulario
+ * @returns El enunciado listo para mostrar
+ */
+export function getEnunciation(word: {
+  nominative: string;
+  genitive: string;
+  macronizedNominative?: string;
+  macronizedGenitive?: string;
+  partOfSpeech?: string;
+  feminine?: string;
+  neuter?: string;
+  macronizedFeminine?: string;
+  macronizedNeuter?: string;
+  terminations?: number;
+}): string {
+  const forms = getDisplayForms(word);
+  const feminine = word.macronizedFeminine ?? word.feminine;
+  const neuter = word.macronizedNeuter ?? word.neuter;
+
+  if (word.partOfSpeech === 'adjective') {
+    if (word.terminations === 3 && feminine && neuter) {
+      return `${forms.nominative}, ${feminine}, ${neuter}`;
+    }
+    if (word.terminations === 2 && neuter) {
+      return `${forms.nominative}, ${neuter}`;
+    }
+  }
+
+  return `${forms.nominative}, ${forms.genitive}`;
+}
+
+// Exportar todas las funciones como default también
+export default {
+  MACRON_VOWELS,
+  hasMacrons,
+  stripMacrons,
+  compareWithMacrons,
+  getDisplayForms,
+  getEnunciation
+};
@@ -109,12 +109,222 @@ export function stringStartsWith(str: string, prefix: string): boolean {
   return normalizeForSearch(str).startsWith(normalizeForSearch(prefix));
 }
 
+/**
+ * LEVENSHTEIN DISTANCE (DISTANCIA DE EDICIÓN)
+ * 
+ * Cuenta cuántas operaciones de un solo carácter hacen falta para
+ * convertir un string en otro:
+ * - Insertar un carácter    (agricla → agricola)
+ * - Eliminar un carácter    (amistaad → amistad)
+ * - Sustituir un carácter   (rosa → rota)
+ * - Intercambiar dos vecinos (amsitad → amistad) - variante de Damerau
+ * 
+ * Usa programación dinámica: la celda [i][j] guarda la distancia
+ * entre los primeros i caracteres de a y los primeros j de b.
+ * 
+ * IMPORTANTE: Compara los strings tal cual; normalízalos antes si
+ * quieres ignorar mayúsculas y acentos.
+ * 
+ * @param a - Primer string
+ * @param b - Segundo string
+ * @returns Número mínimo de ediciones
+ * 
+ * EJEMPLOS:
+ * - levenshteinDistance("agricla", "agricola") → 1
+ * - levenshteinDistance("amistd", "amistad") → 1
+ * - levenshteinDistance("rosa", "rosa") → 0
+ */
+export function levenshteinDistance(a: string, b: string): number {
+  if (a === b) return 0;
+  if (a.length === 0) return b.length;
+  if (b.length === 0) return a.length;
+  
+  // Matriz (a.length + 1) x (b.length + 1)
+  // La primera fila y columna representan convertir desde/hacia ""
+  const matrix: number[][] = [];
+  for (let i = 0; i <= a.length; i++) {
+    matrix[i] = [i];
+  }
+  for (let j = 0; j <= b.length; j++) {
+    matrix[0][j] = j;
+  }
+  
+  for (let i = 1; i <= a.length; i++) {
+    for (let j = 1; j <= b.length; j++) {
+      const cost = a[i - 1] === b[j - 1] ? 0 : 1;
+      
+      matrix[i][j] = Math.min(
+        matrix[i - 1][j] + 1,        // Eliminar
+        matrix[i][j - 1] + 1,        // Insertar
+        matrix[i - 1][j - 1] + cost  // Sustituir (o nada si son iguales)
+      );
+      
+      // Intercambio de dos caracteres vecinos (ab → ba)
+      if (i > 1 && j > 1 && a[i - 1] === b[j - 2] && a[i - 2] === b[j - 1]) {
+        matrix[i][j] = Math.min(matrix[i][j], matrix[i - 2][j - 2] + 1);
+      }
+    }
+  }
+  
+  return matrix[a.length][b.length];
+}
+
+/**
+ * MAX TYPOS (ERRORES PERMITIDOS)
+ * 
+ * Cuántos errores de escritura toleramos según la longitud del término.
+ * Los términos cortos necesitan ser más exactos: con "ro" y un error
+ * permitido coincidiría casi cualquier palabra.
+ * 
+ * @param termLength - Longitud del término de búsqueda (normalizado)
+ * @returns Número máximo de ediciones permitidas
+ * 
+ * REGLAS:
+ * - Menos de 4 caracteres: 0 (sin tolerancia)
+ * - 4 a 6 caracteres: 1
+ * - 7 o más caracteres: 2
+ */
+export function getMaxTypos(termLength: number): number {
+  if (termLength < 4) return 0;
+  if (termLength <= 6) return 1;
+  return 2;
+}
+
+/**
+ * TOKENIZE FOR SEARCH
+ * 
+ * Separa un texto YA NORMALIZADO en sus palabras (letras y números),
+ * descartando espacios y signos de puntuación.
+ * 
+ * @param normalizedText - Texto normalizado con normalizeForSearch
+ * @returns Lista de palabras
+ * 
+ * EJEMPLOS:
+ * - tokenizeForSearch("ola (del mar)") → ["ola", "del", "mar"]
+ */
+export function tokenizeForSearch(normalizedText: string): string[] {
+  return normalizedText.split(/[^a-z0-9]+/).filter(word => word.length > 0);
+}
+
+/**
+ * Helper: Menor distancia de edición entre el término y el objetivo
+ * 
+ * Compara el término con el objetivo completo, con cada una de sus
+ * palabras, y con el inicio de cada palabra (para búsquedas a medio
+ * escribir: "agricl" contra "agricola").
+ * 
+ * Si la diferencia de longitud ya supera maxDistance, la distancia
+ * también la supera, así que no hace falta calcularla.
+ * 
+ * @param normalizedSearch - Término ya normalizado
+ * @param normalizedTarget - Objetivo ya normalizado
+ * @param targetTokens - Palabras del objetivo
+ * @param maxDistance - Distancia máxima que nos interesa
+ * @param cache - Distancias ya calculadas para este término
+ * @returns La menor distancia encontrada (Infinity si ninguna llega a maxDistance)
+ */
+function bestEditDistance(
+  normalizedSearch: string,
+  normalizedTarget: string,
+  targetTokens: string[],
+  maxDistance: number,
+  cache: Map<string, number>
+): number {
+  const distanceTo = (candidate: string): number => {
+    if (Math.abs(candidate.length - normalizedSearch.length) > maxDistance) {
+      return Infinity;
+    }
+    
+    let distance = cache.get(candidate);
+    if (distance === undefined) {
+      distance = levenshteinDistance(normalizedSearch, candidate);
+      cache.set(candidate, distance);
+    }
+    return distance;
+  };
+  
+  let best = Infinity;
+  for (const candidate of [normalizedTarget, ...targetTokens]) {
+    best = Math.min(best, distanceTo(candidate));
+    
+    // Comparar también con el inicio de la palabra
+    if (candidate.length > normalizedSearch.length) {
+      best = Math.min(best, distanceTo(candidate.slice(0, normalizedSearch.length)));
+    }
+  }
+  
+  return best;
+}
+
+/**
+ * FUZZY MATCHER
+ * 
+ * Tipo de la función que devuelve createFuzzyMatcher: recibe un objetivo
+ * YA NORMALIZADO (y opcionalmente sus palabras) y devuelve su puntaje.
+ */
+export type FuzzyMatcher = (normalizedTarget: string, targetTokens?: string[]) => number;
+
+/**
+ * CREATE FUZZY MATCHER
+ * 
+ * Prepara un término de búsqueda para compararlo con muchos objetivos.
+ * Da exactamente los mismos puntajes que fuzzySearchScore, pero:
+ * - Normaliza el término una sola vez
+ * - Recuerda las distancias ya calculadas (muchas palabras como "de"
+ *   o "la" se repiten en cientos de traducciones)
+ * 
+ * Útil junto a un índice de búsqueda con los textos ya normalizados.
+ * 
+ * @param searchTerm - Término de búsqueda
+ * @returns Función que puntúa un objetivo normalizado (de 0 a 1)
+ * 
+ * EJEMPLO:
+ * const score = createFuzzyMatcher("amistd");
+ * score("amistad") → 0.34
+ */
+export function createFuzzyMatcher(searchTerm: string): FuzzyMatcher {
+  const normalizedSearch = normalizeForSearch(searchTerm);
+  const maxTypos = getMaxTypos(normalizedSearch.length);
+  const cache = new Map<string, number>();
+  
+  return (normalizedTarget, targetTokens) => {
+    if (!normalizedSearch || !normalizedTarget) return 0;
+    
+    // Coincidencia exacta
+    if (normalizedSearch === normalizedTarget) return 1.0;
+    
+    // Empieza con el término
+    if (normalizedTarget.startsWith(normalizedSearch)) return 0.8;
+    
+    // Contiene el término
+    if (normalizedTarget.includes(normalizedSearch)) return 0.5;
+    
+    // Tolerancia a errores de escritura
+    if (maxTypos === 0) return 0;
+    
+    const distance = bestEditDistance(
+      normalizedSearch,
+      normalizedTarget,
+      targetTokens ?? tokenizeForSearch(normalizedTarget),
+      maxTypos,
+      cache
+    );
+    if (distance > maxTypos) return 0;
+    
+    // Menos errores = puntaje más alto (entre 0 y 0.4)
+    return 0.4 * (1 - distance / normalizedSearch.length);
+  };
+}
+
 /**
  * FUZZY SEARCH SCORE
  * 
  * Calcula un puntaje de similitud entre dos strings.
  * Útil para ordenar resultados de búsqueda por relevancia.
  * 
+ * Tolera errores de escritura usando la distancia de edición:
+ * "agricla" encuentra "Agricola" y "amistd" encuentra "Amistad".
+ * 
  * @param searchTerm - Término de búsqueda
  * @param target - String objetivo
  * @returns Puntaje de 0 a 1 (1 = coincidencia perfecta)
@@ -123,23 +333,61 @@ export function stringStartsWith(str: string, prefix: string): boolean {
  * 1. Coincidencia exacta = 1.0
  * 2. Empieza con el término = 0.8
  * 3. Contiene el término = 0.5
- * 4. No contiene = 0
+ * 4. Parecido con errores de escritura = hasta 0.4
+ *    (siempre menos que una coincidencia real)
+ * 5. No se parece = 0
  */
 export function fuzzySearchScore(searchTerm: string, target: string): number {
-  const normalizedSearch = normalizeForSearch(searchTerm);
-  const normalizedTarget = normalizeForSearch(target);
-  
-  // Coincidencia exacta
-  if (normalizedSearch === normalizedTarget) return 1.0;
+  return createFuzzyMatcher(searchTerm)(normalizeForSearch(target));
+}
+
+/**
+ * Helper: Buscar el fragmento del texto que más se parece al término
+ * 
+ * Prueba todos los fragmentos del texto con una longitud parecida a la
+ * del término (± los errores permitidos) y se queda con el de menor
+ * distancia de edición. En empate, gana el de longitud más cercana.
+ * 
+ * @param normalizedText - Texto ya normalizado
+ * @param normalizedSearch - Término ya normalizado
+ * @returns Posición del fragmento, o null si ninguno es suficientemente parecido
+ */
+function findFuzzyMatch(
+  normalizedText: string,
+  normalizedSearch: string
+): { start: number; end: number } | null {
+  const maxTypos = getMaxTypos(normalizedSearch.length);
+  if (maxTypos === 0) return null;
   
-  // Empieza con el término
-  if (normalizedTarget.startsWith(normalizedSearch)) return 0.8;
+  let best: { start: number; end: number; distance: number; wholeWord: boolean } | null = null;
+  const minLength = Math.max(1, normalizedSearch.length - maxTypos);
+  const maxLength = normalizedSearch.length + maxTypos;
   
-  // Contiene el término
-  if (normalizedTarget.includes(normalizedSearch)) return 0.5;
+  for (let start = 0; start < normalizedText.length; start++) {
+    for (let length = minLength; length <= maxLength; length++) {
+      if (start + length > normalizedText.length) break;
+      
+      const fragment = normalizedText.substring(start, start + length);
+      const distance = levenshteinDistance(normalizedSearch, fragment);
+      // A igual distancia, preferimos fragmentos que terminan donde termina
+      // la palabra: "amistd" resalta "amistad" y no "amista"
+      const end = start + length;
+      const wholeWord = end === normalizedText.length || !/[a-z0-9]/.test(normalizedText[end]);
+      
+      const isBetter = !best ||
+        distance < best.distance ||
+        (distance === best.distance && wholeWord && !best.wholeWord) ||
+        (distance === best.distance && wholeWord === best.wholeWord &&
+          Math.abs(length - normalizedSearch.length) <
+          Math.abs(best.end - best.start - normalizedSearch.length));
+      
+      if (distance <= maxTypos && isBetter) {
+        best = { start, end, distance, wholeWord };
+      }
+    }
+  }
   
-  // No contiene
-  return 0;
+  return best ? { start: best.start, end: best.end } : null;
 }
 
 /**
@@ -148,6 +396,9 @@ export function fuzzySearchScore(searchTerm: string, target: string): number {
  * Resalta un término de búsqueda en un texto, preservando el caso original.
  * Retorna un array de partes para renderizar con diferentes estilos.
  * 
+ * Si el término no aparece tal cual (por un error de escritura),
+ * resalta el fragmento más parecido: "agricla" resalta "Agricola".
+ * 
  * @param text - Texto donde resaltar
  * @param searchTerm - Término a resaltar
  * @returns Array de objetos con texto y si está resaltado
@@ -175,6 +426,20 @@ export function highlightSearchTerm(
   let lastIndex = 0;
   let index = normalizedText.indexOf(normalizedSearch);
   
+  // Sin coincidencia exacta: resaltar el fragmento más parecido
+  if (index === -1) {
+    const fuzzyMatch = findFuzzyMatch(normalizedText, normalizedSearch);
+    if (!fuzzyMatch) {
+      return [{ text, highlighted: false }];
+    }
+    
+    return [
+      { text: text.substring(0, fuzzyMatch.start), highlighted: false },
+      { text: text.substring(fuzzyMatch.start, fuzzyMatch.end), highlighted: true },
+      { text: text.substring(fuzzyMatch.end), highlighted: false }
+    ].filter(part => part.text.length > 0);
+  }
+  
   while (index !== -1) {
     // Agregar texto antes del match
     if (index > lastIndex) {
@@ -211,6 +476,10 @@ export default {
   compareStrings,
   stringIncludes,
   stringStartsWith,
+  levenshteinDistance,
+  getMaxTypos,
+  tokenizeForSearch,
+  createFuzzyMatcher,
   fuzzySearchScore,
   highlightSearchTerm
 };
\ No newline at end of file
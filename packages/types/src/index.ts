@@ -49,16 +49,49 @@ export interface LatinWord {
   exampleSentence?: string;  // Optional AI-generated example
 }
 
+/**
+ * PartOfSpeech - What kind of word a vocabulary entry is
+ * 
+ * Used as the "discriminator" of VocabularyEntry (see below): checking
+ * entry.partOfSpeech tells TypeScript which interface the entry has.
+ */
+export type PartOfSpeech = 'noun' | 'adjective';
+
+/**
+ * GlossLanguage - A language the translations ("glosses") can be in
+ * 
+ * Same codes as User.preferredLanguage. Spanish is the language every
+ * word has; the others are optional.
+ */
+export type GlossLanguage = 'es' | 'en';
+
+/**
+ * GlossMap - The meanings of a word, per language
+ * 
+ * The first meaning of each list is the main translation, like
+ * spanishTranslation; the rest are like additionalMeanings.
+ * 
+ * EXAMPLE:
+ * { es: ['Agricultor'], en: ['Farmer'] }
+ */
+export type GlossMap = Partial<Record<GlossLanguage, string[]>>;
+
 /**
  * NormalizedLatinWord Interface
  * 
  * This is the version we'll use after normalizing the data from vocabulary.json
  * It has consistent types and additional fields we need
+ * 
+ * Every NormalizedLatinWord is a NOUN. Adjectives have their own
+ * interface (LatinAdjective), because they have no fixed gender.
  */
 export interface NormalizedLatinWord {
   // Unique identifier for each word (we'll generate this)
   id: string;
   
+  // Optional because the JSON doesn't list it: a missing value means 'noun'
+  partOfSpeech?: 'noun';
+  
   // The nominative case
   nominative: string;
   
@@ -78,8 +111,499 @@ export interface NormalizedLatinWord {
   // Additional meanings
   additionalMeanings: string[];
   
+  // Optional: translations per language (see GlossMap)
+  // The Spanish ones above are copied in as 'es' when the word is loaded,
+  // so code that shows a translation only needs to read this map
+  glosses?: GlossMap;
+  
   // Optional AI-generated example sentence
   exampleSentence?: string;
+  
+  // Optional: nominative and genitive with vowel length marked (Nātūra, nātūrae)
+  // nominative and genitive above never have macrons, so search and IDs
+  // don't depend on them; these are only for display and strict grading
+  macronizedNominative?: string;
+  macronizedGenitive?: string;
+  
+  // Optional: the noun only exists in the plural (arma) or the singular (vulgus)
+  numberRestriction?: NounNumberRestriction;
+  
+  // Optional: corrected forms for irregular nouns (domus, deus, vis...)
+  // Applied on top of the regular declension rules
+  paradigmOverride?: ParadigmOverride;  
+  // Optional: semantic categories or sources ("familia", "Wheelock cap. 3")
+  // Used by the tag filter, themed sessions and multiple choice distractors
+  tags?: string[];
+}
+
+/**
+ * AdjectiveDeclension - The two adjective classes
+ * 
+ * - '1st-2nd': bonus, bona, bonum (masculine and neuter like dominus and
+ *   bellum, feminine like rosa)
+ * - '3rd': fortis, forte (like the 3rd declension i-stem nouns)
+ */
+export type AdjectiveDeclension = '1st-2nd' | '3rd';
+
+/**
+ * AdjectiveTerminations - How many nominative forms the dictionary lists
+ * 
+ * - 3: ācer, ācris, ācre / bonus, bona, bonum (one per gender)
+ * - 2: fortis, forte (masculine and feminine share a form)
+ * - 1: fēlīx, fēlīcis (one form for every gender, plus the genitive)
+ */
+export type AdjectiveTerminations = 1 | 2 | 3;
+
+/**
+ * LatinAdjective Interface
+ * 
+ * An adjective agrees with its noun in gender, number and case, so it
+ * has a form for EACH gender instead of a gender of its own.
+ * 
+ * The dictionary forms follow the usual order:
+ *   bonus, bona, bonum  → nominative, feminine, neuter
+ *   fortis, forte       → nominative, neuter
+ *   fēlīx, fēlīcis      → nominative, genitive
+ */
+export interface LatinAdjective {
+  id: string;
+  
+  // The discriminator: always 'adjective' (required, unlike nouns)
+  partOfSpeech: 'adjective';
+  
+  // Masculine nominative singular (bonus, fortis, fēlīx)
+  nominative: string;
+  
+  // Genitive singular (bonī, fortis, fēlīcis), the stem comes from here
+  genitive: string;
+  
+  // Feminine and neuter nominative singular, when they differ from the masculine
+  feminine?: string;
+  neuter?: string;
+  
+  declension: AdjectiveDeclension;
+  terminations: AdjectiveTerminations;
+  
+  // Same meaning fields as nouns
+  spanishTranslation: string;
+  additionalMeanings: string[];
+  glosses?: GlossMap;
+  exampleSentence?: string;
+  
+  // Optional: dictionary forms with vowel length marked (see NormalizedLatinWord)
+  macronizedNominative?: string;
+  macronizedGenitive?: string;  
+  // Same for the feminine and neuter above (antīqua, antīquum), which
+  // never have macrons either: the paradigm is built from them
+  macronizedFeminine?: string;
+  macronizedNeuter?: string;
+  // Optional: semantic categories (see NormalizedLatinWord)
+  tags?: string[];
+}
+
+/**
+ * VocabularyEntry - Any word in the vocabulary
+ * 
+ * A "discriminated union": TypeScript narrows the type when we check
+ * the partOfSpeech field, a bit like instanceof in Java:
+ * 
+ *   if (entry.partOfSpeech === 'adjective') {
+ *     entry.terminations  // OK, entry is a LatinAdjective here
+ *   } else {
+ *     entry.gender        // OK, entry is a NormalizedLatinWord (noun) here
+ *   }
+ * 
+ * Verbs (LatinVerb) are not part of this union: they have principal
+ * parts instead of a nominative and genitive, so they are kept in a
+ * list of their own (VocabularyService.getVerbs). The same goes for
+ * pronouns (LatinPronoun), whose tables are stored, not generated.
+ */
+export type VocabularyEntry = NormalizedLatinWord | LatinAdjective;
+
+/**
+ * Morphology Types
+ * 
+ * Latin nouns change their ending depending on their role in the sentence.
+ * These types describe a full "paradigm" - every form a noun can take.
+ */
+
+/**
+ * LatinCase - The grammatical cases of Latin nouns
+ * 
+ * The first six are the ones every student memorizes.
+ * 'locative' only exists for a handful of nouns (domus, rus, humus...)
+ * and for names of cities and small islands.
+ */
+export type LatinCase =
+  | 'nominative'   // Subject (rosa)
+  | 'genitive'     // Possession - "of" (rosae)
+  | 'dative'       // Indirect object - "to/for" (rosae)
+  | 'accusative'   // Direct object (rosam)
+  | 'ablative'     // "by/with/from" (rosā)
+  | 'vocative'     // Direct address (O rosa!)
+  | 'locative';    // Place where (domi = at home)
+
+/**
+ * GrammaticalNumber - Singular or plural
+ */
+export type GrammaticalNumber = 'singular' | 'plural';
+
+/**
+ * CaseForms Interface
+ * 
+ * All the forms of one number (singular or plural).
+ * locative is optional because most nouns don't have one.
+ */
+export interface CaseForms {
+  nominative: string;
+  genitive: string;
+  dative: string;
+  accusative: string;
+  ablative: string;
+  vocative: string;
+  locative?: string;
+}
+
+/**
+ * NounParadigm Interface
+ * 
+ * The complete declension table of a noun: singular and plural forms.
+ * A number is missing when the noun doesn't have it
+ * (no singular for "arma", no plural for "Iuppiter").
+ */
+export interface NounParadigm {
+  singular?: CaseForms;
+  plural?: CaseForms;
+}
+
+/**
+ * AdjectiveGender - The three genders an adjective is declined in
+ */
+export type AdjectiveGender = 'masculine' | 'feminine' | 'neuter';
+
+/**
+ * AdjectiveParadigm - The full declension table of an adjective
+ * 
+ * One noun-like table per gender: paradigm.feminine.plural.accusative
+ * is "bonas". Record<K, V> is like Java's Map<K, V> with fixed keys.
+ */
+export type AdjectiveParadigm = Record<AdjectiveGender, NounParadigm>;
+
+/**
+ * NounNumberRestriction - Nouns that only exist in one number
+ * 
+ * - 'plural-only': pluralia tantum (arma, castra, tenebrae)
+ * - 'singular-only': singularia tantum (vulgus, Iuppiter)
+ */
+export type NounNumberRestriction = 'plural-only' | 'singular-only';
+
+/**
+ * ParadigmOverride Interface
+ * 
+ * Corrections for irregular nouns. Partial<T> makes every property
+ * optional, so an override only lists the cells that are irregular:
+ * deus → { singular: { vocative: 'deus' }, plural: { nominative: 'di', ... } }
+ * 
+ * With replace = true the override is the whole table (vis, Iuppiter)
+ * and the regular rules are not used at all.
+ */
+export interface ParadigmOverride {
+  singular?: Partial<CaseForms>;
+  plural?: Partial<CaseForms>;
+  replace?: boolean;
+}
+
+/**
+ * NounLemma - The minimum information needed to decline a noun
+ * 
+ * Pick<T, K> is a TypeScript utility type that creates a new type
+ * with only some properties of T (like a "view" of the interface).
+ * The dictionary entry (nominative + genitive + declension + gender)
+ * is all a student needs to produce every other form - plus the
+ * optional exception data for irregular nouns.
+ */
+export type NounLemma = Pick<
+  NormalizedLatinWord,
+  'nominative' | 'genitive' | 'declension' | 'gender' | 'numberRestriction' | 'paradigmOverride'
+>;
+
+/**
+ * AdjectiveLemma - The minimum information needed to decline an adjective
+ * 
+ * The dictionary entry: bonus, bona, bonum / fortis, forte / fēlīx, fēlīcis
+ */
+export type AdjectiveLemma = Pick<
+  LatinAdjective,
+  'nominative' | 'genitive' | 'feminine' | 'neuter' | 'declension' | 'terminations'
+>;
+
+/**
+ * FormAnalysis Interface - One possible reading of an inflected form
+ * 
+ * Many Latin forms are ambiguous: "rosae" can be genitive singular,
+ * dative singular or nominative plural. Each reading is one FormAnalysis.
+ */
+export interface FormAnalysis {
+  // The word this form belongs to
+  wordId: string;
+  
+  // Dictionary form of that word (to show "rosae → Rosa")
+  nominative: string;
+  
+  // The form as generated (lowercase, may contain macrons)
+  form: string;
+  
+  // Grammatical number and case of this reading
+  number: GrammaticalNumber;
+  case: LatinCase;
+  
+  // Only for adjectives: the gender of this reading (bonae → feminine)
+  gender?: AdjectiveGender;
+}
+
+/**
+ * WordSearchResult Interface - One result of a vocabulary search
+ * 
+ * Besides the word itself, it tells the UI WHY the word matched:
+ * if the user typed an inflected form ("rosarum"), matchedForms lists
+ * the readings of that form (genitive plural of rosa).
+ */
+export interface WordSearchResult {
+  // The word found (a noun or an adjective)
+  word: VocabularyEntry;
+  
+  // Relevance score (higher = better match)
+  score: number;
+  
+  // Readings of the search text as an inflected form of this word
+  // Empty when the word matched by nominative, genitive or translation
+  matchedForms: FormAnalysis[];
+}
+
+/**
+ * AgreementFeature - The three things an adjective agrees in
+ */
+export type AgreementFeature = 'gender' | 'number' | 'case';
+
+/**
+ * AgreementTarget Interface - What the adjective has to agree with
+ * 
+ * One reading of the noun: "bellum" is neuter, singular, nominative
+ * (or accusative - an ambiguous noun form gives one target per reading).
+ */
+export interface AgreementTarget {
+  // The noun's gender ('common' nouns accept masculine or feminine adjectives)
+  gender: NormalizedLatinWord['gender'];
+  number: GrammaticalNumber;
+  case: LatinCase;
+}
+
+/**
+ * AgreementReading Interface - One reading of a form of the adjective
+ * 
+ * "magnī" is masculine genitive singular, neuter genitive singular
+ * AND masculine nominative plural.
+ */
+export interface AgreementReading {
+  gender: AdjectiveGender;
+  number: GrammaticalNumber;
+  case: LatinCase;
+}
+
+/**
+ * AgreementCheck Interface - The result of grading an agreement answer
+ */
+export interface AgreementCheck {
+  // true if the answer agrees with at least one of the targets
+  correct: boolean;
+
+  // Every correct form (lowercase, without macrons)
+  expectedForms: string[];
+
+  // Every reading of the answer as a form of the adjective
+  // Empty when the answer is not a form of the adjective at all
+  answerReadings: AgreementReading[];
+
+  // For a wrong answer that IS a form of the adjective: which features
+  // don't agree, comparing the closest reading with the closest target
+  mismatches: AgreementFeature[];
+
+  // The reading and target that mismatches compares (undefined when correct
+  // or when the answer isn't a form of the adjective)
+  closestReading?: AgreementReading;
+  closestTarget?: AgreementTarget;
+}
+
+/**
+ * Verb Types
+ * 
+ * Verbs are not declined but CONJUGATED: they change for person,
+ * number, tense, mood and voice. The app covers the indicative active.
+ */
+
+/**
+ * VerbConjugation - The four conjugations (plus the 3rd -iō verbs)
+ * 
+ * Recognized by the infinitive:
+ * - '1st': -āre (amō, amāre)
+ * - '2nd': -ēre (moneō, monēre)
+ * - '3rd': -ere (regō, regere)
+ * - '3rd-io': -ere, but -iō in the present (capiō, capere)
+ * - '4th': -īre (audiō, audīre)
+ */
+export type VerbConjugation = '1st' | '2nd' | '3rd' | '3rd-io' | '4th';
+
+/**
+ * LatinVerb Interface
+ * 
+ * A verb is learned by its four principal parts, as printed in the
+ * dictionary: amō, amāre, amāvī, amātum.
+ * 
+ * Unlike nouns, the principal parts are stored WITH macrons (the
+ * conjugation engine removes them when it builds the forms).
+ */
+export interface LatinVerb {
+  id: string;
+  
+  // The discriminator: always 'verb'
+  partOfSpeech: 'verb';
+  
+  // 1st person singular present (amō) - the dictionary headword
+  present: string;
+  
+  // Present infinitive (amāre) - tells the conjugation
+  infinitive: string;
+  
+  // 1st person singular perfect (amāvī) - the perfect stem comes from here
+  perfect: string;
+  
+  // Supine (amātum) - optional, some verbs have none (timeō, timēre, timuī)
+  supine?: string;
+  
+  conjugation: VerbConjugation;
+  
+  // Same meaning fields as nouns
+  spanishTranslation: string;
+  additionalMeanings: string[];
+  glosses?: GlossMap;
+  exampleSentence?: string;
+}
+
+/**
+ * VerbLemma - The minimum information needed to conjugate a verb
+ */
+export type VerbLemma = Pick<LatinVerb, 'present' | 'infinitive' | 'perfect' | 'supine' | 'conjugation'>;
+
+/**
+ * VerbTense - The six tenses of the indicative
+ * 
+ * - Present system (built on the present stem): present, imperfect, future
+ * - Perfect system (built on the perfect stem): perfect, pluperfect, futurePerfect
+ */
+export type VerbTense =
+  | 'present'        // amō - I love
+  | 'imperfect'      // amābam - I was loving
+  | 'future'         // amābō - I will love
+  | 'perfect'        // amāvī - I loved
+  | 'pluperfect'     // amāveram - I had loved
+  | 'futurePerfect'; // amāverō - I will have loved
+
+/**
+ * VerbPerson - Who does the action
+ */
+export type VerbPerson = 'first' | 'second' | 'third';
+
+/**
+ * PersonForms Interface - The forms of one number in one tense
+ * (amō, amās, amat)
+ */
+export interface PersonForms {
+  first: string;
+  second: string;
+  third: string;
+}
+
+/**
+ * TenseForms Interface - The six forms of one tense
+ */
+export interface TenseForms {
+  singular: PersonForms;
+  plural: PersonForms;
+}
+
+/**
+ * VerbParadigm - Every indicative active form of a verb
+ * 
+ * Access a form like: paradigm.imperfect.plural.third → "amabant"
+ */
+export type VerbParadigm = Record<VerbTense, TenseForms>;
+
+/**
+ * Pronoun Types
+ * 
+ * Pronouns (ego, is, hic, quī...) are too irregular to generate from a
+ * dictionary line: their tables are written out in full (static data).
+ */
+
+/**
+ * PronounCategory - The kinds of pronoun the app covers
+ * 
+ * - 'personal': ego, tū (one table for every gender)
+ * - 'demonstrative': is/ea/id, hic/haec/hoc, ille/illa/illud
+ * - 'relative': quī/quae/quod
+ */
+export type PronounCategory = 'personal' | 'demonstrative' | 'relative';
+
+/**
+ * PronounCase - The cases a pronoun table lists
+ * 
+ * No vocative (only tū/vōs have one, and it's the nominative)
+ * and no locative.
+ */
+export type PronounCase = Exclude<LatinCase, 'vocative' | 'locative'>;
+
+/**
+ * PronounCaseForms - The forms of one number
+ * 
+ * Each case is a LIST because some have two accepted forms:
+ * nostrī / nostrum, eīs / iīs. The first one is the one we show.
+ */
+export type PronounCaseForms = Record<PronounCase, string[]>;
+
+/**
+ * PronounTable Interface - One gender of a pronoun, singular and plural
+ * 
+ * gender is missing for personal pronouns: ego is the same
+ * whether the speaker is a man or a woman.
+ */
+export interface PronounTable {
+  gender?: AdjectiveGender;
+  singular: PronounCaseForms;
+  plural: PronounCaseForms;
+}
+
+/**
+ * LatinPronoun Interface
+ * 
+ * Forms are stored WITH macrons, like the verb principal parts.
+ */
+export interface LatinPronoun {
+  id: string;
+  
+  // The discriminator: always 'pronoun'
+  partOfSpeech: 'pronoun';
+  
+  category: PronounCategory;
+  
+  // The dictionary line: "ego", "is, ea, id", "quī, quae, quod"
+  lemma: string;
+  
+  // One table (personal pronouns) or three (masculine, feminine, neuter)
+  tables: PronounTable[];
+  
+  spanishTranslation: string;
+  additionalMeanings: string[];
+  glosses?: GlossMap;
 }
 
 /**
@@ -239,15 +763,74 @@ export type ScreenName =
  * Used for filtering the vocabulary list
  */
 export interface VocabularyFilter {
+  // Filter by part(s) of speech (nouns, adjectives)
+  partsOfSpeech?: PartOfSpeech[];
+  
   // Filter by declension(s)
+  // Adjectives match the declensions they use: '1st-2nd' adjectives
+  // match '1st' and '2nd', '3rd' adjectives match '3rd'
   declensions?: ('1st' | '2nd' | '3rd' | '4th' | '5th')[];
   
   // Filter by gender(s)
   // 'common' is for words that can be both masculine and feminine
+  // Adjectives have no gender of their own, so they never match
   genders?: ('masculine' | 'feminine' | 'neuter' | 'common')[];
   
   // Search text for nominative or translation
   searchText?: string;
+  
+  // Filter by nominative ending(s), without the hyphen
+  // e.g. ['us'] keeps dominus, servus, manus...
+  endings?: string[];
+  
+  // Negated filters: words matching ANY of these are left out
+  // e.g. excludeGenders: ['masculine'] keeps feminine, neuter and common words
+  excludePartsOfSpeech?: PartOfSpeech[];
+  excludeDeclensions?: ('1st' | '2nd' | '3rd' | '4th' | '5th')[];
+  excludeGenders?: ('masculine' | 'feminine' | 'neuter' | 'common')[];
+  excludeEndings?: string[];
+  
+  // Filter by tag(s): words with ANY of these tags are kept
+  // Tags are compared ignoring case and accents ('Natura' = 'natura')
+  tags?: string[];
+  excludeTags?: string[];
+}
+
+/**
+ * VocabularyTag - A tag and how many words have it
+ * 
+ * Used to list the available tags (e.g. as filter chips)
+ */
+export interface VocabularyTag {
+  tag: string;
+  count: number;
+}
+
+/**
+ * VocabularyPackInfo - One entry of the vocabulary pack manifest
+ *
+ * A pack is a word list from one source (usually a textbook). The
+ * manifest describes every pack without loading it, so the app can
+ * list them and only download the ones the learner enables.
+ */
+export interface VocabularyPackInfo {
+  // Stable identifier ('core', 'wheelock'); saved in the user's settings
+  id: string;
+
+  // Name shown to the learner
+  title: string;
+
+  // Where the words come from (textbook, edition, chapters)
+  source: string;
+
+  // Languages the pack has translations in ('es' always comes first)
+  glossLanguages: GlossLanguage[];
+
+  // How many words the pack has (known before loading it)
+  wordCount: number;
+
+  // Optional: one sentence about the pack
+  description?: string;
 }
 
 /**
@@ -267,6 +850,131 @@ export interface SessionConfig {
   selectedDrillTypes: DrillType[];
 }
 
+/**
+ * WordDeck Interface
+ * 
+ * A named word list the user builds and keeps between sessions
+ * (e.g. "Chapter 3" or "Words I always miss").
+ * Only the word IDs are stored, so a deck stays small and always shows
+ * the current version of each word.
+ */
+export interface WordDeck {
+  // Unique deck identifier (e.g. 'deck_1718000000000_k3x9')
+  id: string;
+
+  // Name shown to the user
+  name: string;
+
+  // Word or pronoun IDs, in the order the user arranged them
+  wordIds: string[];
+
+  // ISO 8601 timestamps - strings, because decks are saved as JSON
+  createdAt: string;
+  updatedAt: string;
+}
+
+/**
+ * Deck Export File
+ * 
+ * The content of a .json file with exported decks.
+ * The format tag and version let an import reject unrelated JSON files
+ * and let future versions read older exports.
+ */
+export interface DeckExportFile {
+  format: 'latin-app-decks';
+  version: 1;
+  exportedAt: string;
+  decks: WordDeck[];
+}
+
+/**
+ * ReviewGrade - How well a word was remembered in one review
+ * 
+ * The four grades of spaced-repetition apps (Anki, FSRS):
+ * 'again' = forgotten, 'hard' = remembered with effort,
+ * 'good' = remembered, 'easy' = remembered without thinking
+ */
+export type ReviewGrade = 'again' | 'hard' | 'good' | 'easy';
+
+/**
+ * MemoryPhase - Where a word is in the learning process
+ * 
+ * 'new'      = never reviewed
+ * 'learning' = reviewed, but not remembered well enough yet
+ *              (also words that were forgotten after being learned)
+ * 'review'   = learned; comes back on its due date
+ */
+export type MemoryPhase = 'new' | 'learning' | 'review';
+
+/**
+ * WordMemory Interface
+ * 
+ * What the scheduler remembers about one word: how well the learner
+ * knows it and when it should be practised again.
+ * Saved as JSON, so dates are ISO 8601 strings.
+ */
+export interface WordMemory {
+  // Word or pronoun ID
+  wordId: string;
+
+  phase: MemoryPhase;
+
+  // Days until the chance of remembering the word drops to 90%
+  // Grows with every successful review
+  stability: number;
+
+  // How hard the word is for this learner, from 1 (easy) to 10 (hard)
+  difficulty: number;
+
+  // When the word should be practised again
+  due: string;
+
+  // When it was last practised
+  lastReview: string;
+
+  // Number of reviews, and how many times it was forgotten after being learned
+  reviews: number;
+  lapses: number;
+}
+
+/**
+ * ReviewResult Interface
+ * 
+ * The part of a drill result the scheduler needs.
+ * The web app's DrillResult has all these fields (plus the word itself).
+ */
+export interface ReviewResult {
+  wordId: string;
+  isCorrect: boolean;
+
+  // Seconds spent answering
+  timeSpent: number;
+
+  // When it was answered (milliseconds since 1970, like Date.now())
+  timestamp: number;
+
+  // Skipped drills say nothing about the word and are ignored
+  wasSkipped?: boolean;
+}
+
+/**
+ * ReviewQueues Interface
+ * 
+ * Word IDs split by what the learner should practise next.
+ * Each word is in at most one queue.
+ */
+export interface ReviewQueues {
+  // Learned words whose due date has passed, the most likely to be
+  // forgotten first
+  due: string[];
+
+  // Words being learned, the ones due soonest first
+  learning: string[];
+
+  // Words that were never reviewed, in their original order
+  new: string[];
+}
+
 /**
  * API Response Types
  * 
@@ -330,4 +1038,7 @@ export const DECLENSION_MAP: Record<number, string> = {
   3: '3rd',
   4: '4th',
   5: '5th'
-};
\ No newline at end of file
+};
+
+// Storage types live in their own file (sessions, progress, preferences)
+export * from './storage';
\ No newline at end of file
@@ -0,0 +1,159 @@
+/**
+ * STORAGE TYPES
+ * 
+ * The shape of everything the app saves on the device: finished study
+ * sessions, the per-word progress of the spaced-repetition scheduler,
+ * the user's decks and imported words, and the user's preferences.
+ * 
+ * The saved data carries a schema version. When a new version of the app
+ * changes one of these types, it adds a migration that turns the old
+ * data into the new shape (see the storage service in apps/web).
+ */
+
+import type { GlossLanguage, NormalizedLatinWord, WordDeck, WordMemory } from './index';
+
+/**
+ * FontSize - The text sizes the user can choose
+ */
+export type FontSize = 'small' | 'medium' | 'large' | 'extraLarge';
+
+/**
+ * StoredPreferences Interface
+ * 
+ * The settings of the app (AppSettingsContext) and the vocabulary
+ * packs the user chose
+ */
+export interface StoredPreferences {
+  fontSize: FontSize;
+  
+  // Language the translations are shown in
+  glossLanguage: GlossLanguage;
+  
+  // Vocabulary packs the user studies ('core', 'wheelock'...)
+  enabledPackIds: string[];
+}
+
+/**
+ * StoredDrillResult Interface
+ * 
+ * One drill of a finished session
+ */
+export interface StoredDrillResult {
+  drillId: string;
+  wordId: string;
+  
+  // How the word is written in a dictionary ('rosa, rosae', 'hic, haec, hoc'),
+  // so the history still reads well if the word's pack is turned off later
+  wordLabel: string;
+  
+  // The app's drill type ('multipleChoice', 'declensionTable'...)
+  drillType: string;
+  
+  // Direction of translation drills ('latinToSpanish', 'spanishToLatin')
+  questionType?: string;
+  
+  isCorrect: boolean;
+  wasSkipped: boolean;
+  
+  // Seconds spent on the drill
+  timeSpent: number;
+  
+  answeredAt: string;
+}
+
+/**
+ * StoredSession Interface
+ * 
+ * A finished study session: its configuration and every drill result.
+ * Dates are ISO 8601 strings, because the data is saved as JSON.
+ */
+export interface StoredSession {
+  // Unique session identifier (e.g. 'session_1718000000000_k3x9')
+  id: string;
+  
+  startedAt: string;
+  completedAt: string;
+  
+  // Length the user chose, in minutes
+  durationMinutes: number;
+  
+  // The words and drill types of the session
+  wordIds: string[];
+  drillTypes: string[];
+  
+  // Whether typed Latin answers needed the macrons (ā, ē...)
+  strictMacrons: boolean;
+  
+  // How the drills went: the totals, and each drill in the order answered
+  correct: number;
+  incorrect: number;
+  skipped: number;
+  drillResults: StoredDrillResult[];
+}
+
+/**
+ * StorageData Interface
+ * 
+ * Everything the storage service keeps. Each property is saved as a
+ * separate record, so a change to the preferences doesn't rewrite the
+ * whole session history.
+ */
+export interface StorageData {
+  // Newest first
+  sessions: StoredSession[];
+  
+  // Scheduler state per word: word ID → WordMemory
+  progress: Record<string, WordMemory>;
+  
+  // The user's decks, in the order they were created
+  decks: WordDeck[];
+  
+  // Words the user imported (ids start with 'user_')
+  userWords: NormalizedLatinWord[];
+  
+  preferences: StoredPreferences;
+}
+
+/**
+ * StorageRecordKey - The name of one record ('sessions', 'progress'...)
+ */
+export type StorageRecordKey = keyof StorageData;
+
+/**
+ * StorageBackendName - Where the data is actually kept
+ * 
+ * 'memory' means nothing could be saved: the data is lost when the tab
+ * is closed (private browsing, storage disabled...).
+ */
+export type StorageBackendName = 'indexedDB' | 'localStorage' | 'memory';
+
+/**
+ * StorageProblem - Something that went wrong while opening or saving
+ * 
+ * 'quota-exceeded'   = the device is out of space for the app
+ * 'corrupted-data'   = a record could not be read and was reset
+ * 'migration-failed' = old data could not be upgraded (it is kept untouched)
+ * 'newer-version'    = the data was saved by a newer version of the app
+ * 'unavailable'      = no persistent storage could be opened
+ */
+export type StorageProblem =
+  | 'quota-exceeded'
+  | 'corrupted-data'
+  | 'migration-failed'
+  | 'newer-version'
+  | 'unavailable';
+
+/**
+ * StorageStatus Interface
+ * 
+ * What the storage service reports about itself
+ */
+export interface StorageStatus {
+  backend: StorageBackendName;
+  
+  // Version of the saved data (after migrations)
+  schemaVersion: number;
+  
+  // Problems since the app was opened, without repeats
+  problems: StorageProblem[];
+}